@@ -0,0 +1,451 @@
+import React, { useEffect, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Progress } from '@/components/ui/progress';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Loader2, ListChecks } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { useToast } from '@/hooks/use-toast';
+import { usePermissions } from '@/hooks/usePermissions';
+
+export interface BulkEditableAsset {
+  id: string;
+  code: string;
+  name: string;
+  status: string | null;
+  category_id: string | null;
+  department_id: string | null;
+  unit_id: string | null;
+  assigned_to: string | null;
+  current_location: string | null;
+}
+
+interface NamedOption {
+  id: string;
+  name: string;
+}
+
+interface ProfileOption {
+  user_id: string;
+  full_name: string | null;
+}
+
+interface Unit extends NamedOption {
+  department_id: string;
+}
+
+interface AssetBulkEditDialogProps {
+  assets: BulkEditableAsset[];
+  categories: NamedOption[];
+  profiles: ProfileOption[];
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onUpdated?: () => void;
+}
+
+type BulkField = 'status' | 'category' | 'department' | 'responsible' | 'location';
+
+const fieldLabels: Record<BulkField, string> = {
+  status: 'Status',
+  category: 'Categoria',
+  department: 'Departamento / Unidade',
+  responsible: 'Responsável',
+  location: 'Localização',
+};
+
+// Disposal goes through its own wizard, so it is not offered here
+const statusLabels: Record<string, string> = {
+  active: 'Ativo',
+  maintenance: 'Manutenção',
+  inactive: 'Inativo',
+};
+
+const NO_UNIT = 'none';
+const UNASSIGNED = 'unassigned';
+
+const steps = ['Alterações', 'Confirmação'];
+
+const emptyBulkForm = {
+  enabled: {} as Partial<Record<BulkField, boolean>>,
+  status: '',
+  category_id: '',
+  department_id: '',
+  unit_id: NO_UNIT,
+  assigned_to: UNASSIGNED,
+  current_location: '',
+};
+
+interface AssetChange {
+  label: string;
+  from: string;
+  to: string;
+}
+
+const AssetBulkEditDialog: React.FC<AssetBulkEditDialogProps> = ({
+  assets,
+  categories,
+  profiles,
+  open,
+  onOpenChange,
+  onUpdated,
+}) => {
+  const { toast } = useToast();
+  const { canManageAsset } = usePermissions();
+  const [step, setStep] = useState(0);
+  const [loading, setLoading] = useState(false);
+  const [formData, setFormData] = useState(emptyBulkForm);
+  const [departments, setDepartments] = useState<NamedOption[]>([]);
+  const [units, setUnits] = useState<Unit[]>([]);
+
+  useEffect(() => {
+    if (open) fetchDepartments();
+  }, [open]);
+
+  const fetchDepartments = async () => {
+    const [departmentsResult, unitsResult] = await Promise.all([
+      supabase.from('departments').select('id, name').order('name'),
+      supabase.from('units').select('id, name, department_id').order('name'),
+    ]);
+    if (departmentsResult.data) setDepartments(departmentsResult.data);
+    if (unitsResult.data) setUnits(unitsResult.data);
+  };
+
+  const handleOpenChange = (value: boolean) => {
+    if (!value) {
+      setStep(0);
+      setFormData(emptyBulkForm);
+    }
+    onOpenChange(value);
+  };
+
+  const toggleField = (field: BulkField, checked: boolean) =>
+    setFormData({ ...formData, enabled: { ...formData.enabled, [field]: checked } });
+
+  const isEnabled = (field: BulkField) => !!formData.enabled[field];
+
+  // Only the enabled fields are sent; a new department always carries its unit
+  // (or none) so the asset never keeps a unit from another department
+  const buildChanges = () => {
+    const changes: Record<string, string | null> = {};
+    if (isEnabled('status')) changes.status = formData.status;
+    if (isEnabled('category')) changes.category_id = formData.category_id;
+    if (isEnabled('department')) {
+      changes.department_id = formData.department_id;
+      changes.unit_id = formData.unit_id === NO_UNIT ? null : formData.unit_id;
+    }
+    if (isEnabled('responsible')) changes.assigned_to = formData.assigned_to === UNASSIGNED ? null : formData.assigned_to;
+    if (isEnabled('location')) changes.current_location = formData.current_location.trim() || null;
+    return changes;
+  };
+
+  const nameOf = (options: NamedOption[], id: string | null, empty: string) =>
+    (id && options.find(option => option.id === id)?.name) || empty;
+
+  const profileName = (userId: string | null) =>
+    userId ? profiles.find(profile => profile.user_id === userId)?.full_name || 'Usuário' : 'Não atribuído';
+
+  const describeChanges = (asset: BulkEditableAsset, changes: Record<string, string | null>) => {
+    const result: AssetChange[] = [];
+    const compare = (label: string, key: keyof BulkEditableAsset, display: (value: string | null) => string) => {
+      if (!(key in changes) || (asset[key] || null) === changes[key]) return;
+      result.push({ label, from: display(asset[key] || null), to: display(changes[key]) });
+    };
+    compare('Status', 'status', value => statusLabels[value || ''] || value || '—');
+    compare('Categoria', 'category_id', value => nameOf(categories, value, 'Sem categoria'));
+    compare('Departamento', 'department_id', value => nameOf(departments, value, 'Sem departamento'));
+    compare('Unidade', 'unit_id', value => nameOf(units, value, 'Sem unidade'));
+    compare('Responsável', 'assigned_to', profileName);
+    compare('Localização', 'current_location', value => value || '—');
+    return result;
+  };
+
+  const changes = buildChanges();
+  const skipped = assets.filter(asset => asset.status === 'disposed');
+  // Managers only change assets of their own department
+  const restricted = assets.filter(asset => asset.status !== 'disposed' && !canManageAsset(asset.department_id));
+  const plan = assets
+    .filter(asset => asset.status !== 'disposed' && canManageAsset(asset.department_id))
+    .map(asset => ({ asset, changes: describeChanges(asset, changes) }));
+  const changing = plan.filter(item => item.changes.length > 0);
+  const unchanged = plan.length - changing.length;
+
+  const validateStep = () => {
+    const enabledFields = (Object.keys(formData.enabled) as BulkField[]).filter(isEnabled);
+    if (enabledFields.length === 0) {
+      toast({
+        title: "Erro",
+        description: "Marque ao menos um campo para alterar.",
+        variant: "destructive",
+      });
+      return false;
+    }
+    const missing = enabledFields.filter(field =>
+      (field === 'status' && !formData.status) ||
+      (field === 'category' && !formData.category_id) ||
+      (field === 'department' && !formData.department_id)
+    );
+    if (missing.length > 0) {
+      toast({
+        title: "Erro",
+        description: `Escolha o novo valor de: ${missing.map(field => fieldLabels[field]).join(', ')}.`,
+        variant: "destructive",
+      });
+      return false;
+    }
+    return true;
+  };
+
+  const handleNext = () => {
+    if (validateStep()) {
+      setStep(step + 1);
+    }
+  };
+
+  const handleConfirm = async () => {
+    setLoading(true);
+    try {
+      const { data: updated, error } = await supabase.rpc('bulk_update_assets', {
+        p_asset_ids: changing.map(item => item.asset.id),
+        p_changes: changes,
+      });
+
+      if (error) throw error;
+
+      toast({
+        title: "Ativos atualizados",
+        description: `${updated} ${updated === 1 ? 'ativo alterado' : 'ativos alterados'}. Cada alteração foi registrada no histórico.`,
+      });
+
+      handleOpenChange(false);
+      onUpdated?.();
+    } catch (error) {
+      console.error('Error bulk updating assets:', error);
+      toast({
+        title: "Erro",
+        description: error.message === 'Unit does not belong to the department'
+          ? "A unidade escolhida não pertence ao departamento."
+          : error.message === 'Permission denied'
+            ? "Você não tem permissão para alterar alguns dos ativos selecionados."
+            : "Não foi possível alterar os ativos selecionados.",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const departmentUnits = units.filter(unit => unit.department_id === formData.department_id);
+
+  const fieldRow = (field: BulkField, control: React.ReactNode) => (
+    <div className="grid grid-cols-[auto_9rem_1fr] items-center gap-3">
+      <Checkbox
+        id={`bulk-${field}`}
+        checked={isEnabled(field)}
+        onCheckedChange={(checked) => toggleField(field, checked === true)}
+      />
+      <Label htmlFor={`bulk-${field}`}>{fieldLabels[field]}</Label>
+      <div className={cn(!isEnabled(field) && "pointer-events-none opacity-50")}>{control}</div>
+    </div>
+  );
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <ListChecks className="h-5 w-5" />
+            Editar Ativos em Lote
+          </DialogTitle>
+          <DialogDescription>
+            {assets.length} {assets.length === 1 ? 'ativo selecionado' : 'ativos selecionados'}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2">
+          <div className="flex justify-between text-xs text-muted-foreground">
+            {steps.map((label, index) => (
+              <span key={label} className={cn(index === step && "font-semibold text-foreground")}>
+                {index + 1}. {label}
+              </span>
+            ))}
+          </div>
+          <Progress value={((step + 1) / steps.length) * 100} />
+        </div>
+
+        {step === 0 && (
+          <div className="space-y-4">
+            <p className="text-sm text-muted-foreground">
+              Marque os campos que devem receber o mesmo valor em todos os ativos selecionados.
+            </p>
+
+            {fieldRow('status', (
+              <Select value={formData.status} onValueChange={(value) => setFormData({ ...formData, status: value })}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Novo status" />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(statusLabels).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            ))}
+
+            {fieldRow('category', (
+              <Select value={formData.category_id} onValueChange={(value) => setFormData({ ...formData, category_id: value })}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Nova categoria" />
+                </SelectTrigger>
+                <SelectContent>
+                  {categories.map(category => (
+                    <SelectItem key={category.id} value={category.id}>{category.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            ))}
+
+            {fieldRow('department', (
+              <div className="grid grid-cols-2 gap-2">
+                <Select
+                  value={formData.department_id}
+                  onValueChange={(value) => setFormData({ ...formData, department_id: value, unit_id: NO_UNIT })}
+                >
+                  <SelectTrigger>
+                    <SelectValue placeholder="Departamento" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {departments.filter(department => canManageAsset(department.id)).map(department => (
+                      <SelectItem key={department.id} value={department.id}>{department.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Select
+                  value={formData.unit_id}
+                  onValueChange={(value) => setFormData({ ...formData, unit_id: value })}
+                  disabled={!formData.department_id}
+                >
+                  <SelectTrigger>
+                    <SelectValue placeholder="Unidade" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={NO_UNIT}>Sem unidade</SelectItem>
+                    {departmentUnits.map(unit => (
+                      <SelectItem key={unit.id} value={unit.id}>{unit.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            ))}
+
+            {fieldRow('responsible', (
+              <Select value={formData.assigned_to} onValueChange={(value) => setFormData({ ...formData, assigned_to: value })}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Novo responsável" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={UNASSIGNED}>Não atribuído</SelectItem>
+                  {profiles.map(profile => (
+                    <SelectItem key={profile.user_id} value={profile.user_id}>
+                      {profile.full_name || profile.user_id}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            ))}
+
+            {fieldRow('location', (
+              <Input
+                value={formData.current_location}
+                onChange={(e) => setFormData({ ...formData, current_location: e.target.value })}
+                placeholder="Nova localização (vazio para limpar)"
+              />
+            ))}
+          </div>
+        )}
+
+        {step === 1 && (
+          <div className="space-y-4">
+            <div className="rounded-md border p-3 text-sm space-y-1">
+              <p>
+                <span className="font-semibold">{changing.length}</span> {changing.length === 1 ? 'ativo será alterado' : 'ativos serão alterados'}
+                {unchanged > 0 && <>, {unchanged} já {unchanged === 1 ? 'está' : 'estão'} com esses valores</>}.
+              </p>
+              {skipped.length > 0 && (
+                <p className="text-muted-foreground">
+                  {skipped.length} {skipped.length === 1 ? 'ativo baixado será ignorado' : 'ativos baixados serão ignorados'}.
+                </p>
+              )}
+              {restricted.length > 0 && (
+                <p className="text-muted-foreground">
+                  {restricted.length} {restricted.length === 1 ? 'ativo de outro departamento será ignorado' : 'ativos de outros departamentos serão ignorados'}.
+                </p>
+              )}
+              <p className="text-muted-foreground">Cada ativo alterado recebe um registro próprio no histórico.</p>
+            </div>
+
+            {changing.length > 0 && (
+              <ScrollArea className="h-64 rounded-md border">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Ativo</TableHead>
+                      <TableHead>Alterações</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {changing.map(({ asset, changes: assetChanges }) => (
+                      <TableRow key={asset.id}>
+                        <TableCell className="align-top">
+                          <div className="font-medium">{asset.code}</div>
+                          <div className="text-xs text-muted-foreground">{asset.name}</div>
+                        </TableCell>
+                        <TableCell className="space-y-1 text-xs">
+                          {assetChanges.map(change => (
+                            <div key={change.label}>
+                              <span className="font-medium">{change.label}:</span>{' '}
+                              <span className="text-muted-foreground line-through">{change.from}</span>{' → '}
+                              <span>{change.to}</span>
+                            </div>
+                          ))}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </ScrollArea>
+            )}
+          </div>
+        )}
+
+        <div className="flex justify-between">
+          <Button
+            type="button"
+            variant="outline"
+            onClick={() => (step === 0 ? handleOpenChange(false) : setStep(step - 1))}
+            disabled={loading}
+          >
+            {step === 0 ? 'Cancelar' : 'Voltar'}
+          </Button>
+          {step < steps.length - 1 ? (
+            <Button type="button" onClick={handleNext}>
+              Próximo
+            </Button>
+          ) : (
+            <Button type="button" onClick={handleConfirm} disabled={loading || changing.length === 0}>
+              {loading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Confirmar Alterações
+            </Button>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default AssetBulkEditDialog;
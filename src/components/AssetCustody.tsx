@@ -0,0 +1,497 @@
+import React, { useState, useEffect } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useToast } from '@/hooks/use-toast';
+import { usePermissions } from '@/hooks/usePermissions';
+import { format } from 'date-fns';
+import { ptBR } from 'date-fns/locale';
+import { ArrowRightLeft, Camera, HandHelping, Loader2, Undo2 } from 'lucide-react';
+import {
+  formatDueDate,
+  getLoanConditionLabel,
+  isLoanOverdue,
+  LOAN_CONDITION_LABELS,
+  LOAN_ERROR_MESSAGES,
+  LoanCondition,
+  todayDate,
+} from '@/lib/custody';
+
+interface CustodyAsset {
+  id: string;
+  name: string;
+  status?: string | null;
+  deleted_at?: string | null;
+}
+
+interface AssetCustodyProps {
+  asset: CustodyAsset;
+  onChanged?: () => void;
+  // Lists the loans without lending or receiving the asset
+  readOnly?: boolean;
+}
+
+interface LoanRow {
+  id: string;
+  borrower_id: string;
+  checked_out_at: string;
+  due_date: string;
+  checkout_condition: string;
+  checkout_notes: string | null;
+  returned_at: string | null;
+  return_condition: string | null;
+  return_notes: string | null;
+  return_photos: string[];
+  borrower: { full_name: string | null } | null;
+}
+
+interface Borrower {
+  user_id: string;
+  full_name: string | null;
+}
+
+const AssetCustody: React.FC<AssetCustodyProps> = ({ asset, onChanged, readOnly = false }) => {
+  const [loans, setLoans] = useState<LoanRow[]>([]);
+  const [borrowers, setBorrowers] = useState<Borrower[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [checkOutOpen, setCheckOutOpen] = useState(false);
+  const [checkInOpen, setCheckInOpen] = useState(false);
+  const [checkOutData, setCheckOutData] = useState({
+    borrower_id: '',
+    due_date: '',
+    condition: 'good' as LoanCondition,
+    notes: '',
+  });
+  const [checkInData, setCheckInData] = useState({
+    condition: 'good' as LoanCondition,
+    notes: '',
+    photos: [] as File[],
+  });
+  const { companyId } = usePermissions();
+  const { toast } = useToast();
+
+  useEffect(() => {
+    fetchLoans();
+  }, [asset.id]);
+
+  // Only people still active in the company can receive an asset
+  useEffect(() => {
+    if (readOnly || !companyId) return;
+
+    Promise.all([
+      supabase
+        .from('profiles')
+        .select('user_id, full_name')
+        .order('full_name'),
+      supabase
+        .from('company_members')
+        .select('user_id')
+        .eq('company_id', companyId)
+        .is('deactivated_at', null),
+    ]).then(([profilesResult, membersResult]) => {
+      if (profilesResult.error || membersResult.error) {
+        console.error('Error fetching profiles:', profilesResult.error || membersResult.error);
+      }
+      const activeIds = (membersResult.data || []).map(member => member.user_id);
+      setBorrowers((profilesResult.data || []).filter(profile => activeIds.includes(profile.user_id)));
+    });
+  }, [readOnly, companyId]);
+
+  const fetchLoans = async () => {
+    setLoading(true);
+    const { data, error } = await supabase
+      .from('asset_loans')
+      .select('id, borrower_id, checked_out_at, due_date, checkout_condition, checkout_notes, returned_at, return_condition, return_notes, return_photos, borrower:profiles!asset_loans_borrower_id_fkey (full_name)')
+      .eq('asset_id', asset.id)
+      .order('checked_out_at', { ascending: false });
+
+    if (error) {
+      console.error('Error fetching loans:', error);
+      toast({
+        title: "Erro",
+        description: "Erro ao carregar empréstimos do ativo.",
+        variant: "destructive",
+      });
+    } else {
+      setLoans((data as LoanRow[]) || []);
+    }
+    setLoading(false);
+  };
+
+  const openLoan = loans.find(loan => !loan.returned_at);
+  const inService = !asset.deleted_at && asset.status !== 'disposed';
+
+  const openCheckOut = () => {
+    setCheckOutData({ borrower_id: '', due_date: '', condition: 'good', notes: '' });
+    setCheckOutOpen(true);
+  };
+
+  const openCheckIn = () => {
+    setCheckInData({ condition: 'good', notes: '', photos: [] });
+    setCheckInOpen(true);
+  };
+
+  const showError = (error: Error, fallback: string) => {
+    toast({
+      title: "Erro",
+      description: LOAN_ERROR_MESSAGES[error.message] || fallback,
+      variant: "destructive",
+    });
+  };
+
+  const handleCheckOut = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!checkOutData.borrower_id || !checkOutData.due_date) {
+      toast({
+        title: "Erro",
+        description: "Informe quem recebe o ativo e a data prevista de devolução.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const { error } = await supabase.rpc('check_out_asset', {
+        p_asset_id: asset.id,
+        p_borrower_id: checkOutData.borrower_id,
+        p_due_date: checkOutData.due_date,
+        p_condition: checkOutData.condition,
+        p_notes: checkOutData.notes,
+      });
+
+      if (error) throw error;
+
+      toast({
+        title: "Ativo emprestado",
+        description: `"${asset.name}" deve ser devolvido até ${formatDueDate(checkOutData.due_date)}.`,
+      });
+      setCheckOutOpen(false);
+      fetchLoans();
+      onChanged?.();
+    } catch (error) {
+      console.error('Error checking out asset:', error);
+      showError(error, "Não foi possível registrar o empréstimo.");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const uploadPhoto = async (loanId: string, file: File, index: number) => {
+    const path = `${asset.id}/loan_${loanId}_${Date.now()}_${index}.${file.name.split('.').pop()}`;
+    const { error } = await supabase.storage
+      .from('asset_documents')
+      .upload(path, file, {
+        cacheControl: '3600',
+        upsert: false
+      });
+
+    if (error) throw error;
+
+    const { data: { publicUrl } } = supabase.storage
+      .from('asset_documents')
+      .getPublicUrl(path);
+
+    return { path, publicUrl };
+  };
+
+  const handleCheckIn = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!openLoan) return;
+
+    setSaving(true);
+    // Photos uploaded so far, removed again if the return is not recorded
+    const uploaded: string[] = [];
+    try {
+      const photos: string[] = [];
+      for (const [index, file] of checkInData.photos.entries()) {
+        const { path, publicUrl } = await uploadPhoto(openLoan.id, file, index);
+        uploaded.push(path);
+        photos.push(publicUrl);
+      }
+
+      const { error } = await supabase.rpc('check_in_asset', {
+        p_loan_id: openLoan.id,
+        p_condition: checkInData.condition,
+        p_notes: checkInData.notes,
+        p_photos: photos,
+      });
+
+      if (error) throw error;
+
+      toast({
+        title: "Devolução registrada",
+        description: `"${asset.name}" voltou em estado ${getLoanConditionLabel(checkInData.condition).toLowerCase()}.`,
+      });
+      setCheckInOpen(false);
+      fetchLoans();
+      onChanged?.();
+    } catch (error) {
+      console.error('Error checking in asset:', error);
+      if (uploaded.length > 0) {
+        await supabase.storage.from('asset_documents').remove(uploaded);
+      }
+      showError(error, "Não foi possível registrar a devolução.");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const conditionSelect = (id: string, value: LoanCondition, onChange: (value: LoanCondition) => void) => (
+    <Select value={value} onValueChange={onChange}>
+      <SelectTrigger id={id}>
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {Object.entries(LOAN_CONDITION_LABELS).map(([condition, label]) => (
+          <SelectItem key={condition} value={condition}>{label}</SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div className="space-y-1.5">
+          <CardTitle className="flex items-center gap-2">
+            <ArrowRightLeft className="h-5 w-5" />
+            Custódia
+          </CardTitle>
+          <CardDescription>
+            Empréstimos do ativo com prazo de devolução e estado na saída e no retorno
+          </CardDescription>
+        </div>
+        {!readOnly && (
+          openLoan ? (
+            <Button size="sm" onClick={openCheckIn}>
+              <Undo2 className="h-4 w-4 mr-2" />
+              Registrar devolução
+            </Button>
+          ) : (
+            <Button size="sm" onClick={openCheckOut} disabled={loading || !inService}>
+              <HandHelping className="h-4 w-4 mr-2" />
+              Emprestar
+            </Button>
+          )
+        )}
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {openLoan && (
+          <div className="rounded-lg border p-4 text-sm space-y-1">
+            <div className="flex items-center justify-between">
+              <span className="font-medium">
+                Emprestado para {openLoan.borrower?.full_name || 'Usuário'}
+              </span>
+              {isLoanOverdue(openLoan) ? (
+                <Badge variant="destructive">Atrasado</Badge>
+              ) : (
+                <Badge variant="secondary">Em uso</Badge>
+              )}
+            </div>
+            <p className="text-muted-foreground">
+              Desde {format(new Date(openLoan.checked_out_at), 'dd/MM/yyyy', { locale: ptBR })}, devolução prevista em {formatDueDate(openLoan.due_date)}
+            </p>
+            {openLoan.checkout_notes && (
+              <p className="text-muted-foreground">{openLoan.checkout_notes}</p>
+            )}
+          </div>
+        )}
+
+        {loading ? (
+          <div className="flex justify-center p-8">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+          </div>
+        ) : loans.length === 0 ? (
+          <p className="text-center text-muted-foreground py-8">
+            Nenhum empréstimo registrado.
+          </p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Pessoa</TableHead>
+                <TableHead>Saída</TableHead>
+                <TableHead>Prazo</TableHead>
+                <TableHead>Devolução</TableHead>
+                <TableHead>Estado</TableHead>
+                <TableHead>Observações</TableHead>
+                <TableHead>Fotos</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {loans.map((loan) => (
+                <TableRow key={loan.id}>
+                  <TableCell className="font-medium">{loan.borrower?.full_name || 'Usuário'}</TableCell>
+                  <TableCell>{format(new Date(loan.checked_out_at), 'dd/MM/yyyy', { locale: ptBR })}</TableCell>
+                  <TableCell>{formatDueDate(loan.due_date)}</TableCell>
+                  <TableCell>
+                    {loan.returned_at ? (
+                      format(new Date(loan.returned_at), 'dd/MM/yyyy', { locale: ptBR })
+                    ) : isLoanOverdue(loan) ? (
+                      <Badge variant="destructive">Atrasado</Badge>
+                    ) : (
+                      <Badge variant="secondary">Em uso</Badge>
+                    )}
+                  </TableCell>
+                  <TableCell>
+                    {getLoanConditionLabel(loan.checkout_condition)}
+                    {loan.returned_at && ` → ${getLoanConditionLabel(loan.return_condition)}`}
+                  </TableCell>
+                  <TableCell
+                    className="max-w-xs truncate"
+                    title={[loan.checkout_notes, loan.return_notes].filter(Boolean).join('\n')}
+                  >
+                    {loan.return_notes || loan.checkout_notes || '—'}
+                  </TableCell>
+                  <TableCell>
+                    {loan.return_photos.length > 0 ? (
+                      <div className="flex gap-1">
+                        {loan.return_photos.map((url, index) => (
+                          <Button key={url} variant="outline" size="sm" asChild>
+                            <a href={url} target="_blank" rel="noopener noreferrer" title={`Foto ${index + 1}`}>
+                              <Camera className="h-4 w-4" />
+                            </a>
+                          </Button>
+                        ))}
+                      </div>
+                    ) : '—'}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+
+      <Dialog open={checkOutOpen} onOpenChange={setCheckOutOpen}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>Emprestar ativo</DialogTitle>
+            <DialogDescription>
+              A pessoa passa a ser a responsável por "{asset.name}" até a devolução.
+            </DialogDescription>
+          </DialogHeader>
+          <form onSubmit={handleCheckOut} className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="borrower_id">Emprestar para *</Label>
+              <Select
+                value={checkOutData.borrower_id}
+                onValueChange={(value) => setCheckOutData(prev => ({ ...prev, borrower_id: value }))}
+              >
+                <SelectTrigger id="borrower_id">
+                  <SelectValue placeholder="Selecione uma pessoa" />
+                </SelectTrigger>
+                <SelectContent>
+                  {borrowers.map((borrower) => (
+                    <SelectItem key={borrower.user_id} value={borrower.user_id}>
+                      {borrower.full_name || borrower.user_id}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="due_date">Devolução Prevista *</Label>
+                <Input
+                  id="due_date"
+                  type="date"
+                  value={checkOutData.due_date}
+                  min={todayDate()}
+                  onChange={(e) => setCheckOutData(prev => ({ ...prev, due_date: e.target.value }))}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="checkout_condition">Estado na Saída *</Label>
+                {conditionSelect('checkout_condition', checkOutData.condition, (value) =>
+                  setCheckOutData(prev => ({ ...prev, condition: value }))
+                )}
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="checkout_notes">Observações</Label>
+              <Textarea
+                id="checkout_notes"
+                value={checkOutData.notes}
+                onChange={(e) => setCheckOutData(prev => ({ ...prev, notes: e.target.value }))}
+                placeholder="Acessórios entregues, riscos e avarias já existentes..."
+                rows={3}
+              />
+            </div>
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => setCheckOutOpen(false)}>
+                Cancelar
+              </Button>
+              <Button type="submit" disabled={saving}>
+                {saving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                Emprestar
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={checkInOpen} onOpenChange={setCheckInOpen}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>Registrar devolução</DialogTitle>
+            <DialogDescription>
+              {openLoan
+                ? `"${asset.name}" emprestado para ${openLoan.borrower?.full_name || 'Usuário'} em estado ${getLoanConditionLabel(openLoan.checkout_condition).toLowerCase()}.`
+                : ''}
+            </DialogDescription>
+          </DialogHeader>
+          <form onSubmit={handleCheckIn} className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="return_condition">Estado na Devolução *</Label>
+              {conditionSelect('return_condition', checkInData.condition, (value) =>
+                setCheckInData(prev => ({ ...prev, condition: value }))
+              )}
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="return_notes">Observações</Label>
+              <Textarea
+                id="return_notes"
+                value={checkInData.notes}
+                onChange={(e) => setCheckInData(prev => ({ ...prev, notes: e.target.value }))}
+                placeholder="Avarias, peças faltando, quilometragem..."
+                rows={3}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="return_photos">Fotos</Label>
+              <Input
+                id="return_photos"
+                type="file"
+                accept="image/*"
+                multiple
+                onChange={(e) => setCheckInData(prev => ({ ...prev, photos: Array.from(e.target.files || []) }))}
+              />
+            </div>
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => setCheckInOpen(false)}>
+                Cancelar
+              </Button>
+              <Button type="submit" disabled={saving}>
+                {saving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                Registrar devolução
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+};
+
+export default AssetCustody;
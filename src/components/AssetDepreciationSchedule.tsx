@@ -0,0 +1,182 @@
+import React, { useState, useEffect } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useToast } from '@/hooks/use-toast';
+import { format } from 'date-fns';
+import { ptBR } from 'date-fns/locale';
+import { CalendarRange, FileSpreadsheet, Lock } from 'lucide-react';
+import { DEPRECIATION_METHOD_LABELS, DepreciationMethod } from '@/lib/depreciation';
+import { formatMoney } from '@/lib/currency';
+
+interface AssetDepreciationScheduleProps {
+  assetId: string;
+  assetCode: string;
+  currency?: string;
+}
+
+interface ScheduleRow {
+  period: string;
+  method: string;
+  opening_value: number;
+  charge: number;
+  valuation_adjustment: number;
+  accumulated_depreciation: number;
+  closing_value: number;
+  fiscal_rate: number | null;
+  fiscal_charge: number;
+  fiscal_accumulated_depreciation: number;
+  is_closed: boolean;
+}
+
+const formatPeriod = (period: string) =>
+  format(new Date(`${period}T00:00:00`), 'MMM/yyyy', { locale: ptBR });
+
+const AssetDepreciationSchedule: React.FC<AssetDepreciationScheduleProps> = ({ assetId, assetCode, currency }) => {
+  const [rows, setRows] = useState<ScheduleRow[]>([]);
+  const [loading, setLoading] = useState(true);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    fetchSchedule();
+  }, [assetId]);
+
+  const fetchSchedule = async () => {
+    setLoading(true);
+    const { data, error } = await supabase.rpc('get_depreciation_schedule', { p_asset_id: assetId });
+
+    if (error) {
+      console.error('Error fetching depreciation schedule:', error);
+      toast({
+        title: "Erro",
+        description: "Erro ao carregar o cronograma de depreciação.",
+        variant: "destructive",
+      });
+    } else {
+      setRows(data || []);
+    }
+    setLoading(false);
+  };
+
+  const formatCurrency = (value: number) => formatMoney(value, currency);
+
+  const getMethodLabel = (method: string) =>
+    DEPRECIATION_METHOD_LABELS[method as DepreciationMethod] || method;
+
+  const closedCount = rows.filter(row => row.is_closed).length;
+
+  const handleExportCSV = () => {
+    const headers = ['Competência', 'Situação', 'Método', 'Valor Inicial', 'Depreciação do Mês', 'Ajuste de Reavaliação/Impairment', 'Depreciação Acumulada', 'Valor Contábil Final', 'Taxa Fiscal (% a.a.)', 'Depreciação Fiscal do Mês', 'Depreciação Fiscal Acumulada'];
+    const csvRows = [headers.join(',')];
+
+    rows.forEach(row => {
+      csvRows.push([
+        row.period.slice(0, 7),
+        row.is_closed ? 'Fechado' : 'Projetado',
+        `"${getMethodLabel(row.method)}"`,
+        Number(row.opening_value).toFixed(2),
+        Number(row.charge).toFixed(2),
+        Number(row.valuation_adjustment).toFixed(2),
+        Number(row.accumulated_depreciation).toFixed(2),
+        Number(row.closing_value).toFixed(2),
+        row.fiscal_rate ?? '',
+        Number(row.fiscal_charge).toFixed(2),
+        Number(row.fiscal_accumulated_depreciation).toFixed(2),
+      ].join(','));
+    });
+
+    const csvContent = csvRows.join('\n');
+    const blob = new Blob([csvContent], { type: 'text/csv;charset=utf-8;' });
+    const link = document.createElement("a");
+    const url = URL.createObjectURL(blob);
+    link.setAttribute("href", url);
+    link.setAttribute("download", `depreciacao-${assetCode}.csv`);
+    link.style.visibility = 'hidden';
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+
+    toast({ title: "Sucesso", description: "CSV exportado com sucesso!" });
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div className="space-y-1.5">
+          <CardTitle className="flex items-center gap-2">
+            <CalendarRange className="h-5 w-5" />
+            Cronograma de Depreciação
+          </CardTitle>
+          <CardDescription>
+            {closedCount} {closedCount === 1 ? 'mês fechado' : 'meses fechados'} no razão; os demais são projeção até o fim da vida útil.
+            {rows.length > 0 && rows[rows.length - 1].fiscal_rate !== null && ` Taxa fiscal: ${rows[rows.length - 1].fiscal_rate}% a.a.`}
+          </CardDescription>
+        </div>
+        <Button variant="outline" size="sm" onClick={handleExportCSV} disabled={rows.length === 0}>
+          <FileSpreadsheet className="h-4 w-4 mr-2" />
+          Exportar CSV
+        </Button>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <div className="flex justify-center p-8">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+          </div>
+        ) : rows.length === 0 ? (
+          <p className="text-center text-muted-foreground py-8">
+            Nenhuma depreciação a apropriar para este ativo.
+          </p>
+        ) : (
+          <div className="max-h-[420px] overflow-y-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Competência</TableHead>
+                  <TableHead>Método</TableHead>
+                  <TableHead className="text-right">Valor Inicial</TableHead>
+                  <TableHead className="text-right">Depreciação</TableHead>
+                  <TableHead className="text-right">Ajuste</TableHead>
+                  <TableHead className="text-right">Acumulada</TableHead>
+                  <TableHead className="text-right">Valor Final</TableHead>
+                  <TableHead className="text-right">Fiscal</TableHead>
+                  <TableHead className="text-right">Fiscal Acumulada</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {rows.map((row) => (
+                  <TableRow key={row.period} className={row.is_closed ? undefined : 'text-muted-foreground'}>
+                    <TableCell className="capitalize">
+                      <div className="flex items-center gap-2">
+                        {formatPeriod(row.period)}
+                        {row.is_closed && (
+                          <Badge variant="secondary" className="gap-1">
+                            <Lock className="h-3 w-3" />
+                            Fechado
+                          </Badge>
+                        )}
+                      </div>
+                    </TableCell>
+                    <TableCell>{getMethodLabel(row.method)}</TableCell>
+                    <TableCell className="text-right">{formatCurrency(row.opening_value)}</TableCell>
+                    <TableCell className="text-right">{formatCurrency(row.charge)}</TableCell>
+                    <TableCell className={`text-right ${row.valuation_adjustment < 0 ? 'text-destructive' : ''}`}>
+                      {Number(row.valuation_adjustment) === 0 ? '—' : formatCurrency(row.valuation_adjustment)}
+                    </TableCell>
+                    <TableCell className="text-right">{formatCurrency(row.accumulated_depreciation)}</TableCell>
+                    <TableCell className="text-right font-medium">{formatCurrency(row.closing_value)}</TableCell>
+                    <TableCell className="text-right">{formatCurrency(row.fiscal_charge)}</TableCell>
+                    <TableCell className="text-right">{formatCurrency(row.fiscal_accumulated_depreciation)}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default AssetDepreciationSchedule;
@@ -4,16 +4,26 @@ import { Button } from '@/components/ui/button';
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
-import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
 import { format } from 'date-fns';
 import { ptBR } from 'date-fns/locale';
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
-import { User, Globe, Tag, File, History, Calendar, DollarSign, MapPin, Edit, QrCode } from 'lucide-react';
+import { User, Globe, Tag, File, History, Calendar, DollarSign, MapPin, Edit, QrCode, Boxes, TrendingDown, ArrowRightLeft } from 'lucide-react';
 import { Badge } from '@/components/ui/badge';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { useToast } from '@/hooks/use-toast';
 import EditAssetModal from './EditAssetModal';
 import QRCodeGenerator from './QRCodeGenerator';
+import AssetPartsManager from './AssetPartsManager';
+import AssetHistory from './AssetHistory';
+import AssetPointInTime from './AssetPointInTime';
+import AssetDepreciationSchedule from './AssetDepreciationSchedule';
+import AssetValuationEvents from './AssetValuationEvents';
+import AssetCustody from './AssetCustody';
+import { calculateBookValue, DEPRECIATION_METHOD_LABELS, getDepreciationMethod } from '@/lib/depreciation';
+import { formatMoney } from '@/lib/currency';
+import { useExchangeRates } from '@/hooks/useExchangeRates';
+import { usePermissions } from '@/hooks/usePermissions';
+import { formatDueDate, isLoanOverdue } from '@/lib/custody';
 
 interface AssetDetailsProps {
   assetId: string;
@@ -28,17 +38,18 @@ interface Profile {
 
 const AssetDetails: React.FC<AssetDetailsProps> = ({ assetId, onClose }) => {
   const [asset, setAsset] = useState<any>(null);
-  const [auditLog, setAuditLog] = useState<any[]>([]);
   const [profiles, setProfiles] = useState<Profile[]>([]);
   const [loading, setLoading] = useState(true);
   const [updating, setUpdating] = useState(false);
   const [showEditModal, setShowEditModal] = useState(false);
   const [showQRCode, setShowQRCode] = useState(false);
+  const [historyVersion, setHistoryVersion] = useState(0);
+  const { baseCurrency, toBase, formatBase } = useExchangeRates();
+  const { canManageAsset } = usePermissions();
   const { toast } = useToast();
 
   useEffect(() => {
     fetchAssetDetails();
-    fetchAuditLog();
     fetchProfiles();
   }, [assetId]);
 
@@ -48,8 +59,10 @@ const AssetDetails: React.FC<AssetDetailsProps> = ({ assetId, onClose }) => {
       .from('assets')
       .select(`
         *,
-        categories (name),
+        categories (name, depreciation_method),
         documents (*),
+        asset_valuation_events (event_date, new_book_value, remaining_useful_life_years, units_used_at_event),
+        asset_loans (due_date, returned_at),
         profiles:assigned_to (user_id, full_name, avatar_url)
       `)
       .eq('id', assetId)
@@ -68,20 +81,6 @@ const AssetDetails: React.FC<AssetDetailsProps> = ({ assetId, onClose }) => {
     setLoading(false);
   };
 
-  const fetchAuditLog = async () => {
-    const { data, error } = await supabase
-      .from('asset_audit_log')
-      .select('*')
-      .eq('asset_id', assetId)
-      .order('created_at', { ascending: false });
-
-    if (error) {
-      console.error('Error fetching audit log:', error);
-    } else {
-      setAuditLog(data || []);
-    }
-  };
-
   const fetchProfiles = async () => {
     const { data, error } = await supabase
       .from('profiles')
@@ -105,21 +104,8 @@ const AssetDetails: React.FC<AssetDetailsProps> = ({ assetId, onClose }) => {
 
       if (error) throw error;
 
-      // Create audit log
-      const { data: userData } = await supabase.auth.getUser();
-      if (userData.user) {
-        await supabase.from('asset_audit_log').insert({
-          asset_id: assetId,
-          action: assignedValue ? 'assigned_responsible' : 'removed_responsible',
-          user_id: userData.user.id,
-          new_data: { assigned_to: assignedValue },
-          old_data: { assigned_to: asset.assigned_to }
-        });
-      }
-
       // Refresh asset data
       await fetchAssetDetails();
-      await fetchAuditLog();
 
       toast({
         title: "Responsável atualizado",
@@ -137,16 +123,7 @@ const AssetDetails: React.FC<AssetDetailsProps> = ({ assetId, onClose }) => {
     }
   };
 
-  const formatCurrency = (value: number) => {
-    return new Intl.NumberFormat('pt-BR', { style: 'currency', currency: 'BRL' }).format(value);
-  };
-
-  const calculateBookValue = (asset: any) => {
-    const yearsElapsed = (new Date().getTime() - new Date(asset.purchase_date).getTime()) / (1000 * 60 * 60 * 24 * 365);
-    const annualDepreciation = (asset.purchase_value - (asset.residual_value || 0)) / asset.useful_life_years;
-    const totalDepreciation = Math.min(annualDepreciation * yearsElapsed, asset.purchase_value - (asset.residual_value || 0));
-    return Math.max(asset.purchase_value - totalDepreciation, asset.residual_value || 0);
-  };
+  const formatCurrency = (value: number) => formatMoney(value, asset?.currency);
 
   const getStatusColor = (status: string) => {
     switch (status) {
@@ -186,6 +163,13 @@ const AssetDetails: React.FC<AssetDetailsProps> = ({ assetId, onClose }) => {
     );
   }
 
+  const canEdit = canManageAsset(asset.department_id);
+  // While lent, the borrower is the responsible until the asset is checked in
+  const openLoan = asset.asset_loans?.find((loan: { returned_at: string | null }) => !loan.returned_at);
+
+  // Historical cost: foreign-currency assets convert at the rate of the purchase date
+  const bookValueInBase = toBase(calculateBookValue(asset), asset.currency, asset.purchase_date);
+
   return (
     <DialogContent className="max-w-6xl max-h-[80vh] overflow-y-auto">
       <DialogHeader>
@@ -199,7 +183,7 @@ const AssetDetails: React.FC<AssetDetailsProps> = ({ assetId, onClose }) => {
       </DialogHeader>
       
       <Tabs defaultValue="summary" className="mt-6">
-        <TabsList className="grid w-full grid-cols-3">
+        <TabsList className="grid w-full grid-cols-6">
           <TabsTrigger value="summary" className="flex items-center gap-2">
             <File className="h-4 w-4" />
             Resumo
@@ -208,6 +192,18 @@ const AssetDetails: React.FC<AssetDetailsProps> = ({ assetId, onClose }) => {
             <Edit className="h-4 w-4" />
             Editar
           </TabsTrigger>
+          <TabsTrigger value="parts" className="flex items-center gap-2">
+            <Boxes className="h-4 w-4" />
+            Peças
+          </TabsTrigger>
+          <TabsTrigger value="custody" className="flex items-center gap-2">
+            <ArrowRightLeft className="h-4 w-4" />
+            Custódia
+          </TabsTrigger>
+          <TabsTrigger value="depreciation" className="flex items-center gap-2">
+            <TrendingDown className="h-4 w-4" />
+            Depreciação
+          </TabsTrigger>
           <TabsTrigger value="history" className="flex items-center gap-2">
             <History className="h-4 w-4" />
             Trilha de Auditoria
@@ -249,26 +245,37 @@ const AssetDetails: React.FC<AssetDetailsProps> = ({ assetId, onClose }) => {
                   )}
                 </div>
 
-                <div className="space-y-2">
-                  <span className="text-sm text-muted-foreground">Atribuir responsável:</span>
-                  <Select 
-                    value={asset.assigned_to || "unassigned"} 
-                    onValueChange={handleAssignResponsible}
-                    disabled={updating}
-                  >
-                    <SelectTrigger>
-                      <SelectValue placeholder="Selecione um responsável" />
-                    </SelectTrigger>
-                    <SelectContent>
-                      <SelectItem value="unassigned">Remover responsável</SelectItem>
-                      {profiles.map((profile) => (
-                        <SelectItem key={profile.user_id} value={profile.user_id}>
-                          {profile.full_name || profile.user_id}
-                        </SelectItem>
-                      ))}
-                    </SelectContent>
-                  </Select>
-                </div>
+                {openLoan && (
+                  <div className="flex items-center justify-between">
+                    <span className="text-sm text-muted-foreground">Emprestado até:</span>
+                    <Badge variant={isLoanOverdue(openLoan) ? 'destructive' : 'secondary'}>
+                      {formatDueDate(openLoan.due_date)}{isLoanOverdue(openLoan) && ' (atrasado)'}
+                    </Badge>
+                  </div>
+                )}
+
+                {canEdit && !openLoan && (
+                  <div className="space-y-2">
+                    <span className="text-sm text-muted-foreground">Atribuir responsável:</span>
+                    <Select 
+                      value={asset.assigned_to || "unassigned"} 
+                      onValueChange={handleAssignResponsible}
+                      disabled={updating}
+                    >
+                      <SelectTrigger>
+                        <SelectValue placeholder="Selecione um responsável" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="unassigned">Remover responsável</SelectItem>
+                        {profiles.map((profile) => (
+                          <SelectItem key={profile.user_id} value={profile.user_id}>
+                            {profile.full_name || profile.user_id}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                )}
               </CardContent>
             </Card>
 
@@ -292,10 +299,22 @@ const AssetDetails: React.FC<AssetDetailsProps> = ({ assetId, onClose }) => {
                   <span className="text-sm text-muted-foreground">Valor Contábil:</span>
                   <span className="font-semibold text-primary">{formatCurrency(calculateBookValue(asset))}</span>
                 </div>
+                {asset.currency !== baseCurrency && (
+                  <div className="flex items-center justify-between">
+                    <span className="text-sm text-muted-foreground">Valor Contábil em {baseCurrency}:</span>
+                    <span className="font-semibold">
+                      {bookValueInBase === null ? 'Sem cotação na data de compra' : formatBase(bookValueInBase)}
+                    </span>
+                  </div>
+                )}
                 <div className="flex items-center justify-between">
                   <span className="text-sm text-muted-foreground">Vida Útil:</span>
                   <span className="font-semibold">{asset.useful_life_years} anos</span>
                 </div>
+                <div className="flex items-center justify-between">
+                  <span className="text-sm text-muted-foreground">Método de Depreciação:</span>
+                  <span className="font-semibold">{DEPRECIATION_METHOD_LABELS[getDepreciationMethod(asset)]}</span>
+                </div>
               </CardContent>
             </Card>
           </div>
@@ -393,10 +412,12 @@ const AssetDetails: React.FC<AssetDetailsProps> = ({ assetId, onClose }) => {
             </CardHeader>
             <CardContent className="space-y-4">
               <div className="flex gap-4">
-                <Button onClick={() => setShowEditModal(true)}>
-                  <Edit className="h-4 w-4 mr-2" />
-                  Editar Informações
-                </Button>
+                {canEdit && (
+                  <Button onClick={() => setShowEditModal(true)}>
+                    <Edit className="h-4 w-4 mr-2" />
+                    Editar Informações
+                  </Button>
+                )}
                 <Button variant="outline" onClick={() => setShowQRCode(true)}>
                   <QrCode className="h-4 w-4 mr-2" />
                   Gerar QR Code
@@ -406,43 +427,43 @@ const AssetDetails: React.FC<AssetDetailsProps> = ({ assetId, onClose }) => {
           </Card>
         </TabsContent>
 
-        <TabsContent value="history" className="mt-6">
-          <Card>
-            <CardHeader>
-              <CardTitle className="flex items-center gap-2">
-                <History className="h-5 w-5" />
-                Histórico de Auditoria
-              </CardTitle>
-            </CardHeader>
-            <CardContent>
-              {auditLog.length === 0 ? (
-                <p className="text-center text-muted-foreground py-8">
-                  Nenhum registro de auditoria encontrado.
-                </p>
-              ) : (
-                <Table>
-                  <TableHeader>
-                    <TableRow>
-                      <TableHead>Ação</TableHead>
-                      <TableHead>Data</TableHead>
-                      <TableHead>Usuário</TableHead>
-                    </TableRow>
-                  </TableHeader>
-                  <TableBody>
-                    {auditLog.map((log) => (
-                      <TableRow key={log.id}>
-                        <TableCell className="font-medium">{log.action}</TableCell>
-                        <TableCell>
-                          {format(new Date(log.created_at), 'dd/MM/yyyy HH:mm', { locale: ptBR })}
-                        </TableCell>
-                        <TableCell>{log.user_id}</TableCell>
-                      </TableRow>
-                    ))}
-                  </TableBody>
-                </Table>
-              )}
-            </CardContent>
-          </Card>
+        <TabsContent value="parts" className="mt-6">
+          <AssetPartsManager assetId={assetId} readOnly={!canEdit} />
+        </TabsContent>
+
+        <TabsContent value="custody" className="mt-6">
+          <AssetCustody
+            asset={asset}
+            readOnly={!canEdit}
+            onChanged={() => {
+              fetchAssetDetails();
+              setHistoryVersion(version => version + 1);
+            }}
+          />
+        </TabsContent>
+
+        <TabsContent value="depreciation" className="mt-6 space-y-6">
+          <AssetValuationEvents
+            asset={asset}
+            readOnly={!canEdit}
+            onRecorded={() => {
+              fetchAssetDetails();
+              setHistoryVersion(version => version + 1);
+            }}
+          />
+          <AssetDepreciationSchedule key={historyVersion} assetId={assetId} assetCode={asset.code} currency={asset.currency} />
+        </TabsContent>
+
+        <TabsContent value="history" className="mt-6 space-y-6">
+          <AssetPointInTime
+            assetId={assetId}
+            readOnly={!canEdit}
+            onReverted={() => {
+              fetchAssetDetails();
+              setHistoryVersion(version => version + 1);
+            }}
+          />
+          <AssetHistory key={historyVersion} assetId={assetId} assetName={asset.name} />
         </TabsContent>
       </Tabs>
 
@@ -452,10 +473,7 @@ const AssetDetails: React.FC<AssetDetailsProps> = ({ assetId, onClose }) => {
           isOpen={showEditModal}
           onOpenChange={setShowEditModal}
           asset={asset}
-          onAssetUpdated={() => {
-            fetchAssetDetails();
-            fetchAuditLog();
-          }}
+          onAssetUpdated={fetchAssetDetails}
         />
       )}
 
@@ -0,0 +1,385 @@
+import React, { useState } from 'react';
+import { useAuth } from '@/components/AuthProvider';
+import { supabase } from '@/integrations/supabase/client';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Progress } from '@/components/ui/progress';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Calendar } from '@/components/ui/calendar';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { format } from 'date-fns';
+import { ptBR } from 'date-fns/locale';
+import { CalendarIcon, Loader2, PackageX, TrendingDown, TrendingUp, Upload } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { useToast } from '@/hooks/use-toast';
+import { calculateBookValue, DepreciableAsset } from '@/lib/depreciation';
+import { DEFAULT_CURRENCY, formatMoney } from '@/lib/currency';
+
+interface DisposableAsset extends DepreciableAsset {
+  id: string;
+  name: string;
+  code: string;
+  currency?: string;
+}
+
+interface AssetDisposalWizardProps {
+  asset: DisposableAsset;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onDisposed?: () => void;
+}
+
+type DisposalMethod = 'venda' | 'descarte' | 'doacao' | 'reciclagem';
+
+const disposalMethodLabels: Record<DisposalMethod, string> = {
+  venda: 'Venda',
+  descarte: 'Descarte',
+  doacao: 'Doação',
+  reciclagem: 'Reciclagem',
+};
+
+const steps = ['Dados da baixa', 'Certificado', 'Revisão'];
+
+// A fresh form each time, so the default date is the day the wizard opens
+const emptyDisposalForm = () => ({
+  disposal_method: '' as DisposalMethod | '',
+  disposal_date: new Date() as Date | undefined,
+  disposal_reason: '',
+  sale_value: '',
+  buyer_info: '',
+  environmental_compliance: false,
+  certificate: null as File | null,
+});
+
+const AssetDisposalWizard: React.FC<AssetDisposalWizardProps> = ({ asset, open, onOpenChange, onDisposed }) => {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [step, setStep] = useState(0);
+  const [loading, setLoading] = useState(false);
+  const [formData, setFormData] = useState(emptyDisposalForm);
+
+  const isSale = formData.disposal_method === 'venda';
+  const hasRecipient = formData.disposal_method === 'venda' || formData.disposal_method === 'doacao';
+  const isEnvironmental = formData.disposal_method === 'descarte' || formData.disposal_method === 'reciclagem';
+
+  const saleValue = isSale ? parseFloat(formData.sale_value) || 0 : 0;
+  const bookValue = formData.disposal_date ? calculateBookValue(asset, formData.disposal_date) : asset.purchase_value;
+  const gainLoss = saleValue - bookValue;
+
+  const formatCurrency = (value: number) => formatMoney(value, asset.currency);
+
+  const handleOpenChange = (value: boolean) => {
+    if (!value) {
+      setStep(0);
+      setFormData(emptyDisposalForm());
+    }
+    onOpenChange(value);
+  };
+
+  const validateStep = () => {
+    if (step === 0) {
+      if (!formData.disposal_method || !formData.disposal_date || !formData.disposal_reason.trim()) {
+        toast({
+          title: "Erro",
+          description: "Informe o método, a data e o motivo da baixa.",
+          variant: "destructive",
+        });
+        return false;
+      }
+      if (formData.disposal_date < new Date(asset.purchase_date)) {
+        toast({
+          title: "Erro",
+          description: "A data da baixa não pode ser anterior à data de compra.",
+          variant: "destructive",
+        });
+        return false;
+      }
+    }
+    return true;
+  };
+
+  const handleNext = () => {
+    if (validateStep()) {
+      setStep(step + 1);
+    }
+  };
+
+  const uploadCertificate = async (file: File) => {
+    const path = `${asset.id}/disposal_certificate_${Date.now()}.${file.name.split('.').pop()}`;
+    const { error } = await supabase.storage
+      .from('asset_documents')
+      .upload(path, file, {
+        cacheControl: '3600',
+        upsert: false
+      });
+
+    if (error) throw error;
+
+    const { data: { publicUrl } } = supabase.storage
+      .from('asset_documents')
+      .getPublicUrl(path);
+
+    return { path, publicUrl };
+  };
+
+  const handleConfirm = async () => {
+    if (!user || !formData.disposal_method || !formData.disposal_date) return;
+
+    setLoading(true);
+    try {
+      const certificate = formData.certificate;
+      const uploaded = certificate ? await uploadCertificate(certificate) : null;
+
+      // The disposal also lists the certificate among the asset's documents
+      const { data: result, error } = await supabase.rpc('dispose_asset', {
+        p_asset_id: asset.id,
+        p_disposal_date: format(formData.disposal_date, 'yyyy-MM-dd'),
+        p_disposal_method: formData.disposal_method,
+        p_disposal_reason: formData.disposal_reason.trim(),
+        p_sale_value: saleValue,
+        p_buyer_info: hasRecipient ? formData.buyer_info.trim() || null : null,
+        p_environmental_compliance: isEnvironmental && formData.environmental_compliance,
+        p_certificate_url: uploaded?.publicUrl ?? null,
+        p_certificate_name: certificate?.name ?? null,
+        p_certificate_size: certificate?.size ?? null,
+        p_certificate_mime_type: certificate?.type || null,
+      });
+
+      if (error) {
+        if (uploaded) {
+          await supabase.storage.from('asset_documents').remove([uploaded.path]);
+        }
+        throw error;
+      }
+
+      toast({
+        title: "Ativo baixado",
+        description: `"${asset.name}" foi baixado com ${result >= 0 ? 'ganho' : 'perda'} de ${formatCurrency(Math.abs(result))}.`,
+      });
+
+      handleOpenChange(false);
+      onDisposed?.();
+    } catch (error) {
+      console.error('Error disposing asset:', error);
+      toast({
+        title: "Erro",
+        description: error.message === 'Disposal date falls in a closed period'
+          ? "A data da baixa está em um mês de depreciação já fechado."
+          : "Não foi possível baixar o ativo.",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <PackageX className="h-5 w-5" />
+            Baixar Ativo
+          </DialogTitle>
+          <DialogDescription>
+            {asset.code} - {asset.name}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2">
+          <div className="flex justify-between text-xs text-muted-foreground">
+            {steps.map((label, index) => (
+              <span key={label} className={cn(index === step && "font-semibold text-foreground")}>
+                {index + 1}. {label}
+              </span>
+            ))}
+          </div>
+          <Progress value={((step + 1) / steps.length) * 100} />
+        </div>
+
+        {step === 0 && (
+          <div className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Método *</Label>
+                <Select
+                  value={formData.disposal_method}
+                  onValueChange={(value: DisposalMethod) => setFormData(prev => ({ ...prev, disposal_method: value }))}
+                >
+                  <SelectTrigger>
+                    <SelectValue placeholder="Selecione" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(disposalMethodLabels) as DisposalMethod[]).map((method) => (
+                      <SelectItem key={method} value={method}>
+                        {disposalMethodLabels[method]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>Data da Baixa *</Label>
+                <Popover>
+                  <PopoverTrigger asChild>
+                    <Button
+                      variant="outline"
+                      className={cn(
+                        "w-full justify-start text-left font-normal",
+                        !formData.disposal_date && "text-muted-foreground"
+                      )}
+                    >
+                      <CalendarIcon className="mr-2 h-4 w-4" />
+                      {formData.disposal_date ? (
+                        format(formData.disposal_date, "dd/MM/yyyy", { locale: ptBR })
+                      ) : (
+                        <span>Selecione a data</span>
+                      )}
+                    </Button>
+                  </PopoverTrigger>
+                  <PopoverContent className="w-auto p-0">
+                    <Calendar
+                      mode="single"
+                      selected={formData.disposal_date}
+                      onSelect={(date) => setFormData(prev => ({ ...prev, disposal_date: date }))}
+                      initialFocus
+                      locale={ptBR}
+                    />
+                  </PopoverContent>
+                </Popover>
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="disposal_reason">Motivo *</Label>
+              <Textarea
+                id="disposal_reason"
+                value={formData.disposal_reason}
+                onChange={(e) => setFormData(prev => ({ ...prev, disposal_reason: e.target.value }))}
+                placeholder="Ex: fim da vida útil, obsolescência, sinistro..."
+                rows={3}
+              />
+            </div>
+
+            {isSale && (
+              <div className="space-y-2">
+                <Label htmlFor="sale_value">Valor de Venda ({asset.currency || DEFAULT_CURRENCY})</Label>
+                <Input
+                  id="sale_value"
+                  type="number"
+                  step="0.01"
+                  min="0"
+                  value={formData.sale_value}
+                  onChange={(e) => setFormData(prev => ({ ...prev, sale_value: e.target.value }))}
+                  placeholder="0,00"
+                />
+              </div>
+            )}
+
+            {hasRecipient && (
+              <div className="space-y-2">
+                <Label htmlFor="buyer_info">{isSale ? 'Comprador' : 'Donatário'}</Label>
+                <Input
+                  id="buyer_info"
+                  value={formData.buyer_info}
+                  onChange={(e) => setFormData(prev => ({ ...prev, buyer_info: e.target.value }))}
+                  placeholder="Nome, CPF/CNPJ e contato"
+                />
+              </div>
+            )}
+
+            {isEnvironmental && (
+              <div className="flex items-center space-x-2">
+                <Checkbox
+                  id="environmental_compliance"
+                  checked={formData.environmental_compliance}
+                  onCheckedChange={(checked) => setFormData(prev => ({ ...prev, environmental_compliance: checked === true }))}
+                />
+                <Label htmlFor="environmental_compliance">Destinação conforme a legislação ambiental</Label>
+              </div>
+            )}
+          </div>
+        )}
+
+        {step === 1 && (
+          <div className="space-y-2">
+            <Label htmlFor="certificate">Certificado / Comprovante</Label>
+            <Input
+              id="certificate"
+              type="file"
+              accept="image/*,application/pdf"
+              onChange={(e) => setFormData(prev => ({ ...prev, certificate: e.target.files?.[0] || null }))}
+            />
+            <p className="text-xs text-muted-foreground flex items-center gap-1">
+              <Upload className="h-3 w-3" />
+              {formData.certificate
+                ? formData.certificate.name
+                : 'Nota fiscal de venda, termo de doação ou certificado de destinação (opcional)'}
+            </p>
+          </div>
+        )}
+
+        {step === 2 && (
+          <div className="space-y-3 text-sm">
+            <div className="flex justify-between">
+              <span className="text-muted-foreground">Método</span>
+              <span>{formData.disposal_method && disposalMethodLabels[formData.disposal_method]}</span>
+            </div>
+            <div className="flex justify-between">
+              <span className="text-muted-foreground">Data</span>
+              <span>{formData.disposal_date && format(formData.disposal_date, "dd/MM/yyyy", { locale: ptBR })}</span>
+            </div>
+            <div className="flex justify-between">
+              <span className="text-muted-foreground">Valor contábil na data</span>
+              <span>{formatCurrency(bookValue)}</span>
+            </div>
+            <div className="flex justify-between">
+              <span className="text-muted-foreground">Valor recebido</span>
+              <span>{formatCurrency(saleValue)}</span>
+            </div>
+            <div className={cn(
+              "flex items-center justify-between rounded-lg border p-3 font-semibold",
+              gainLoss >= 0 ? "text-green-600" : "text-red-600"
+            )}>
+              <span className="flex items-center gap-2">
+                {gainLoss >= 0 ? <TrendingUp className="h-4 w-4" /> : <TrendingDown className="h-4 w-4" />}
+                {gainLoss >= 0 ? 'Ganho na baixa' : 'Perda na baixa'}
+              </span>
+              <span>{formatCurrency(Math.abs(gainLoss))}</span>
+            </div>
+            <p className="text-xs text-muted-foreground">
+              O ativo passará para o status "Descartado" e a operação será registrada no histórico.
+            </p>
+          </div>
+        )}
+
+        <div className="flex justify-between">
+          <Button
+            type="button"
+            variant="outline"
+            onClick={() => (step === 0 ? handleOpenChange(false) : setStep(step - 1))}
+            disabled={loading}
+          >
+            {step === 0 ? 'Cancelar' : 'Voltar'}
+          </Button>
+          {step < steps.length - 1 ? (
+            <Button type="button" onClick={handleNext}>
+              Próximo
+            </Button>
+          ) : (
+            <Button type="button" variant="destructive" onClick={handleConfirm} disabled={loading}>
+              {loading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Confirmar Baixa
+            </Button>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default AssetDisposalWizard;
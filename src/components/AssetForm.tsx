@@ -1,6 +1,7 @@
 import React, { useState, useEffect } from 'react';
 import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/components/AuthProvider';
+import { usePermissions } from '@/hooks/usePermissions';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
@@ -14,6 +15,8 @@ import { useToast } from '@/hooks/use-toast';
 import { format } from 'date-fns';
 import { ptBR } from 'date-fns/locale';
 import { cn } from '@/lib/utils';
+import { DEPRECIATION_METHOD_LABELS, UNITS_OF_PRODUCTION_NOTE, WORK_SHIFT_LABELS } from '@/lib/depreciation';
+import { CURRENCIES, DEFAULT_CURRENCY } from '@/lib/currency';
 
 interface Company {
   id: string;
@@ -50,9 +53,15 @@ interface AssetFormData {
   department_id: string;
   unit_id: string;
   purchase_value: string;
+  currency: string;
   purchase_date: Date | undefined;
   residual_value: string;
   useful_life_years: string;
+  depreciation_method: string;
+  total_units: string;
+  units_used: string;
+  ncm: string;
+  work_shifts: string;
   location_type: 'manual' | 'rfid' | 'gps';
   current_location: string;
   latitude: string;
@@ -71,6 +80,7 @@ interface AssetFormProps {
 
 const AssetForm: React.FC<AssetFormProps> = ({ onSuccess, onCancel }) => {
   const { user } = useAuth();
+  const { isAdmin, canManageAsset, companyId } = usePermissions();
   const { toast } = useToast();
   const [loading, setLoading] = useState(false);
   const [aiAnalyzing, setAiAnalyzing] = useState(false);
@@ -96,9 +106,15 @@ const AssetForm: React.FC<AssetFormProps> = ({ onSuccess, onCancel }) => {
     department_id: '',
     unit_id: '',
     purchase_value: '',
+    currency: DEFAULT_CURRENCY,
     purchase_date: undefined,
     residual_value: '0',
     useful_life_years: '5',
+    depreciation_method: 'category',
+    total_units: '',
+    units_used: '0',
+    ncm: '',
+    work_shifts: '1',
     location_type: 'manual',
     current_location: '',
     latitude: '',
@@ -182,22 +198,6 @@ const AssetForm: React.FC<AssetFormProps> = ({ onSuccess, onCancel }) => {
     return data;
   };
 
-  const createAuditLog = async (assetId: string, action: string, newData: any) => {
-    const { error } = await supabase
-      .from('asset_audit_log')
-      .insert({
-        asset_id: assetId,
-        user_id: user?.id,
-        action,
-        old_data: null,
-        new_data: newData
-      });
-
-    if (error) {
-      console.error('Error creating audit log:', error);
-    }
-  };
-
   const analyzeAssetWithAI = async (assetName: string) => {
     if (!assetName || assetName.length < 3) return;
     
@@ -299,11 +299,14 @@ const AssetForm: React.FC<AssetFormProps> = ({ onSuccess, onCancel }) => {
         analysis.categoria.toLowerCase().includes(cat.name.toLowerCase())
       );
 
+      const suggestedNcm = String(analysis.ncm || '').replace(/\D/g, '');
+
       // Update form with AI suggestions
       setFormData(prev => ({
         ...prev,
         category_id: matchingCategory?.id || prev.category_id,
         useful_life_years: analysis.vidaUtil.toString(),
+        ncm: prev.ncm || (suggestedNcm.length === 8 ? suggestedNcm : ''),
         residual_value: prev.purchase_value ? 
           (parseFloat(prev.purchase_value) * analysis.valorResidualPercentual / 100).toString() : 
           prev.residual_value
@@ -330,6 +333,15 @@ const AssetForm: React.FC<AssetFormProps> = ({ onSuccess, onCancel }) => {
     e.preventDefault();
     if (!user) return;
 
+    if (formData.ncm && formData.ncm.length !== 8) {
+      toast({
+        title: "Erro",
+        description: "O NCM deve ter 8 dígitos.",
+        variant: "destructive",
+      });
+      return;
+    }
+
     setLoading(true);
 
     try {
@@ -342,9 +354,15 @@ const AssetForm: React.FC<AssetFormProps> = ({ onSuccess, onCancel }) => {
         department_id: formData.department_id === "unassigned" ? null : formData.department_id || null,
         unit_id: formData.unit_id === "unassigned" ? null : formData.unit_id || null,
         purchase_value: parseFloat(formData.purchase_value),
+        currency: formData.currency,
         purchase_date: formData.purchase_date?.toISOString().split('T')[0],
         residual_value: parseFloat(formData.residual_value),
         useful_life_years: parseInt(formData.useful_life_years),
+        depreciation_method: formData.depreciation_method === "category" ? null : formData.depreciation_method,
+        total_units: formData.total_units ? parseFloat(formData.total_units) : null,
+        units_used: formData.units_used ? parseFloat(formData.units_used) : 0,
+        ncm: formData.ncm || null,
+        work_shifts: parseInt(formData.work_shifts),
         location_type: formData.location_type,
         current_location: formData.current_location || null,
         latitude: formData.latitude ? parseFloat(formData.latitude) : null,
@@ -420,9 +438,6 @@ const AssetForm: React.FC<AssetFormProps> = ({ onSuccess, onCancel }) => {
         }
       }
 
-      // Create audit log
-      await createAuditLog(asset.id, 'create', assetData);
-
       toast({
         title: "Ativo cadastrado com sucesso!",
         description: `O ativo "${formData.name}" foi criado`,
@@ -439,9 +454,15 @@ const AssetForm: React.FC<AssetFormProps> = ({ onSuccess, onCancel }) => {
         department_id: '',
         unit_id: '',
         purchase_value: '',
+        currency: DEFAULT_CURRENCY,
         purchase_date: undefined,
         residual_value: '0',
         useful_life_years: '5',
+        depreciation_method: 'category',
+        total_units: '',
+        units_used: '0',
+        ncm: '',
+        work_shifts: '1',
         location_type: 'manual',
         current_location: '',
         latitude: '',
@@ -458,7 +479,9 @@ const AssetForm: React.FC<AssetFormProps> = ({ onSuccess, onCancel }) => {
       console.error('Error creating asset:', error);
       toast({
         title: "Erro ao cadastrar ativo",
-        description: error.message || "Ocorreu um erro inesperado",
+        description: error.message === 'Permission denied'
+          ? "Você só pode cadastrar ativos no seu departamento"
+          : error.message || "Ocorreu um erro inesperado",
         variant: "destructive",
       });
     } finally {
@@ -652,17 +675,32 @@ const AssetForm: React.FC<AssetFormProps> = ({ onSuccess, onCancel }) => {
             </h3>
             <div className="grid md:grid-cols-2 gap-4">
               <div className="space-y-2">
-                <Label htmlFor="purchase_value">Valor de Compra (R$) *</Label>
-                <Input
-                  id="purchase_value"
-                  type="number"
-                  step="0.01"
-                  min="0"
-                  value={formData.purchase_value}
-                  onChange={(e) => setFormData(prev => ({ ...prev, purchase_value: e.target.value }))}
-                  placeholder="0,00"
-                  required
-                />
+                <Label htmlFor="purchase_value">Valor de Compra *</Label>
+                <div className="flex gap-2">
+                  <Select
+                    value={formData.currency}
+                    onValueChange={(value) => setFormData(prev => ({ ...prev, currency: value }))}
+                  >
+                    <SelectTrigger className="w-28" aria-label="Moeda">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {CURRENCIES.map(currency => (
+                        <SelectItem key={currency} value={currency}>{currency}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Input
+                    id="purchase_value"
+                    type="number"
+                    step="0.01"
+                    min="0"
+                    value={formData.purchase_value}
+                    onChange={(e) => setFormData(prev => ({ ...prev, purchase_value: e.target.value }))}
+                    placeholder="0,00"
+                    required
+                  />
+                </div>
               </div>
               <div className="space-y-2">
                 <Label>Data de Compra *</Label>
@@ -698,7 +736,7 @@ const AssetForm: React.FC<AssetFormProps> = ({ onSuccess, onCancel }) => {
             </div>
             <div className="grid md:grid-cols-2 gap-4">
               <div className="space-y-2">
-                <Label htmlFor="residual_value">Valor Residual (R$)</Label>
+                <Label htmlFor="residual_value">Valor Residual ({formData.currency})</Label>
                 <Input
                   id="residual_value"
                   type="number"
@@ -728,6 +766,84 @@ const AssetForm: React.FC<AssetFormProps> = ({ onSuccess, onCancel }) => {
                 />
               </div>
             </div>
+            <div className="grid md:grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="depreciation_method">Método de Depreciação</Label>
+                <Select
+                  value={formData.depreciation_method}
+                  onValueChange={(value) => setFormData(prev => ({ ...prev, depreciation_method: value }))}
+                >
+                  <SelectTrigger id="depreciation_method">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="category">Padrão da categoria</SelectItem>
+                    {Object.entries(DEPRECIATION_METHOD_LABELS).map(([value, label]) => (
+                      <SelectItem key={value} value={value}>{label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              {formData.depreciation_method === 'units_of_production' && (
+                <div className="grid grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="total_units">Produção Total Estimada</Label>
+                    <Input
+                      id="total_units"
+                      type="number"
+                      min="0"
+                      value={formData.total_units}
+                      onChange={(e) => setFormData(prev => ({ ...prev, total_units: e.target.value }))}
+                      placeholder="Ex: 100000"
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="units_used">Unidades Produzidas</Label>
+                    <Input
+                      id="units_used"
+                      type="number"
+                      min="0"
+                      value={formData.units_used}
+                      onChange={(e) => setFormData(prev => ({ ...prev, units_used: e.target.value }))}
+                      placeholder="0"
+                    />
+                    <p className="text-xs text-muted-foreground">{UNITS_OF_PRODUCTION_NOTE}</p>
+                  </div>
+                </div>
+              )}
+            </div>
+            <div className="grid md:grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="ncm">NCM</Label>
+                <Input
+                  id="ncm"
+                  inputMode="numeric"
+                  maxLength={8}
+                  value={formData.ncm}
+                  onChange={(e) => setFormData(prev => ({ ...prev, ncm: e.target.value.replace(/\D/g, '') }))}
+                  placeholder="Ex: 84713012"
+                />
+                <p className="text-xs text-muted-foreground">
+                  Define a taxa de depreciação fiscal da Receita Federal
+                </p>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="work_shifts">Turnos de Operação</Label>
+                <Select
+                  value={formData.work_shifts}
+                  onValueChange={(value) => setFormData(prev => ({ ...prev, work_shifts: value }))}
+                >
+                  <SelectTrigger id="work_shifts">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(WORK_SHIFT_LABELS).map(([value, label]) => (
+                      <SelectItem key={value} value={value}>{label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
           </div>
 
           {/* Localização */}
@@ -861,7 +977,8 @@ const AssetForm: React.FC<AssetFormProps> = ({ onSuccess, onCancel }) => {
                     <SelectValue placeholder="Selecione uma empresa" />
                   </SelectTrigger>
                   <SelectContent>
-                    {companies.map((company) => (
+                    {/* Assets are always registered in the active company */}
+                    {companies.filter(company => company.id === companyId).map((company) => (
                       <SelectItem key={company.id} value={company.id}>
                         {company.name}
                       </SelectItem>
@@ -886,9 +1003,10 @@ const AssetForm: React.FC<AssetFormProps> = ({ onSuccess, onCancel }) => {
                     <SelectValue placeholder="Selecione um departamento" />
                   </SelectTrigger>
                   <SelectContent>
-                    <SelectItem value="none">Não atribuir departamento</SelectItem>
+                    {/* Managers register assets only in their own department */}
+                    {isAdmin && <SelectItem value="none">Não atribuir departamento</SelectItem>}
                     {departments
-                      .filter(dept => dept.company_id === formData.company_id)
+                      .filter(dept => dept.company_id === formData.company_id && canManageAsset(dept.id))
                       .map((dept) => (
                       <SelectItem key={dept.id} value={dept.id}>
                         {dept.name}
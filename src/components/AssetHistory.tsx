@@ -7,16 +7,20 @@ import { Button } from '@/components/ui/button';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { format } from 'date-fns';
 import { ptBR } from 'date-fns/locale';
-import { History, Clock, User, FileText, Filter } from 'lucide-react';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { History, Clock, User, FileText, Filter, Columns2, ListTree } from 'lucide-react';
 import { cn } from '@/lib/utils';
+import { Json } from '@/integrations/supabase/types';
+import { AuditLookups, diffAuditData, fetchAuditLookups, formatAuditValue, getFieldLabel, toAuditRecord } from '@/lib/auditDiff';
 
 interface AuditLog {
   id: string;
   asset_id: string;
-  user_id: string;
+  user_id: string | null;
   action: string;
-  old_data: any;
-  new_data: any;
+  old_data: Json | null;
+  new_data: Json | null;
   created_at: string;
 }
 
@@ -29,11 +33,25 @@ const AssetHistory: React.FC<AssetHistoryProps> = ({ assetId, assetName }) => {
   const [auditLogs, setAuditLogs] = useState<AuditLog[]>([]);
   const [loading, setLoading] = useState(true);
   const [actionFilter, setActionFilter] = useState<string>('all');
+  const [viewMode, setViewMode] = useState<'timeline' | 'side-by-side'>('timeline');
+  const [lookups, setLookups] = useState<AuditLookups>({ categories: {}, departments: {}, units: {}, profiles: {} });
 
   useEffect(() => {
     fetchAuditLogs();
   }, [assetId]);
 
+  useEffect(() => {
+    fetchLookups();
+  }, []);
+
+  const fetchLookups = async () => {
+    try {
+      setLookups(await fetchAuditLookups());
+    } catch (error) {
+      console.error('Erro ao buscar nomes para o histórico:', error);
+    }
+  };
+
   const fetchAuditLogs = async () => {
     try {
       setLoading(true);
@@ -57,9 +75,12 @@ const AssetHistory: React.FC<AssetHistoryProps> = ({ assetId, assetName }) => {
     switch (action.toLowerCase()) {
       case 'create':
       case 'created':
+      case 'imported':
         return <FileText className={cn(iconClass, "text-green-500")} />;
       case 'update':
       case 'updated':
+      case 'import_updated':
+      case 'bulk_updated':
         return <Clock className={cn(iconClass, "text-blue-500")} />;
       case 'delete':
       case 'deleted':
@@ -73,14 +94,34 @@ const AssetHistory: React.FC<AssetHistoryProps> = ({ assetId, assetName }) => {
     const actionMap: Record<string, string> = {
       'create': 'Criado',
       'created': 'Criado',
+      'imported': 'Importado',
       'update': 'Atualizado',
       'updated': 'Atualizado',
+      'import_updated': 'Atualizado por Importação',
+      'bulk_updated': 'Alteração em Lote',
       'delete': 'Deletado',
       'deleted': 'Deletado',
       'status_change': 'Status Alterado',
       'location_update': 'Localização Atualizada',
       'maintenance_scheduled': 'Manutenção Agendada',
       'maintenance_completed': 'Manutenção Concluída',
+      'maintenance_updated': 'Manutenção Atualizada',
+      'maintenance_cancelled': 'Manutenção Cancelada',
+      'maintenance_deleted': 'Manutenção Removida',
+      'assigned_responsible': 'Responsável Atribuído',
+      'removed_responsible': 'Responsável Removido',
+      'checked_out': 'Empréstimo',
+      'checked_in': 'Devolução',
+      'disposal_recorded': 'Baixa Registrada',
+      'disposal_updated': 'Baixa Atualizada',
+      'disposal_deleted': 'Baixa Removida',
+      'reverted': 'Versão Restaurada',
+      'disposed': 'Baixado',
+      'archived': 'Arquivado',
+      'restored': 'Restaurado',
+      'purged': 'Excluído Permanentemente',
+      'revalued': 'Reavaliação',
+      'impaired': 'Perda por Impairment',
     };
     return actionMap[action.toLowerCase()] || action;
   };
@@ -89,39 +130,41 @@ const AssetHistory: React.FC<AssetHistoryProps> = ({ assetId, assetName }) => {
     switch (action.toLowerCase()) {
       case 'create':
       case 'created':
+      case 'imported':
         return 'bg-green-100 text-green-800 border-green-200';
       case 'update':
       case 'updated':
+      case 'import_updated':
+      case 'bulk_updated':
         return 'bg-blue-100 text-blue-800 border-blue-200';
       case 'delete':
       case 'deleted':
+      case 'disposed':
+      case 'purged':
         return 'bg-red-100 text-red-800 border-red-200';
+      case 'archived':
+        return 'bg-gray-100 text-gray-800 border-gray-300';
+      case 'restored':
+        return 'bg-green-100 text-green-800 border-green-200';
+      case 'revalued':
+        return 'bg-teal-100 text-teal-800 border-teal-200';
+      case 'impaired':
+        return 'bg-orange-100 text-orange-800 border-orange-200';
       case 'maintenance_scheduled':
         return 'bg-yellow-100 text-yellow-800 border-yellow-200';
       case 'maintenance_completed':
         return 'bg-purple-100 text-purple-800 border-purple-200';
+      case 'checked_out':
+      case 'checked_in':
+        return 'bg-indigo-100 text-indigo-800 border-indigo-200';
       default:
         return 'bg-gray-100 text-gray-800 border-gray-200';
     }
   };
 
-  const formatChanges = (oldData: any, newData: any) => {
-    if (!oldData || !newData) return null;
-
-    const changes = [];
-    const compareFields = ['status', 'current_location', 'name', 'description'];
-
-    for (const field of compareFields) {
-      if (oldData[field] !== newData[field]) {
-        changes.push({
-          field,
-          old: oldData[field],
-          new: newData[field],
-        });
-      }
-    }
-
-    return changes;
+  const getUserName = (userId: string | null) => {
+    if (!userId) return 'Sistema';
+    return lookups.profiles[userId] || `${userId.slice(0, 8)}...`;
   };
 
   const filteredLogs = actionFilter === 'all' 
@@ -157,6 +200,18 @@ const AssetHistory: React.FC<AssetHistoryProps> = ({ assetId, assetName }) => {
           {assetName && <span className="text-sm font-normal text-muted-foreground">- {assetName}</span>}
         </CardTitle>
         <div className="flex items-center gap-2">
+          <Tabs value={viewMode} onValueChange={(value) => setViewMode(value as 'timeline' | 'side-by-side')}>
+            <TabsList>
+              <TabsTrigger value="timeline" className="flex items-center gap-1">
+                <ListTree className="h-4 w-4" />
+                Linha do tempo
+              </TabsTrigger>
+              <TabsTrigger value="side-by-side" className="flex items-center gap-1">
+                <Columns2 className="h-4 w-4" />
+                Lado a lado
+              </TabsTrigger>
+            </TabsList>
+          </Tabs>
           <Filter className="h-4 w-4" />
           <Select value={actionFilter} onValueChange={setActionFilter}>
             <SelectTrigger className="w-48">
@@ -181,13 +236,16 @@ const AssetHistory: React.FC<AssetHistoryProps> = ({ assetId, assetName }) => {
           </div>
         ) : (
           <ScrollArea className="h-96">
-            <div className="space-y-4">
-              {filteredLogs.map((log) => (
-                <div key={log.id} className="border rounded-lg p-4 bg-card">
-                  <div className="flex items-start justify-between">
-                    <div className="flex items-center gap-3">
-                      {getActionIcon(log.action)}
-                      <div>
+            {viewMode === 'timeline' ? (
+              <div className="relative space-y-4 border-l pl-6 ml-2">
+                {filteredLogs.map((log) => {
+                  const changes = diffAuditData(log.old_data, log.new_data);
+                  return (
+                    <div key={log.id} className="relative">
+                      <div className="absolute -left-[33px] top-1 rounded-full bg-background p-1 border">
+                        {getActionIcon(log.action)}
+                      </div>
+                      <div className="flex items-center justify-between gap-2">
                         <div className="flex items-center gap-2">
                           <Badge 
                             variant="outline" 
@@ -200,29 +258,86 @@ const AssetHistory: React.FC<AssetHistoryProps> = ({ assetId, assetName }) => {
                             {format(new Date(log.created_at), 'dd/MM/yyyy HH:mm', { locale: ptBR })}
                           </span>
                         </div>
-                        <div className="mt-2">
-                          {formatChanges(log.old_data, log.new_data) && (
-                            <div className="space-y-1">
-                              {formatChanges(log.old_data, log.new_data)?.map((change, index) => (
-                                <div key={index} className="text-sm">
-                                  <span className="font-medium capitalize">{change.field}:</span>
-                                  <span className="text-red-600 line-through ml-2">{change.old}</span>
-                                  <span className="text-green-600 ml-2">→ {change.new}</span>
-                                </div>
-                              ))}
-                            </div>
-                          )}
+                        <div className="flex items-center gap-1 text-xs text-muted-foreground">
+                          <User className="h-3 w-3" />
+                          {getUserName(log.user_id)}
                         </div>
                       </div>
+                      {changes.length > 0 && (
+                        <div className="mt-2 space-y-1">
+                          {changes.map((change) => (
+                            <div key={change.field} className="text-sm">
+                              <span className="font-medium">{getFieldLabel(change.field)}:</span>
+                              {log.old_data && (
+                                <span className="text-red-600 line-through ml-2">
+                                  {formatAuditValue(change.field, change.old, lookups, toAuditRecord(log.old_data))}
+                                </span>
+                              )}
+                              <span className="text-green-600 ml-2">
+                                {log.old_data && '→ '}
+                                {formatAuditValue(change.field, change.new, lookups, toAuditRecord(log.new_data))}
+                              </span>
+                            </div>
+                          ))}
+                        </div>
+                      )}
                     </div>
-                    <div className="flex items-center gap-1 text-xs text-muted-foreground">
-                      <User className="h-3 w-3" />
-                      {log.user_id.slice(0, 8)}...
+                  );
+                })}
+              </div>
+            ) : (
+              <div className="space-y-4">
+                {filteredLogs.map((log) => {
+                  const changes = diffAuditData(log.old_data, log.new_data);
+                  return (
+                    <div key={log.id} className="border rounded-lg p-4 bg-card space-y-3">
+                      <div className="flex items-center justify-between gap-2">
+                        <div className="flex items-center gap-2">
+                          {getActionIcon(log.action)}
+                          <Badge 
+                            variant="outline" 
+                            className={getActionColor(log.action)}
+                          >
+                            {getActionLabel(log.action)}
+                          </Badge>
+                          <span className="text-sm text-muted-foreground">
+                            {format(new Date(log.created_at), 'dd/MM/yyyy HH:mm', { locale: ptBR })}
+                          </span>
+                        </div>
+                        <div className="flex items-center gap-1 text-xs text-muted-foreground">
+                          <User className="h-3 w-3" />
+                          {getUserName(log.user_id)}
+                        </div>
+                      </div>
+                      {changes.length > 0 && (
+                        <Table>
+                          <TableHeader>
+                            <TableRow>
+                              <TableHead className="w-1/4">Campo</TableHead>
+                              <TableHead>Antes</TableHead>
+                              <TableHead>Depois</TableHead>
+                            </TableRow>
+                          </TableHeader>
+                          <TableBody>
+                            {changes.map((change) => (
+                              <TableRow key={change.field}>
+                                <TableCell className="font-medium">{getFieldLabel(change.field)}</TableCell>
+                                <TableCell className="text-red-600 break-all">
+                                  {formatAuditValue(change.field, change.old, lookups, toAuditRecord(log.old_data))}
+                                </TableCell>
+                                <TableCell className="text-green-600 break-all">
+                                  {formatAuditValue(change.field, change.new, lookups, toAuditRecord(log.new_data))}
+                                </TableCell>
+                              </TableRow>
+                            ))}
+                          </TableBody>
+                        </Table>
+                      )}
                     </div>
-                  </div>
-                </div>
-              ))}
-            </div>
+                  );
+                })}
+              </div>
+            )}
           </ScrollArea>
         )}
         <div className="mt-4 pt-4 border-t">
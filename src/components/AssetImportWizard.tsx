@@ -0,0 +1,544 @@
+import React, { useMemo, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Progress } from '@/components/ui/progress';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { AlertCircle, CheckCircle2, Download, FileUp, Loader2 } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { useToast } from '@/hooks/use-toast';
+import { formatMoney } from '@/lib/currency';
+import {
+  autoMapColumns,
+  ColumnMapping,
+  EXISTING_ASSET_COLUMNS,
+  ExistingAsset,
+  IMPORT_FIELDS,
+  ImportField,
+  ImportMode,
+  ImportRow,
+  readSpreadsheet,
+  SpreadsheetData,
+  validateImportRows,
+} from '@/lib/assetImport';
+
+interface AssetImportWizardProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onImported?: () => void;
+}
+
+interface ImportFailure {
+  lines: number[];
+  message: string;
+}
+
+const steps = ['Arquivo', 'Colunas', 'Pré-visualização', 'Importação'];
+
+const NOT_MAPPED = '__none__';
+// Rows sent per call; each batch is one transaction on the server
+const BATCH_SIZE = 200;
+// Rows rendered in the preview table, the counts always cover the whole file
+const PREVIEW_LIMIT = 300;
+// Ids or codes per lookup query, keeps the request URL short
+const KEY_LOOKUP_CHUNK = 150;
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+const downloadCsv = (rows: string[][], fileName: string) => {
+  const csvContent = rows
+    .map(row => row.map(value => `"${String(value).replace(/"/g, '""')}"`).join(','))
+    .join('\n');
+  const blob = new Blob([csvContent], { type: 'text/csv;charset=utf-8;' });
+  const link = document.createElement("a");
+  const url = URL.createObjectURL(blob);
+  link.setAttribute("href", url);
+  link.setAttribute("download", fileName);
+  link.style.visibility = 'hidden';
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+};
+
+const AssetImportWizard: React.FC<AssetImportWizardProps> = ({ open, onOpenChange, onImported }) => {
+  const { toast } = useToast();
+  const [step, setStep] = useState(0);
+  const [mode, setMode] = useState<ImportMode>('create');
+  const [fileName, setFileName] = useState('');
+  const [data, setData] = useState<SpreadsheetData>({ headers: [], rows: [] });
+  const [mapping, setMapping] = useState<ColumnMapping>({});
+  const [rows, setRows] = useState<ImportRow[]>([]);
+  const [onlyErrors, setOnlyErrors] = useState(false);
+  const [reading, setReading] = useState(false);
+  const [validating, setValidating] = useState(false);
+  const [importing, setImporting] = useState(false);
+  const [importedCount, setImportedCount] = useState(0);
+  const [failures, setFailures] = useState<ImportFailure[]>([]);
+
+  const fields = IMPORT_FIELDS.filter(field => mode === 'update' || !field.updateOnly);
+  // In update mode rows that match the stored asset have nothing to write
+  const validRows = useMemo(
+    () => rows.filter(row => row.errors.length === 0 && (!row.changes || Object.keys(row.changes).length > 0)),
+    [rows]
+  );
+  const invalidRows = useMemo(() => rows.filter(row => row.errors.length > 0), [rows]);
+  const unchangedCount = rows.length - validRows.length - invalidRows.length;
+  const previewRows = (onlyErrors ? invalidRows : rows).slice(0, PREVIEW_LIMIT);
+  const processedCount = importedCount + failures.reduce((sum, failure) => sum + failure.lines.length, 0);
+  const finished = step === 3 && !importing;
+
+  const reset = () => {
+    setStep(0);
+    setMode('create');
+    setFileName('');
+    setData({ headers: [], rows: [] });
+    setMapping({});
+    setRows([]);
+    setOnlyErrors(false);
+    setImportedCount(0);
+    setFailures([]);
+  };
+
+  const handleOpenChange = (value: boolean) => {
+    if (importing) return;
+    if (!value) reset();
+    onOpenChange(value);
+  };
+
+  const handleFileChange = async (file: File | undefined) => {
+    if (!file) return;
+
+    setReading(true);
+    try {
+      const spreadsheet = await readSpreadsheet(file);
+      if (spreadsheet.rows.length === 0) {
+        toast({
+          title: "Erro",
+          description: "A planilha não tem linhas de dados.",
+          variant: "destructive",
+        });
+        return;
+      }
+
+      setFileName(file.name);
+      setData(spreadsheet);
+      setMapping(autoMapColumns(spreadsheet.headers));
+    } catch (error) {
+      console.error('Error reading spreadsheet:', error);
+      toast({
+        title: "Erro",
+        description: "Não foi possível ler o arquivo. Use CSV ou XLSX.",
+        variant: "destructive",
+      });
+    } finally {
+      setReading(false);
+    }
+  };
+
+  const handleDownloadTemplate = () => {
+    downloadCsv([
+      IMPORT_FIELDS.filter(field => !field.updateOnly).map(field => field.label),
+      ['Notebook Dell', 'TI-0001', 'SN123', '', 'Informática', 'Tecnologia', 'Matriz', '4.500,00', 'BRL', '15/03/2024', '500,00', '5', 'Linear', '', '', '84713012', '1', 'Ativo', 'Sala 12', ''],
+    ], 'modelo-importacao-ativos.csv');
+  };
+
+  // Archived assets still hold their code, so they are not filtered out
+  const fetchExistingAssets = async (column: 'id' | 'code', values: string[]) => {
+    const existing: ExistingAsset[] = [];
+    for (let i = 0; i < values.length; i += KEY_LOOKUP_CHUNK) {
+      const { data: found, error } = await supabase
+        .from('assets')
+        .select(EXISTING_ASSET_COLUMNS)
+        .in(column, values.slice(i, i + KEY_LOOKUP_CHUNK));
+
+      if (error) throw error;
+      existing.push(...((found || []) as unknown as ExistingAsset[]));
+    }
+    return existing;
+  };
+
+  const columnValues = (field: ImportField) => Array.from(new Set(
+    data.rows.map(row => String(row[mapping[field] as string] ?? '').trim()).filter(Boolean)
+  ));
+
+  const runValidation = async () => {
+    if (mode === 'update' && !mapping.id && !mapping.code) {
+      toast({
+        title: "Erro",
+        description: "Associe a coluna do ID do ativo ou do código para localizar os ativos.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const missing = mode === 'create' ? fields.filter(field => field.required && !mapping[field.key]) : [];
+    if (missing.length > 0) {
+      toast({
+        title: "Erro",
+        description: `Associe uma coluna para: ${missing.map(field => field.label).join(', ')}.`,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setValidating(true);
+    try {
+      // Values that are not UUIDs would fail the whole query; they are reported as not found
+      const ids = columnValues('id').filter(id => UUID_PATTERN.test(id));
+      const [categoriesResult, departmentsResult, unitsResult, byCode, byId] = await Promise.all([
+        supabase.from('categories').select('id, name'),
+        supabase.from('departments').select('id, name'),
+        supabase.from('units').select('id, name, department_id'),
+        mapping.code ? fetchExistingAssets('code', columnValues('code')) : Promise.resolve([]),
+        mode === 'update' && mapping.id ? fetchExistingAssets('id', ids) : Promise.resolve([]),
+      ]);
+      const existingAssets = Array.from(new Map([...byCode, ...byId].map(asset => [asset.id, asset])).values());
+
+      if (categoriesResult.error) throw categoriesResult.error;
+      if (departmentsResult.error) throw departmentsResult.error;
+      if (unitsResult.error) throw unitsResult.error;
+
+      setRows(validateImportRows(data, mapping, {
+        categories: categoriesResult.data || [],
+        departments: departmentsResult.data || [],
+        units: unitsResult.data || [],
+      }, existingAssets, mode));
+      setOnlyErrors(false);
+      setStep(2);
+    } catch (error) {
+      console.error('Error validating import:', error);
+      toast({
+        title: "Erro",
+        description: "Não foi possível validar a planilha.",
+        variant: "destructive",
+      });
+    } finally {
+      setValidating(false);
+    }
+  };
+
+  const handleDownloadErrors = () => {
+    downloadCsv([
+      ['Linha', 'Código', 'Nome', 'Erros'],
+      ...invalidRows.map(row => [String(row.line), row.asset.code, row.asset.name, row.errors.join('; ')]),
+    ], 'erros-importacao-ativos.csv');
+  };
+
+  const handleImport = async () => {
+    setStep(3);
+    setImporting(true);
+    setImportedCount(0);
+    setFailures([]);
+
+    try {
+      const { data: importId, error } = await supabase.rpc('start_asset_import', {
+        p_file_name: fileName,
+        p_total_rows: validRows.length,
+        p_mode: mode,
+      });
+      if (error) throw error;
+
+      let imported = 0;
+      for (let i = 0; i < validRows.length; i += BATCH_SIZE) {
+        const batch = validRows.slice(i, i + BATCH_SIZE);
+        const { data: inserted, error: batchError } = mode === 'create'
+          ? await supabase.rpc('import_assets', {
+              p_import_id: importId,
+              p_rows: batch.map(row => ({ ...row.asset })),
+            })
+          : await supabase.rpc('import_asset_updates', {
+              p_import_id: importId,
+              p_rows: batch.map(row => ({ id: row.assetId, ...row.changes })),
+            });
+
+        if (batchError) {
+          console.error('Error importing batch:', batchError);
+          const failure = {
+            lines: batch.map(row => row.line),
+            message: batchError.code === '23505'
+              ? 'Um dos códigos do lote foi cadastrado por outro usuário após a validação.'
+              : 'Erro ao gravar o lote.',
+          };
+          setFailures(prev => [...prev, failure]);
+        } else {
+          imported += inserted || 0;
+          setImportedCount(imported);
+        }
+      }
+
+      toast({
+        title: "Importação concluída",
+        description: `${imported} de ${validRows.length} ativos ${mode === 'create' ? 'importados' : 'atualizados'}.`,
+      });
+      if (imported > 0) onImported?.();
+    } catch (error) {
+      console.error('Error importing assets:', error);
+      toast({
+        title: "Erro",
+        description: "Não foi possível iniciar a importação.",
+        variant: "destructive",
+      });
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  const canAdvance =
+    (step === 0 && data.rows.length > 0 && !reading) ||
+    (step === 1 && !validating) ||
+    (step === 2 && validRows.length > 0);
+
+  const handleNext = () => {
+    if (step === 0) setStep(1);
+    else if (step === 1) runValidation();
+    else if (step === 2) handleImport();
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="max-w-4xl">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <FileUp className="h-5 w-5" />
+            Importar Ativos
+          </DialogTitle>
+          <DialogDescription>
+            Carga em lote a partir de uma planilha CSV ou XLSX
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2">
+          <div className="flex justify-between text-xs text-muted-foreground">
+            {steps.map((label, index) => (
+              <span key={label} className={cn(index === step && "font-semibold text-foreground")}>
+                {index + 1}. {label}
+              </span>
+            ))}
+          </div>
+          <Progress value={((step + 1) / steps.length) * 100} />
+        </div>
+
+        {step === 0 && (
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label>Operação</Label>
+              <Select value={mode} onValueChange={(value: ImportMode) => setMode(value)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="create">Cadastrar novos ativos</SelectItem>
+                  <SelectItem value="update">Atualizar ativos existentes (ex.: CSV exportado e editado)</SelectItem>
+                </SelectContent>
+              </Select>
+              {mode === 'update' && (
+                <p className="text-xs text-muted-foreground">
+                  Os ativos são localizados pelo ID (ou pelo código) e só as colunas associadas são alteradas.
+                </p>
+              )}
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="import_file">Planilha</Label>
+              <Input
+                id="import_file"
+                type="file"
+                accept=".csv,.txt,.xlsx"
+                onChange={(e) => handleFileChange(e.target.files?.[0])}
+                disabled={reading}
+              />
+              <p className="text-xs text-muted-foreground">
+                A primeira linha deve conter os nomes das colunas. Categoria, departamento e unidade são informados pelo nome.
+              </p>
+            </div>
+            {reading && (
+              <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                <Loader2 className="h-4 w-4 animate-spin" />
+                Lendo planilha...
+              </div>
+            )}
+            {data.rows.length > 0 && !reading && (
+              <p className="text-sm">
+                <span className="font-medium">{fileName}</span>: {data.rows.length} linha(s) e {data.headers.length} coluna(s)
+              </p>
+            )}
+            <Button type="button" variant="outline" size="sm" onClick={handleDownloadTemplate}>
+              <Download className="h-4 w-4 mr-2" />
+              Baixar modelo
+            </Button>
+          </div>
+        )}
+
+        {step === 1 && (
+          <ScrollArea className="h-[420px] pr-4">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              {fields.map(field => (
+                <div key={field.key} className="space-y-1">
+                  <Label>{field.label}{mode === 'create' && field.required && ' *'}</Label>
+                  <Select
+                    value={mapping[field.key] || NOT_MAPPED}
+                    onValueChange={(value) => setMapping(prev => ({
+                      ...prev,
+                      [field.key as ImportField]: value === NOT_MAPPED ? undefined : value,
+                    }))}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={NOT_MAPPED}>— Não importar —</SelectItem>
+                      {data.headers.map(header => (
+                        <SelectItem key={header} value={header}>{header}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              ))}
+            </div>
+          </ScrollArea>
+        )}
+
+        {step === 2 && (
+          <div className="space-y-4">
+            <div className="flex flex-wrap items-center gap-3">
+              <Badge variant="outline" className="bg-green-100 text-green-800 border-green-200">
+                {validRows.length} válida(s)
+              </Badge>
+              <Badge variant="outline" className="bg-red-100 text-red-800 border-red-200">
+                {invalidRows.length} com erro
+              </Badge>
+              {mode === 'update' && (
+                <Badge variant="outline" className="bg-gray-100 text-gray-800 border-gray-300">
+                  {unchangedCount} sem alterações
+                </Badge>
+              )}
+              <div className="flex items-center space-x-2 ml-auto">
+                <Checkbox
+                  id="only_errors"
+                  checked={onlyErrors}
+                  onCheckedChange={(checked) => setOnlyErrors(checked === true)}
+                />
+                <Label htmlFor="only_errors">Somente linhas com erro</Label>
+              </div>
+              {invalidRows.length > 0 && (
+                <Button type="button" variant="outline" size="sm" onClick={handleDownloadErrors}>
+                  <Download className="h-4 w-4 mr-2" />
+                  Baixar erros
+                </Button>
+              )}
+            </div>
+
+            <ScrollArea className="h-[360px] border rounded-md">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="w-16">Linha</TableHead>
+                    <TableHead>Código</TableHead>
+                    <TableHead>Nome</TableHead>
+                    <TableHead className="text-right">Valor</TableHead>
+                    <TableHead>Compra</TableHead>
+                    <TableHead>Validação</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {previewRows.map(row => (
+                    <TableRow key={row.line}>
+                      <TableCell>{row.line}</TableCell>
+                      <TableCell className="font-mono text-xs">{row.asset.code}</TableCell>
+                      <TableCell>{row.asset.name}</TableCell>
+                      <TableCell className="text-right">
+                        {formatMoney(row.asset.purchase_value, row.asset.currency)}
+                      </TableCell>
+                      <TableCell>
+                        {row.asset.purchase_date && row.asset.purchase_date.split('-').reverse().join('/')}
+                      </TableCell>
+                      <TableCell>
+                        {row.errors.length === 0 && row.changes && Object.keys(row.changes).length === 0 ? (
+                          <span className="text-sm text-muted-foreground">Sem alterações</span>
+                        ) : row.errors.length === 0 ? (
+                          <span className="flex items-center gap-1 text-green-700 text-sm">
+                            <CheckCircle2 className="h-4 w-4" />
+                            {row.changes ? `${Object.keys(row.changes).length} campo(s) alterado(s)` : 'OK'}
+                          </span>
+                        ) : (
+                          <ul className="text-xs text-destructive space-y-0.5">
+                            {row.errors.map(message => (
+                              <li key={message} className="flex items-start gap-1">
+                                <AlertCircle className="h-3 w-3 mt-0.5 flex-shrink-0" />
+                                {message}
+                              </li>
+                            ))}
+                          </ul>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </ScrollArea>
+
+            <p className="text-xs text-muted-foreground">
+              {(onlyErrors ? invalidRows : rows).length > PREVIEW_LIMIT &&
+                `Exibindo ${PREVIEW_LIMIT} de ${(onlyErrors ? invalidRows : rows).length} linhas. `}
+              Nada foi gravado ainda. Somente as linhas válidas {mode === 'update' && 'e com alterações '}serão gravadas.
+            </p>
+          </div>
+        )}
+
+        {step === 3 && (
+          <div className="space-y-4">
+            <Progress value={validRows.length > 0 ? (processedCount / validRows.length) * 100 : 0} />
+            <p className="text-sm">
+              {importing
+                ? `Importando... ${processedCount} de ${validRows.length}`
+                : `${importedCount} de ${validRows.length} ativos ${mode === 'create' ? 'importados' : 'atualizados'}.`}
+            </p>
+            {failures.length > 0 && (
+              <div className="space-y-2 text-sm text-destructive">
+                {failures.map(failure => (
+                  <p key={failure.lines[0]} className="flex items-start gap-2">
+                    <AlertCircle className="h-4 w-4 mt-0.5 flex-shrink-0" />
+                    Linhas {failure.lines[0]} a {failure.lines[failure.lines.length - 1]}: {failure.message}
+                  </p>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+
+        <div className="flex justify-between">
+          {finished ? (
+            <span />
+          ) : (
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => (step === 0 ? handleOpenChange(false) : setStep(step - 1))}
+              disabled={importing || validating}
+            >
+              {step === 0 ? 'Cancelar' : 'Voltar'}
+            </Button>
+          )}
+          {finished ? (
+            <Button type="button" onClick={() => handleOpenChange(false)}>
+              Concluir
+            </Button>
+          ) : step < 3 && (
+            <Button type="button" onClick={handleNext} disabled={!canAdvance}>
+              {validating && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              {step === 2
+                ? `${mode === 'create' ? 'Importar' : 'Atualizar'} ${validRows.length} ativo(s)`
+                : 'Próximo'}
+            </Button>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default AssetImportWizard;
@@ -1,8 +1,12 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
+import { useSearchParams } from 'react-router-dom';
 import { supabase } from '@/integrations/supabase/client';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Checkbox } from '@/components/ui/checkbox';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Badge } from '@/components/ui/badge';
 import { Skeleton } from '@/components/ui/skeleton';
@@ -10,12 +14,31 @@ import { useToast } from '@/hooks/use-toast';
 import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from '@/components/ui/alert-dialog';
 import { Dialog, DialogTrigger } from '@/components/ui/dialog';
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
-import { Search, DollarSign, Calendar, Building2, MapPin, Activity, Edit, QrCode, History, Eye, Trash2, User, Scan } from 'lucide-react';
+import { Search, DollarSign, Calendar, Building2, MapPin, Activity, Edit, QrCode, History, Eye, Trash2, User, Scan, PackageX, Archive, ArchiveRestore, ListChecks, Tags, FileDown, X, Loader2, ArrowDown, ArrowUp, ChevronLeft, ChevronRight, FilterX } from 'lucide-react';
 import QRCodeGenerator from './QRCodeGenerator';
 import AssetHistory from './AssetHistory';
 import AssetDetails from './AssetDetails';
 import QRCodeScanner from './QRCodeScanner';
 import GoogleAssetMap from './GoogleAssetMap';
+import AssetDisposalWizard from './AssetDisposalWizard';
+import AssetBulkEditDialog, { BulkEditableAsset } from './AssetBulkEditDialog';
+import { calculateBookValue, ValuationEvent } from '@/lib/depreciation';
+import { formatMoney } from '@/lib/currency';
+import {
+  applyAssetFilters,
+  ASSET_PAGE_SIZES,
+  ASSET_SORT_LABELS,
+  AssetListFilters,
+  AssetListParams,
+  AssetSortColumn,
+  DEFAULT_ASSET_FILTERS,
+  hasActiveFilters,
+  readAssetListParams,
+  writeAssetListParams,
+} from '@/lib/assetFilters';
+import { buildAssetExportCsv, ExportableAsset } from '@/lib/assetExport';
+import { generateQrLabels } from '@/lib/assetLabels';
+import { usePermissions } from '@/hooks/usePermissions';
 
 interface Asset {
   id: string;
@@ -23,14 +46,25 @@ interface Asset {
   code: string;
   serial_number: string | null;
   purchase_value: number;
+  currency: string;
   purchase_date: string;
   residual_value: number;
   useful_life_years: number;
   status: string | null;
+  category_id: string | null;
+  department_id: string | null;
+  unit_id: string | null;
+  current_location: string | null;
   assigned_to: string | null;
+  deleted_at: string | null;
+  depreciation_method: string | null;
+  total_units: number | null;
+  units_used: number;
   categories: {
     name: string;
+    depreciation_method: string;
   } | null;
+  asset_valuation_events: ValuationEvent[];
   profiles?: {
     user_id: string;
     full_name: string | null;
@@ -43,38 +77,117 @@ interface Category {
   name: string;
 }
 
-const AssetList = () => {
+interface Unit extends Category {
+  department_id: string;
+}
+
+// Ids per request when fetching the selected assets for export
+const SELECTION_CHUNK_SIZE = 200;
+
+// Rows per request when selecting every asset that matches the filters
+const SELECT_ALL_PAGE_SIZE = 1000;
+
+// Columns kept for a selected asset, enough for bulk edit and labels
+const SELECTION_COLUMNS = 'id, code, name, status, category_id, department_id, unit_id, assigned_to, current_location';
+
+const SEARCH_DEBOUNCE_MS = 300;
+
+interface AssetListProps {
+  onFiltersChange?: (filters: AssetListFilters) => void;
+}
+
+const AssetList = ({ onFiltersChange }: AssetListProps) => {
+  const [searchParams, setSearchParams] = useSearchParams();
   const [assets, setAssets] = useState<Asset[]>([]);
+  const [totalCount, setTotalCount] = useState(0);
   const [categories, setCategories] = useState<Category[]>([]);
+  const [departments, setDepartments] = useState<Category[]>([]);
+  const [units, setUnits] = useState<Unit[]>([]);
   const [loading, setLoading] = useState(true);
-  const [searchTerm, setSearchTerm] = useState('');
-  const [filterCategory, setFilterCategory] = useState('all');
-  const [filterStatus, setFilterStatus] = useState('all');
-  const [filterResponsible, setFilterResponsible] = useState('all');
   const [selectedAssetForQR, setSelectedAssetForQR] = useState<Asset | null>(null);
   const [selectedAssetForHistory, setSelectedAssetForHistory] = useState<string | null>(null);
   const [selectedAssetForDetails, setSelectedAssetForDetails] = useState<string | null>(null);
+  const [selectedAssetForDisposal, setSelectedAssetForDisposal] = useState<Asset | null>(null);
   const [showScanner, setShowScanner] = useState(false);
   const [showMap, setShowMap] = useState(false);
   const [profiles, setProfiles] = useState<any[]>([]);
+  const [selectedAssets, setSelectedAssets] = useState<BulkEditableAsset[]>([]);
+  const [showBulkEdit, setShowBulkEdit] = useState(false);
+  const [bulkAction, setBulkAction] = useState<'labels' | 'export' | 'select' | null>(null);
+  const latestRequest = useRef(0);
+  const { isAdmin, canManageAssets, canManageAsset } = usePermissions();
   const { toast } = useToast();
 
+  // Filters, sorting and page live in the URL
+  const listParams = readAssetListParams(searchParams);
+  const { filters, sort, page, pageSize } = listParams;
+  const listKey = JSON.stringify(listParams);
+  const filtersKey = JSON.stringify(filters);
+  const showArchived = filters.showArchived;
+  const [searchInput, setSearchInput] = useState(filters.searchTerm);
+
+  const selectedIds = selectedAssets.map(asset => asset.id);
+  const pageCount = Math.max(1, Math.ceil(totalCount / pageSize));
+
+  const updateList = (changes: Partial<AssetListParams>) =>
+    setSearchParams(params => writeAssetListParams(params, { ...readAssetListParams(params), ...changes }), { replace: true });
+
+  // Any filter change goes back to the first page
+  const setFilters = (changes: Partial<AssetListFilters>) =>
+    setSearchParams(params => {
+      const current = readAssetListParams(params);
+      return writeAssetListParams(params, { ...current, filters: { ...current.filters, ...changes }, page: 1 });
+    }, { replace: true });
+
   useEffect(() => {
-    fetchAssets();
-    fetchCategories();
+    fetchFilterOptions();
     fetchProfiles();
   }, []);
 
+  useEffect(() => {
+    fetchAssets();
+  }, [listKey]);
+
+  useEffect(() => {
+    setSelectedAssets([]);
+  }, [showArchived]);
+
+  useEffect(() => {
+    onFiltersChange?.(filters);
+  }, [filtersKey]);
+
+  // The URL follows the search box once typing pauses
+  useEffect(() => {
+    if (searchInput === filters.searchTerm) return;
+    const timeout = setTimeout(() => setFilters({ searchTerm: searchInput }), SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timeout);
+  }, [searchInput]);
+
+  // Back/forward navigation changes the term under the search box
+  useEffect(() => {
+    setSearchInput(filters.searchTerm);
+  }, [filters.searchTerm]);
+
   const fetchAssets = async () => {
+    const request = ++latestRequest.current;
     setLoading(true);
-    const { data, error } = await supabase
+    const query = supabase
       .from('assets')
       .select(`
         *,
-        categories (name),
+        categories (name, depreciation_method),
+        asset_valuation_events (event_date, new_book_value, remaining_useful_life_years, units_used_at_event),
         profiles:assigned_to (user_id, full_name, avatar_url)
-      `)
-      .order('created_at', { ascending: false });
+      `, { count: 'exact' });
+
+    const from = (page - 1) * pageSize;
+    const { data, error, count } = await applyAssetFilters(query, filters)
+      .order(sort.column, { ascending: sort.ascending })
+      .order('id')
+      .range(from, from + pageSize - 1);
+
+    // A newer query was started while this one ran
+    if (request !== latestRequest.current) return;
 
     if (error) {
       console.error('Error fetching assets:', error);
@@ -85,19 +198,25 @@ const AssetList = () => {
       });
     } else {
       setAssets(data || []);
+      setTotalCount(count || 0);
+      // Past the last page, e.g. after archiving its only asset
+      if (page > 1 && from >= (count || 0)) {
+        updateList({ page: Math.max(1, Math.ceil((count || 0) / pageSize)) });
+      }
     }
     setLoading(false);
   };
 
-  const fetchCategories = async () => {
-    const { data, error } = await supabase
-      .from('categories')
-      .select('id, name')
-      .order('name');
-    
-    if (data) {
-      setCategories(data);
-    }
+  const fetchFilterOptions = async () => {
+    const [categoriesResult, departmentsResult, unitsResult] = await Promise.all([
+      supabase.from('categories').select('id, name').order('name'),
+      supabase.from('departments').select('id, name').order('name'),
+      supabase.from('units').select('id, name, department_id').order('name'),
+    ]);
+
+    if (categoriesResult.data) setCategories(categoriesResult.data);
+    if (departmentsResult.data) setDepartments(departmentsResult.data);
+    if (unitsResult.data) setUnits(unitsResult.data);
   };
 
   const fetchProfiles = async () => {
@@ -111,41 +230,175 @@ const AssetList = () => {
     }
   };
 
-  const handleDeleteAsset = async (assetId: string) => {
+  const handleArchiveAsset = async (assetId: string) => {
+    try {
+      const { error } = await supabase.rpc('archive_asset', { p_asset_id: assetId });
+
+      if (error) throw error;
+
+      setSelectedAssets(selected => selected.filter(asset => asset.id !== assetId));
+      fetchAssets();
+
+      toast({
+        title: "Ativo arquivado!",
+        description: "O ativo pode ser restaurado na lista de arquivados.",
+      });
+    } catch (error) {
+      console.error('Error archiving asset:', error);
+      toast({
+        title: "Erro ao arquivar ativo",
+        description: "Não foi possível arquivar o item",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleRestoreAsset = async (assetId: string) => {
     try {
-      setLoading(true);
-      const { error } = await supabase.from('assets').delete().eq('id', assetId);
+      const { error } = await supabase.rpc('restore_asset', { p_asset_id: assetId });
 
       if (error) throw error;
 
-      // Update local state
-      setAssets(assets.filter(asset => asset.id !== assetId));
+      setSelectedAssets(selected => selected.filter(asset => asset.id !== assetId));
+      fetchAssets();
+
+      toast({
+        title: "Ativo restaurado!",
+        description: "O ativo voltou para a lista de ativos.",
+      });
+    } catch (error) {
+      console.error('Error restoring asset:', error);
+      toast({
+        title: "Erro ao restaurar ativo",
+        description: "Não foi possível restaurar o item",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handlePurgeAsset = async (assetId: string) => {
+    try {
+      const { error } = await supabase.rpc('purge_asset', { p_asset_id: assetId });
+
+      if (error) throw error;
+
+      setSelectedAssets(selected => selected.filter(asset => asset.id !== assetId));
+      fetchAssets();
 
       toast({
         title: "Ativo excluído!",
-        description: "O ativo foi removido com sucesso.",
+        description: "O ativo foi removido permanentemente.",
       });
     } catch (error) {
-      console.error('Error deleting asset:', error);
+      console.error('Error purging asset:', error);
       toast({
         title: "Erro ao excluir ativo",
         description: "Não foi possível remover o item",
         variant: "destructive",
       });
+    }
+  };
+
+  const toggleSelected = (asset: Asset, checked: boolean) =>
+    setSelectedAssets(selected => checked
+      ? [...selected, asset]
+      : selected.filter(item => item.id !== asset.id));
+
+  const togglePageSelected = (checked: boolean) => {
+    const pageIds = assets.map(asset => asset.id);
+    setSelectedAssets(selected => checked
+      ? [...selected, ...assets.filter(asset => !selected.some(item => item.id === asset.id))]
+      : selected.filter(item => !pageIds.includes(item.id)));
+  };
+
+  // Every asset matching the filters, beyond the current page
+  const handleSelectAllMatching = async () => {
+    setBulkAction('select');
+    try {
+      const matching: BulkEditableAsset[] = [];
+      for (let from = 0; ; from += SELECT_ALL_PAGE_SIZE) {
+        const query = supabase.from('assets').select(SELECTION_COLUMNS);
+        const { data, error } = await applyAssetFilters(query, filters)
+          .order('id')
+          .range(from, from + SELECT_ALL_PAGE_SIZE - 1);
+
+        if (error) throw error;
+        matching.push(...data);
+        if (data.length < SELECT_ALL_PAGE_SIZE) break;
+      }
+      setSelectedAssets(matching);
+    } catch (error) {
+      console.error('Error selecting assets:', error);
+      toast({
+        title: "Erro",
+        description: "Não foi possível selecionar todos os ativos filtrados.",
+        variant: "destructive",
+      });
     } finally {
-      setLoading(false);
+      setBulkAction(null);
     }
   };
 
-  const calculateBookValue = (asset: Asset) => {
-    const yearsElapsed = (new Date().getTime() - new Date(asset.purchase_date).getTime()) / (1000 * 60 * 60 * 24 * 365);
-    const annualDepreciation = (asset.purchase_value - (asset.residual_value || 0)) / asset.useful_life_years;
-    const totalDepreciation = Math.min(annualDepreciation * yearsElapsed, asset.purchase_value - (asset.residual_value || 0));
-    return Math.max(asset.purchase_value - totalDepreciation, asset.residual_value || 0);
+  const handlePrintLabels = async () => {
+    setBulkAction('labels');
+    try {
+      await generateQrLabels(selectedAssets);
+      toast({
+        title: "Etiquetas geradas",
+        description: `${selectedAssets.length} ${selectedAssets.length === 1 ? 'etiqueta' : 'etiquetas'} em PDF.`,
+      });
+    } catch (error) {
+      console.error('Error generating QR labels:', error);
+      toast({
+        title: "Erro",
+        description: "Não foi possível gerar as etiquetas QR.",
+        variant: "destructive",
+      });
+    } finally {
+      setBulkAction(null);
+    }
   };
 
-  const formatCurrency = (value: number) => {
-    return new Intl.NumberFormat('pt-BR', { style: 'currency', currency: 'BRL' }).format(value);
+  // Same full-column CSV as the inventory export, limited to the selection
+  const handleExportSelected = async () => {
+    setBulkAction('export');
+    try {
+      const exported: ExportableAsset[] = [];
+      for (let from = 0; from < selectedIds.length; from += SELECTION_CHUNK_SIZE) {
+        const { data, error } = await supabase
+          .from('assets')
+          .select('*, categories(name), departments(name), units(name), profiles:assigned_to(full_name)')
+          .in('id', selectedIds.slice(from, from + SELECTION_CHUNK_SIZE))
+          .order('code');
+
+        if (error) throw error;
+        exported.push(...(data as ExportableAsset[]));
+      }
+
+      const blob = new Blob([buildAssetExportCsv(exported)], { type: 'text/csv;charset=utf-8;' });
+      const link = document.createElement("a");
+      const url = URL.createObjectURL(blob);
+      link.setAttribute("href", url);
+      link.setAttribute("download", `ativos-selecionados-${new Date().toISOString().slice(0, 10)}.csv`);
+      link.style.visibility = 'hidden';
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+
+      toast({
+        title: "Sucesso",
+        description: `${exported.length} ativo(s) exportado(s) em CSV.`,
+      });
+    } catch (error) {
+      console.error('Error exporting selected assets:', error);
+      toast({
+        title: "Erro",
+        description: "Não foi possível exportar os ativos selecionados.",
+        variant: "destructive",
+      });
+    } finally {
+      setBulkAction(null);
+    }
   };
 
   const getStatusIcon = (status: string) => {
@@ -162,6 +415,7 @@ const AssetList = () => {
       case 'active': return 'bg-green-500/10 text-green-500 border-green-500/20';
       case 'maintenance': return 'bg-yellow-500/10 text-yellow-500 border-yellow-500/20';
       case 'inactive': return 'bg-red-500/10 text-red-500 border-red-500/20';
+      case 'disposed': return 'bg-gray-500/10 text-gray-500 border-gray-500/20';
       default: return 'bg-gray-500/10 text-gray-500 border-gray-500/20';
     }
   };
@@ -171,45 +425,15 @@ const AssetList = () => {
       case 'active': return 'Ativo';
       case 'maintenance': return 'Manutenção';
       case 'inactive': return 'Inativo';
+      case 'disposed': return 'Descartado';
       default: return status;
     }
   };
 
-  // Filter assets based on search term, category, status, and responsible
-  const filteredAssets = assets.filter(asset => {
-    const matchesSearch = asset.name.toLowerCase().includes(searchTerm.toLowerCase()) ||
-      asset.code.toLowerCase().includes(searchTerm.toLowerCase()) ||
-      (asset.serial_number && asset.serial_number.toLowerCase().includes(searchTerm.toLowerCase()));
-    
-    const matchesCategory = filterCategory === 'all' || asset.categories?.name === filterCategory;
-    const matchesStatus = filterStatus === 'all' || asset.status === filterStatus;
-    const matchesResponsible = filterResponsible === 'all' || 
-      (filterResponsible === 'unassigned' && !asset.assigned_to) ||
-      (filterResponsible !== 'unassigned' && asset.assigned_to === filterResponsible);
-    
-    return matchesSearch && matchesCategory && matchesStatus && matchesResponsible;
-  });
-
-  if (loading) {
-    return (
-      <div className="space-y-6 animate-fade-in">
-        <h2 className="text-3xl font-bold text-foreground">Lista de Ativos</h2>
-        <div className="space-y-4">
-          {[...Array(5)].map((_, i) => (
-            <Card key={i} className="animate-pulse">
-              <CardContent className="p-6">
-                <div className="space-y-2">
-                  <Skeleton className="h-6 w-1/3" />
-                  <Skeleton className="h-4 w-2/3" />
-                  <Skeleton className="h-4 w-1/2" />
-                </div>
-              </CardContent>
-            </Card>
-          ))}
-        </div>
-      </div>
-    );
-  }
+  const allPageSelected = assets.length > 0 && assets.every(asset => selectedIds.includes(asset.id));
+  const departmentUnits = units.filter(unit => filters.department === 'all' || unit.department_id === filters.department);
+  const firstShown = totalCount === 0 ? 0 : (page - 1) * pageSize + 1;
+  const lastShown = Math.min(page * pageSize, totalCount);
 
   return (
     <div className="space-y-6 animate-fade-in">
@@ -234,44 +458,65 @@ const AssetList = () => {
             <MapPin className="w-4 h-4" />
             Mapa de Ativos
           </Button>
+          <div className="flex items-center gap-2">
+            <Switch
+              id="show-archived-assets"
+              checked={showArchived}
+              onCheckedChange={(checked) => setFilters({ showArchived: checked })}
+            />
+            <Label htmlFor="show-archived-assets">Arquivados</Label>
+          </div>
           <div className="text-sm text-muted-foreground">
-            {filteredAssets.length} de {assets.length} ativos
+            {totalCount} {totalCount === 1 ? 'ativo' : 'ativos'}
           </div>
         </div>
       </div>
 
       {/* Filters */}
       <Card className="border-border/50">
-        <CardHeader>
+        <CardHeader className="flex flex-row items-center justify-between space-y-0">
           <CardTitle className="text-lg">Filtros</CardTitle>
+          {hasActiveFilters({ ...filters, showArchived: false }) && (
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => {
+                setSearchInput('');
+                setFilters({ ...DEFAULT_ASSET_FILTERS, showArchived });
+              }}
+            >
+              <FilterX className="h-4 w-4 mr-1" />
+              Limpar filtros
+            </Button>
+          )}
         </CardHeader>
-        <CardContent>
+        <CardContent className="space-y-4">
           <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
             <div className="relative">
               <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-muted-foreground h-4 w-4" />
               <Input
-                placeholder="Buscar por nome, código ou número de série..."
-                value={searchTerm}
-                onChange={(e) => setSearchTerm(e.target.value)}
+                placeholder="Buscar por nome, código, série, RFID ou descrição..."
+                value={searchInput}
+                onChange={(e) => setSearchInput(e.target.value)}
                 className="pl-9"
               />
             </div>
             
-            <Select value={filterCategory} onValueChange={setFilterCategory}>
+            <Select value={filters.category} onValueChange={(value) => setFilters({ category: value })}>
               <SelectTrigger>
                 <SelectValue placeholder="Filtrar por categoria" />
               </SelectTrigger>
               <SelectContent>
                 <SelectItem value="all">Todas as categorias</SelectItem>
                 {categories.map((category) => (
-                  <SelectItem key={category.id} value={category.name}>
+                  <SelectItem key={category.id} value={category.id}>
                     {category.name}
                   </SelectItem>
                 ))}
               </SelectContent>
             </Select>
             
-            <Select value={filterStatus} onValueChange={setFilterStatus}>
+            <Select value={filters.status} onValueChange={(value) => setFilters({ status: value })}>
               <SelectTrigger>
                 <SelectValue placeholder="Filtrar por status" />
               </SelectTrigger>
@@ -283,7 +528,7 @@ const AssetList = () => {
               </SelectContent>
             </Select>
 
-            <Select value={filterResponsible} onValueChange={setFilterResponsible}>
+            <Select value={filters.responsible} onValueChange={(value) => setFilters({ responsible: value })}>
               <SelectTrigger>
                 <SelectValue placeholder="Filtrar por responsável" />
               </SelectTrigger>
@@ -297,13 +542,177 @@ const AssetList = () => {
                 ))}
               </SelectContent>
             </Select>
+
+            <Select
+              value={filters.department}
+              onValueChange={(value) => setFilters({ department: value, unit: 'all' })}
+            >
+              <SelectTrigger>
+                <SelectValue placeholder="Filtrar por departamento" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">Todos os departamentos</SelectItem>
+                {departments.map((department) => (
+                  <SelectItem key={department.id} value={department.id}>
+                    {department.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+
+            <Select value={filters.unit} onValueChange={(value) => setFilters({ unit: value })}>
+              <SelectTrigger>
+                <SelectValue placeholder="Filtrar por unidade" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">Todas as unidades</SelectItem>
+                {departmentUnits.map((unit) => (
+                  <SelectItem key={unit.id} value={unit.id}>
+                    {unit.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+
+            <div className="grid grid-cols-2 gap-2">
+              <div className="space-y-1">
+                <Label htmlFor="filter-purchase-from" className="text-xs text-muted-foreground">Comprado de</Label>
+                <Input
+                  id="filter-purchase-from"
+                  type="date"
+                  value={filters.purchaseDateFrom}
+                  onChange={(e) => setFilters({ purchaseDateFrom: e.target.value })}
+                />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="filter-purchase-to" className="text-xs text-muted-foreground">até</Label>
+                <Input
+                  id="filter-purchase-to"
+                  type="date"
+                  value={filters.purchaseDateTo}
+                  onChange={(e) => setFilters({ purchaseDateTo: e.target.value })}
+                />
+              </div>
+            </div>
+
+            <div className="grid grid-cols-2 gap-2">
+              <div className="space-y-1">
+                <Label htmlFor="filter-min-value" className="text-xs text-muted-foreground">Valor mínimo</Label>
+                <Input
+                  id="filter-min-value"
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  value={filters.minValue}
+                  onChange={(e) => setFilters({ minValue: e.target.value })}
+                />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="filter-max-value" className="text-xs text-muted-foreground">Valor máximo</Label>
+                <Input
+                  id="filter-max-value"
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  value={filters.maxValue}
+                  onChange={(e) => setFilters({ maxValue: e.target.value })}
+                />
+              </div>
+            </div>
+          </div>
+
+          <div className="flex flex-wrap items-center gap-2">
+            <Label className="text-sm text-muted-foreground">Ordenar por</Label>
+            <Select
+              value={sort.column}
+              onValueChange={(value) => updateList({ sort: { ...sort, column: value as AssetSortColumn }, page: 1 })}
+            >
+              <SelectTrigger className="w-48">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(ASSET_SORT_LABELS) as AssetSortColumn[]).map((column) => (
+                  <SelectItem key={column} value={column}>
+                    {ASSET_SORT_LABELS[column]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => updateList({ sort: { ...sort, ascending: !sort.ascending }, page: 1 })}
+            >
+              {sort.ascending ? <ArrowUp className="h-4 w-4 mr-1" /> : <ArrowDown className="h-4 w-4 mr-1" />}
+              {sort.ascending ? 'Crescente' : 'Decrescente'}
+            </Button>
           </div>
         </CardContent>
       </Card>
 
+      {/* Selection and bulk actions */}
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div className="flex items-center gap-2">
+          <Checkbox
+            id="select-all-assets"
+            checked={allPageSelected}
+            onCheckedChange={(checked) => togglePageSelected(checked === true)}
+            disabled={assets.length === 0}
+          />
+          <Label htmlFor="select-all-assets" className="text-sm">
+            Selecionar todos da página
+          </Label>
+          {selectedIds.length > 0 && (
+            <span className="text-sm text-muted-foreground">
+              · {selectedIds.length} {selectedIds.length === 1 ? 'selecionado' : 'selecionados'}
+            </span>
+          )}
+          {allPageSelected && selectedIds.length < totalCount && (
+            <Button variant="link" size="sm" onClick={handleSelectAllMatching} disabled={!!bulkAction}>
+              {bulkAction === 'select' && <Loader2 className="h-4 w-4 mr-1 animate-spin" />}
+              Selecionar todos os {totalCount} resultados
+            </Button>
+          )}
+        </div>
+        {selectedIds.length > 0 && (
+          <div className="flex flex-wrap items-center gap-2">
+            {!showArchived && canManageAssets && (
+              <Button variant="outline" size="sm" onClick={() => setShowBulkEdit(true)}>
+                <ListChecks className="h-4 w-4 mr-1" />
+                Editar em lote
+              </Button>
+            )}
+            <Button variant="outline" size="sm" onClick={handlePrintLabels} disabled={!!bulkAction}>
+              {bulkAction === 'labels' ? <Loader2 className="h-4 w-4 mr-1 animate-spin" /> : <Tags className="h-4 w-4 mr-1" />}
+              Etiquetas QR
+            </Button>
+            <Button variant="outline" size="sm" onClick={handleExportSelected} disabled={!!bulkAction}>
+              {bulkAction === 'export' ? <Loader2 className="h-4 w-4 mr-1 animate-spin" /> : <FileDown className="h-4 w-4 mr-1" />}
+              Exportar CSV
+            </Button>
+            <Button variant="ghost" size="sm" onClick={() => setSelectedAssets([])}>
+              <X className="h-4 w-4 mr-1" />
+              Limpar seleção
+            </Button>
+          </div>
+        )}
+      </div>
+
       {/* Assets List */}
       <div className="space-y-4">
-        {filteredAssets.length === 0 ? (
+        {loading && assets.length === 0 ? (
+          [...Array(5)].map((_, i) => (
+            <Card key={i} className="animate-pulse">
+              <CardContent className="p-6">
+                <div className="space-y-2">
+                  <Skeleton className="h-6 w-1/3" />
+                  <Skeleton className="h-4 w-2/3" />
+                  <Skeleton className="h-4 w-1/2" />
+                </div>
+              </CardContent>
+            </Card>
+          ))
+        ) : assets.length === 0 ? (
           <Card className="border-border/50">
             <CardContent className="flex flex-col items-center justify-center py-12">
               <Activity className="h-12 w-12 text-muted-foreground mb-4" />
@@ -311,20 +720,25 @@ const AssetList = () => {
                 Nenhum ativo encontrado
               </h3>
               <p className="text-muted-foreground text-center">
-                {assets.length === 0 
-                  ? 'Cadastre o primeiro ativo para começar'
-                  : 'Tente ajustar os filtros para encontrar o que procura'
+                {hasActiveFilters({ ...filters, showArchived: false })
+                  ? 'Tente ajustar os filtros para encontrar o que procura'
+                  : showArchived ? 'Nenhum ativo arquivado' : 'Cadastre o primeiro ativo para começar'
                 }
               </p>
             </CardContent>
           </Card>
         ) : (
-          filteredAssets.map((asset) => (
-            <Card key={asset.id} className="border-border/50 hover:shadow-lg transition-all duration-300">
+          assets.map((asset) => (
+            <Card key={asset.id} className={`border-border/50 hover:shadow-lg transition-all duration-300 ${loading ? 'opacity-60' : ''}`}>
               <CardContent className="p-6">
                 <div className="flex flex-col lg:flex-row lg:items-center justify-between gap-4">
                   <div className="space-y-3 flex-1">
                     <div className="flex items-center gap-3">
+                      <Checkbox
+                        checked={selectedIds.includes(asset.id)}
+                        onCheckedChange={(checked) => toggleSelected(asset, checked === true)}
+                        aria-label={`Selecionar ${asset.name}`}
+                      />
                       <h3 className="text-xl font-semibold text-foreground">{asset.name}</h3>
                       <Badge variant="outline" className="text-xs">
                         {asset.code}
@@ -340,7 +754,7 @@ const AssetList = () => {
                     <div className="space-y-3">
                       <div className="flex items-center gap-2">
                         <DollarSign className="h-4 w-4 text-primary" />
-                        <span className="font-medium">{formatCurrency(asset.purchase_value)}</span>
+                        <span className="font-medium">{formatMoney(asset.purchase_value, asset.currency)}</span>
                         <Badge className={getStatusColor(asset.status)}>
                           {getStatusLabel(asset.status)}
                         </Badge>
@@ -348,7 +762,7 @@ const AssetList = () => {
                       
                       <div className="flex items-center gap-2 text-sm text-muted-foreground">
                         <Calendar className="h-4 w-4" />
-                        <span>Valor contábil: {formatCurrency(calculateBookValue(asset))}</span>
+                        <span>Valor contábil: {formatMoney(calculateBookValue(asset), asset.currency)}</span>
                       </div>
                       
                       <div className="flex items-center gap-2 text-sm text-muted-foreground">
@@ -385,27 +799,75 @@ const AssetList = () => {
                       <Eye className="h-4 w-4 mr-1" />
                       Detalhes
                     </Button>
-                    <AlertDialog>
-                      <AlertDialogTrigger asChild>
-                        <Button variant="ghost" size="sm" className="text-destructive hover:bg-destructive/10">
-                          <Trash2 className="h-4 w-4" />
+                    {!canManageAsset(asset.department_id) ? null : showArchived ? (
+                      <>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => handleRestoreAsset(asset.id)}
+                        >
+                          <ArchiveRestore className="h-4 w-4 mr-1" />
+                          Restaurar
                         </Button>
-                      </AlertDialogTrigger>
-                      <AlertDialogContent>
-                        <AlertDialogHeader>
-                          <AlertDialogTitle>Tem certeza absoluta?</AlertDialogTitle>
-                          <AlertDialogDescription>
-                            Esta ação não pode ser desfeita. Isso removerá permanentemente o ativo "{asset.name}".
-                          </AlertDialogDescription>
-                        </AlertDialogHeader>
-                        <AlertDialogFooter>
-                          <AlertDialogCancel>Cancelar</AlertDialogCancel>
-                          <AlertDialogAction onClick={() => handleDeleteAsset(asset.id)}>
-                            Continuar
-                          </AlertDialogAction>
-                        </AlertDialogFooter>
-                      </AlertDialogContent>
-                    </AlertDialog>
+                        {isAdmin && (
+                          <AlertDialog>
+                            <AlertDialogTrigger asChild>
+                              <Button variant="ghost" size="sm" className="text-destructive hover:bg-destructive/10">
+                                <Trash2 className="h-4 w-4" />
+                              </Button>
+                            </AlertDialogTrigger>
+                            <AlertDialogContent>
+                              <AlertDialogHeader>
+                                <AlertDialogTitle>Tem certeza absoluta?</AlertDialogTitle>
+                                <AlertDialogDescription>
+                                  Esta ação não pode ser desfeita. Isso removerá permanentemente o ativo "{asset.name}" e todo o seu histórico de manutenções.
+                                </AlertDialogDescription>
+                              </AlertDialogHeader>
+                              <AlertDialogFooter>
+                                <AlertDialogCancel>Cancelar</AlertDialogCancel>
+                                <AlertDialogAction onClick={() => handlePurgeAsset(asset.id)}>
+                                  Excluir permanentemente
+                                </AlertDialogAction>
+                              </AlertDialogFooter>
+                            </AlertDialogContent>
+                          </AlertDialog>
+                        )}
+                      </>
+                    ) : (
+                      <>
+                        {asset.status !== 'disposed' && (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => setSelectedAssetForDisposal(asset)}
+                          >
+                            <PackageX className="h-4 w-4 mr-1" />
+                            Baixar
+                          </Button>
+                        )}
+                        <AlertDialog>
+                          <AlertDialogTrigger asChild>
+                            <Button variant="ghost" size="sm" className="text-destructive hover:bg-destructive/10">
+                              <Archive className="h-4 w-4" />
+                            </Button>
+                          </AlertDialogTrigger>
+                          <AlertDialogContent>
+                            <AlertDialogHeader>
+                              <AlertDialogTitle>Arquivar ativo?</AlertDialogTitle>
+                              <AlertDialogDescription>
+                                O ativo "{asset.name}" sairá da lista, mas seu histórico será mantido e ele poderá ser restaurado.
+                              </AlertDialogDescription>
+                            </AlertDialogHeader>
+                            <AlertDialogFooter>
+                              <AlertDialogCancel>Cancelar</AlertDialogCancel>
+                              <AlertDialogAction onClick={() => handleArchiveAsset(asset.id)}>
+                                Arquivar
+                              </AlertDialogAction>
+                            </AlertDialogFooter>
+                          </AlertDialogContent>
+                        </AlertDialog>
+                      </>
+                    )}
                   </div>
                 </div>
               </CardContent>
@@ -414,6 +876,52 @@ const AssetList = () => {
         )}
       </div>
 
+      {/* Pagination */}
+      {totalCount > 0 && (
+        <div className="flex flex-wrap items-center justify-between gap-3">
+          <div className="flex items-center gap-2 text-sm text-muted-foreground">
+            <span>{firstShown}–{lastShown} de {totalCount}</span>
+            <Select
+              value={String(pageSize)}
+              onValueChange={(value) => updateList({ pageSize: Number(value), page: 1 })}
+            >
+              <SelectTrigger className="w-20 h-8">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {ASSET_PAGE_SIZES.map((size) => (
+                  <SelectItem key={size} value={String(size)}>{size}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <span>por página</span>
+          </div>
+          <div className="flex items-center gap-2">
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => updateList({ page: page - 1 })}
+              disabled={page <= 1 || loading}
+            >
+              <ChevronLeft className="h-4 w-4 mr-1" />
+              Anterior
+            </Button>
+            <span className="text-sm text-muted-foreground">
+              Página {page} de {pageCount}
+            </span>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => updateList({ page: page + 1 })}
+              disabled={page >= pageCount || loading}
+            >
+              Próxima
+              <ChevronRight className="h-4 w-4 ml-1" />
+            </Button>
+          </div>
+        </div>
+      )}
+
 
       {/* Asset Details Modal */}
       {selectedAssetForDetails && (
@@ -425,6 +933,29 @@ const AssetList = () => {
         </Dialog>
       )}
 
+      {/* Asset Disposal Wizard */}
+      {selectedAssetForDisposal && (
+        <AssetDisposalWizard
+          asset={selectedAssetForDisposal}
+          open={!!selectedAssetForDisposal}
+          onOpenChange={(open) => !open && setSelectedAssetForDisposal(null)}
+          onDisposed={fetchAssets}
+        />
+      )}
+
+      {/* Bulk Edit */}
+      <AssetBulkEditDialog
+        assets={selectedAssets}
+        categories={categories}
+        profiles={profiles}
+        open={showBulkEdit}
+        onOpenChange={setShowBulkEdit}
+        onUpdated={() => {
+          setSelectedAssets([]);
+          fetchAssets();
+        }}
+      />
+
       {/* QR Code Scanner Modal */}
       {showScanner && (
         <Dialog open={showScanner} onOpenChange={setShowScanner}>
@@ -436,10 +967,14 @@ const AssetList = () => {
                 description: `Código: ${result}`,
               });
             }}
-            onAssetFound={(assetCode) => {
+            onAssetFound={async (assetCode) => {
               console.log('Asset found:', assetCode);
-              // Search for asset with this code
-              const foundAsset = assets.find(asset => asset.code === assetCode);
+              // The asset may be on another page, so look it up by code
+              const { data: foundAsset } = await supabase
+                .from('assets')
+                .select('id')
+                .eq('code', assetCode)
+                .maybeSingle();
               if (foundAsset) {
                 setSelectedAssetForDetails(foundAsset.id);
                 setShowScanner(false);
@@ -89,6 +89,7 @@ const AssetMap: React.FC<AssetMapProps> = ({ className, height = "400px" }) => {
             name
           )
         `)
+        .is('deleted_at', null)
         .not('latitude', 'is', null)
         .not('longitude', 'is', null);
 
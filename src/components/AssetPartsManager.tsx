@@ -0,0 +1,287 @@
+import React, { useState, useEffect } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useToast } from '@/hooks/use-toast';
+import { Boxes, Plus, Trash2 } from 'lucide-react';
+import { format } from 'date-fns';
+import { formatMoney } from '@/lib/currency';
+import { useExchangeRates } from '@/hooks/useExchangeRates';
+
+interface AssetPartsManagerProps {
+  assetId: string;
+  // Shows the list without add, change or remove actions
+  readOnly?: boolean;
+}
+
+interface AssetPart {
+  id: string;
+  part_id: string;
+  quantity_required: number;
+  spare_parts: {
+    name: string;
+    part_number: string;
+    stock_quantity: number;
+    unit_cost: number;
+    currency: string;
+  } | null;
+}
+
+interface SparePartOption {
+  id: string;
+  name: string;
+  part_number: string;
+}
+
+const AssetPartsManager: React.FC<AssetPartsManagerProps> = ({ assetId, readOnly = false }) => {
+  const [assetParts, setAssetParts] = useState<AssetPart[]>([]);
+  const [partOptions, setPartOptions] = useState<SparePartOption[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [newPartId, setNewPartId] = useState('');
+  const [newQuantity, setNewQuantity] = useState('1');
+  const { toast } = useToast();
+  const { toBase, formatBase } = useExchangeRates();
+
+  useEffect(() => {
+    fetchAssetParts();
+    fetchPartOptions();
+  }, [assetId]);
+
+  const fetchAssetParts = async () => {
+    setLoading(true);
+    const { data, error } = await supabase
+      .from('asset_parts')
+      .select(`
+        id,
+        part_id,
+        quantity_required,
+        spare_parts (name, part_number, stock_quantity, unit_cost, currency)
+      `)
+      .eq('asset_id', assetId);
+
+    if (error) {
+      console.error('Error fetching asset parts:', error);
+    } else {
+      setAssetParts(data || []);
+    }
+    setLoading(false);
+  };
+
+  const fetchPartOptions = async () => {
+    const { data, error } = await supabase
+      .from('spare_parts')
+      .select('id, name, part_number')
+      .is('archived_at', null)
+      .order('name');
+
+    if (error) {
+      console.error('Error fetching spare parts:', error);
+    } else {
+      setPartOptions(data || []);
+    }
+  };
+
+  const handleAddPart = async () => {
+    const quantity = parseInt(newQuantity);
+    if (!newPartId || !quantity || quantity <= 0) {
+      toast({
+        title: "Erro",
+        description: "Selecione uma peça e informe a quantidade.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    try {
+      const { error } = await supabase
+        .from('asset_parts')
+        .insert({ asset_id: assetId, part_id: newPartId, quantity_required: quantity });
+
+      if (error) throw error;
+
+      setNewPartId('');
+      setNewQuantity('1');
+      fetchAssetParts();
+    } catch (error) {
+      console.error('Error adding asset part:', error);
+      toast({
+        title: "Erro",
+        description: error.code === '23505' ? "Esta peça já faz parte da lista do ativo." : "Erro ao adicionar peça.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleUpdateQuantity = async (assetPart: AssetPart, quantity: number) => {
+    if (!quantity || quantity <= 0 || quantity === assetPart.quantity_required) return;
+
+    const { error } = await supabase
+      .from('asset_parts')
+      .update({ quantity_required: quantity })
+      .eq('id', assetPart.id);
+
+    if (error) {
+      console.error('Error updating asset part:', error);
+      toast({
+        title: "Erro",
+        description: "Erro ao atualizar quantidade.",
+        variant: "destructive",
+      });
+    } else {
+      fetchAssetParts();
+    }
+  };
+
+  const handleRemovePart = async (assetPartId: string) => {
+    const { error } = await supabase
+      .from('asset_parts')
+      .delete()
+      .eq('id', assetPartId);
+
+    if (error) {
+      console.error('Error removing asset part:', error);
+      toast({
+        title: "Erro",
+        description: "Erro ao remover peça.",
+        variant: "destructive",
+      });
+    } else {
+      setAssetParts(assetParts.filter(assetPart => assetPart.id !== assetPartId));
+    }
+  };
+
+  const availableOptions = partOptions.filter(
+    option => !assetParts.some(assetPart => assetPart.part_id === option.id)
+  );
+
+  // The next preventive job buys at today's rate, so foreign parts convert at it
+  const today = format(new Date(), 'yyyy-MM-dd');
+  const getLineCost = (assetPart: AssetPart) => assetPart.quantity_required * (assetPart.spare_parts?.unit_cost || 0);
+  const linesInBase = assetParts.map(assetPart => toBase(getLineCost(assetPart), assetPart.spare_parts?.currency, today));
+  const totalCost = linesInBase.reduce((sum, value) => sum + (value ?? 0), 0);
+  const unconvertedCount = linesInBase.filter(value => value === null).length;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Boxes className="h-5 w-5" />
+          Lista de Peças (BOM)
+        </CardTitle>
+        <CardDescription>
+          Peças previstas nas manutenções preventivas deste ativo
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {!readOnly && (
+          <div className="flex items-center gap-2">
+            <Select value={newPartId} onValueChange={setNewPartId}>
+              <SelectTrigger className="flex-1">
+                <SelectValue placeholder="Selecione uma peça" />
+              </SelectTrigger>
+              <SelectContent>
+                {availableOptions.map((option) => (
+                  <SelectItem key={option.id} value={option.id}>
+                    {option.part_number} - {option.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Input
+              type="number"
+              min="1"
+              className="w-24"
+              value={newQuantity}
+              onChange={(e) => setNewQuantity(e.target.value)}
+            />
+            <Button onClick={handleAddPart}>
+              <Plus className="h-4 w-4 mr-1" />
+              Adicionar
+            </Button>
+          </div>
+        )}
+
+        {loading ? (
+          <div className="flex justify-center p-4">
+            <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-primary"></div>
+          </div>
+        ) : assetParts.length === 0 ? (
+          <p className="text-center text-muted-foreground py-8">
+            Nenhuma peça cadastrada para este ativo.
+          </p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Código</TableHead>
+                <TableHead>Peça</TableHead>
+                <TableHead className="w-28">Quantidade</TableHead>
+                <TableHead>Estoque</TableHead>
+                <TableHead className="text-right">Custo</TableHead>
+                <TableHead></TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {assetParts.map((assetPart) => {
+                const stock = assetPart.spare_parts?.stock_quantity || 0;
+                return (
+                  <TableRow key={assetPart.id}>
+                    <TableCell>
+                      <Badge variant="outline">{assetPart.spare_parts?.part_number}</Badge>
+                    </TableCell>
+                    <TableCell className="font-medium">{assetPart.spare_parts?.name}</TableCell>
+                    <TableCell>
+                      <Input
+                        type="number"
+                        min="1"
+                        defaultValue={assetPart.quantity_required}
+                        disabled={readOnly}
+                        onBlur={(e) => handleUpdateQuantity(assetPart, parseInt(e.target.value))}
+                      />
+                    </TableCell>
+                    <TableCell>
+                      <Badge
+                        className={stock >= assetPart.quantity_required
+                          ? 'bg-green-500/10 text-green-500 border-green-500/20'
+                          : 'bg-red-500/10 text-red-500 border-red-500/20'}
+                      >
+                        {stock}
+                      </Badge>
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {formatMoney(getLineCost(assetPart), assetPart.spare_parts?.currency)}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {!readOnly && (
+                        <Button variant="ghost" size="sm" onClick={() => handleRemovePart(assetPart.id)}>
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        )}
+
+        {assetParts.length > 0 && (
+          <div className="flex flex-col items-end gap-1 text-sm font-medium">
+            <span>Custo por manutenção preventiva: {formatBase(totalCost)}</span>
+            {unconvertedCount > 0 && (
+              <span className="text-xs text-orange-600">
+                {unconvertedCount} {unconvertedCount === 1 ? 'peça sem cotação' : 'peças sem cotação'} de câmbio fora do total
+              </span>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default AssetPartsManager;
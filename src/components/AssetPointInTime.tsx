@@ -0,0 +1,207 @@
+import React, { useState, useEffect } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Calendar } from '@/components/ui/calendar';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from '@/components/ui/alert-dialog';
+import { endOfDay, format } from 'date-fns';
+import { ptBR } from 'date-fns/locale';
+import { CalendarClock, CalendarIcon, RotateCcw } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { useToast } from '@/hooks/use-toast';
+import { AuditLookups, AuditRecord, fetchAuditLookups, formatAuditValue, getFieldLabel, toAuditRecord } from '@/lib/auditDiff';
+
+interface AssetPointInTimeProps {
+  assetId: string;
+  onReverted?: () => void;
+  // Consultation only, without restoring a version
+  readOnly?: boolean;
+}
+
+const SNAPSHOT_FIELDS = [
+  'name',
+  'code',
+  'serial_number',
+  'description',
+  'status',
+  'category_id',
+  'department_id',
+  'unit_id',
+  'assigned_to',
+  'current_location',
+  'latitude',
+  'longitude',
+  'purchase_value',
+  'purchase_date',
+  'residual_value',
+  'useful_life_years',
+];
+
+const AssetPointInTime: React.FC<AssetPointInTimeProps> = ({ assetId, onReverted, readOnly = false }) => {
+  const [asOfDate, setAsOfDate] = useState<Date | undefined>();
+  const [snapshot, setSnapshot] = useState<AuditRecord | null>(null);
+  const [lookups, setLookups] = useState<AuditLookups>({ categories: {}, departments: {}, units: {}, profiles: {} });
+  const [loading, setLoading] = useState(false);
+  const [reverting, setReverting] = useState(false);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    fetchAuditLookups()
+      .then(setLookups)
+      .catch(error => console.error('Error fetching lookups:', error));
+  }, []);
+
+  useEffect(() => {
+    if (asOfDate) {
+      fetchSnapshot(asOfDate);
+    }
+  }, [asOfDate, assetId]);
+
+  const fetchSnapshot = async (date: Date) => {
+    setLoading(true);
+    const { data, error } = await supabase.rpc('get_asset_as_of', {
+      p_asset_id: assetId,
+      p_as_of: endOfDay(date).toISOString(),
+    });
+
+    if (error) {
+      console.error('Error rebuilding asset:', error);
+      toast({
+        title: "Erro",
+        description: "Não foi possível reconstruir o ativo nesta data.",
+        variant: "destructive",
+      });
+      setSnapshot(null);
+    } else {
+      setSnapshot(toAuditRecord(data));
+    }
+    setLoading(false);
+  };
+
+  const handleRevert = async () => {
+    if (!asOfDate) return;
+
+    setReverting(true);
+    try {
+      const { error } = await supabase.rpc('revert_asset_to', {
+        p_asset_id: assetId,
+        p_as_of: endOfDay(asOfDate).toISOString(),
+      });
+
+      if (error) throw error;
+
+      toast({
+        title: "Versão restaurada",
+        description: `O ativo voltou ao estado de ${format(asOfDate, 'dd/MM/yyyy', { locale: ptBR })}.`,
+      });
+      onReverted?.();
+    } catch (error) {
+      console.error('Error reverting asset:', error);
+      toast({
+        title: "Erro",
+        description: error.message === 'Disposed assets cannot be reverted'
+          ? "Ativos baixados não podem ser revertidos."
+          : "Não foi possível restaurar esta versão.",
+        variant: "destructive",
+      });
+    } finally {
+      setReverting(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <CalendarClock className="h-5 w-5" />
+          Consulta em Data
+        </CardTitle>
+        <CardDescription>
+          Reconstrói o ativo a partir do histórico de auditoria, como estava no fim do dia escolhido
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex items-center justify-between gap-2">
+          <Popover>
+            <PopoverTrigger asChild>
+              <Button
+                variant="outline"
+                className={cn(
+                  "w-56 justify-start text-left font-normal",
+                  !asOfDate && "text-muted-foreground"
+                )}
+              >
+                <CalendarIcon className="mr-2 h-4 w-4" />
+                {asOfDate ? format(asOfDate, "dd/MM/yyyy", { locale: ptBR }) : <span>Selecione a data</span>}
+              </Button>
+            </PopoverTrigger>
+            <PopoverContent className="w-auto p-0">
+              <Calendar
+                mode="single"
+                selected={asOfDate}
+                onSelect={setAsOfDate}
+                disabled={(date) => date > new Date()}
+                initialFocus
+                locale={ptBR}
+              />
+            </PopoverContent>
+          </Popover>
+
+          {snapshot && !readOnly && (
+            <AlertDialog>
+              <AlertDialogTrigger asChild>
+                <Button variant="outline" disabled={reverting}>
+                  <RotateCcw className="h-4 w-4 mr-2" />
+                  Restaurar esta versão
+                </Button>
+              </AlertDialogTrigger>
+              <AlertDialogContent>
+                <AlertDialogHeader>
+                  <AlertDialogTitle>Restaurar versão?</AlertDialogTitle>
+                  <AlertDialogDescription>
+                    Os dados do ativo voltarão ao estado de {asOfDate && format(asOfDate, 'dd/MM/yyyy', { locale: ptBR })}.
+                    A alteração ficará registrada no histórico.
+                  </AlertDialogDescription>
+                </AlertDialogHeader>
+                <AlertDialogFooter>
+                  <AlertDialogCancel>Cancelar</AlertDialogCancel>
+                  <AlertDialogAction onClick={handleRevert}>
+                    Restaurar
+                  </AlertDialogAction>
+                </AlertDialogFooter>
+              </AlertDialogContent>
+            </AlertDialog>
+          )}
+        </div>
+
+        {loading ? (
+          <div className="flex justify-center p-4">
+            <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-primary"></div>
+          </div>
+        ) : !asOfDate ? (
+          <p className="text-center text-muted-foreground py-8">
+            Escolha uma data para ver o ativo naquele momento.
+          </p>
+        ) : !snapshot ? (
+          <p className="text-center text-muted-foreground py-8">
+            Não há histórico do ativo até esta data.
+          </p>
+        ) : (
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-x-6 gap-y-3">
+            {SNAPSHOT_FIELDS.map((field) => (
+              <div key={field} className="flex justify-between gap-4 border-b pb-2 text-sm">
+                <span className="text-muted-foreground">{getFieldLabel(field)}</span>
+                <span className="font-medium text-right break-all">
+                  {formatAuditValue(field, snapshot[field], lookups, snapshot)}
+                </span>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default AssetPointInTime;
@@ -8,6 +8,7 @@ import { Skeleton } from '@/components/ui/skeleton';
 import { useToast } from '@/hooks/use-toast';
 import { QrCode, Package, Calendar, DollarSign, User, MapPin, Tag } from 'lucide-react';
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+import { formatMoney } from '@/lib/currency';
 
 interface AssetScanPopupProps {
   assetCode: string;
@@ -20,6 +21,7 @@ interface Asset {
   code: string;
   serial_number: string | null;
   purchase_value: number;
+  currency: string;
   purchase_date: string;
   status: string | null;
   current_location: string | null;
@@ -79,10 +81,6 @@ const AssetScanPopup: React.FC<AssetScanPopupProps> = ({ assetCode, onClose }) =
     }
   };
 
-  const formatCurrency = (value: number) => {
-    return new Intl.NumberFormat('pt-BR', { style: 'currency', currency: 'BRL' }).format(value);
-  };
-
   const getStatusColor = (status: string) => {
     switch (status) {
       case 'active': return 'bg-green-500/10 text-green-500 border-green-500/20';
@@ -172,7 +170,7 @@ const AssetScanPopup: React.FC<AssetScanPopupProps> = ({ assetCode, onClose }) =
                 <div className="flex items-center gap-2 text-sm">
                   <DollarSign className="h-4 w-4 text-muted-foreground" />
                   <span className="text-muted-foreground">Valor:</span>
-                  <span className="font-medium">{formatCurrency(asset.purchase_value)}</span>
+                  <span className="font-medium">{formatMoney(asset.purchase_value, asset.currency)}</span>
                 </div>
 
                 <div className="flex items-center gap-2 text-sm">
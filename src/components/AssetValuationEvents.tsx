@@ -0,0 +1,404 @@
+import React, { useState, useEffect } from 'react';
+import { useAuth } from '@/components/AuthProvider';
+import { supabase } from '@/integrations/supabase/client';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useToast } from '@/hooks/use-toast';
+import { format } from 'date-fns';
+import { ptBR } from 'date-fns/locale';
+import { FileText, Loader2, Plus, Scale } from 'lucide-react';
+import { calculateBookValue, DepreciableAsset, getLatestValuationEvent } from '@/lib/depreciation';
+import { DEFAULT_CURRENCY, formatMoney } from '@/lib/currency';
+
+interface ValuedAsset extends DepreciableAsset {
+  id: string;
+  name: string;
+  status?: string | null;
+  currency?: string;
+}
+
+interface AssetValuationEventsProps {
+  asset: ValuedAsset;
+  onRecorded?: () => void;
+  // Lists the events without recording new ones
+  readOnly?: boolean;
+}
+
+interface ValuationEventRow {
+  id: string;
+  event_type: string;
+  event_date: string;
+  previous_book_value: number;
+  new_book_value: number;
+  remaining_useful_life_years: number;
+  justification: string;
+  documents: { name: string; file_url: string } | null;
+}
+
+type ValuationEventType = 'revaluation' | 'impairment';
+
+const eventTypeLabels: Record<ValuationEventType, string> = {
+  revaluation: 'Reavaliação',
+  impairment: 'Impairment',
+};
+
+const ERROR_MESSAGES: Record<string, string> = {
+  'Only administrators and managers can record valuation events': 'Apenas administradores e gestores podem registrar reavaliações.',
+  'Asset is not in service': 'O ativo está baixado ou arquivado.',
+  'Event date out of range': 'A data deve estar entre a compra e hoje.',
+  'Event date must be after the latest event': 'A data deve ser posterior ao último evento registrado.',
+  'Event date falls in a closed period': 'A data está em um mês de depreciação já fechado.',
+  'Impairment must reduce the carrying amount': 'O impairment deve reduzir o valor contábil.',
+};
+
+const today = () => format(new Date(), 'yyyy-MM-dd');
+
+const AssetValuationEvents: React.FC<AssetValuationEventsProps> = ({ asset, onRecorded, readOnly = false }) => {
+  const { user } = useAuth();
+  const [events, setEvents] = useState<ValuationEventRow[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [formData, setFormData] = useState({
+    event_type: 'impairment' as ValuationEventType,
+    event_date: today(),
+    new_book_value: '',
+    remaining_useful_life_years: '',
+    justification: '',
+    appraisal: null as File | null,
+  });
+  const { toast } = useToast();
+
+  useEffect(() => {
+    fetchEvents();
+  }, [asset.id]);
+
+  const fetchEvents = async () => {
+    setLoading(true);
+    const { data, error } = await supabase
+      .from('asset_valuation_events')
+      .select('id, event_type, event_date, previous_book_value, new_book_value, remaining_useful_life_years, justification, documents (name, file_url)')
+      .eq('asset_id', asset.id)
+      .order('event_date', { ascending: false });
+
+    if (error) {
+      console.error('Error fetching valuation events:', error);
+      toast({
+        title: "Erro",
+        description: "Erro ao carregar reavaliações do ativo.",
+        variant: "destructive",
+      });
+    } else {
+      setEvents(data || []);
+    }
+    setLoading(false);
+  };
+
+  const formatCurrency = (value: number) => formatMoney(value, asset.currency);
+
+  // Remaining life in whole years from the current basis: the latest event or the purchase
+  const getRemainingLife = (date: Date) => {
+    const event = getLatestValuationEvent(asset, date);
+    const start = new Date(`${(event?.event_date || asset.purchase_date).slice(0, 10)}T00:00:00`);
+    const life = event?.remaining_useful_life_years || asset.useful_life_years;
+    const elapsed = (date.getTime() - start.getTime()) / (365.25 * 24 * 60 * 60 * 1000);
+    return Math.max(1, Math.ceil(life - elapsed));
+  };
+
+  const eventDate = formData.event_date ? new Date(`${formData.event_date}T00:00:00`) : null;
+  const currentBookValue = eventDate ? calculateBookValue(asset, eventDate) : null;
+  const newBookValue = parseFloat(formData.new_book_value);
+  const adjustment = currentBookValue !== null && !isNaN(newBookValue) ? newBookValue - currentBookValue : null;
+
+  const openDialog = () => {
+    setFormData({
+      event_type: 'impairment',
+      event_date: today(),
+      new_book_value: '',
+      remaining_useful_life_years: getRemainingLife(new Date()).toString(),
+      justification: '',
+      appraisal: null,
+    });
+    setIsDialogOpen(true);
+  };
+
+  const uploadAppraisal = async (file: File) => {
+    const path = `${asset.id}/appraisal_${Date.now()}.${file.name.split('.').pop()}`;
+    const { error } = await supabase.storage
+      .from('asset_documents')
+      .upload(path, file, {
+        cacheControl: '3600',
+        upsert: false
+      });
+
+    if (error) throw error;
+
+    const { data: { publicUrl } } = supabase.storage
+      .from('asset_documents')
+      .getPublicUrl(path);
+
+    const { data: document, error: documentError } = await supabase
+      .from('documents')
+      .insert({
+        asset_id: asset.id,
+        name: file.name,
+        type: 'appraisal',
+        file_url: publicUrl,
+        file_size: file.size,
+        mime_type: file.type,
+        uploaded_by: user?.id
+      })
+      .select('id')
+      .single();
+
+    if (documentError) throw documentError;
+    return document.id;
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!formData.event_date || isNaN(newBookValue) || newBookValue < 0 || !formData.justification.trim()) {
+      toast({
+        title: "Erro",
+        description: "Informe a data, o novo valor contábil e a justificativa.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    if (!formData.appraisal) {
+      toast({
+        title: "Erro",
+        description: "Anexe o laudo de avaliação.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const documentId = await uploadAppraisal(formData.appraisal);
+
+      const { error } = await supabase.rpc('record_valuation_event', {
+        p_asset_id: asset.id,
+        p_event_type: formData.event_type,
+        p_event_date: formData.event_date,
+        p_new_book_value: newBookValue,
+        p_remaining_useful_life_years: parseInt(formData.remaining_useful_life_years) || 1,
+        p_justification: formData.justification.trim(),
+        p_document_id: documentId,
+      });
+
+      if (error) throw error;
+
+      toast({
+        title: "Evento registrado",
+        description: `${eventTypeLabels[formData.event_type]} de "${asset.name}" registrado. A depreciação segue a partir do novo valor.`,
+      });
+      setIsDialogOpen(false);
+      fetchEvents();
+      onRecorded?.();
+    } catch (error) {
+      console.error('Error recording valuation event:', error);
+      toast({
+        title: "Erro",
+        description: ERROR_MESSAGES[error.message] || "Não foi possível registrar o evento.",
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div className="space-y-1.5">
+          <CardTitle className="flex items-center gap-2">
+            <Scale className="h-5 w-5" />
+            Reavaliação e Impairment
+          </CardTitle>
+          <CardDescription>
+            Eventos do CPC 01 que redefinem o valor contábil e a vida útil remanescente
+          </CardDescription>
+        </div>
+        {!readOnly && (
+          <Button size="sm" onClick={openDialog} disabled={asset.status === 'disposed'}>
+            <Plus className="h-4 w-4 mr-2" />
+            Registrar evento
+          </Button>
+        )}
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <div className="flex justify-center p-8">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+          </div>
+        ) : events.length === 0 ? (
+          <p className="text-center text-muted-foreground py-8">
+            Nenhuma reavaliação ou impairment registrado.
+          </p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Data</TableHead>
+                <TableHead>Tipo</TableHead>
+                <TableHead className="text-right">Valor Anterior</TableHead>
+                <TableHead className="text-right">Novo Valor</TableHead>
+                <TableHead className="text-right">Vida Remanescente</TableHead>
+                <TableHead>Justificativa</TableHead>
+                <TableHead>Laudo</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {events.map((event) => (
+                <TableRow key={event.id}>
+                  <TableCell>{format(new Date(`${event.event_date}T00:00:00`), 'dd/MM/yyyy', { locale: ptBR })}</TableCell>
+                  <TableCell>
+                    <Badge variant={event.event_type === 'impairment' ? 'destructive' : 'secondary'}>
+                      {eventTypeLabels[event.event_type as ValuationEventType] || event.event_type}
+                    </Badge>
+                  </TableCell>
+                  <TableCell className="text-right">{formatCurrency(event.previous_book_value)}</TableCell>
+                  <TableCell className="text-right font-medium">{formatCurrency(event.new_book_value)}</TableCell>
+                  <TableCell className="text-right">{event.remaining_useful_life_years} anos</TableCell>
+                  <TableCell className="max-w-xs truncate" title={event.justification}>{event.justification}</TableCell>
+                  <TableCell>
+                    {event.documents ? (
+                      <Button variant="outline" size="sm" asChild>
+                        <a href={event.documents.file_url} target="_blank" rel="noopener noreferrer">
+                          <FileText className="h-4 w-4" />
+                        </a>
+                      </Button>
+                    ) : '—'}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+
+      <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>Registrar reavaliação ou impairment</DialogTitle>
+            <DialogDescription>
+              O novo valor contábil passa a ser a base da depreciação de "{asset.name}".
+            </DialogDescription>
+          </DialogHeader>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="event_type">Tipo *</Label>
+                <Select
+                  value={formData.event_type}
+                  onValueChange={(value: ValuationEventType) => setFormData(prev => ({ ...prev, event_type: value }))}
+                >
+                  <SelectTrigger id="event_type">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(eventTypeLabels).map(([value, label]) => (
+                      <SelectItem key={value} value={value}>{label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="event_date">Data *</Label>
+                <Input
+                  id="event_date"
+                  type="date"
+                  value={formData.event_date}
+                  min={asset.purchase_date.slice(0, 10)}
+                  max={today()}
+                  onChange={(e) => setFormData(prev => ({ ...prev, event_date: e.target.value }))}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="new_book_value">Novo Valor Contábil ({asset.currency || DEFAULT_CURRENCY}) *</Label>
+                <Input
+                  id="new_book_value"
+                  type="number"
+                  step="0.01"
+                  min="0"
+                  value={formData.new_book_value}
+                  onChange={(e) => setFormData(prev => ({ ...prev, new_book_value: e.target.value }))}
+                  placeholder="0,00"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="remaining_useful_life_years">Vida Útil Remanescente (anos) *</Label>
+                <Input
+                  id="remaining_useful_life_years"
+                  type="number"
+                  min="1"
+                  value={formData.remaining_useful_life_years}
+                  onChange={(e) => setFormData(prev => ({ ...prev, remaining_useful_life_years: e.target.value }))}
+                />
+              </div>
+            </div>
+
+            {currentBookValue !== null && (
+              <div className="rounded-lg border p-3 text-sm space-y-1">
+                <div className="flex justify-between">
+                  <span className="text-muted-foreground">Valor contábil na data:</span>
+                  <span>{formatCurrency(currentBookValue)}</span>
+                </div>
+                {adjustment !== null && (
+                  <div className="flex justify-between font-medium">
+                    <span className="text-muted-foreground">{adjustment < 0 ? 'Perda reconhecida:' : 'Ganho de reavaliação:'}</span>
+                    <span className={adjustment < 0 ? 'text-destructive' : 'text-green-600'}>{formatCurrency(Math.abs(adjustment))}</span>
+                  </div>
+                )}
+              </div>
+            )}
+
+            <div className="space-y-2">
+              <Label htmlFor="justification">Justificativa *</Label>
+              <Textarea
+                id="justification"
+                value={formData.justification}
+                onChange={(e) => setFormData(prev => ({ ...prev, justification: e.target.value }))}
+                placeholder="Indícios de desvalorização, valor recuperável apurado, premissas do laudo..."
+                rows={3}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="appraisal">Laudo de Avaliação *</Label>
+              <Input
+                id="appraisal"
+                type="file"
+                accept=".pdf,.jpg,.jpeg,.png"
+                onChange={(e) => setFormData(prev => ({ ...prev, appraisal: e.target.files?.[0] || null }))}
+              />
+            </div>
+
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => setIsDialogOpen(false)}>
+                Cancelar
+              </Button>
+              <Button type="submit" disabled={saving}>
+                {saving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                Registrar
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+};
+
+export default AssetValuationEvents;
@@ -5,29 +5,45 @@ import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
 import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from '@/components/ui/alert-dialog';
 import { toast } from '@/hooks/use-toast';
 import { Plus, Edit, Trash2, Tag } from 'lucide-react';
+import { DEPRECIATION_METHOD_LABELS, DepreciationMethod } from '@/lib/depreciation';
 
 interface Category {
   id: string;
   name: string;
   description: string | null;
+  depreciation_method: string;
+  fiscal_rate_id: string | null;
   created_at: string;
 }
 
+interface FiscalRate {
+  id: string;
+  ncm: string;
+  description: string;
+  annual_rate: number;
+}
+
+const emptyCategoryForm = {
+  name: '',
+  description: '',
+  depreciation_method: 'straight_line' as DepreciationMethod,
+  fiscal_rate_id: 'none'
+};
+
 const CategoryManager = () => {
   const [categories, setCategories] = useState<Category[]>([]);
+  const [fiscalRates, setFiscalRates] = useState<FiscalRate[]>([]);
   const [loading, setLoading] = useState(true);
   const [isDialogOpen, setIsDialogOpen] = useState(false);
   const [editingCategory, setEditingCategory] = useState<Category | null>(null);
   
-  const [formData, setFormData] = useState({
-    name: '',
-    description: ''
-  });
+  const [formData, setFormData] = useState(emptyCategoryForm);
 
   useEffect(() => {
     fetchCategories();
@@ -36,13 +52,15 @@ const CategoryManager = () => {
   const fetchCategories = async () => {
     try {
       setLoading(true);
-      const { data, error } = await supabase
-        .from('categories')
-        .select('*')
-        .order('name');
+      const [categoriesResult, ratesResult] = await Promise.all([
+        supabase.from('categories').select('*').order('name'),
+        supabase.from('fiscal_depreciation_rates').select('id, ncm, description, annual_rate').order('ncm'),
+      ]);
 
-      if (error) throw error;
-      setCategories(data || []);
+      if (categoriesResult.error) throw categoriesResult.error;
+      if (ratesResult.error) throw ratesResult.error;
+      setCategories(categoriesResult.data || []);
+      setFiscalRates(ratesResult.data || []);
     } catch (error) {
       console.error('Error fetching categories:', error);
       toast({
@@ -74,7 +92,9 @@ const CategoryManager = () => {
           .from('categories')
           .update({
             name: formData.name.trim(),
-            description: formData.description.trim() || null
+            description: formData.description.trim() || null,
+            depreciation_method: formData.depreciation_method,
+            fiscal_rate_id: formData.fiscal_rate_id === 'none' ? null : formData.fiscal_rate_id
           })
           .eq('id', editingCategory.id);
 
@@ -90,7 +110,9 @@ const CategoryManager = () => {
           .from('categories')
           .insert({
             name: formData.name.trim(),
-            description: formData.description.trim() || null
+            description: formData.description.trim() || null,
+            depreciation_method: formData.depreciation_method,
+            fiscal_rate_id: formData.fiscal_rate_id === 'none' ? null : formData.fiscal_rate_id
           });
 
         if (error) throw error;
@@ -101,7 +123,7 @@ const CategoryManager = () => {
         });
       }
 
-      setFormData({ name: '', description: '' });
+      setFormData(emptyCategoryForm);
       setEditingCategory(null);
       setIsDialogOpen(false);
       fetchCategories();
@@ -128,7 +150,9 @@ const CategoryManager = () => {
     setEditingCategory(category);
     setFormData({
       name: category.name,
-      description: category.description || ''
+      description: category.description || '',
+      depreciation_method: category.depreciation_method as DepreciationMethod,
+      fiscal_rate_id: category.fiscal_rate_id || 'none'
     });
     setIsDialogOpen(true);
   };
@@ -184,7 +208,7 @@ const CategoryManager = () => {
 
   const handleNewCategory = () => {
     setEditingCategory(null);
-    setFormData({ name: '', description: '' });
+    setFormData(emptyCategoryForm);
     setIsDialogOpen(true);
   };
 
@@ -247,6 +271,47 @@ const CategoryManager = () => {
                     rows={3}
                   />
                 </div>
+                <div className="space-y-2">
+                  <Label htmlFor="depreciation_method">Método de Depreciação</Label>
+                  <Select
+                    value={formData.depreciation_method}
+                    onValueChange={(value: DepreciationMethod) => setFormData(prev => ({ ...prev, depreciation_method: value }))}
+                  >
+                    <SelectTrigger id="depreciation_method">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {Object.entries(DEPRECIATION_METHOD_LABELS).map(([value, label]) => (
+                        <SelectItem key={value} value={value}>{label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <p className="text-xs text-muted-foreground">
+                    Aplicado aos ativos da categoria que não definem um método próprio
+                  </p>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="fiscal_rate_id">Taxa Fiscal (Receita Federal)</Label>
+                  <Select
+                    value={formData.fiscal_rate_id}
+                    onValueChange={(value) => setFormData(prev => ({ ...prev, fiscal_rate_id: value }))}
+                  >
+                    <SelectTrigger id="fiscal_rate_id">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="none">Usar a vida útil contábil</SelectItem>
+                      {fiscalRates.map((rate) => (
+                        <SelectItem key={rate.id} value={rate.id}>
+                          {rate.ncm} - {rate.description} ({rate.annual_rate}% a.a.)
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <p className="text-xs text-muted-foreground">
+                    Usada para ativos sem NCM cadastrado
+                  </p>
+                </div>
                 <div className="flex justify-end space-x-2">
                   <Button 
                     type="button" 
@@ -294,6 +359,7 @@ const CategoryManager = () => {
                 <TableRow>
                   <TableHead>Nome</TableHead>
                   <TableHead>Descrição</TableHead>
+                  <TableHead>Depreciação</TableHead>
                   <TableHead>Data de Criação</TableHead>
                   <TableHead className="text-right">Ações</TableHead>
                 </TableRow>
@@ -311,6 +377,9 @@ const CategoryManager = () => {
                         </span>
                       )}
                     </TableCell>
+                    <TableCell>
+                      {DEPRECIATION_METHOD_LABELS[category.depreciation_method as DepreciationMethod] || category.depreciation_method}
+                    </TableCell>
                     <TableCell>
                       {new Date(category.created_at).toLocaleDateString('pt-BR')}
                     </TableCell>
@@ -0,0 +1,78 @@
+import React, { useEffect, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/components/AuthProvider';
+import { usePermissions } from '@/hooks/usePermissions';
+import { useToast } from '@/hooks/use-toast';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Building } from 'lucide-react';
+
+interface Membership {
+  company_id: string;
+  companies: { name: string } | null;
+}
+
+// Only rendered when there is another company to switch to, including for
+// someone deactivated in the company they were working in
+const CompanySwitcher: React.FC = () => {
+  const { user } = useAuth();
+  const { companyId } = usePermissions();
+  const { toast } = useToast();
+  const [memberships, setMemberships] = useState<Membership[]>([]);
+  const [switching, setSwitching] = useState(false);
+
+  useEffect(() => {
+    if (!user) return;
+
+    supabase
+      .from('company_members')
+      .select('company_id, companies(name)')
+      .eq('user_id', user.id)
+      .is('deactivated_at', null)
+      .then(({ data, error }) => {
+        if (error) console.error('Error fetching companies:', error);
+        setMemberships((data as Membership[]) || []);
+      });
+  }, [user]);
+
+  const handleSwitch = async (value: string) => {
+    if (value === companyId) return;
+
+    setSwitching(true);
+    const { error } = await supabase.rpc('switch_company', { p_company_id: value });
+    if (error) {
+      console.error('Error switching company:', error);
+      toast({
+        title: "Erro",
+        description: error.message === 'Not a member of this company'
+          ? "Você não pertence a esta empresa."
+          : "Erro ao trocar de empresa.",
+        variant: "destructive",
+      });
+      setSwitching(false);
+      return;
+    }
+
+    // Every list, filter and cached selection belongs to the previous company
+    window.location.assign(window.location.pathname);
+  };
+
+  if (!memberships.some(membership => membership.company_id !== companyId)) return null;
+
+  return (
+    <Select value={companyId || undefined} onValueChange={handleSwitch} disabled={switching}>
+      <SelectTrigger className="w-48 h-9">
+        <Building className="w-4 h-4 mr-2 shrink-0" />
+        <SelectValue placeholder="Empresa" />
+      </SelectTrigger>
+      <SelectContent>
+        {memberships.map(membership => (
+          <SelectItem key={membership.company_id} value={membership.company_id}>
+            {membership.companies?.name || 'Empresa'}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+};
+
+export default CompanySwitcher;
@@ -62,6 +62,7 @@ const ConsolidatedTrackingSystem = () => {
           categories(name),
           departments(name)
         `)
+        .is('deleted_at', null)
         .eq('status', 'active')
         .order('name');
 
@@ -94,6 +95,7 @@ const ConsolidatedTrackingSystem = () => {
           categories(name),
           departments(name)
         `)
+        .is('deleted_at', null)
         .eq('code', code)
         .single();
 
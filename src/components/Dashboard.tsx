@@ -2,12 +2,11 @@ import React, { useState, useEffect } from 'react';
 import { supabase } from '@/integrations/supabase/client';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Building2, Package, TrendingDown, MapPin } from 'lucide-react';
+import { calculateBookValue, DepreciableAsset } from '@/lib/depreciation';
+import { useExchangeRates } from '@/hooks/useExchangeRates';
 
-interface DashboardStats {
-  totalAssets: number;
-  totalValue: number;
-  totalDepreciation: number;
-  totalBookValue: number;
+interface DashboardAsset extends DepreciableAsset {
+  currency: string;
 }
 
 interface DashboardProps {
@@ -15,13 +14,10 @@ interface DashboardProps {
 }
 
 const Dashboard: React.FC<DashboardProps> = ({ setActiveTab }) => {
-  const [stats, setStats] = useState<DashboardStats>({
-    totalAssets: 0,
-    totalValue: 0,
-    totalDepreciation: 0,
-    totalBookValue: 0,
-  });
+  const [assetCount, setAssetCount] = useState(0);
+  const [assets, setAssets] = useState<DashboardAsset[]>([]);
   const [loading, setLoading] = useState(true);
+  const { baseCurrency, toBase, formatBase, loading: ratesLoading } = useExchangeRates();
 
   useEffect(() => {
     fetchDashboardStats();
@@ -32,37 +28,17 @@ const Dashboard: React.FC<DashboardProps> = ({ setActiveTab }) => {
       // Get total assets count
       const { count } = await supabase
         .from('assets')
-        .select('*', { count: 'exact', head: true });
+        .select('*', { count: 'exact', head: true })
+        .is('deleted_at', null);
 
       // Get assets with calculated values
       const { data: assets } = await supabase
         .from('assets')
-        .select('purchase_value, residual_value, useful_life_years, purchase_date');
-
-      if (assets) {
-        const totalValue = assets.reduce((sum, asset) => sum + Number(asset.purchase_value), 0);
-        
-        // Calculate total depreciation and book value
-        let totalDepreciation = 0;
-        let totalBookValue = 0;
-
-        for (const asset of assets) {
-          const yearsPassed = (new Date().getTime() - new Date(asset.purchase_date).getTime()) / (365.25 * 24 * 3600 * 1000);
-          const annualDepreciation = (Number(asset.purchase_value) - Number(asset.residual_value)) / asset.useful_life_years;
-          const assetDepreciation = annualDepreciation * Math.min(yearsPassed, asset.useful_life_years);
-          const assetBookValue = Number(asset.purchase_value) - assetDepreciation;
-
-          totalDepreciation += Math.max(0, assetDepreciation);
-          totalBookValue += Math.max(Number(asset.residual_value), assetBookValue);
-        }
-
-        setStats({
-          totalAssets: count || 0,
-          totalValue,
-          totalDepreciation,
-          totalBookValue,
-        });
-      }
+        .select('purchase_value, currency, residual_value, useful_life_years, purchase_date, depreciation_method, total_units, units_used, categories (depreciation_method), asset_valuation_events (event_date, new_book_value, remaining_useful_life_years, units_used_at_event)')
+        .is('deleted_at', null);
+
+      setAssetCount(count || 0);
+      setAssets(assets || []);
     } catch (error) {
       console.error('Error fetching dashboard stats:', error);
     } finally {
@@ -70,12 +46,24 @@ const Dashboard: React.FC<DashboardProps> = ({ setActiveTab }) => {
     }
   };
 
-  const formatCurrency = (value: number) => {
-    return new Intl.NumberFormat('pt-BR', {
-      style: 'currency',
-      currency: 'BRL',
-    }).format(value);
-  };
+  // Historical cost: every amount of an asset converts at the rate of its purchase date
+  const stats = assets.reduce((totals, asset) => {
+    const rate = toBase(1, asset.currency, asset.purchase_date);
+    if (rate === null) {
+      return { ...totals, unconverted: totals.unconverted + 1 };
+    }
+
+    const purchaseValue = Number(asset.purchase_value) * rate;
+    const bookValue = calculateBookValue(asset) * rate;
+    return {
+      ...totals,
+      totalValue: totals.totalValue + purchaseValue,
+      totalDepreciation: totals.totalDepreciation + purchaseValue - bookValue,
+      totalBookValue: totals.totalBookValue + bookValue,
+    };
+  }, { totalAssets: assetCount, totalValue: 0, totalDepreciation: 0, totalBookValue: 0, unconverted: 0 });
+
+  const formatCurrency = formatBase;
 
   const StatCard = ({ title, value, description, icon: Icon, valueColor = "text-foreground" }: {
     title: string;
@@ -102,7 +90,7 @@ const Dashboard: React.FC<DashboardProps> = ({ setActiveTab }) => {
     </Card>
   );
 
-  if (loading) {
+  if (loading || ratesLoading) {
     return (
       <div className="space-y-6">
         <h2 className="text-3xl font-bold text-foreground">Dashboard</h2>
@@ -125,8 +113,13 @@ const Dashboard: React.FC<DashboardProps> = ({ setActiveTab }) => {
     <div className="space-y-6 animate-fade-in">
       <div className="flex items-center justify-between">
         <h2 className="text-3xl font-bold text-foreground">Dashboard</h2>
-        <div className="text-sm text-muted-foreground">
-          Atualizado em {new Date().toLocaleString('pt-BR')}
+        <div className="text-sm text-muted-foreground text-right">
+          <div>Valores em {baseCurrency} · Atualizado em {new Date().toLocaleString('pt-BR')}</div>
+          {stats.unconverted > 0 && (
+            <div className="text-orange-600">
+              {stats.unconverted} {stats.unconverted === 1 ? 'ativo sem cotação' : 'ativos sem cotação'} de câmbio na data de compra (fora dos totais)
+            </div>
+          )}
         </div>
       </div>
 
@@ -0,0 +1,317 @@
+import React, { useState, useEffect } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/components/AuthProvider';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from '@/components/ui/alert-dialog';
+import { useToast } from '@/hooks/use-toast';
+import { addMonths, format } from 'date-fns';
+import { ptBR } from 'date-fns/locale';
+import { BookLock, FileSpreadsheet, Lock, LockOpen } from 'lucide-react';
+import { DEPRECIATION_METHOD_LABELS, DepreciationMethod } from '@/lib/depreciation';
+import { formatMoney } from '@/lib/currency';
+
+interface DepreciationPeriod {
+  id: string;
+  period: string;
+  asset_count: number;
+  total_charge: number;
+  total_fiscal_charge: number;
+  base_currency: string;
+  closed_at: string;
+  closed_by: string | null;
+}
+
+const ERROR_MESSAGES: Record<string, string> = {
+  'Only administrators and managers can close periods': 'Apenas administradores e gestores podem fechar períodos.',
+  'Cannot close a future period': 'Não é possível fechar um mês futuro.',
+  'Period already closed': 'Este mês já está fechado.',
+  'Periods must be closed in order': 'Os meses devem ser fechados em sequência.',
+  'Only administrators can reopen periods': 'Apenas administradores podem reabrir períodos.',
+  'Only the latest closed period can be reopened': 'Apenas o último mês fechado pode ser reaberto.',
+};
+
+const toPeriodDate = (month: string) => `${month}-01`;
+
+const formatPeriod = (period: string) =>
+  format(new Date(`${period}T00:00:00`), 'MMMM/yyyy', { locale: ptBR });
+
+const DepreciationClose = () => {
+  const { user } = useAuth();
+  const [periods, setPeriods] = useState<DepreciationPeriod[]>([]);
+  const [profiles, setProfiles] = useState<Record<string, string>>({});
+  const [isAdmin, setIsAdmin] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [processing, setProcessing] = useState(false);
+  const [month, setMonth] = useState(format(addMonths(new Date(), -1), 'yyyy-MM'));
+  const { toast } = useToast();
+
+  useEffect(() => {
+    fetchPeriods();
+  }, []);
+
+  useEffect(() => {
+    if (user) {
+      supabase
+        .from('profiles')
+        .select('role')
+        .eq('user_id', user.id)
+        .maybeSingle()
+        .then(({ data }) => setIsAdmin(data?.role === 'admin'));
+    }
+  }, [user]);
+
+  const fetchPeriods = async () => {
+    setLoading(true);
+    try {
+      const [periodsResult, profilesResult] = await Promise.all([
+        supabase.from('depreciation_periods').select('*').order('period', { ascending: false }),
+        supabase.from('profiles').select('user_id, full_name'),
+      ]);
+
+      if (periodsResult.error) throw periodsResult.error;
+
+      const data = periodsResult.data || [];
+      setPeriods(data);
+      setProfiles(Object.fromEntries((profilesResult.data || []).map(profile => [profile.user_id, profile.full_name || ''])));
+      if (data.length > 0) {
+        setMonth(format(addMonths(new Date(`${data[0].period}T00:00:00`), 1), 'yyyy-MM'));
+      }
+    } catch (error) {
+      console.error('Error fetching depreciation periods:', error);
+      toast({
+        title: "Erro",
+        description: "Erro ao carregar os fechamentos.",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleClose = async () => {
+    setProcessing(true);
+    try {
+      const { data, error } = await supabase.rpc('close_depreciation_period', {
+        p_period: toPeriodDate(month),
+      });
+
+      if (error) throw error;
+
+      toast({
+        title: "Mês fechado",
+        description: `${data} ${data === 1 ? 'ativo lançado' : 'ativos lançados'} em ${formatPeriod(toPeriodDate(month))}.`,
+      });
+      fetchPeriods();
+    } catch (error) {
+      console.error('Error closing period:', error);
+      toast({
+        title: "Erro",
+        description: error.message?.startsWith('Missing exchange rate')
+          ? "Há ativos em moeda estrangeira sem cotação na data de compra. Cadastre-as em Câmbio."
+          : ERROR_MESSAGES[error.message] || "Erro ao fechar o mês.",
+        variant: "destructive",
+      });
+    } finally {
+      setProcessing(false);
+    }
+  };
+
+  const handleReopen = async (period: string) => {
+    setProcessing(true);
+    try {
+      const { error } = await supabase.rpc('reopen_depreciation_period', { p_period: period });
+
+      if (error) throw error;
+
+      toast({
+        title: "Mês reaberto",
+        description: `Os lançamentos de ${formatPeriod(period)} foram removidos.`,
+      });
+      fetchPeriods();
+    } catch (error) {
+      console.error('Error reopening period:', error);
+      toast({
+        title: "Erro",
+        description: ERROR_MESSAGES[error.message] || "Erro ao reabrir o mês.",
+        variant: "destructive",
+      });
+    } finally {
+      setProcessing(false);
+    }
+  };
+
+  const handleExportCSV = async (period: string) => {
+    const { data, error } = await supabase
+      .from('asset_depreciation_entries')
+      .select('*, assets (code, name)')
+      .eq('period', period);
+
+    if (error) {
+      console.error('Error fetching depreciation entries:', error);
+      toast({ title: "Erro", description: "Erro ao exportar o razão.", variant: "destructive" });
+      return;
+    }
+
+    const headers = ['Competência', 'Código', 'Ativo', 'Método', 'Valor Inicial', 'Depreciação do Mês', 'Ajuste de Reavaliação/Impairment', 'Depreciação Acumulada', 'Valor Contábil Final', 'Taxa Fiscal (% a.a.)', 'Depreciação Fiscal do Mês', 'Depreciação Fiscal Acumulada', 'Moeda', 'Taxa de Câmbio Histórica'];
+    const csvRows = [headers.join(',')];
+
+    (data || [])
+      .sort((a, b) => (a.assets?.code || '').localeCompare(b.assets?.code || ''))
+      .forEach(entry => {
+        csvRows.push([
+          entry.period.slice(0, 7),
+          `"${entry.assets?.code || ''}"`,
+          `"${entry.assets?.name || ''}"`,
+          `"${DEPRECIATION_METHOD_LABELS[entry.method as DepreciationMethod] || entry.method}"`,
+          Number(entry.opening_value).toFixed(2),
+          Number(entry.charge).toFixed(2),
+          Number(entry.valuation_adjustment).toFixed(2),
+          Number(entry.accumulated_depreciation).toFixed(2),
+          Number(entry.closing_value).toFixed(2),
+          entry.fiscal_rate ?? '',
+          Number(entry.fiscal_charge).toFixed(2),
+          Number(entry.fiscal_accumulated_depreciation).toFixed(2),
+          entry.currency,
+          entry.exchange_rate,
+        ].join(','));
+      });
+
+    const csvContent = csvRows.join('\n');
+    const blob = new Blob([csvContent], { type: 'text/csv;charset=utf-8;' });
+    const link = document.createElement("a");
+    const url = URL.createObjectURL(blob);
+    link.setAttribute("href", url);
+    link.setAttribute("download", `razao-depreciacao-${period.slice(0, 7)}.csv`);
+    link.style.visibility = 'hidden';
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+
+    toast({ title: "Sucesso", description: "CSV exportado com sucesso!" });
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <BookLock className="h-5 w-5" />
+          Fechamento de Depreciação
+        </CardTitle>
+        <CardDescription>
+          Fechar o mês grava a depreciação de cada ativo no razão e bloqueia o período
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="flex items-end gap-2">
+          <div className="space-y-2">
+            <Label htmlFor="close_month">Competência</Label>
+            <Input
+              id="close_month"
+              type="month"
+              className="w-48"
+              value={month}
+              max={format(new Date(), 'yyyy-MM')}
+              disabled={periods.length > 0}
+              onChange={(e) => setMonth(e.target.value)}
+            />
+          </div>
+          <AlertDialog>
+            <AlertDialogTrigger asChild>
+              <Button disabled={processing || !month}>
+                <Lock className="h-4 w-4 mr-2" />
+                Fechar mês
+              </Button>
+            </AlertDialogTrigger>
+            <AlertDialogContent>
+              <AlertDialogHeader>
+                <AlertDialogTitle>Fechar {month && formatPeriod(toPeriodDate(month))}?</AlertDialogTitle>
+                <AlertDialogDescription>
+                  A depreciação do mês será lançada para todos os ativos em uso e o período ficará bloqueado.
+                  Baixas com data neste mês ou antes dele não serão mais aceitas.
+                </AlertDialogDescription>
+              </AlertDialogHeader>
+              <AlertDialogFooter>
+                <AlertDialogCancel>Cancelar</AlertDialogCancel>
+                <AlertDialogAction onClick={handleClose}>
+                  Fechar mês
+                </AlertDialogAction>
+              </AlertDialogFooter>
+            </AlertDialogContent>
+          </AlertDialog>
+        </div>
+
+        {loading ? (
+          <div className="flex justify-center p-8">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+          </div>
+        ) : periods.length === 0 ? (
+          <p className="text-center text-muted-foreground py-8">
+            Nenhum mês fechado ainda.
+          </p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Competência</TableHead>
+                <TableHead className="text-right">Ativos</TableHead>
+                <TableHead className="text-right">Depreciação do Mês</TableHead>
+                <TableHead className="text-right">Depreciação Fiscal</TableHead>
+                <TableHead>Fechado em</TableHead>
+                <TableHead>Fechado por</TableHead>
+                <TableHead className="text-right">Ações</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {periods.map((period, index) => (
+                <TableRow key={period.id}>
+                  <TableCell className="font-medium capitalize">{formatPeriod(period.period)}</TableCell>
+                  <TableCell className="text-right">{period.asset_count}</TableCell>
+                  <TableCell className="text-right">{formatMoney(period.total_charge, period.base_currency)}</TableCell>
+                  <TableCell className="text-right">{formatMoney(period.total_fiscal_charge, period.base_currency)}</TableCell>
+                  <TableCell>{format(new Date(period.closed_at), 'dd/MM/yyyy HH:mm', { locale: ptBR })}</TableCell>
+                  <TableCell>{(period.closed_by && profiles[period.closed_by]) || '—'}</TableCell>
+                  <TableCell className="text-right">
+                    <div className="flex items-center justify-end gap-2">
+                      <Button variant="outline" size="sm" onClick={() => handleExportCSV(period.period)}>
+                        <FileSpreadsheet className="h-4 w-4" />
+                      </Button>
+                      {isAdmin && index === 0 && (
+                        <AlertDialog>
+                          <AlertDialogTrigger asChild>
+                            <Button variant="outline" size="sm" disabled={processing}>
+                              <LockOpen className="h-4 w-4" />
+                            </Button>
+                          </AlertDialogTrigger>
+                          <AlertDialogContent>
+                            <AlertDialogHeader>
+                              <AlertDialogTitle>Reabrir {formatPeriod(period.period)}?</AlertDialogTitle>
+                              <AlertDialogDescription>
+                                Os lançamentos de depreciação deste mês serão removidos do razão.
+                              </AlertDialogDescription>
+                            </AlertDialogHeader>
+                            <AlertDialogFooter>
+                              <AlertDialogCancel>Cancelar</AlertDialogCancel>
+                              <AlertDialogAction onClick={() => handleReopen(period.period)}>
+                                Reabrir
+                              </AlertDialogAction>
+                            </AlertDialogFooter>
+                          </AlertDialogContent>
+                        </AlertDialog>
+                      )}
+                    </div>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default DepreciationClose;
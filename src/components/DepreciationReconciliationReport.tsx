@@ -0,0 +1,224 @@
+import React, { useState, useEffect } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Table, TableBody, TableCell, TableFooter, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useToast } from '@/hooks/use-toast';
+import { addMonths, format } from 'date-fns';
+import { FileSpreadsheet, Scale } from 'lucide-react';
+import { FISCAL_RATE_SOURCE_LABELS } from '@/lib/depreciation';
+import { formatMoney } from '@/lib/currency';
+import { useExchangeRates } from '@/hooks/useExchangeRates';
+
+interface ReconciliationRow {
+  asset_id: string;
+  code: string;
+  name: string;
+  category_name: string | null;
+  ncm: string | null;
+  work_shifts: number;
+  fiscal_rate: number | null;
+  fiscal_rate_source: string;
+  purchase_value: number;
+  accounting_charge: number;
+  fiscal_charge: number;
+  accounting_accumulated: number;
+  fiscal_accumulated: number;
+  difference: number;
+  is_closed: boolean;
+  currency: string;
+  exchange_rate: number | null;
+}
+
+const DepreciationReconciliationReport = () => {
+  const [month, setMonth] = useState(format(addMonths(new Date(), -1), 'yyyy-MM'));
+  const [rows, setRows] = useState<ReconciliationRow[]>([]);
+  const [loading, setLoading] = useState(true);
+  const { toast } = useToast();
+  const { formatBase } = useExchangeRates();
+
+  useEffect(() => {
+    if (month) {
+      fetchReconciliation();
+    }
+  }, [month]);
+
+  const fetchReconciliation = async () => {
+    setLoading(true);
+    const { data, error } = await supabase.rpc('get_depreciation_reconciliation', {
+      p_period: `${month}-01`,
+    });
+
+    if (error) {
+      console.error('Error fetching reconciliation:', error);
+      toast({
+        title: "Erro",
+        description: "Erro ao conciliar os livros de depreciação.",
+        variant: "destructive",
+      });
+      setRows([]);
+    } else {
+      setRows(data || []);
+    }
+    setLoading(false);
+  };
+
+  // Rows stay in the asset's currency; totals are in the base currency at the
+  // purchase date rate, leaving out assets without a known rate
+  const convertedRows = rows.filter(row => row.exchange_rate !== null);
+  const unconvertedCount = rows.length - convertedRows.length;
+
+  const sum = (field: 'accounting_charge' | 'fiscal_charge' | 'accounting_accumulated' | 'fiscal_accumulated' | 'difference') =>
+    convertedRows.reduce((total, row) => total + Number(row[field]) * Number(row.exchange_rate), 0);
+
+  const isClosed = rows.length > 0 && rows[0].is_closed;
+
+  const handleExportCSV = () => {
+    const headers = ['Código', 'Ativo', 'Categoria', 'NCM', 'Turnos', 'Taxa Fiscal (% a.a.)', 'Origem da Taxa', 'Moeda', 'Valor de Compra', 'Depreciação Contábil do Mês', 'Depreciação Fiscal do Mês', 'Contábil Acumulada', 'Fiscal Acumulada', 'Diferença'];
+    const csvRows = [headers.join(',')];
+
+    rows.forEach(row => {
+      csvRows.push([
+        `"${row.code}"`,
+        `"${row.name}"`,
+        `"${row.category_name || ''}"`,
+        row.ncm || '',
+        row.work_shifts,
+        row.fiscal_rate ?? '',
+        `"${FISCAL_RATE_SOURCE_LABELS[row.fiscal_rate_source] || row.fiscal_rate_source}"`,
+        row.currency,
+        Number(row.purchase_value).toFixed(2),
+        Number(row.accounting_charge).toFixed(2),
+        Number(row.fiscal_charge).toFixed(2),
+        Number(row.accounting_accumulated).toFixed(2),
+        Number(row.fiscal_accumulated).toFixed(2),
+        Number(row.difference).toFixed(2),
+      ].join(','));
+    });
+
+    const csvContent = csvRows.join('\n');
+    const blob = new Blob([csvContent], { type: 'text/csv;charset=utf-8;' });
+    const link = document.createElement("a");
+    const url = URL.createObjectURL(blob);
+    link.setAttribute("href", url);
+    link.setAttribute("download", `conciliacao-depreciacao-${month}.csv`);
+    link.style.visibility = 'hidden';
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+
+    toast({ title: "Sucesso", description: "CSV exportado com sucesso!" });
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div className="space-y-1.5">
+          <CardTitle className="flex items-center gap-2">
+            <Scale className="h-5 w-5" />
+            Conciliação Contábil x Fiscal
+          </CardTitle>
+          <CardDescription>
+            Diferença positiva indica depreciação fiscal maior que a contábil (exclusão no LALUR); negativa, adição
+          </CardDescription>
+        </div>
+        <Button variant="outline" size="sm" onClick={handleExportCSV} disabled={rows.length === 0}>
+          <FileSpreadsheet className="h-4 w-4 mr-2" />
+          Exportar CSV
+        </Button>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="flex items-end gap-2">
+          <div className="space-y-2">
+            <Label htmlFor="reconciliation_month">Competência</Label>
+            <Input
+              id="reconciliation_month"
+              type="month"
+              className="w-48"
+              value={month}
+              onChange={(e) => setMonth(e.target.value)}
+            />
+          </div>
+          {rows.length > 0 && (
+            <Badge variant={isClosed ? 'secondary' : 'outline'} className="mb-2">
+              {isClosed ? 'Valores do razão fechado' : 'Mês aberto - valores calculados'}
+            </Badge>
+          )}
+        </div>
+
+        {loading ? (
+          <div className="flex justify-center p-8">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+          </div>
+        ) : rows.length === 0 ? (
+          <p className="text-center text-muted-foreground py-8">
+            Nenhum ativo em uso nesta competência.
+          </p>
+        ) : (
+          <div className="max-h-[480px] overflow-y-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Código</TableHead>
+                  <TableHead>Ativo</TableHead>
+                  <TableHead>NCM</TableHead>
+                  <TableHead className="text-right">Taxa Fiscal</TableHead>
+                  <TableHead className="text-right">Contábil Acumulada</TableHead>
+                  <TableHead className="text-right">Fiscal Acumulada</TableHead>
+                  <TableHead className="text-right">Diferença</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {rows.map((row) => (
+                  <TableRow key={row.asset_id}>
+                    <TableCell>
+                      <Badge variant="outline">{row.code}</Badge>
+                    </TableCell>
+                    <TableCell className="font-medium">{row.name}</TableCell>
+                    <TableCell>{row.ncm || '—'}</TableCell>
+                    <TableCell className="text-right">
+                      <div>{row.fiscal_rate}% a.a.</div>
+                      <div className="text-xs text-muted-foreground">
+                        {FISCAL_RATE_SOURCE_LABELS[row.fiscal_rate_source] || row.fiscal_rate_source}
+                        {row.work_shifts > 1 && ` · ${row.work_shifts} turnos`}
+                      </div>
+                    </TableCell>
+                    <TableCell className="text-right">{formatMoney(row.accounting_accumulated, row.currency)}</TableCell>
+                    <TableCell className="text-right">{formatMoney(row.fiscal_accumulated, row.currency)}</TableCell>
+                    <TableCell className={`text-right font-medium ${row.difference < 0 ? 'text-destructive' : ''}`}>
+                      {formatMoney(row.difference, row.currency)}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+              <TableFooter>
+                <TableRow>
+                  <TableCell colSpan={4}>Total ({rows.length} ativos)</TableCell>
+                  <TableCell className="text-right">{formatBase(sum('accounting_accumulated'))}</TableCell>
+                  <TableCell className="text-right">{formatBase(sum('fiscal_accumulated'))}</TableCell>
+                  <TableCell className="text-right">{formatBase(sum('difference'))}</TableCell>
+                </TableRow>
+                <TableRow>
+                  <TableCell colSpan={4}>Depreciação do mês</TableCell>
+                  <TableCell className="text-right">{formatBase(sum('accounting_charge'))}</TableCell>
+                  <TableCell className="text-right">{formatBase(sum('fiscal_charge'))}</TableCell>
+                  <TableCell className="text-right">{formatBase(sum('fiscal_charge') - sum('accounting_charge'))}</TableCell>
+                </TableRow>
+              </TableFooter>
+            </Table>
+            {unconvertedCount > 0 && (
+              <p className="text-xs text-muted-foreground mt-2">
+                {unconvertedCount} {unconvertedCount === 1 ? 'ativo sem cotação' : 'ativos sem cotação'} de câmbio na data de compra (fora dos totais)
+              </p>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default DepreciationReconciliationReport;
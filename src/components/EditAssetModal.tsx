@@ -9,6 +9,8 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { toast } from '@/hooks/use-toast';
 import { Loader2, Save } from 'lucide-react';
+import { DEPRECIATION_METHOD_LABELS, UNITS_OF_PRODUCTION_NOTE, WORK_SHIFT_LABELS } from '@/lib/depreciation';
+import { CURRENCIES, DEFAULT_CURRENCY } from '@/lib/currency';
 
 interface Asset {
   id: string;
@@ -20,8 +22,14 @@ interface Asset {
   department_id: string | null;
   unit_id: string | null;
   purchase_value: number;
+  currency: string;
   residual_value: number | null;
   useful_life_years: number;
+  depreciation_method: string | null;
+  total_units: number | null;
+  units_used: number | null;
+  ncm: string | null;
+  work_shifts: number | null;
   purchase_date: string;
   current_location: string | null;
   status: string | null;
@@ -76,8 +84,14 @@ const EditAssetModal = ({ isOpen, onOpenChange, asset, onAssetUpdated }: EditAss
     department_id: '',
     unit_id: '',
     purchase_value: '',
+    currency: DEFAULT_CURRENCY,
     residual_value: '',
     useful_life_years: '',
+    depreciation_method: '',
+    total_units: '',
+    units_used: '',
+    ncm: '',
+    work_shifts: '1',
     purchase_date: '',
     current_location: '',
     status: '',
@@ -105,8 +119,14 @@ const EditAssetModal = ({ isOpen, onOpenChange, asset, onAssetUpdated }: EditAss
         department_id: asset.department_id || 'unassigned',
         unit_id: asset.unit_id || 'unassigned',
         purchase_value: asset.purchase_value?.toString() || '',
+        currency: asset.currency || DEFAULT_CURRENCY,
         residual_value: asset.residual_value?.toString() || '',
         useful_life_years: asset.useful_life_years?.toString() || '',
+        depreciation_method: asset.depreciation_method || 'category',
+        total_units: asset.total_units?.toString() || '',
+        units_used: asset.units_used?.toString() || '',
+        ncm: asset.ncm || '',
+        work_shifts: asset.work_shifts?.toString() || '1',
         purchase_date: asset.purchase_date || '',
         current_location: asset.current_location || '',
         status: asset.status || 'active',
@@ -160,6 +180,15 @@ const EditAssetModal = ({ isOpen, onOpenChange, asset, onAssetUpdated }: EditAss
       return;
     }
 
+    if (formData.ncm && formData.ncm.length !== 8) {
+      toast({
+        title: "Erro",
+        description: "O NCM deve ter 8 dígitos.",
+        variant: "destructive",
+      });
+      return;
+    }
+
     setLoading(true);
     try {
       const updatedAsset = {
@@ -171,8 +200,14 @@ const EditAssetModal = ({ isOpen, onOpenChange, asset, onAssetUpdated }: EditAss
         department_id: formData.department_id === 'unassigned' ? null : formData.department_id || null,
         unit_id: formData.unit_id === 'unassigned' ? null : formData.unit_id || null,
         purchase_value: parseFloat(formData.purchase_value),
+        currency: formData.currency,
         residual_value: formData.residual_value ? parseFloat(formData.residual_value) : null,
         useful_life_years: parseInt(formData.useful_life_years) || 5,
+        depreciation_method: formData.depreciation_method === 'category' ? null : formData.depreciation_method || null,
+        total_units: formData.total_units ? parseFloat(formData.total_units) : null,
+        units_used: formData.units_used ? parseFloat(formData.units_used) : 0,
+        ncm: formData.ncm || null,
+        work_shifts: parseInt(formData.work_shifts) || 1,
         purchase_date: formData.purchase_date,
         current_location: formData.current_location || null,
         status: formData.status,
@@ -190,37 +225,6 @@ const EditAssetModal = ({ isOpen, onOpenChange, asset, onAssetUpdated }: EditAss
 
       if (error) throw error;
 
-      // Create audit log
-      const { data: userData } = await supabase.auth.getUser();
-      if (userData.user) {
-        await supabase.from('asset_audit_log').insert({
-          asset_id: asset.id,
-          action: 'updated',
-          user_id: userData.user.id,
-          new_data: updatedAsset,
-          old_data: {
-            name: asset.name,
-            code: asset.code,
-            description: asset.description,
-            serial_number: asset.serial_number,
-            category_id: asset.category_id,
-            department_id: asset.department_id,
-            unit_id: asset.unit_id,
-            purchase_value: asset.purchase_value,
-            residual_value: asset.residual_value,
-            useful_life_years: asset.useful_life_years,
-            purchase_date: asset.purchase_date,
-            current_location: asset.current_location,
-            status: asset.status,
-            assigned_to: asset.assigned_to,
-            rfid_id: asset.rfid_id,
-            latitude: asset.latitude,
-            longitude: asset.longitude,
-            location_type: asset.location_type
-          }
-        });
-      }
-
       toast({
         title: "Sucesso",
         description: "Ativo atualizado com sucesso.",
@@ -397,15 +401,30 @@ const EditAssetModal = ({ isOpen, onOpenChange, asset, onAssetUpdated }: EditAss
               <CardContent className="space-y-4">
                 <div className="space-y-2">
                   <Label htmlFor="purchase_value">Valor de Compra *</Label>
-                  <Input
-                    id="purchase_value"
-                    type="number"
-                    step="0.01"
-                    value={formData.purchase_value}
-                    onChange={(e) => setFormData(prev => ({ ...prev, purchase_value: e.target.value }))}
-                    placeholder="0.00"
-                    required
-                  />
+                  <div className="flex gap-2">
+                    <Select
+                      value={formData.currency}
+                      onValueChange={(value) => setFormData(prev => ({ ...prev, currency: value }))}
+                    >
+                      <SelectTrigger className="w-28" aria-label="Moeda">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {CURRENCIES.map(currency => (
+                          <SelectItem key={currency} value={currency}>{currency}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <Input
+                      id="purchase_value"
+                      type="number"
+                      step="0.01"
+                      value={formData.purchase_value}
+                      onChange={(e) => setFormData(prev => ({ ...prev, purchase_value: e.target.value }))}
+                      placeholder="0.00"
+                      required
+                    />
+                  </div>
                 </div>
                 <div className="space-y-2">
                   <Label htmlFor="residual_value">Valor Residual</Label>
@@ -429,6 +448,77 @@ const EditAssetModal = ({ isOpen, onOpenChange, asset, onAssetUpdated }: EditAss
                     placeholder="5"
                   />
                 </div>
+                <div className="space-y-2">
+                  <Label htmlFor="depreciation_method">Método de Depreciação</Label>
+                  <Select
+                    value={formData.depreciation_method}
+                    onValueChange={(value) => setFormData(prev => ({ ...prev, depreciation_method: value }))}
+                  >
+                    <SelectTrigger id="depreciation_method">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="category">Padrão da categoria</SelectItem>
+                      {Object.entries(DEPRECIATION_METHOD_LABELS).map(([value, label]) => (
+                        <SelectItem key={value} value={value}>{label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                {formData.depreciation_method === 'units_of_production' && (
+                  <>
+                    <div className="space-y-2">
+                      <Label htmlFor="total_units">Produção Total Estimada</Label>
+                      <Input
+                        id="total_units"
+                        type="number"
+                        min="0"
+                        value={formData.total_units}
+                        onChange={(e) => setFormData(prev => ({ ...prev, total_units: e.target.value }))}
+                        placeholder="Ex: 100000"
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="units_used">Unidades Produzidas</Label>
+                      <Input
+                        id="units_used"
+                        type="number"
+                        min="0"
+                        value={formData.units_used}
+                        onChange={(e) => setFormData(prev => ({ ...prev, units_used: e.target.value }))}
+                        placeholder="0"
+                      />
+                      <p className="text-xs text-muted-foreground">{UNITS_OF_PRODUCTION_NOTE}</p>
+                    </div>
+                  </>
+                )}
+                <div className="space-y-2">
+                  <Label htmlFor="ncm">NCM</Label>
+                  <Input
+                    id="ncm"
+                    inputMode="numeric"
+                    maxLength={8}
+                    value={formData.ncm}
+                    onChange={(e) => setFormData(prev => ({ ...prev, ncm: e.target.value.replace(/\D/g, '') }))}
+                    placeholder="Ex: 84713012"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="work_shifts">Turnos de Operação</Label>
+                  <Select
+                    value={formData.work_shifts}
+                    onValueChange={(value) => setFormData(prev => ({ ...prev, work_shifts: value }))}
+                  >
+                    <SelectTrigger id="work_shifts">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {Object.entries(WORK_SHIFT_LABELS).map(([value, label]) => (
+                        <SelectItem key={value} value={value}>{label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
                 <div className="space-y-2">
                   <Label htmlFor="purchase_date">Data de Compra *</Label>
                   <Input
@@ -1,5 +1,8 @@
 import React, { useState, useEffect } from 'react';
 import { supabase } from '@/integrations/supabase/client';
+import { Json } from '@/integrations/supabase/types';
+import { useAuth } from '@/components/AuthProvider';
+import { usePermissions } from '@/hooks/usePermissions';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
@@ -27,15 +30,23 @@ import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Textarea } from '@/components/ui/textarea';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import MaintenancePartsSelector, { MaintenancePartLine, getPartsTotal } from '@/components/MaintenancePartsSelector';
+import { useExchangeRates } from '@/hooks/useExchangeRates';
+import { formatMoney } from '@/lib/currency';
 
 interface MaintenanceStats {
   pendingCount: number;
   inProgressCount: number;
   completedThisMonth: number;
-  totalCostThisMonth: number;
   overdue: number;
 }
 
+interface CompletedCost {
+  cost: number | null;
+  currency: string;
+  completed_date: string;
+}
+
 interface MaintenanceItem {
   id: string;
   asset_id: string;
@@ -43,9 +54,13 @@ interface MaintenanceItem {
   scheduled_date: string;
   status: string;
   cost: number;
+  currency: string;
+  labor_cost: number | null;
+  parts_used: Json | null;
   maintenance_type: string;
   labor_hours: number;
   completed_date?: string;
+  performed_by: string | null;
   assets: {
     name: string;
     code: string;
@@ -59,20 +74,30 @@ interface ChartData {
   emergencial: number;
 }
 
-const EnhancedMaintenanceDashboard: React.FC = () => {
+interface EnhancedMaintenanceDashboardProps {
+  // Record to open for editing, e.g. picked in the global search
+  focusMaintenanceId?: string | null;
+  onFocusHandled?: () => void;
+}
+
+const EnhancedMaintenanceDashboard: React.FC<EnhancedMaintenanceDashboardProps> = ({ focusMaintenanceId, onFocusHandled }) => {
   const { toast } = useToast();
+  const { user } = useAuth();
+  const { canManageAssets } = usePermissions();
   const [stats, setStats] = useState<MaintenanceStats>({
     pendingCount: 0,
     inProgressCount: 0,
     completedThisMonth: 0,
-    totalCostThisMonth: 0,
     overdue: 0,
   });
+  const [completedCosts, setCompletedCosts] = useState<CompletedCost[]>([]);
+  const { toBase, formatBase } = useExchangeRates();
   const [recentMaintenances, setRecentMaintenances] = useState<MaintenanceItem[]>([]);
   const [chartData, setChartData] = useState<ChartData[]>([]);
   const [selectedDate, setSelectedDate] = useState<Date>(new Date());
   const [loading, setLoading] = useState(true);
   const [editingMaintenance, setEditingMaintenance] = useState<MaintenanceItem | null>(null);
+  const [completingMaintenance, setCompletingMaintenance] = useState<MaintenanceItem | null>(null);
   const [showAddForm, setShowAddForm] = useState(false);
   const [filterAsset, setFilterAsset] = useState('');
   const [filterUnit, setFilterUnit] = useState('');
@@ -86,6 +111,12 @@ const EnhancedMaintenanceDashboard: React.FC = () => {
     fetchUnits();
   }, []);
 
+  useEffect(() => {
+    if (focusMaintenanceId) {
+      openMaintenance(focusMaintenanceId);
+    }
+  }, [focusMaintenanceId]);
+
   useEffect(() => {
     if (filterAsset || filterUnit) {
       fetchFilteredMaintenances();
@@ -108,6 +139,7 @@ const EnhancedMaintenanceDashboard: React.FC = () => {
       const { data, error } = await supabase
         .from('assets')
         .select('id, name, code')
+        .is('deleted_at', null)
         .eq('status', 'active')
         .order('name');
       
@@ -188,27 +220,51 @@ const EnhancedMaintenanceDashboard: React.FC = () => {
       const [pendingRes, inProgressRes, completedRes, overdueRes] = await Promise.all([
         supabase.from('asset_maintenance').select('*').eq('status', 'agendada'),
         supabase.from('asset_maintenance').select('*').eq('status', 'em_andamento'),
-        supabase.from('asset_maintenance').select('cost').eq('status', 'concluída')
+        supabase.from('asset_maintenance').select('cost, currency, completed_date').eq('status', 'concluída')
           .gte('completed_date', format(monthStart, 'yyyy-MM-dd'))
           .lte('completed_date', format(monthEnd, 'yyyy-MM-dd')),
         supabase.from('asset_maintenance').select('*').eq('status', 'agendada')
           .lt('scheduled_date', format(now, 'yyyy-MM-dd'))
       ]);
 
-      const totalCost = completedRes.data?.reduce((sum, item) => sum + (item.cost || 0), 0) || 0;
-
       setStats({
         pendingCount: pendingRes.data?.length || 0,
         inProgressCount: inProgressRes.data?.length || 0,
         completedThisMonth: completedRes.data?.length || 0,
-        totalCostThisMonth: totalCost,
         overdue: overdueRes.data?.length || 0,
       });
+      setCompletedCosts(completedRes.data || []);
     } catch (error) {
       console.error('Erro ao buscar estatísticas:', error);
     }
   };
 
+  const openMaintenance = async (maintenanceId: string) => {
+    const { data, error } = await supabase
+      .from('asset_maintenance')
+      .select(`
+        *,
+        assets (
+          name,
+          code
+        )
+      `)
+      .eq('id', maintenanceId)
+      .maybeSingle();
+
+    if (error || !data) {
+      console.error('Erro ao abrir manutenção:', error);
+      toast({
+        title: "Erro",
+        description: "Manutenção não encontrada",
+        variant: "destructive",
+      });
+    } else {
+      setEditingMaintenance(data);
+    }
+    onFocusHandled?.();
+  };
+
   const fetchRecentMaintenances = async () => {
     try {
       const { data, error } = await supabase
@@ -293,6 +349,10 @@ const EnhancedMaintenanceDashboard: React.FC = () => {
     }
   };
 
+  // Same rule as the update policy and complete_maintenance: the performer, admins and managers
+  const canEditMaintenance = (maintenance: MaintenanceItem) =>
+    canManageAssets || maintenance.performed_by === user?.id;
+
   const handleDeleteMaintenance = async (maintenanceId: string) => {
     try {
       const { error } = await supabase
@@ -320,18 +380,39 @@ const EnhancedMaintenanceDashboard: React.FC = () => {
 
   const handleEditMaintenance = async (maintenance: MaintenanceItem, formData: any) => {
     try {
-      const { error } = await supabase
-        .from('asset_maintenance')
-        .update({
-          description: formData.description,
-          cost: parseFloat(formData.cost) || 0,
-          labor_hours: parseFloat(formData.labor_hours) || 0,
-          maintenance_type: formData.maintenance_type,
-          scheduled_date: format(new Date(formData.scheduled_date), 'yyyy-MM-dd'),
-        })
-        .eq('id', maintenance.id);
+      const parts: MaintenancePartLine[] = formData.parts.filter((line: MaintenancePartLine) => line.part_id && line.quantity > 0);
+      const laborCost = parseFloat(formData.labor_cost) || 0;
 
-      if (error) throw error;
+      // Completed jobs already took parts from stock: the details, labor and
+      // any change to the parts are saved together, through the ledger
+      if (maintenance.status === 'concluída') {
+        const { error } = await supabase.rpc('edit_completed_maintenance', {
+          p_maintenance_id: maintenance.id,
+          p_description: formData.description,
+          p_maintenance_type: formData.maintenance_type,
+          p_scheduled_date: format(new Date(formData.scheduled_date), 'yyyy-MM-dd'),
+          p_labor_hours: parseFloat(formData.labor_hours) || 0,
+          p_labor_cost: laborCost,
+          p_parts: formData.partsChanged ? parts.map(({ part_id, quantity }) => ({ part_id, quantity })) : null,
+        });
+
+        if (error) throw error;
+      } else {
+        const { error } = await supabase
+          .from('asset_maintenance')
+          .update({
+            description: formData.description,
+            labor_cost: laborCost,
+            cost: laborCost + getPartsTotal(parts),
+            parts_used: parts.map(({ part_id, quantity, unit_cost }) => ({ part_id, quantity, unit_cost })),
+            labor_hours: parseFloat(formData.labor_hours) || 0,
+            maintenance_type: formData.maintenance_type,
+            scheduled_date: format(new Date(formData.scheduled_date), 'yyyy-MM-dd'),
+          })
+          .eq('id', maintenance.id);
+
+        if (error) throw error;
+      }
 
       toast({
         title: "Sucesso",
@@ -344,12 +425,53 @@ const EnhancedMaintenanceDashboard: React.FC = () => {
       console.error('Erro ao editar manutenção:', error);
       toast({
         title: "Erro",
-        description: "Erro ao editar manutenção",
+        description: error?.message?.includes('Insufficient stock')
+          ? "Estoque insuficiente para uma das peças informadas"
+          : error?.message?.includes('Missing exchange rate')
+            ? "Cadastre a cotação de câmbio da moeda de uma das peças"
+            : "Erro ao editar manutenção",
         variant: "destructive",
       });
     }
   };
 
+  const handleCompleteMaintenance = async (maintenance: MaintenanceItem, formData: { labor_cost: string; parts: MaintenancePartLine[] }) => {
+    try {
+      const parts = formData.parts.filter(line => line.part_id && line.quantity > 0);
+      const { error } = await supabase.rpc('complete_maintenance', {
+        p_maintenance_id: maintenance.id,
+        p_labor_cost: parseFloat(formData.labor_cost) || 0,
+        p_parts: parts.map(({ part_id, quantity }) => ({ part_id, quantity })),
+      });
+
+      if (error) throw error;
+
+      toast({
+        title: "Sucesso",
+        description: "Manutenção concluída e peças baixadas do estoque!",
+      });
+
+      setCompletingMaintenance(null);
+      fetchData();
+    } catch (error) {
+      console.error('Erro ao concluir manutenção:', error);
+      toast({
+        title: "Erro",
+        description: error?.message?.includes('Insufficient stock')
+          ? "Estoque insuficiente para uma das peças informadas"
+          : error?.message?.includes('Missing exchange rate')
+            ? "Cadastre a cotação de câmbio da moeda de uma das peças"
+            : "Erro ao concluir manutenção",
+        variant: "destructive",
+      });
+    }
+  };
+
+  // Each job is converted at the rate of its completion date
+  const convertedCosts = completedCosts.map(item => toBase(item.cost || 0, item.currency, item.completed_date));
+  const totalCostThisMonth = convertedCosts.reduce((sum, value) => sum + (value ?? 0), 0);
+  const unconvertedCount = convertedCosts.filter(value => value === null).length;
+
   const getStatusColor = (status: string) => {
     switch (status) {
       case 'agendada':
@@ -375,13 +497,6 @@ const EnhancedMaintenanceDashboard: React.FC = () => {
     return labels[status as keyof typeof labels] || status;
   };
 
-  const formatCurrency = (value: number) => {
-    return new Intl.NumberFormat('pt-BR', {
-      style: 'currency',
-      currency: 'BRL',
-    }).format(value);
-  };
-
   if (loading) {
     return (
       <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
@@ -445,7 +560,10 @@ const EnhancedMaintenanceDashboard: React.FC = () => {
               <DollarSign className="h-8 w-8 text-green-600" />
               <div className="ml-4">
                 <p className="text-sm font-medium text-muted-foreground">Custo (mês)</p>
-                <p className="text-2xl font-bold">{formatCurrency(stats.totalCostThisMonth)}</p>
+                <p className="text-2xl font-bold">{formatBase(totalCostThisMonth)}</p>
+                {unconvertedCount > 0 && (
+                  <p className="text-xs text-orange-600">{unconvertedCount} sem cotação de câmbio</p>
+                )}
               </div>
             </div>
           </CardContent>
@@ -610,11 +728,11 @@ const EnhancedMaintenanceDashboard: React.FC = () => {
                     
                     {maintenance.cost > 0 && (
                       <span className="text-sm font-medium">
-                        {formatCurrency(maintenance.cost)}
+                        {formatMoney(maintenance.cost, maintenance.currency)}
                       </span>
                     )}
                     
-                    {maintenance.status === 'agendada' && (
+                    {maintenance.status === 'agendada' && canEditMaintenance(maintenance) && (
                       <Button
                         size="sm"
                         variant="outline"
@@ -624,53 +742,57 @@ const EnhancedMaintenanceDashboard: React.FC = () => {
                       </Button>
                     )}
                     
-                    {maintenance.status === 'em_andamento' && (
+                    {maintenance.status === 'em_andamento' && canEditMaintenance(maintenance) && (
                       <Button
                         size="sm"
-                        onClick={() => handleStatusChange(maintenance.id, 'concluída')}
+                        onClick={() => setCompletingMaintenance(maintenance)}
                       >
                         Concluir
                       </Button>
                     )}
                     
-                    <Dialog>
-                      <DialogTrigger asChild>
-                        <Button size="sm" variant="outline">
-                          <Edit className="h-4 w-4" />
-                        </Button>
-                      </DialogTrigger>
-                      <DialogContent className="max-w-2xl">
-                        <DialogHeader>
-                          <DialogTitle>Editar Manutenção</DialogTitle>
-                        </DialogHeader>
-                        <EditMaintenanceForm 
-                          maintenance={maintenance} 
-                          onSave={handleEditMaintenance}
-                        />
-                      </DialogContent>
-                    </Dialog>
+                    {canEditMaintenance(maintenance) && (
+                      <Dialog>
+                        <DialogTrigger asChild>
+                          <Button size="sm" variant="outline">
+                            <Edit className="h-4 w-4" />
+                          </Button>
+                        </DialogTrigger>
+                        <DialogContent className="max-w-2xl">
+                          <DialogHeader>
+                            <DialogTitle>Editar Manutenção</DialogTitle>
+                          </DialogHeader>
+                          <EditMaintenanceForm 
+                            maintenance={maintenance} 
+                            onSave={handleEditMaintenance}
+                          />
+                        </DialogContent>
+                      </Dialog>
+                    )}
                     
-                    <AlertDialog>
-                      <AlertDialogTrigger asChild>
-                        <Button size="sm" variant="destructive">
-                          <Trash2 className="h-4 w-4" />
-                        </Button>
-                      </AlertDialogTrigger>
-                      <AlertDialogContent>
-                        <AlertDialogHeader>
-                          <AlertDialogTitle>Excluir Manutenção</AlertDialogTitle>
-                          <AlertDialogDescription>
-                            Tem certeza que deseja excluir esta manutenção? Esta ação não pode ser desfeita.
-                          </AlertDialogDescription>
-                        </AlertDialogHeader>
-                        <AlertDialogFooter>
-                          <AlertDialogCancel>Cancelar</AlertDialogCancel>
-                          <AlertDialogAction onClick={() => handleDeleteMaintenance(maintenance.id)}>
-                            Excluir
-                          </AlertDialogAction>
-                        </AlertDialogFooter>
-                      </AlertDialogContent>
-                    </AlertDialog>
+                    {canManageAssets && (
+                      <AlertDialog>
+                        <AlertDialogTrigger asChild>
+                          <Button size="sm" variant="destructive">
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </AlertDialogTrigger>
+                        <AlertDialogContent>
+                          <AlertDialogHeader>
+                            <AlertDialogTitle>Excluir Manutenção</AlertDialogTitle>
+                            <AlertDialogDescription>
+                              Tem certeza que deseja excluir esta manutenção? Esta ação não pode ser desfeita.
+                            </AlertDialogDescription>
+                          </AlertDialogHeader>
+                          <AlertDialogFooter>
+                            <AlertDialogCancel>Cancelar</AlertDialogCancel>
+                            <AlertDialogAction onClick={() => handleDeleteMaintenance(maintenance.id)}>
+                              Excluir
+                            </AlertDialogAction>
+                          </AlertDialogFooter>
+                        </AlertDialogContent>
+                      </AlertDialog>
+                    )}
                   </div>
                 </div>
               ))
@@ -678,10 +800,128 @@ const EnhancedMaintenanceDashboard: React.FC = () => {
           </div>
         </CardContent>
       </Card>
+
+      {/* Maintenance opened from the global search */}
+      <Dialog open={!!editingMaintenance} onOpenChange={(open) => !open && setEditingMaintenance(null)}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>Editar Manutenção</DialogTitle>
+          </DialogHeader>
+          {editingMaintenance && (
+            <>
+              <div className="flex items-center gap-2 text-sm">
+                <span className="font-medium">{editingMaintenance.assets.name}</span>
+                <Badge variant="outline">{editingMaintenance.assets.code}</Badge>
+                <Badge className={getStatusColor(editingMaintenance.status)}>
+                  {getStatusLabel(editingMaintenance.status)}
+                </Badge>
+              </div>
+              {canEditMaintenance(editingMaintenance) ? (
+                <EditMaintenanceForm
+                  key={editingMaintenance.id}
+                  maintenance={editingMaintenance}
+                  onSave={handleEditMaintenance}
+                />
+              ) : (
+                <p className="text-sm text-muted-foreground">
+                  Somente quem registrou a manutenção, gestores e administradores podem editá-la.
+                </p>
+              )}
+            </>
+          )}
+        </DialogContent>
+      </Dialog>
+
+      {/* Complete Maintenance Dialog */}
+      <Dialog open={!!completingMaintenance} onOpenChange={(open) => !open && setCompletingMaintenance(null)}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>Concluir Manutenção</DialogTitle>
+          </DialogHeader>
+          {completingMaintenance && (
+            <CompleteMaintenanceForm
+              maintenance={completingMaintenance}
+              onSave={handleCompleteMaintenance}
+            />
+          )}
+        </DialogContent>
+      </Dialog>
     </div>
   );
 };
 
+const sumByPart = (lines: MaintenancePartLine[]) =>
+  lines.reduce((acc, line) => ({ ...acc, [line.part_id]: (acc[line.part_id] || 0) + line.quantity }), {} as Record<string, number>);
+
+const toPartLines = (partsUsed: Json | null): MaintenancePartLine[] =>
+  Array.isArray(partsUsed)
+    ? (partsUsed as unknown as Partial<MaintenancePartLine>[])
+        .filter((line) => line?.part_id)
+        .map((line) => ({
+          part_id: line.part_id,
+          quantity: Number(line.quantity) || 1,
+          unit_cost: Number(line.unit_cost) || 0,
+        }))
+    : [];
+
+// Complete Maintenance Form Component
+interface CompleteMaintenanceFormProps {
+  maintenance: MaintenanceItem;
+  onSave: (maintenance: MaintenanceItem, formData: { labor_cost: string; parts: MaintenancePartLine[] }) => void;
+}
+
+const CompleteMaintenanceForm: React.FC<CompleteMaintenanceFormProps> = ({ maintenance, onSave }) => {
+  const [saving, setSaving] = useState(false);
+  const [formData, setFormData] = useState({
+    labor_cost: (maintenance.labor_cost ?? 0).toString(),
+    // Start from the parts planned when the job was scheduled
+    parts: toPartLines(maintenance.parts_used),
+  });
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+    await onSave(maintenance, formData);
+    setSaving(false);
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <p className="text-sm text-muted-foreground">
+        {maintenance.assets.code} - {maintenance.assets.name}: {maintenance.description}
+      </p>
+
+      <div className="space-y-2">
+        <Label htmlFor="complete_labor_cost">Mão de Obra ({maintenance.currency})</Label>
+        <Input
+          id="complete_labor_cost"
+          type="number"
+          step="0.01"
+          value={formData.labor_cost}
+          onChange={(e) => setFormData({...formData, labor_cost: e.target.value})}
+        />
+      </div>
+
+      <MaintenancePartsSelector
+        value={formData.parts}
+        onChange={(parts) => setFormData({...formData, parts})}
+        currency={maintenance.currency}
+      />
+
+      <div className="flex items-center justify-between border-t pt-4">
+        <span className="text-sm text-muted-foreground">Custo Total (mão de obra + peças)</span>
+        <span className="font-semibold">
+          {formatMoney((parseFloat(formData.labor_cost) || 0) + getPartsTotal(formData.parts), maintenance.currency)}
+        </span>
+      </div>
+
+      <div className="flex justify-end gap-2">
+        <Button type="submit" disabled={saving}>Concluir e Baixar Peças</Button>
+      </div>
+    </form>
+  );
+};
+
 // Edit Maintenance Form Component
 interface EditMaintenanceFormProps {
   maintenance: MaintenanceItem;
@@ -689,17 +929,61 @@ interface EditMaintenanceFormProps {
 }
 
 const EditMaintenanceForm: React.FC<EditMaintenanceFormProps> = ({ maintenance, onSave }) => {
+  const isCompleted = maintenance.status === 'concluída';
+  const { toast } = useToast();
+  // Quantities already taken from stock, per part
+  const [reservedStock, setReservedStock] = useState<Record<string, number>>({});
+  // Saving a completed job before its parts load would return them all to stock
+  const [partsLoaded, setPartsLoaded] = useState(!isCompleted);
   const [formData, setFormData] = useState({
     description: maintenance.description,
-    cost: maintenance.cost.toString(),
+    labor_cost: (maintenance.labor_cost ?? maintenance.cost ?? 0).toString(),
+    parts: isCompleted ? [] as MaintenancePartLine[] : toPartLines(maintenance.parts_used),
     labor_hours: maintenance.labor_hours.toString(),
     maintenance_type: maintenance.maintenance_type,
     scheduled_date: maintenance.scheduled_date,
   });
 
+  useEffect(() => {
+    if (isCompleted) {
+      fetchConsumedParts();
+    }
+  }, [maintenance.id]);
+
+  const fetchConsumedParts = async () => {
+    const { data, error } = await supabase
+      .from('maintenance_parts')
+      .select('part_id, quantity_used, cost_per_unit')
+      .eq('maintenance_id', maintenance.id);
+
+    if (error) {
+      console.error('Erro ao buscar peças da manutenção:', error);
+      toast({
+        title: "Erro",
+        description: "Não foi possível carregar as peças consumidas. Feche e abra a edição novamente.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const lines = (data || []).map(item => ({
+      part_id: item.part_id,
+      quantity: item.quantity_used,
+      unit_cost: Number(item.cost_per_unit),
+    }));
+    setFormData(prev => ({ ...prev, parts: lines }));
+    setReservedStock(sumByPart(lines));
+    setPartsLoaded(true);
+  };
+
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
-    onSave(maintenance, formData);
+    if (!partsLoaded) return;
+
+    const requested = sumByPart(formData.parts.filter(line => line.part_id && line.quantity > 0));
+    const partIds = new Set([...Object.keys(requested), ...Object.keys(reservedStock)]);
+    const partsChanged = [...partIds].some(partId => (requested[partId] || 0) !== (reservedStock[partId] || 0));
+    onSave(maintenance, { ...formData, partsChanged });
   };
 
   return (
@@ -743,12 +1027,12 @@ const EditMaintenanceForm: React.FC<EditMaintenanceFormProps> = ({ maintenance,
       
       <div className="grid grid-cols-2 gap-4">
         <div className="space-y-2">
-          <Label htmlFor="cost">Custo (R$)</Label>
+          <Label htmlFor="labor_cost">Mão de Obra ({maintenance.currency})</Label>
           <Input
             type="number"
             step="0.01"
-            value={formData.cost}
-            onChange={(e) => setFormData({...formData, cost: e.target.value})}
+            value={formData.labor_cost}
+            onChange={(e) => setFormData({...formData, labor_cost: e.target.value})}
           />
         </div>
         
@@ -763,8 +1047,25 @@ const EditMaintenanceForm: React.FC<EditMaintenanceFormProps> = ({ maintenance,
         </div>
       </div>
       
+      <MaintenancePartsSelector
+        value={formData.parts}
+        onChange={(parts) => setFormData({...formData, parts})}
+        reservedStock={reservedStock}
+        currency={maintenance.currency}
+        disabled={!partsLoaded}
+      />
+
+      <div className="flex items-center justify-between border-t pt-4">
+        <span className="text-sm text-muted-foreground">
+          {isCompleted ? 'Custo Total (mão de obra + peças)' : 'Custo Estimado (mão de obra + peças)'}
+        </span>
+        <span className="font-semibold">
+          {formatMoney((parseFloat(formData.labor_cost) || 0) + getPartsTotal(formData.parts), maintenance.currency)}
+        </span>
+      </div>
+
       <div className="flex justify-end gap-2 pt-4">
-        <Button type="submit">Salvar Alterações</Button>
+        <Button type="submit" disabled={!partsLoaded}>Salvar Alterações</Button>
       </div>
     </form>
   );
@@ -0,0 +1,356 @@
+import React, { useState, useEffect } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/components/AuthProvider';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from '@/components/ui/alert-dialog';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useToast } from '@/hooks/use-toast';
+import { format } from 'date-fns';
+import { ptBR } from 'date-fns/locale';
+import { Coins, Edit, Plus, Trash2 } from 'lucide-react';
+import { CURRENCIES, CURRENCY_LABELS, DEFAULT_CURRENCY } from '@/lib/currency';
+
+interface ExchangeRateRow {
+  id: string;
+  currency: string;
+  base_currency: string;
+  rate_date: string;
+  rate: number;
+  source: string | null;
+}
+
+const emptyForm = (baseCurrency: string) => ({
+  currency: baseCurrency === 'USD' ? 'EUR' : 'USD',
+  base_currency: baseCurrency,
+  rate_date: format(new Date(), 'yyyy-MM-dd'),
+  rate: '',
+  source: 'PTAX (BCB)',
+});
+
+const ExchangeRateManager = () => {
+  const { user } = useAuth();
+  const [rates, setRates] = useState<ExchangeRateRow[]>([]);
+  const [baseCurrency, setBaseCurrency] = useState(DEFAULT_CURRENCY);
+  const [canManage, setCanManage] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [currencyFilter, setCurrencyFilter] = useState('all');
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [editingRate, setEditingRate] = useState<ExchangeRateRow | null>(null);
+  const [formData, setFormData] = useState(emptyForm(DEFAULT_CURRENCY));
+  const { toast } = useToast();
+
+  useEffect(() => {
+    fetchRates();
+  }, []);
+
+  useEffect(() => {
+    if (user) {
+      supabase
+        .from('profiles')
+        .select('role')
+        .eq('user_id', user.id)
+        .maybeSingle()
+        .then(({ data }) => setCanManage(data?.role === 'admin' || data?.role === 'manager'));
+    }
+  }, [user]);
+
+  const fetchRates = async () => {
+    setLoading(true);
+    try {
+      const [ratesResult, baseResult] = await Promise.all([
+        supabase.from('exchange_rates').select('*').order('rate_date', { ascending: false }),
+        supabase.rpc('get_base_currency'),
+      ]);
+
+      if (ratesResult.error) throw ratesResult.error;
+
+      setRates(ratesResult.data || []);
+      setBaseCurrency(baseResult.data || DEFAULT_CURRENCY);
+    } catch (error) {
+      console.error('Error fetching exchange rates:', error);
+      toast({
+        title: "Erro",
+        description: "Erro ao carregar as cotações.",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const openDialog = (rate?: ExchangeRateRow) => {
+    setEditingRate(rate || null);
+    setFormData(rate ? {
+      currency: rate.currency,
+      base_currency: rate.base_currency,
+      rate_date: rate.rate_date,
+      rate: rate.rate.toString(),
+      source: rate.source || '',
+    } : emptyForm(baseCurrency));
+    setIsDialogOpen(true);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const rate = parseFloat(formData.rate);
+    if (!formData.rate_date || isNaN(rate) || rate <= 0) {
+      toast({
+        title: "Erro",
+        description: "Informe a data e uma cotação maior que zero.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    if (formData.currency === formData.base_currency) {
+      toast({
+        title: "Erro",
+        description: "A moeda cotada deve ser diferente da moeda base.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    try {
+      const values = {
+        currency: formData.currency,
+        base_currency: formData.base_currency,
+        rate_date: formData.rate_date,
+        rate,
+        source: formData.source.trim() || null,
+      };
+
+      const { error } = editingRate
+        ? await supabase.from('exchange_rates').update(values).eq('id', editingRate.id)
+        : await supabase.from('exchange_rates').insert({ ...values, created_by: user?.id });
+
+      if (error) throw error;
+
+      toast({ title: "Sucesso", description: editingRate ? "Cotação atualizada!" : "Cotação cadastrada!" });
+      setIsDialogOpen(false);
+      fetchRates();
+    } catch (error) {
+      console.error('Error saving exchange rate:', error);
+      toast({
+        title: "Erro",
+        description: error.code === '23505'
+          ? "Já existe uma cotação desta moeda nesta data."
+          : "Erro ao salvar a cotação.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    const { error } = await supabase.from('exchange_rates').delete().eq('id', id);
+
+    if (error) {
+      console.error('Error deleting exchange rate:', error);
+      toast({ title: "Erro", description: "Erro ao excluir a cotação.", variant: "destructive" });
+      return;
+    }
+
+    toast({ title: "Sucesso", description: "Cotação excluída!" });
+    fetchRates();
+  };
+
+  const quotedCurrencies = [...new Set(rates.map(rate => rate.currency))].sort();
+  const filteredRates = currencyFilter === 'all' ? rates : rates.filter(rate => rate.currency === currencyFilter);
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div className="space-y-1.5">
+          <CardTitle className="flex items-center gap-2">
+            <Coins className="h-5 w-5" />
+            Cotações de Câmbio
+          </CardTitle>
+          <CardDescription>
+            Relatórios convertem para {baseCurrency} usando a cotação da data da transação (ou a última anterior a ela)
+          </CardDescription>
+        </div>
+        {canManage && (
+          <Button size="sm" onClick={() => openDialog()}>
+            <Plus className="h-4 w-4 mr-2" />
+            Nova Cotação
+          </Button>
+        )}
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <Select value={currencyFilter} onValueChange={setCurrencyFilter}>
+          <SelectTrigger className="w-56">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">Todas as moedas</SelectItem>
+            {quotedCurrencies.map(currency => (
+              <SelectItem key={currency} value={currency}>{CURRENCY_LABELS[currency] || currency}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+
+        {loading ? (
+          <div className="flex justify-center p-8">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+          </div>
+        ) : filteredRates.length === 0 ? (
+          <p className="text-center text-muted-foreground py-8">
+            Nenhuma cotação cadastrada.
+          </p>
+        ) : (
+          <div className="max-h-[480px] overflow-y-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Data</TableHead>
+                  <TableHead>Moeda</TableHead>
+                  <TableHead className="text-right">Cotação</TableHead>
+                  <TableHead>Fonte</TableHead>
+                  {canManage && <TableHead className="text-right">Ações</TableHead>}
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {filteredRates.map((rate) => (
+                  <TableRow key={rate.id}>
+                    <TableCell>{format(new Date(`${rate.rate_date}T00:00:00`), 'dd/MM/yyyy', { locale: ptBR })}</TableCell>
+                    <TableCell>
+                      <Badge variant="outline">{rate.currency}/{rate.base_currency}</Badge>
+                    </TableCell>
+                    <TableCell className="text-right font-medium">
+                      1 {rate.currency} = {Number(rate.rate).toLocaleString('pt-BR', { maximumFractionDigits: 6 })} {rate.base_currency}
+                    </TableCell>
+                    <TableCell>{rate.source || '—'}</TableCell>
+                    {canManage && (
+                      <TableCell className="text-right">
+                        <div className="flex items-center justify-end gap-2">
+                          <Button variant="outline" size="sm" onClick={() => openDialog(rate)}>
+                            <Edit className="h-4 w-4" />
+                          </Button>
+                          <AlertDialog>
+                            <AlertDialogTrigger asChild>
+                              <Button variant="outline" size="sm">
+                                <Trash2 className="h-4 w-4" />
+                              </Button>
+                            </AlertDialogTrigger>
+                            <AlertDialogContent>
+                              <AlertDialogHeader>
+                                <AlertDialogTitle>Excluir cotação?</AlertDialogTitle>
+                                <AlertDialogDescription>
+                                  Transações desta data passarão a usar a cotação anterior mais próxima.
+                                </AlertDialogDescription>
+                              </AlertDialogHeader>
+                              <AlertDialogFooter>
+                                <AlertDialogCancel>Cancelar</AlertDialogCancel>
+                                <AlertDialogAction onClick={() => handleDelete(rate.id)}>
+                                  Excluir
+                                </AlertDialogAction>
+                              </AlertDialogFooter>
+                            </AlertDialogContent>
+                          </AlertDialog>
+                        </div>
+                      </TableCell>
+                    )}
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </CardContent>
+
+      <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{editingRate ? 'Editar Cotação' : 'Nova Cotação'}</DialogTitle>
+            <DialogDescription>
+              Quantas unidades da moeda base valem uma unidade da moeda cotada
+            </DialogDescription>
+          </DialogHeader>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="rate_currency">Moeda *</Label>
+                <Select
+                  value={formData.currency}
+                  onValueChange={(value) => setFormData(prev => ({ ...prev, currency: value }))}
+                >
+                  <SelectTrigger id="rate_currency">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {CURRENCIES.map(currency => (
+                      <SelectItem key={currency} value={currency}>{CURRENCY_LABELS[currency]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="rate_base_currency">Moeda Base *</Label>
+                <Select
+                  value={formData.base_currency}
+                  onValueChange={(value) => setFormData(prev => ({ ...prev, base_currency: value }))}
+                >
+                  <SelectTrigger id="rate_base_currency">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {CURRENCIES.map(currency => (
+                      <SelectItem key={currency} value={currency}>{CURRENCY_LABELS[currency]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="rate_date">Data *</Label>
+                <Input
+                  id="rate_date"
+                  type="date"
+                  value={formData.rate_date}
+                  onChange={(e) => setFormData(prev => ({ ...prev, rate_date: e.target.value }))}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="rate_value">Cotação *</Label>
+                <Input
+                  id="rate_value"
+                  type="number"
+                  step="0.000001"
+                  min="0"
+                  value={formData.rate}
+                  onChange={(e) => setFormData(prev => ({ ...prev, rate: e.target.value }))}
+                  placeholder="5,4321"
+                />
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="rate_source">Fonte</Label>
+              <Input
+                id="rate_source"
+                value={formData.source}
+                onChange={(e) => setFormData(prev => ({ ...prev, source: e.target.value }))}
+                placeholder="PTAX (BCB), contrato de câmbio..."
+              />
+            </div>
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => setIsDialogOpen(false)}>
+                Cancelar
+              </Button>
+              <Button type="submit">
+                {editingRate ? 'Atualizar' : 'Cadastrar'}
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+};
+
+export default ExchangeRateManager;
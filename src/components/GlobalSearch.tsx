@@ -0,0 +1,153 @@
+import React, { useEffect, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import {
+  CommandDialog,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+  CommandShortcut,
+} from '@/components/ui/command';
+import { FileText, Loader2, Package, Search, Wrench } from 'lucide-react';
+
+interface SearchResult {
+  result_type: string;
+  record_id: string;
+  asset_id: string;
+  title: string;
+  subtitle: string;
+}
+
+interface GlobalSearchProps {
+  onSelectAsset: (assetId: string) => void;
+  onSelectMaintenance: (maintenanceId: string) => void;
+}
+
+const SEARCH_DEBOUNCE_MS = 250;
+
+const resultGroups = [
+  { type: 'asset', heading: 'Ativos', icon: Package },
+  { type: 'maintenance', heading: 'Manutenções', icon: Wrench },
+  { type: 'document', heading: 'Documentos', icon: FileText },
+];
+
+const GlobalSearch: React.FC<GlobalSearchProps> = ({ onSelectAsset, onSelectMaintenance }) => {
+  const [open, setOpen] = useState(false);
+  const [query, setQuery] = useState('');
+  const [results, setResults] = useState<SearchResult[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  // Ctrl+K / Cmd+K from anywhere in the app
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key.toLowerCase() === 'k' && (event.metaKey || event.ctrlKey)) {
+        event.preventDefault();
+        setOpen(value => !value);
+      }
+    };
+    document.addEventListener('keydown', handleKeyDown);
+    return () => document.removeEventListener('keydown', handleKeyDown);
+  }, []);
+
+  useEffect(() => {
+    if (!query.trim()) {
+      setResults([]);
+      setLoading(false);
+      return;
+    }
+
+    let cancelled = false;
+    setLoading(true);
+    const timeout = setTimeout(async () => {
+      const { data, error } = await supabase.rpc('global_search', { p_query: query });
+      if (cancelled) return;
+      if (error) {
+        console.error('Error searching:', error);
+        setResults([]);
+      } else {
+        setResults(data || []);
+      }
+      setLoading(false);
+    }, SEARCH_DEBOUNCE_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timeout);
+    };
+  }, [query]);
+
+  const handleOpenChange = (value: boolean) => {
+    if (!value) setQuery('');
+    setOpen(value);
+  };
+
+  // Documents open the asset they belong to
+  const handleSelect = (result: SearchResult) => {
+    handleOpenChange(false);
+    if (result.result_type === 'maintenance') {
+      onSelectMaintenance(result.record_id);
+    } else {
+      onSelectAsset(result.asset_id);
+    }
+  };
+
+  return (
+    <>
+      <Button
+        variant="outline"
+        size="sm"
+        onClick={() => setOpen(true)}
+        className="flex items-center gap-2 text-muted-foreground"
+      >
+        <Search className="w-4 h-4" />
+        Buscar...
+        <CommandShortcut>Ctrl K</CommandShortcut>
+      </Button>
+
+      <CommandDialog open={open} onOpenChange={handleOpenChange} shouldFilter={false}>
+        <CommandInput
+          placeholder="Buscar ativos, manutenções e documentos..."
+          value={query}
+          onValueChange={setQuery}
+        />
+        <CommandList>
+          {loading && results.length === 0 ? (
+            <div className="flex items-center justify-center py-6 text-sm text-muted-foreground">
+              <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+              Buscando...
+            </div>
+          ) : (
+            <CommandEmpty>
+              {query.trim() ? 'Nenhum resultado encontrado.' : 'Digite para buscar.'}
+            </CommandEmpty>
+          )}
+          {resultGroups.map(({ type, heading, icon: Icon }) => {
+            const groupResults = results.filter(result => result.result_type === type);
+            if (groupResults.length === 0) return null;
+            return (
+              <CommandGroup key={type} heading={heading}>
+                {groupResults.map(result => (
+                  <CommandItem
+                    key={`${type}-${result.record_id}`}
+                    value={`${type}-${result.record_id}`}
+                    onSelect={() => handleSelect(result)}
+                  >
+                    <Icon className="mr-2 h-4 w-4" />
+                    <div className="flex flex-col min-w-0">
+                      <span className="truncate">{result.title}</span>
+                      <span className="text-xs text-muted-foreground truncate">{result.subtitle}</span>
+                    </div>
+                  </CommandItem>
+                ))}
+              </CommandGroup>
+            );
+          })}
+        </CommandList>
+      </CommandDialog>
+    </>
+  );
+};
+
+export default GlobalSearch;
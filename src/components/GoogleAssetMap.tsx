@@ -73,6 +73,7 @@ const GoogleAssetMap: React.FC<GoogleAssetMapProps> = ({ className, height = "40
             name
           )
         `)
+        .is('deleted_at', null)
         .not('latitude', 'is', null)
         .not('longitude', 'is', null);
 
@@ -2,131 +2,163 @@ import React, { useState } from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
-import { Plus, FileText, Download, FileSpreadsheet, MapPin } from 'lucide-react';
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from '@/components/ui/dropdown-menu';
+import { Plus, FileText, Download, FileSpreadsheet, FileUp, MapPin, ChevronDown } from 'lucide-react';
 import AssetList from './AssetList';
 import AssetForm from './AssetForm';
 import ReportGenerator from './ReportGenerator';
 import ConsolidatedTrackingSystem from './ConsolidatedTrackingSystem';
+import AssetImportWizard from './AssetImportWizard';
+import { applyAssetFilters, AssetListFilters, DEFAULT_ASSET_FILTERS, hasActiveFilters } from '@/lib/assetFilters';
+import { buildAssetExportCsv, ExportableAsset } from '@/lib/assetExport';
+import { generateInventoryReport, REPORT_GROUPING_LABELS, ReportGrouping } from '@/lib/inventoryReport';
+import { useExchangeRates } from '@/hooks/useExchangeRates';
+import { useAuth } from '@/components/AuthProvider';
+import { usePermissions } from '@/hooks/usePermissions';
+
+const EXPORT_PAGE_SIZE = 1000;
+
+const STATUS_LABELS: Record<string, string> = {
+  active: 'Ativo',
+  maintenance: 'Manutenção',
+  inactive: 'Inativo',
+  disposed: 'Descartado',
+};
 
 const InventoryManager = () => {
   const [activeSubTab, setActiveSubTab] = useState('list');
+  const [importOpen, setImportOpen] = useState(false);
+  const [listVersion, setListVersion] = useState(0);
+  const [listFilters, setListFilters] = useState<AssetListFilters>(DEFAULT_ASSET_FILTERS);
+  const { user } = useAuth();
+  const { canManageAssets } = usePermissions();
+  const { baseCurrency, rates, loading: ratesLoading } = useExchangeRates();
 
-  const handleExportPDF = async () => {
-    try {
-      const { jsPDF } = await import('jspdf');
-      const { supabase } = await import('@/integrations/supabase/client');
-      const { toast } = await import('@/hooks/use-toast');
-      
-      // Buscar dados dos ativos
-      const { data: assets, error } = await supabase
+  // Every asset matching the filters, fetched in pages as the API caps a response at 1000 rows
+  const fetchFilteredAssets = async (filters: AssetListFilters) => {
+    const { supabase } = await import('@/integrations/supabase/client');
+
+    const assets: ExportableAsset[] = [];
+    for (let from = 0; ; from += EXPORT_PAGE_SIZE) {
+      const query = supabase
         .from('assets')
         .select(`
           *,
-          categories(name),
+          categories(name, depreciation_method),
           departments(name),
-          units(name)
+          units(name),
+          profiles:assigned_to(full_name),
+          asset_valuation_events(event_date, new_book_value, remaining_useful_life_years, units_used_at_event)
         `);
 
-      if (error) {
-        toast({ title: "Erro", description: "Erro ao buscar dados para exportação", variant: "destructive" });
+      const { data, error } = await applyAssetFilters(query, filters)
+        .order('created_at', { ascending: false })
+        .order('id')
+        .range(from, from + EXPORT_PAGE_SIZE - 1);
+
+      if (error) throw error;
+
+      assets.push(...(data as ExportableAsset[]));
+      if (!data || data.length < EXPORT_PAGE_SIZE) break;
+    }
+
+    return assets;
+  };
+
+  // The list filters as printed in the report header
+  const describeFilters = async (filters: AssetListFilters) => {
+    const { supabase } = await import('@/integrations/supabase/client');
+    const lines: string[] = [];
+
+    if (filters.searchTerm) lines.push(`Busca: "${filters.searchTerm}"`);
+    const nameOf = async (table: 'categories' | 'departments' | 'units', id: string) => {
+      const { data } = await supabase.from(table).select('name').eq('id', id).maybeSingle();
+      return data?.name || id;
+    };
+
+    if (filters.category !== 'all') lines.push(`Categoria: ${await nameOf('categories', filters.category)}`);
+    if (filters.status !== 'all') lines.push(`Status: ${STATUS_LABELS[filters.status] || filters.status}`);
+    if (filters.responsible === 'unassigned') {
+      lines.push('Responsável: não atribuído');
+    } else if (filters.responsible !== 'all') {
+      const { data } = await supabase
+        .from('profiles')
+        .select('full_name')
+        .eq('user_id', filters.responsible)
+        .maybeSingle();
+      lines.push(`Responsável: ${data?.full_name || filters.responsible}`);
+    }
+    if (filters.department !== 'all') lines.push(`Departamento: ${await nameOf('departments', filters.department)}`);
+    if (filters.unit !== 'all') lines.push(`Unidade: ${await nameOf('units', filters.unit)}`);
+    if (filters.purchaseDateFrom || filters.purchaseDateTo) {
+      const formatDate = (value: string) => value.split('-').reverse().join('/');
+      lines.push(`Data de compra: ${filters.purchaseDateFrom ? `de ${formatDate(filters.purchaseDateFrom)}` : ''}${filters.purchaseDateFrom && filters.purchaseDateTo ? ' ' : ''}${filters.purchaseDateTo ? `até ${formatDate(filters.purchaseDateTo)}` : ''}`);
+    }
+    if (filters.minValue || filters.maxValue) {
+      lines.push(`Valor de compra: ${filters.minValue ? `mínimo ${filters.minValue}` : ''}${filters.minValue && filters.maxValue ? ', ' : ''}${filters.maxValue ? `máximo ${filters.maxValue}` : ''}`);
+    }
+    if (filters.showArchived) lines.push('Somente ativos arquivados');
+
+    return lines;
+  };
+
+  const handleExportPDF = async (grouping: ReportGrouping) => {
+    try {
+      const { supabase } = await import('@/integrations/supabase/client');
+      const { toast } = await import('@/hooks/use-toast');
+
+      const [assets, filterLines, { data: profile }] = await Promise.all([
+        fetchFilteredAssets(listFilters),
+        describeFilters(listFilters),
+        supabase.from('profiles').select('companies (name)').eq('user_id', user?.id).maybeSingle(),
+      ]);
+
+      if (assets.length === 0) {
+        toast({ title: "Erro", description: "Nenhum ativo corresponde aos filtros atuais", variant: "destructive" });
         return;
       }
 
-      const doc = new jsPDF();
-      
-      // Cabeçalho
-      doc.setFontSize(20);
-      doc.text('Relatório de Inventário - AssetFlow', 20, 20);
-      doc.setFontSize(12);
-      doc.text('Data: ' + new Date().toLocaleDateString('pt-BR'), 20, 30);
-      
-      // Dados dos ativos
-      let yPosition = 50;
-      doc.setFontSize(14);
-      doc.text('Lista de Ativos:', 20, yPosition);
-      yPosition += 15;
-
-      doc.setFontSize(10);
-      assets?.forEach((asset, index) => {
-        if (yPosition > 280) {
-          doc.addPage();
-          yPosition = 20;
-        }
-        
-        const category = asset.categories?.name || 'Sem categoria';
-        const department = asset.departments?.name || 'Sem departamento';
-        
-        doc.text(`${index + 1}. ${asset.name}`, 20, yPosition);
-        doc.text(`Código: ${asset.code}`, 30, yPosition + 8);
-        doc.text(`Categoria: ${category}`, 30, yPosition + 16);
-        doc.text(`Departamento: ${department}`, 30, yPosition + 24);
-        doc.text(`Valor: R$ ${asset.purchase_value.toLocaleString('pt-BR')}`, 30, yPosition + 32);
-        doc.text(`Status: ${asset.status}`, 30, yPosition + 40);
-        
-        yPosition += 50;
+      await generateInventoryReport({
+        assets,
+        grouping,
+        companyName: profile?.companies?.name || 'AssetFlow',
+        baseCurrency,
+        rates,
+        filters: filterLines,
       });
-      
-      doc.save('inventario-assets.pdf');
       toast({ title: "Sucesso", description: "PDF exportado com sucesso!" });
     } catch (error) {
+      console.error('Error exporting PDF:', error);
       const { toast } = await import('@/hooks/use-toast');
       toast({ title: "Erro", description: "Erro ao exportar PDF", variant: "destructive" });
     }
   };
 
-  const handleExportCSV = async () => {
+  // Full-fidelity export; with onlyFiltered it follows the current AssetList filters
+  const handleExportCSV = async (onlyFiltered: boolean) => {
     try {
-      const { supabase } = await import('@/integrations/supabase/client');
       const { toast } = await import('@/hooks/use-toast');
-      
-      // Buscar dados dos ativos
-      const { data: assets, error } = await supabase
-        .from('assets')
-        .select(`
-          *,
-          categories(name),
-          departments(name),
-          units(name)
-        `);
 
-      if (error) {
+      let exported: ExportableAsset[];
+      try {
+        exported = await fetchFilteredAssets(onlyFiltered ? listFilters : DEFAULT_ASSET_FILTERS);
+      } catch (error) {
+        console.error('Error fetching assets for export:', error);
         toast({ title: "Erro", description: "Erro ao buscar dados para exportação", variant: "destructive" });
         return;
       }
 
-      // Criar CSV
-      const headers = ['Nome', 'Código', 'Categoria', 'Departamento', 'Valor', 'Status', 'Data de Compra'];
-      const csvRows = [headers.join(',')];
-
-      assets?.forEach(asset => {
-        const category = asset.categories?.name || 'Sem categoria';
-        const department = asset.departments?.name || 'Sem departamento';
-        const purchaseDate = new Date(asset.purchase_date).toLocaleDateString('pt-BR');
-        
-        const row = [
-          `"${asset.name}"`,
-          `"${asset.code}"`,
-          `"${category}"`,
-          `"${department}"`,
-          `"R$ ${asset.purchase_value.toLocaleString('pt-BR')}"`,
-          `"${asset.status}"`,
-          `"${purchaseDate}"`
-        ];
-        csvRows.push(row.join(','));
-      });
-
-      const csvContent = csvRows.join('\n');
-      const blob = new Blob([csvContent], { type: 'text/csv;charset=utf-8;' });
+      const blob = new Blob([buildAssetExportCsv(exported)], { type: 'text/csv;charset=utf-8;' });
       const link = document.createElement("a");
       const url = URL.createObjectURL(blob);
       link.setAttribute("href", url);
-      link.setAttribute("download", "inventario-assets.csv");
+      link.setAttribute("download", `inventario-assets-${new Date().toISOString().slice(0, 10)}.csv`);
       link.style.visibility = 'hidden';
       document.body.appendChild(link);
       link.click();
       document.body.removeChild(link);
       
-      toast({ title: "Sucesso", description: "CSV exportado com sucesso!" });
+      toast({ title: "Sucesso", description: `${exported.length} ativo(s) exportado(s) em CSV.` });
     } catch (error) {
       const { toast } = await import('@/hooks/use-toast');
       toast({ title: "Erro", description: "Erro ao exportar CSV", variant: "destructive" });
@@ -138,14 +170,45 @@ const InventoryManager = () => {
       <div className="flex items-center justify-between">
         <h2 className="text-3xl font-bold text-foreground">Gestão de Inventário</h2>
         <div className="flex items-center gap-2">
-          <Button variant="outline" onClick={handleExportPDF} size="sm">
-            <FileText className="h-4 w-4 mr-2" />
-            Exportar PDF
-          </Button>
-          <Button variant="outline" onClick={handleExportCSV} size="sm">
-            <FileSpreadsheet className="h-4 w-4 mr-2" />
-            Exportar CSV
-          </Button>
+          {canManageAssets && (
+            <Button variant="outline" onClick={() => setImportOpen(true)} size="sm">
+              <FileUp className="h-4 w-4 mr-2" />
+              Importar Planilha
+            </Button>
+          )}
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button variant="outline" size="sm">
+                <FileText className="h-4 w-4 mr-2" />
+                Exportar PDF
+                <ChevronDown className="h-4 w-4 ml-2" />
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="end">
+              {(Object.keys(REPORT_GROUPING_LABELS) as ReportGrouping[]).map(grouping => (
+                <DropdownMenuItem key={grouping} onClick={() => handleExportPDF(grouping)} disabled={ratesLoading}>
+                  Agrupado por {REPORT_GROUPING_LABELS[grouping].toLowerCase()}
+                </DropdownMenuItem>
+              ))}
+            </DropdownMenuContent>
+          </DropdownMenu>
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button variant="outline" size="sm">
+                <FileSpreadsheet className="h-4 w-4 mr-2" />
+                Exportar CSV
+                <ChevronDown className="h-4 w-4 ml-2" />
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="end">
+              <DropdownMenuItem onClick={() => handleExportCSV(true)} disabled={!hasActiveFilters(listFilters)}>
+                Ativos filtrados na lista
+              </DropdownMenuItem>
+              <DropdownMenuItem onClick={() => handleExportCSV(false)}>
+                Todos os ativos
+              </DropdownMenuItem>
+            </DropdownMenuContent>
+          </DropdownMenu>
         </div>
       </div>
 
@@ -154,10 +217,12 @@ const InventoryManager = () => {
           <TabsTrigger value="list" className="flex items-center gap-2">
             Lista de Ativos
           </TabsTrigger>
-          <TabsTrigger value="new" className="flex items-center gap-2">
-            <Plus className="h-4 w-4" />
-            Novo Ativo
-          </TabsTrigger>
+          {canManageAssets && (
+            <TabsTrigger value="new" className="flex items-center gap-2">
+              <Plus className="h-4 w-4" />
+              Novo Ativo
+            </TabsTrigger>
+          )}
           <TabsTrigger value="tracking" className="flex items-center gap-2">
             <MapPin className="h-4 w-4" />
             Rastreamento
@@ -169,12 +234,14 @@ const InventoryManager = () => {
         </TabsList>
 
         <TabsContent value="list" className="space-y-6">
-          <AssetList />
+          <AssetList key={listVersion} onFiltersChange={setListFilters} />
         </TabsContent>
 
-        <TabsContent value="new" className="space-y-6">
-          <AssetForm />
-        </TabsContent>
+        {canManageAssets && (
+          <TabsContent value="new" className="space-y-6">
+            <AssetForm />
+          </TabsContent>
+        )}
 
         <TabsContent value="tracking" className="space-y-6">
           <ConsolidatedTrackingSystem />
@@ -184,6 +251,15 @@ const InventoryManager = () => {
           <ReportGenerator />
         </TabsContent>
       </Tabs>
+
+      <AssetImportWizard
+        open={importOpen}
+        onOpenChange={setImportOpen}
+        onImported={() => {
+          setListVersion(version => version + 1);
+          setActiveSubTab('list');
+        }}
+      />
     </div>
   );
 };
@@ -16,15 +16,22 @@ import {
   TrendingUp
 } from 'lucide-react';
 import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from 'recharts';
+import { formatMoney } from '@/lib/currency';
+import { useExchangeRates } from '@/hooks/useExchangeRates';
 
 interface MaintenanceStats {
   pendingCount: number;
   inProgressCount: number;
   completedThisMonth: number;
-  totalCostThisMonth: number;
   overdue: number;
 }
 
+interface CompletedCost {
+  cost: number | null;
+  currency: string;
+  completed_date: string;
+}
+
 interface MaintenanceItem {
   id: string;
   asset_id: string;
@@ -32,6 +39,7 @@ interface MaintenanceItem {
   scheduled_date: string;
   status: string;
   cost: number;
+  currency: string;
   assets: {
     name: string;
     code: string;
@@ -50,13 +58,14 @@ const MaintenanceDashboard: React.FC = () => {
     pendingCount: 0,
     inProgressCount: 0,
     completedThisMonth: 0,
-    totalCostThisMonth: 0,
     overdue: 0,
   });
+  const [completedCosts, setCompletedCosts] = useState<CompletedCost[]>([]);
   const [recentMaintenances, setRecentMaintenances] = useState<MaintenanceItem[]>([]);
   const [chartData, setChartData] = useState<ChartData[]>([]);
   const [selectedDate, setSelectedDate] = useState<Date>(new Date());
   const [loading, setLoading] = useState(true);
+  const { toBase, formatBase } = useExchangeRates();
 
   useEffect(() => {
     fetchMaintenanceStats();
@@ -85,7 +94,7 @@ const MaintenanceDashboard: React.FC = () => {
       // Get completed this month
       const { data: completed } = await supabase
         .from('asset_maintenance')
-        .select('cost')
+        .select('cost, currency, completed_date')
         .eq('status', 'concluída')
         .gte('completed_date', format(monthStart, 'yyyy-MM-dd'))
         .lte('completed_date', format(monthEnd, 'yyyy-MM-dd'));
@@ -97,15 +106,13 @@ const MaintenanceDashboard: React.FC = () => {
         .eq('status', 'agendada')
         .lt('scheduled_date', format(now, 'yyyy-MM-dd'));
 
-      const totalCost = completed?.reduce((sum, item) => sum + (item.cost || 0), 0) || 0;
-
       setStats({
         pendingCount: pending?.length || 0,
         inProgressCount: inProgress?.length || 0,
         completedThisMonth: completed?.length || 0,
-        totalCostThisMonth: totalCost,
         overdue: overdue?.length || 0,
       });
+      setCompletedCosts(completed || []);
     } catch (error) {
       console.error('Erro ao buscar estatísticas:', error);
     }
@@ -190,12 +197,10 @@ const MaintenanceDashboard: React.FC = () => {
     return labels[status as keyof typeof labels] || status;
   };
 
-  const formatCurrency = (value: number) => {
-    return new Intl.NumberFormat('pt-BR', {
-      style: 'currency',
-      currency: 'BRL',
-    }).format(value);
-  };
+  // Each job's cost in the base currency at the rate of its completion date
+  const costsInBase = completedCosts.map(item => toBase(item.cost || 0, item.currency, item.completed_date));
+  const totalCostThisMonth = costsInBase.reduce((sum, value) => sum + (value ?? 0), 0);
+  const unconvertedCount = costsInBase.filter(value => value === null).length;
 
   if (loading) {
     return (
@@ -260,7 +265,12 @@ const MaintenanceDashboard: React.FC = () => {
               <DollarSign className="h-8 w-8 text-green-600" />
               <div className="ml-4">
                 <p className="text-sm font-medium text-muted-foreground">Custo (mês)</p>
-                <p className="text-2xl font-bold">{formatCurrency(stats.totalCostThisMonth)}</p>
+                <p className="text-2xl font-bold">{formatBase(totalCostThisMonth)}</p>
+                {unconvertedCount > 0 && (
+                  <p className="text-xs text-muted-foreground">
+                    {unconvertedCount} sem cotação de câmbio (fora do total)
+                  </p>
+                )}
               </div>
             </div>
           </CardContent>
@@ -355,7 +365,7 @@ const MaintenanceDashboard: React.FC = () => {
                     </Badge>
                     {maintenance.cost > 0 && (
                       <span className="text-sm font-medium">
-                        {formatCurrency(maintenance.cost)}
+                        {formatMoney(maintenance.cost, maintenance.currency)}
                       </span>
                     )}
                   </div>
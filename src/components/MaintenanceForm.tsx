@@ -11,9 +11,13 @@ import { Calendar } from '@/components/ui/calendar';
 import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
 import { format } from 'date-fns';
 import { ptBR } from 'date-fns/locale';
-import { CalendarIcon, Wrench, Loader2 } from 'lucide-react';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { CalendarIcon, Wrench, Loader2, AlertTriangle } from 'lucide-react';
 import { cn } from '@/lib/utils';
 import { useToast } from '@/hooks/use-toast';
+import MaintenancePartsSelector, { MaintenancePartLine, getPartsTotal } from '@/components/MaintenancePartsSelector';
+import { useExchangeRates } from '@/hooks/useExchangeRates';
+import { CURRENCIES, DEFAULT_CURRENCY, findExchangeRate, formatMoney } from '@/lib/currency';
 
 interface Asset {
   id: string;
@@ -21,6 +25,13 @@ interface Asset {
   code: string;
 }
 
+interface BomShortage {
+  part_number: string;
+  name: string;
+  required: number;
+  stock: number;
+}
+
 interface MaintenanceFormProps {
   assetId?: string;
   onSuccess?: () => void;
@@ -31,7 +42,9 @@ interface MaintenanceFormData {
   asset_id: string;
   maintenance_type: 'preventiva' | 'corretiva' | 'emergencial' | '';
   description: string;
-  cost: string;
+  labor_cost: string;
+  currency: string;
+  parts: MaintenancePartLine[];
   scheduled_date: Date | undefined;
   labor_hours: string;
   company_id: string;
@@ -43,11 +56,15 @@ const MaintenanceForm: React.FC<MaintenanceFormProps> = ({ assetId, onSuccess, o
   const { toast } = useToast();
   const [loading, setLoading] = useState(false);
   const [assets, setAssets] = useState<Asset[]>([]);
+  const [bomShortages, setBomShortages] = useState<BomShortage[]>([]);
+  const { rates } = useExchangeRates();
   const [formData, setFormData] = useState<MaintenanceFormData>({
     asset_id: assetId || '',
     maintenance_type: '',
     description: '',
-    cost: '',
+    labor_cost: '',
+    currency: DEFAULT_CURRENCY,
+    parts: [],
     scheduled_date: undefined,
     labor_hours: '',
     company_id: '',
@@ -58,11 +75,68 @@ const MaintenanceForm: React.FC<MaintenanceFormProps> = ({ assetId, onSuccess, o
     fetchAssets();
   }, []);
 
+  useEffect(() => {
+    if (formData.maintenance_type === 'preventiva' && formData.asset_id) {
+      loadBillOfMaterials(formData.asset_id);
+    } else {
+      setBomShortages([]);
+    }
+  }, [formData.asset_id, formData.maintenance_type]);
+
+  // Part costs follow the job currency, converted at today's rate
+  const convertCost = (amount: number, from: string, to: string) =>
+    amount * (findExchangeRate(rates, from, to, format(new Date(), 'yyyy-MM-dd')) ?? 1);
+
+  const handleCurrencyChange = (currency: string) => {
+    setFormData(prev => ({
+      ...prev,
+      currency,
+      parts: prev.parts.map(line => ({ ...line, unit_cost: convertCost(line.unit_cost, prev.currency, currency) })),
+    }));
+  };
+
+  // Preventive jobs start from the asset's bill of materials
+  const loadBillOfMaterials = async (selectedAssetId: string) => {
+    try {
+      const { data, error } = await supabase
+        .from('asset_parts')
+        .select('part_id, quantity_required, spare_parts (name, part_number, stock_quantity, unit_cost, currency, archived_at)')
+        .eq('asset_id', selectedAssetId);
+
+      if (error) throw error;
+
+      const bom = (data || []).filter(item => item.spare_parts && !item.spare_parts.archived_at);
+
+      setFormData(prev => ({
+        ...prev,
+        parts: bom.map(item => ({
+          part_id: item.part_id,
+          quantity: item.quantity_required,
+          unit_cost: convertCost(item.spare_parts.unit_cost || 0, item.spare_parts.currency, prev.currency),
+        })),
+      }));
+
+      setBomShortages(
+        bom
+          .filter(item => (item.spare_parts.stock_quantity || 0) < item.quantity_required)
+          .map(item => ({
+            part_number: item.spare_parts.part_number,
+            name: item.spare_parts.name,
+            required: item.quantity_required,
+            stock: item.spare_parts.stock_quantity || 0,
+          }))
+      );
+    } catch (error) {
+      console.error('Erro ao buscar lista de peças do ativo:', error);
+    }
+  };
+
   const fetchAssets = async () => {
     try {
       const { data, error } = await supabase
         .from('assets')
         .select('id, name, code')
+        .is('deleted_at', null)
         .eq('status', 'active')
         .order('name');
 
@@ -91,16 +165,23 @@ const MaintenanceForm: React.FC<MaintenanceFormProps> = ({ assetId, onSuccess, o
       return;
     }
 
+    const plannedParts = formData.parts.filter(line => line.part_id && line.quantity > 0);
+    const laborCost = formData.labor_cost ? parseFloat(formData.labor_cost) : 0;
+
     setLoading(true);
 
     try {
+      // Planned parts are only taken from stock when the job is completed
       const { error } = await supabase
         .from('asset_maintenance')
         .insert({
           asset_id: formData.asset_id,
           maintenance_type: formData.maintenance_type,
           description: formData.description,
-          cost: formData.cost ? parseFloat(formData.cost) : 0,
+          labor_cost: laborCost,
+          cost: laborCost + getPartsTotal(plannedParts),
+          currency: formData.currency,
+          parts_used: plannedParts.map(({ part_id, quantity, unit_cost }) => ({ part_id, quantity, unit_cost })),
           scheduled_date: format(formData.scheduled_date, 'yyyy-MM-dd'),
           labor_hours: formData.labor_hours ? parseFloat(formData.labor_hours) : 0,
           performed_by: user.id,
@@ -115,11 +196,14 @@ const MaintenanceForm: React.FC<MaintenanceFormProps> = ({ assetId, onSuccess, o
       });
 
       // Reset form
+      setBomShortages([]);
       setFormData({
         asset_id: assetId || '',
         maintenance_type: '',
         description: '',
-        cost: '',
+        labor_cost: '',
+        currency: DEFAULT_CURRENCY,
+        parts: [],
         scheduled_date: undefined,
         labor_hours: '',
         company_id: '',
@@ -234,15 +318,27 @@ const MaintenanceForm: React.FC<MaintenanceFormProps> = ({ assetId, onSuccess, o
             </div>
 
             <div className="space-y-2">
-              <Label htmlFor="cost">Custo Estimado (R$)</Label>
-              <Input
-                id="cost"
-                type="number"
-                step="0.01"
-                placeholder="0,00"
-                value={formData.cost}
-                onChange={(e) => setFormData({...formData, cost: e.target.value})}
-              />
+              <Label htmlFor="labor_cost">Mão de Obra</Label>
+              <div className="flex gap-2">
+                <Select value={formData.currency} onValueChange={handleCurrencyChange}>
+                  <SelectTrigger className="w-28" aria-label="Moeda">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {CURRENCIES.map(currency => (
+                      <SelectItem key={currency} value={currency}>{currency}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Input
+                  id="labor_cost"
+                  type="number"
+                  step="0.01"
+                  placeholder="0,00"
+                  value={formData.labor_cost}
+                  onChange={(e) => setFormData({...formData, labor_cost: e.target.value})}
+                />
+              </div>
             </div>
 
             <div className="space-y-2">
@@ -258,6 +354,35 @@ const MaintenanceForm: React.FC<MaintenanceFormProps> = ({ assetId, onSuccess, o
             </div>
           </div>
 
+          {bomShortages.length > 0 && (
+            <Alert variant="destructive">
+              <AlertTriangle className="h-4 w-4" />
+              <AlertTitle>Estoque insuficiente para a lista de peças do ativo</AlertTitle>
+              <AlertDescription>
+                <ul className="list-disc pl-4">
+                  {bomShortages.map((shortage) => (
+                    <li key={shortage.part_number}>
+                      {shortage.part_number} - {shortage.name}: necessário {shortage.required}, em estoque {shortage.stock}
+                    </li>
+                  ))}
+                </ul>
+              </AlertDescription>
+            </Alert>
+          )}
+
+          <MaintenancePartsSelector
+            value={formData.parts}
+            onChange={(parts) => setFormData({...formData, parts})}
+            currency={formData.currency}
+          />
+
+          <div className="flex items-center justify-between text-sm">
+            <span className="text-muted-foreground">Custo Estimado (mão de obra + peças)</span>
+            <span className="font-semibold">
+              {formatMoney((parseFloat(formData.labor_cost) || 0) + getPartsTotal(formData.parts), formData.currency)}
+            </span>
+          </div>
+
           <div className="flex justify-end gap-3">
             {onCancel && (
               <Button type="button" variant="outline" onClick={onCancel}>
@@ -0,0 +1,167 @@
+import React, { useState, useEffect } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { AlertTriangle, Plus, Trash2 } from 'lucide-react';
+import { format } from 'date-fns';
+import { useExchangeRates } from '@/hooks/useExchangeRates';
+import { DEFAULT_CURRENCY, findExchangeRate, formatMoney } from '@/lib/currency';
+
+export interface MaintenancePartLine {
+  part_id: string;
+  quantity: number;
+  unit_cost: number;
+}
+
+interface SparePartOption {
+  id: string;
+  name: string;
+  part_number: string;
+  stock_quantity: number;
+  unit_cost: number;
+  currency: string;
+}
+
+interface MaintenancePartsSelectorProps {
+  value: MaintenancePartLine[];
+  onChange: (lines: MaintenancePartLine[]) => void;
+  // Quantities already taken from stock by this job, available again if removed
+  reservedStock?: Record<string, number>;
+  // Currency of the maintenance job; part costs are converted into it at today's rate
+  currency?: string;
+  disabled?: boolean;
+}
+
+export const getPartsTotal = (lines: MaintenancePartLine[]) =>
+  lines.reduce((sum, line) => sum + line.quantity * line.unit_cost, 0);
+
+const MaintenancePartsSelector: React.FC<MaintenancePartsSelectorProps> = ({ value, onChange, reservedStock = {}, currency = DEFAULT_CURRENCY, disabled }) => {
+  const [parts, setParts] = useState<SparePartOption[]>([]);
+  const { rates } = useExchangeRates();
+
+  useEffect(() => {
+    fetchParts();
+  }, []);
+
+  const fetchParts = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('spare_parts')
+        .select('id, name, part_number, stock_quantity, unit_cost, currency')
+        .is('archived_at', null)
+        .order('name');
+
+      if (error) throw error;
+      setParts(data || []);
+    } catch (error) {
+      console.error('Erro ao buscar peças:', error);
+    }
+  };
+
+  const updateLine = (index: number, changes: Partial<MaintenancePartLine>) => {
+    onChange(value.map((line, i) => (i === index ? { ...line, ...changes } : line)));
+  };
+
+  const getRate = (part: SparePartOption) =>
+    findExchangeRate(rates, part.currency, currency, format(new Date(), 'yyyy-MM-dd'));
+
+  const handlePartChange = (index: number, partId: string) => {
+    const part = parts.find(p => p.id === partId);
+    const rate = part ? getRate(part) : null;
+    updateLine(index, { part_id: partId, unit_cost: part ? Number(part.unit_cost) * (rate ?? 1) : 0 });
+  };
+
+  const addLine = () => {
+    onChange([...value, { part_id: '', quantity: 1, unit_cost: 0 }]);
+  };
+
+  const removeLine = (index: number) => {
+    onChange(value.filter((_, i) => i !== index));
+  };
+
+  const getAvailableStock = (partId: string) => {
+    const part = parts.find(p => p.id === partId);
+    return (part?.stock_quantity || 0) + (reservedStock[partId] || 0);
+  };
+
+  const formatCurrency = (amount: number) => formatMoney(amount, currency);
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <Label>Peças Utilizadas</Label>
+        <Button type="button" variant="outline" size="sm" onClick={addLine} disabled={disabled}>
+          <Plus className="h-4 w-4 mr-1" />
+          Adicionar Peça
+        </Button>
+      </div>
+
+      {value.length === 0 ? (
+        <p className="text-sm text-muted-foreground">Nenhuma peça adicionada</p>
+      ) : (
+        <div className="space-y-2">
+          {value.map((line, index) => {
+            const insufficient = !!line.part_id && line.quantity > getAvailableStock(line.part_id);
+            const part = parts.find(p => p.id === line.part_id);
+            const missingRate = !!part && getRate(part) === null;
+            return (
+              <div key={index} className="space-y-1">
+                <div className="flex items-center gap-2">
+                  <Select
+                    value={line.part_id}
+                    onValueChange={(partId) => handlePartChange(index, partId)}
+                    disabled={disabled}
+                  >
+                    <SelectTrigger className="flex-1">
+                      <SelectValue placeholder="Selecione uma peça" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {parts.map((part) => (
+                        <SelectItem key={part.id} value={part.id}>
+                          {part.part_number} - {part.name} (estoque: {part.stock_quantity})
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Input
+                    type="number"
+                    min="1"
+                    className="w-20"
+                    value={line.quantity}
+                    onChange={(e) => updateLine(index, { quantity: parseInt(e.target.value) || 0 })}
+                    disabled={disabled}
+                  />
+                  <span className="w-28 text-right text-sm">
+                    {formatCurrency(line.quantity * line.unit_cost)}
+                  </span>
+                  <Button type="button" variant="ghost" size="sm" onClick={() => removeLine(index)} disabled={disabled}>
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+                {insufficient && (
+                  <p className="flex items-center gap-1 text-xs text-orange-600">
+                    <AlertTriangle className="h-3 w-3" />
+                    Estoque insuficiente (disponível: {getAvailableStock(line.part_id)})
+                  </p>
+                )}
+                {missingRate && (
+                  <p className="flex items-center gap-1 text-xs text-orange-600">
+                    <AlertTriangle className="h-3 w-3" />
+                    Sem cotação de {part.currency} para {currency}; custo considerado sem conversão
+                  </p>
+                )}
+              </div>
+            );
+          })}
+          <div className="flex justify-end text-sm font-medium">
+            Total em peças: {formatCurrency(getPartsTotal(value))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default MaintenancePartsSelector;
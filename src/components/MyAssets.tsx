@@ -0,0 +1,202 @@
+import React, { useState, useEffect } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/components/AuthProvider';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useToast } from '@/hooks/use-toast';
+import { format } from 'date-fns';
+import { ptBR } from 'date-fns/locale';
+import { Eye, History, PackageCheck } from 'lucide-react';
+import { formatDueDate, getLoanConditionLabel, isLoanOverdue } from '@/lib/custody';
+
+interface MyAssetsProps {
+  onSelectAsset: (assetId: string) => void;
+}
+
+interface MyLoan {
+  id: string;
+  asset_id: string;
+  checked_out_at: string;
+  due_date: string;
+  checkout_condition: string;
+  returned_at: string | null;
+  return_condition: string | null;
+  assets: { name: string; code: string } | null;
+}
+
+interface AssignedAsset {
+  id: string;
+  name: string;
+  code: string;
+}
+
+// Everything in the signed-in user's custody: open loans first, then the
+// assets they are permanently responsible for, then past loans
+const MyAssets: React.FC<MyAssetsProps> = ({ onSelectAsset }) => {
+  const { user } = useAuth();
+  const [loans, setLoans] = useState<MyLoan[]>([]);
+  const [assigned, setAssigned] = useState<AssignedAsset[]>([]);
+  const [loading, setLoading] = useState(true);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    if (user) fetchMyAssets();
+  }, [user]);
+
+  const fetchMyAssets = async () => {
+    setLoading(true);
+    const [loansResult, assetsResult] = await Promise.all([
+      supabase
+        .from('asset_loans')
+        .select('id, asset_id, checked_out_at, due_date, checkout_condition, returned_at, return_condition, assets (name, code)')
+        .eq('borrower_id', user.id)
+        .order('checked_out_at', { ascending: false }),
+      supabase
+        .from('assets')
+        .select('id, name, code')
+        .eq('assigned_to', user.id)
+        .is('deleted_at', null)
+        .order('name'),
+    ]);
+
+    if (loansResult.error || assetsResult.error) {
+      console.error('Error fetching my assets:', loansResult.error || assetsResult.error);
+      toast({
+        title: "Erro",
+        description: "Erro ao carregar seus ativos.",
+        variant: "destructive",
+      });
+    } else {
+      setLoans(loansResult.data || []);
+      setAssigned(assetsResult.data || []);
+    }
+    setLoading(false);
+  };
+
+  const openLoans = loans.filter(loan => !loan.returned_at);
+  const pastLoans = loans.filter(loan => loan.returned_at);
+  // Lent assets are also assigned to the borrower; list them once, as loans
+  const loanedAssetIds = openLoans.map(loan => loan.asset_id);
+  const responsibleFor = assigned.filter(asset => !loanedAssetIds.includes(asset.id));
+
+  const viewButton = (assetId: string) => (
+    <Button variant="ghost" size="sm" onClick={() => onSelectAsset(assetId)}>
+      <Eye className="h-4 w-4" />
+    </Button>
+  );
+
+  if (loading) {
+    return (
+      <div className="flex justify-center p-8">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <PackageCheck className="h-5 w-5" />
+            Meus Ativos
+          </CardTitle>
+          <CardDescription>
+            Ativos sob sua custódia e prazos de devolução
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {openLoans.length === 0 && responsibleFor.length === 0 ? (
+            <p className="text-center text-muted-foreground py-8">
+              Nenhum ativo sob sua responsabilidade.
+            </p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Código</TableHead>
+                  <TableHead>Ativo</TableHead>
+                  <TableHead>Desde</TableHead>
+                  <TableHead>Devolver até</TableHead>
+                  <TableHead>Situação</TableHead>
+                  <TableHead></TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {openLoans.map((loan) => (
+                  <TableRow key={loan.id}>
+                    <TableCell className="font-medium">{loan.assets?.code}</TableCell>
+                    <TableCell>{loan.assets?.name}</TableCell>
+                    <TableCell>{format(new Date(loan.checked_out_at), 'dd/MM/yyyy', { locale: ptBR })}</TableCell>
+                    <TableCell>{formatDueDate(loan.due_date)}</TableCell>
+                    <TableCell>
+                      {isLoanOverdue(loan) ? (
+                        <Badge variant="destructive">Devolução atrasada</Badge>
+                      ) : (
+                        <Badge variant="secondary">Emprestado</Badge>
+                      )}
+                    </TableCell>
+                    <TableCell>{viewButton(loan.asset_id)}</TableCell>
+                  </TableRow>
+                ))}
+                {responsibleFor.map((asset) => (
+                  <TableRow key={asset.id}>
+                    <TableCell className="font-medium">{asset.code}</TableCell>
+                    <TableCell>{asset.name}</TableCell>
+                    <TableCell>—</TableCell>
+                    <TableCell>—</TableCell>
+                    <TableCell>
+                      <Badge variant="outline">Responsável</Badge>
+                    </TableCell>
+                    <TableCell>{viewButton(asset.id)}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      {pastLoans.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <History className="h-5 w-5" />
+              Empréstimos Anteriores
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Código</TableHead>
+                  <TableHead>Ativo</TableHead>
+                  <TableHead>Saída</TableHead>
+                  <TableHead>Devolução</TableHead>
+                  <TableHead>Estado</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {pastLoans.map((loan) => (
+                  <TableRow key={loan.id}>
+                    <TableCell className="font-medium">{loan.assets?.code}</TableCell>
+                    <TableCell>{loan.assets?.name}</TableCell>
+                    <TableCell>{format(new Date(loan.checked_out_at), 'dd/MM/yyyy', { locale: ptBR })}</TableCell>
+                    <TableCell>{format(new Date(loan.returned_at), 'dd/MM/yyyy', { locale: ptBR })}</TableCell>
+                    <TableCell>
+                      {getLoanConditionLabel(loan.checkout_condition)} → {getLoanConditionLabel(loan.return_condition)}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+};
+
+export default MyAssets;
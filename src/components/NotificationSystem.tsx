@@ -5,6 +5,8 @@ import { Badge } from '@/components/ui/badge';
 import { Bell, AlertTriangle, Info, CheckCircle, X } from 'lucide-react';
 import { supabase } from '@/integrations/supabase/client';
 import { useToast } from '@/hooks/use-toast';
+import { calculateBookValue } from '@/lib/depreciation';
+import { formatDueDate, todayDate } from '@/lib/custody';
 
 interface Notification {
   id: string;
@@ -25,11 +27,15 @@ const NotificationSystem = () => {
   useEffect(() => {
     checkOverdueMaintenance();
     checkDepreciationAlerts();
+    checkLowStockAlerts();
+    checkOverdueLoans();
     
     // Check notifications every 5 minutes
     const interval = setInterval(() => {
       checkOverdueMaintenance();
       checkDepreciationAlerts();
+      checkLowStockAlerts();
+      checkOverdueLoans();
     }, 5 * 60 * 1000);
 
     return () => clearInterval(interval);
@@ -76,15 +82,16 @@ const NotificationSystem = () => {
     try {
       const { data: assets, error } = await supabase
         .from('assets')
-        .select('*')
+        .select('*, categories (depreciation_method), asset_valuation_events (event_date, new_book_value, remaining_useful_life_years, units_used_at_event)')
+        .is('deleted_at', null)
         .eq('status', 'active');
 
       if (error) throw error;
 
       const depreciationAlerts = assets?.filter(asset => {
-        const purchaseDate = new Date(asset.purchase_date);
-        const yearsOld = (Date.now() - purchaseDate.getTime()) / (365.25 * 24 * 60 * 60 * 1000);
-        const depreciationRate = yearsOld / asset.useful_life_years;
+        const depreciable = Number(asset.purchase_value) - Number(asset.residual_value || 0);
+        if (depreciable <= 0) return false;
+        const depreciationRate = (Number(asset.purchase_value) - calculateBookValue(asset)) / depreciable;
         return depreciationRate > 0.8; // Alert when 80% depreciated
       }).map(asset => ({
         id: `depreciation-${asset.id}`,
@@ -108,6 +115,71 @@ const NotificationSystem = () => {
     }
   };
 
+  const checkLowStockAlerts = async () => {
+    try {
+      const { data: parts, error } = await supabase
+        .from('spare_parts')
+        .select('id, name, part_number, stock_quantity, min_stock_level, reorder_quantity')
+        .is('archived_at', null)
+        .gt('min_stock_level', 0);
+
+      if (error) throw error;
+
+      const lowStockAlerts = parts?.filter(part => part.stock_quantity <= part.min_stock_level).map(part => ({
+        id: `low-stock-${part.id}`,
+        title: 'Estoque Baixo',
+        message: `A peça "${part.part_number} - ${part.name}" está com ${part.stock_quantity} unidade(s) em estoque (mínimo ${part.min_stock_level}).${part.reorder_quantity > 0 ? ` Reposição sugerida: ${part.reorder_quantity}.` : ''}`,
+        type: 'error' as const,
+        read: false,
+        created_at: new Date().toISOString()
+      }));
+
+      // Parts back above the minimum no longer need an alert
+      setNotifications(prev => {
+        const lowStockIds = (lowStockAlerts || []).map(n => n.id);
+        const current = prev.filter(n => !n.id.startsWith('low-stock-') || lowStockIds.includes(n.id));
+        const existingIds = current.map(n => n.id);
+        const newNotifications = (lowStockAlerts || []).filter(n => !existingIds.includes(n.id));
+        return [...current, ...newNotifications];
+      });
+    } catch (error) {
+      console.error('Error checking low stock alerts:', error);
+    }
+  };
+
+  const checkOverdueLoans = async () => {
+    try {
+      const { data: loans, error } = await supabase
+        .from('asset_loans')
+        .select('id, asset_id, due_date, assets(name, code), borrower:profiles!asset_loans_borrower_id_fkey (full_name)')
+        .is('returned_at', null)
+        .lt('due_date', todayDate());
+
+      if (error) throw error;
+
+      const overdueLoans = (loans || []).map(loan => ({
+        id: `overdue-loan-${loan.id}`,
+        title: 'Devolução em Atraso',
+        message: `O ativo "${loan.assets?.code} - ${loan.assets?.name}" emprestado para ${loan.borrower?.full_name || 'usuário'} deveria ter sido devolvido em ${formatDueDate(loan.due_date)}.`,
+        type: 'warning' as const,
+        read: false,
+        created_at: new Date().toISOString(),
+        asset_id: loan.asset_id
+      }));
+
+      // Loans checked in since the last check no longer need an alert
+      setNotifications(prev => {
+        const overdueIds = overdueLoans.map(n => n.id);
+        const current = prev.filter(n => !n.id.startsWith('overdue-loan-') || overdueIds.includes(n.id));
+        const existingIds = current.map(n => n.id);
+        const newNotifications = overdueLoans.filter(n => !existingIds.includes(n.id));
+        return [...current, ...newNotifications];
+      });
+    } catch (error) {
+      console.error('Error checking overdue loans:', error);
+    }
+  };
+
   const markAsRead = (notificationId: string) => {
     setNotifications(prev =>
       prev.map(notification =>
@@ -8,6 +8,7 @@ import { Loader2, FileText, TrendingUp, Lightbulb } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
 import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/components/AuthProvider';
+import { DEFAULT_CURRENCY, formatMoney } from '@/lib/currency';
 
 interface ChartData {
   name: string;
@@ -18,6 +19,8 @@ interface ChartData {
 interface ReportMetadata {
   title: string;
   insights: string[];
+  currency: string;
+  unconverted: number;
 }
 
 const ReportGenerator = () => {
@@ -26,7 +29,9 @@ const ReportGenerator = () => {
   const [chartData, setChartData] = useState<ChartData[]>([]);
   const [reportMetadata, setReportMetadata] = useState<ReportMetadata>({
     title: '',
-    insights: []
+    insights: [],
+    currency: DEFAULT_CURRENCY,
+    unconverted: 0
   });
   const { toast } = useToast();
   const { user } = useAuth();
@@ -56,10 +61,7 @@ const ReportGenerator = () => {
       console.log('Generating report with AI...');
       
       const { data, error } = await supabase.functions.invoke('ai-report-generator', {
-        body: { 
-          prompt: prompt.trim(),
-          userToken: user.id 
-        },
+        body: { prompt: prompt.trim() },
       });
 
       if (error) {
@@ -76,7 +78,9 @@ const ReportGenerator = () => {
       setChartData(data.data || []);
       setReportMetadata({
         title: data.title || 'Relatório Gerado',
-        insights: data.insights || []
+        insights: data.insights || [],
+        currency: data.currency || DEFAULT_CURRENCY,
+        unconverted: data.unconverted || 0
       });
       
       toast({
@@ -96,12 +100,7 @@ const ReportGenerator = () => {
     }
   };
 
-  const formatCurrency = (value: number) => {
-    return new Intl.NumberFormat('pt-BR', {
-      style: 'currency',
-      currency: 'BRL',
-    }).format(value);
-  };
+  const formatCurrency = (value: number) => formatMoney(value, reportMetadata.currency);
 
   return (
     <div className="space-y-6 animate-fade-in">
@@ -152,7 +151,8 @@ const ReportGenerator = () => {
           <CardHeader>
             <CardTitle className="text-foreground">{reportMetadata.title}</CardTitle>
             <CardDescription>
-              Relatório gerado baseado na sua solicitação usando IA
+              Relatório gerado baseado na sua solicitação usando IA · valores em {reportMetadata.currency}
+              {reportMetadata.unconverted > 0 && ` · ${reportMetadata.unconverted} registro(s) sem cotação de câmbio fora dos totais`}
             </CardDescription>
           </CardHeader>
           <CardContent>
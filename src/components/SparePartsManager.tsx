@@ -0,0 +1,685 @@
+import { useState, useEffect } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Badge } from '@/components/ui/badge';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from '@/components/ui/alert-dialog';
+import { toast } from '@/hooks/use-toast';
+import { Plus, Edit, Archive, ArchiveRestore, Boxes, Search, ArrowUpDown } from 'lucide-react';
+import { CURRENCIES, DEFAULT_CURRENCY, formatMoney } from '@/lib/currency';
+import { usePermissions } from '@/hooks/usePermissions';
+
+interface SparePart {
+  id: string;
+  name: string;
+  part_number: string;
+  description: string | null;
+  stock_quantity: number;
+  min_stock_level: number;
+  reorder_quantity: number;
+  unit_cost: number;
+  currency: string;
+  supplier: string | null;
+  archived_at: string | null;
+  created_at: string;
+}
+
+interface StockMovement {
+  id: string;
+  quantity_change: number;
+  resulting_quantity: number;
+  reason: string;
+  created_at: string;
+}
+
+const emptyPartForm = {
+  name: '',
+  part_number: '',
+  description: '',
+  unit_cost: '',
+  currency: DEFAULT_CURRENCY,
+  stock_quantity: '0',
+  min_stock_level: '0',
+  reorder_quantity: '0',
+  supplier: ''
+};
+
+const SparePartsManager = () => {
+  const { canManageAssets: canManage } = usePermissions();
+  const [parts, setParts] = useState<SparePart[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [searchTerm, setSearchTerm] = useState('');
+  const [filterSupplier, setFilterSupplier] = useState('all');
+  const [showArchived, setShowArchived] = useState(false);
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [editingPart, setEditingPart] = useState<SparePart | null>(null);
+  const [formData, setFormData] = useState(emptyPartForm);
+  const [adjustingPart, setAdjustingPart] = useState<SparePart | null>(null);
+  const [movements, setMovements] = useState<StockMovement[]>([]);
+  const [adjustForm, setAdjustForm] = useState({
+    direction: 'in' as 'in' | 'out',
+    quantity: '',
+    reason: ''
+  });
+
+  useEffect(() => {
+    fetchParts();
+  }, []);
+
+  const fetchParts = async () => {
+    try {
+      setLoading(true);
+      const { data, error } = await supabase
+        .from('spare_parts')
+        .select('*')
+        .order('name');
+
+      if (error) throw error;
+      setParts(data || []);
+    } catch (error) {
+      console.error('Error fetching spare parts:', error);
+      toast({
+        title: "Erro",
+        description: "Erro ao carregar peças de reposição.",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const fetchMovements = async (partId: string) => {
+    const { data, error } = await supabase
+      .from('spare_part_movements')
+      .select('id, quantity_change, resulting_quantity, reason, created_at')
+      .eq('part_id', partId)
+      .order('created_at', { ascending: false })
+      .limit(10);
+
+    if (error) {
+      console.error('Error fetching stock movements:', error);
+    } else {
+      setMovements(data || []);
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!formData.name.trim() || !formData.part_number.trim()) {
+      toast({
+        title: "Erro",
+        description: "Nome e código da peça são obrigatórios.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const partData = {
+      name: formData.name.trim(),
+      part_number: formData.part_number.trim(),
+      description: formData.description.trim() || null,
+      unit_cost: parseFloat(formData.unit_cost) || 0,
+      currency: formData.currency,
+      supplier: formData.supplier.trim() || null,
+      min_stock_level: parseInt(formData.min_stock_level) || 0,
+      reorder_quantity: parseInt(formData.reorder_quantity) || 0,
+    };
+
+    try {
+      if (editingPart) {
+        // Stock is only changed through adjustments so every change has a reason
+        const { error } = await supabase
+          .from('spare_parts')
+          .update(partData)
+          .eq('id', editingPart.id);
+
+        if (error) throw error;
+
+        toast({
+          title: "Sucesso",
+          description: "Peça atualizada com sucesso.",
+        });
+      } else {
+        // The part and its opening stock movement are created together
+        const { error } = await supabase.rpc('create_spare_part', {
+          p_part: partData,
+          p_initial_stock: parseInt(formData.stock_quantity) || 0,
+        });
+
+        if (error) throw error;
+
+        toast({
+          title: "Sucesso",
+          description: "Peça cadastrada com sucesso.",
+        });
+      }
+
+      setFormData(emptyPartForm);
+      setEditingPart(null);
+      setIsDialogOpen(false);
+      fetchParts();
+    } catch (error) {
+      console.error('Error saving spare part:', error);
+      toast({
+        title: "Erro",
+        description: error.code === '23505' ? "Já existe uma peça com este código." : "Erro ao salvar peça.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleNewPart = () => {
+    setEditingPart(null);
+    setFormData(emptyPartForm);
+    setIsDialogOpen(true);
+  };
+
+  const handleEdit = (part: SparePart) => {
+    setEditingPart(part);
+    setFormData({
+      name: part.name,
+      part_number: part.part_number,
+      description: part.description || '',
+      unit_cost: part.unit_cost.toString(),
+      currency: part.currency,
+      stock_quantity: part.stock_quantity.toString(),
+      min_stock_level: part.min_stock_level.toString(),
+      reorder_quantity: part.reorder_quantity.toString(),
+      supplier: part.supplier || ''
+    });
+    setIsDialogOpen(true);
+  };
+
+  const handleToggleArchive = async (part: SparePart) => {
+    try {
+      const { error } = await supabase
+        .from('spare_parts')
+        .update({ archived_at: part.archived_at ? null : new Date().toISOString() })
+        .eq('id', part.id);
+
+      if (error) throw error;
+
+      toast({
+        title: "Sucesso",
+        description: part.archived_at
+          ? `Peça "${part.name}" reativada.`
+          : `Peça "${part.name}" arquivada.`,
+      });
+
+      fetchParts();
+    } catch (error) {
+      console.error('Error archiving spare part:', error);
+      toast({
+        title: "Erro",
+        description: "Erro ao arquivar peça.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const openAdjustDialog = (part: SparePart) => {
+    setAdjustingPart(part);
+    setAdjustForm({ direction: 'in', quantity: '', reason: '' });
+    setMovements([]);
+    fetchMovements(part.id);
+  };
+
+  const handleAdjustStock = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!adjustingPart) return;
+
+    const quantity = parseInt(adjustForm.quantity);
+    if (!quantity || quantity <= 0 || !adjustForm.reason.trim()) {
+      toast({
+        title: "Erro",
+        description: "Informe uma quantidade válida e o motivo do ajuste.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    if (adjustForm.direction === 'out' && quantity > adjustingPart.stock_quantity) {
+      toast({
+        title: "Erro",
+        description: "Quantidade maior que o estoque disponível.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    try {
+      const { error } = await supabase.rpc('adjust_spare_part_stock', {
+        p_part_id: adjustingPart.id,
+        p_quantity_change: adjustForm.direction === 'in' ? quantity : -quantity,
+        p_reason: adjustForm.reason.trim(),
+      });
+
+      if (error) throw error;
+
+      toast({
+        title: "Sucesso",
+        description: "Estoque ajustado com sucesso.",
+      });
+
+      setAdjustingPart(null);
+      fetchParts();
+    } catch (error) {
+      console.error('Error adjusting stock:', error);
+      toast({
+        title: "Erro",
+        description: "Erro ao ajustar estoque.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const formatCurrency = (value: number, currency?: string) => formatMoney(value, currency);
+
+  const suppliers = [...new Set(parts.map(part => part.supplier).filter(Boolean))].sort() as string[];
+
+  const filteredParts = parts.filter(part => {
+    const term = searchTerm.toLowerCase();
+    const matchesSearch = part.part_number.toLowerCase().includes(term) ||
+      part.name.toLowerCase().includes(term) ||
+      (part.supplier && part.supplier.toLowerCase().includes(term));
+    const matchesSupplier = filterSupplier === 'all' || part.supplier === filterSupplier;
+    const matchesArchived = showArchived ? !!part.archived_at : !part.archived_at;
+
+    return matchesSearch && matchesSupplier && matchesArchived;
+  });
+
+  if (loading) {
+    return (
+      <div className="space-y-4">
+        <div className="h-8 bg-muted animate-pulse rounded" />
+        <div className="h-64 bg-muted animate-pulse rounded" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h2 className="text-3xl font-bold tracking-tight">Peças de Reposição</h2>
+          <p className="text-muted-foreground">
+            Catálogo e controle de estoque do almoxarifado
+          </p>
+        </div>
+        {canManage && (
+          <Button onClick={handleNewPart}>
+            <Plus className="w-4 h-4 mr-2" />
+            Nova Peça
+          </Button>
+        )}
+      </div>
+
+      <Card>
+        <CardContent className="pt-6">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4 items-center">
+            <div className="relative">
+              <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-muted-foreground h-4 w-4" />
+              <Input
+                placeholder="Buscar por código, nome ou fornecedor..."
+                value={searchTerm}
+                onChange={(e) => setSearchTerm(e.target.value)}
+                className="pl-9"
+              />
+            </div>
+            <Select value={filterSupplier} onValueChange={setFilterSupplier}>
+              <SelectTrigger>
+                <SelectValue placeholder="Filtrar por fornecedor" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">Todos os fornecedores</SelectItem>
+                {suppliers.map((supplier) => (
+                  <SelectItem key={supplier} value={supplier}>
+                    {supplier}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <div className="flex items-center gap-2">
+              <Switch id="show-archived" checked={showArchived} onCheckedChange={setShowArchived} />
+              <Label htmlFor="show-archived">Mostrar arquivadas</Label>
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Boxes className="w-5 h-5" />
+            {showArchived ? 'Peças Arquivadas' : 'Peças Cadastradas'}
+          </CardTitle>
+          <CardDescription>
+            {filteredParts.length} de {parts.length} peças
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {filteredParts.length === 0 ? (
+            <div className="text-center py-8">
+              <Boxes className="w-12 h-12 mx-auto text-muted-foreground mb-4" />
+              <h3 className="text-lg font-semibold mb-2">Nenhuma peça encontrada</h3>
+              <p className="text-muted-foreground">
+                {parts.length === 0
+                  ? 'Cadastre a primeira peça para começar'
+                  : 'Tente ajustar os filtros para encontrar o que procura'
+                }
+              </p>
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Código</TableHead>
+                  <TableHead>Nome</TableHead>
+                  <TableHead>Fornecedor</TableHead>
+                  <TableHead className="text-right">Custo Unitário</TableHead>
+                  <TableHead className="text-right">Estoque</TableHead>
+                  {canManage && <TableHead className="text-right">Ações</TableHead>}
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {filteredParts.map((part) => (
+                  <TableRow key={part.id}>
+                    <TableCell>
+                      <Badge variant="outline">{part.part_number}</Badge>
+                    </TableCell>
+                    <TableCell className="font-medium">
+                      {part.name}
+                      {part.description && (
+                        <p className="text-xs text-muted-foreground">{part.description}</p>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      {part.supplier || (
+                        <span className="text-muted-foreground italic">Não informado</span>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-right">{formatCurrency(part.unit_cost, part.currency)}</TableCell>
+                    <TableCell className="text-right">
+                      <div className="flex items-center justify-end gap-2">
+                        {part.min_stock_level > 0 && part.stock_quantity <= part.min_stock_level && (
+                          <Badge className="bg-red-500/10 text-red-500 border-red-500/20">Estoque baixo</Badge>
+                        )}
+                        <span className="font-semibold">{part.stock_quantity}</span>
+                      </div>
+                      {part.min_stock_level > 0 && (
+                        <p className="text-xs text-muted-foreground">mín. {part.min_stock_level}</p>
+                      )}
+                    </TableCell>
+                    {canManage && (
+                      <TableCell className="text-right">
+                        <div className="flex items-center justify-end gap-2">
+                          {!part.archived_at && (
+                            <>
+                              <Button variant="outline" size="sm" onClick={() => openAdjustDialog(part)}>
+                                <ArrowUpDown className="w-4 h-4" />
+                              </Button>
+                              <Button variant="outline" size="sm" onClick={() => handleEdit(part)}>
+                                <Edit className="w-4 h-4" />
+                              </Button>
+                            </>
+                          )}
+                          <AlertDialog>
+                            <AlertDialogTrigger asChild>
+                              <Button variant="outline" size="sm">
+                                {part.archived_at ? <ArchiveRestore className="w-4 h-4" /> : <Archive className="w-4 h-4" />}
+                              </Button>
+                            </AlertDialogTrigger>
+                            <AlertDialogContent>
+                              <AlertDialogHeader>
+                                <AlertDialogTitle>
+                                  {part.archived_at ? 'Reativar peça' : 'Arquivar peça'}
+                                </AlertDialogTitle>
+                                <AlertDialogDescription>
+                                  {part.archived_at
+                                    ? `A peça "${part.name}" voltará a aparecer no catálogo.`
+                                    : `A peça "${part.name}" deixará de aparecer no catálogo, mas seu histórico será mantido.`
+                                  }
+                                </AlertDialogDescription>
+                              </AlertDialogHeader>
+                              <AlertDialogFooter>
+                                <AlertDialogCancel>Cancelar</AlertDialogCancel>
+                                <AlertDialogAction onClick={() => handleToggleArchive(part)}>
+                                  {part.archived_at ? 'Reativar' : 'Arquivar'}
+                                </AlertDialogAction>
+                              </AlertDialogFooter>
+                            </AlertDialogContent>
+                          </AlertDialog>
+                        </div>
+                      </TableCell>
+                    )}
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Create / Edit Dialog */}
+      <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{editingPart ? 'Editar Peça' : 'Nova Peça'}</DialogTitle>
+            <DialogDescription>
+              {editingPart
+                ? 'Modifique os dados da peça. O estoque é alterado pelo ajuste de estoque.'
+                : 'Adicione uma nova peça ao catálogo do almoxarifado'
+              }
+            </DialogDescription>
+          </DialogHeader>
+          <form onSubmit={handleSubmit}>
+            <div className="space-y-4">
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="part_number">Código da Peça *</Label>
+                  <Input
+                    id="part_number"
+                    value={formData.part_number}
+                    onChange={(e) => setFormData(prev => ({ ...prev, part_number: e.target.value }))}
+                    placeholder="Ex: FLT-0042"
+                    required
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="name">Nome *</Label>
+                  <Input
+                    id="name"
+                    value={formData.name}
+                    onChange={(e) => setFormData(prev => ({ ...prev, name: e.target.value }))}
+                    placeholder="Ex: Filtro de óleo"
+                    required
+                  />
+                </div>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="description">Descrição</Label>
+                <Textarea
+                  id="description"
+                  value={formData.description}
+                  onChange={(e) => setFormData(prev => ({ ...prev, description: e.target.value }))}
+                  placeholder="Descrição da peça (opcional)"
+                  rows={2}
+                />
+              </div>
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="supplier">Fornecedor</Label>
+                  <Input
+                    id="supplier"
+                    value={formData.supplier}
+                    onChange={(e) => setFormData(prev => ({ ...prev, supplier: e.target.value }))}
+                    placeholder="Nome do fornecedor"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="unit_cost">Custo Unitário</Label>
+                  <div className="flex gap-2">
+                    <Select
+                      value={formData.currency}
+                      onValueChange={(value) => setFormData(prev => ({ ...prev, currency: value }))}
+                    >
+                      <SelectTrigger className="w-28" aria-label="Moeda">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {CURRENCIES.map(currency => (
+                          <SelectItem key={currency} value={currency}>{currency}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <Input
+                      id="unit_cost"
+                      type="number"
+                      step="0.01"
+                      min="0"
+                      value={formData.unit_cost}
+                      onChange={(e) => setFormData(prev => ({ ...prev, unit_cost: e.target.value }))}
+                      placeholder="0,00"
+                    />
+                  </div>
+                </div>
+              </div>
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="min_stock_level">Estoque Mínimo</Label>
+                  <Input
+                    id="min_stock_level"
+                    type="number"
+                    min="0"
+                    value={formData.min_stock_level}
+                    onChange={(e) => setFormData(prev => ({ ...prev, min_stock_level: e.target.value }))}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="reorder_quantity">Quantidade de Reposição</Label>
+                  <Input
+                    id="reorder_quantity"
+                    type="number"
+                    min="0"
+                    value={formData.reorder_quantity}
+                    onChange={(e) => setFormData(prev => ({ ...prev, reorder_quantity: e.target.value }))}
+                  />
+                </div>
+              </div>
+              {!editingPart && (
+                <div className="space-y-2">
+                  <Label htmlFor="stock_quantity">Estoque Inicial</Label>
+                  <Input
+                    id="stock_quantity"
+                    type="number"
+                    min="0"
+                    value={formData.stock_quantity}
+                    onChange={(e) => setFormData(prev => ({ ...prev, stock_quantity: e.target.value }))}
+                  />
+                </div>
+              )}
+              <div className="flex justify-end space-x-2">
+                <Button type="button" variant="outline" onClick={() => setIsDialogOpen(false)}>
+                  Cancelar
+                </Button>
+                <Button type="submit">
+                  {editingPart ? 'Atualizar' : 'Criar'}
+                </Button>
+              </div>
+            </div>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      {/* Stock Adjustment Dialog */}
+      <Dialog open={!!adjustingPart} onOpenChange={(open) => !open && setAdjustingPart(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Ajustar Estoque</DialogTitle>
+            <DialogDescription>
+              {adjustingPart?.part_number} - {adjustingPart?.name} (estoque atual: {adjustingPart?.stock_quantity})
+            </DialogDescription>
+          </DialogHeader>
+          <form onSubmit={handleAdjustStock}>
+            <div className="space-y-4">
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="direction">Tipo</Label>
+                  <Select
+                    value={adjustForm.direction}
+                    onValueChange={(value: 'in' | 'out') => setAdjustForm(prev => ({ ...prev, direction: value }))}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="in">Entrada</SelectItem>
+                      <SelectItem value="out">Saída</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="quantity">Quantidade *</Label>
+                  <Input
+                    id="quantity"
+                    type="number"
+                    min="1"
+                    value={adjustForm.quantity}
+                    onChange={(e) => setAdjustForm(prev => ({ ...prev, quantity: e.target.value }))}
+                    required
+                  />
+                </div>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="reason">Motivo *</Label>
+                <Textarea
+                  id="reason"
+                  value={adjustForm.reason}
+                  onChange={(e) => setAdjustForm(prev => ({ ...prev, reason: e.target.value }))}
+                  placeholder="Ex: Recebimento NF 1234, inventário físico, avaria..."
+                  rows={2}
+                  required
+                />
+              </div>
+              {movements.length > 0 && (
+                <div className="space-y-2">
+                  <p className="text-sm font-medium">Últimas movimentações</p>
+                  <div className="max-h-40 overflow-y-auto space-y-1">
+                    {movements.map((movement) => (
+                      <div key={movement.id} className="flex items-center justify-between text-sm">
+                        <span className="text-muted-foreground truncate">
+                          {new Date(movement.created_at).toLocaleDateString('pt-BR')} - {movement.reason}
+                        </span>
+                        <span className={movement.quantity_change > 0 ? 'text-green-600' : 'text-red-600'}>
+                          {movement.quantity_change > 0 ? '+' : ''}{movement.quantity_change} ({movement.resulting_quantity})
+                        </span>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
+              <div className="flex justify-end space-x-2">
+                <Button type="button" variant="outline" onClick={() => setAdjustingPart(null)}>
+                  Cancelar
+                </Button>
+                <Button type="submit">
+                  Confirmar Ajuste
+                </Button>
+              </div>
+            </div>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default SparePartsManager;
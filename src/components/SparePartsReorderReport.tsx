@@ -0,0 +1,353 @@
+import React, { useState, useEffect } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useToast } from '@/hooks/use-toast';
+import { Json } from '@/integrations/supabase/types';
+import { addDays, format } from 'date-fns';
+import { ShoppingCart, FileText, FileSpreadsheet } from 'lucide-react';
+import { useExchangeRates } from '@/hooks/useExchangeRates';
+import { formatMoney } from '@/lib/currency';
+
+interface ReorderPart {
+  id: string;
+  name: string;
+  part_number: string;
+  supplier: string | null;
+  stock_quantity: number;
+  min_stock_level: number;
+  reorder_quantity: number;
+  unit_cost: number;
+  currency: string;
+}
+
+interface ReorderLine extends ReorderPart {
+  projected_demand: number;
+  projected_stock: number;
+  suggested_quantity: number;
+}
+
+interface SupplierGroup {
+  supplier: string;
+  lines: ReorderLine[];
+}
+
+const NO_SUPPLIER = 'Sem fornecedor';
+
+// Parts planned on the job itself win; otherwise the asset's bill of materials is expected
+const getPlannedParts = (partsUsed: Json | null): { part_id: string; quantity: number }[] => {
+  if (!Array.isArray(partsUsed)) return [];
+  return partsUsed
+    .filter((item): item is { [key: string]: Json } => !!item && typeof item === 'object' && !Array.isArray(item))
+    .map(item => ({ part_id: String(item.part_id || ''), quantity: Number(item.quantity) || 0 }))
+    .filter(item => item.part_id && item.quantity > 0);
+};
+
+const SparePartsReorderReport = () => {
+  const [groups, setGroups] = useState<SupplierGroup[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [horizonDays, setHorizonDays] = useState('30');
+  const { baseCurrency, toBase, formatBase } = useExchangeRates();
+  const { toast } = useToast();
+
+  useEffect(() => {
+    fetchReorderData();
+  }, [horizonDays]);
+
+  const fetchReorderData = async () => {
+    setLoading(true);
+    try {
+      const horizonDate = format(addDays(new Date(), parseInt(horizonDays)), 'yyyy-MM-dd');
+
+      const [partsResult, maintenanceResult, bomResult] = await Promise.all([
+        supabase
+          .from('spare_parts')
+          .select('id, name, part_number, supplier, stock_quantity, min_stock_level, reorder_quantity, unit_cost, currency')
+          .is('archived_at', null),
+        supabase
+          .from('asset_maintenance')
+          .select('id, asset_id, parts_used')
+          .eq('status', 'agendada')
+          .lte('scheduled_date', horizonDate),
+        supabase
+          .from('asset_parts')
+          .select('asset_id, part_id, quantity_required'),
+      ]);
+
+      if (partsResult.error) throw partsResult.error;
+      if (maintenanceResult.error) throw maintenanceResult.error;
+      if (bomResult.error) throw bomResult.error;
+
+      const demand: Record<string, number> = {};
+      maintenanceResult.data?.forEach(maintenance => {
+        const planned = getPlannedParts(maintenance.parts_used);
+        const expected = planned.length > 0
+          ? planned
+          : (bomResult.data || [])
+              .filter(item => item.asset_id === maintenance.asset_id)
+              .map(item => ({ part_id: item.part_id, quantity: item.quantity_required }));
+
+        expected.forEach(item => {
+          demand[item.part_id] = (demand[item.part_id] || 0) + item.quantity;
+        });
+      });
+
+      const lines: ReorderLine[] = (partsResult.data || [])
+        .map(part => {
+          const projectedDemand = demand[part.id] || 0;
+          const projectedStock = part.stock_quantity - projectedDemand;
+          const needsReorder = projectedStock < part.min_stock_level ||
+            (part.min_stock_level > 0 && projectedStock <= part.min_stock_level);
+          return {
+            ...part,
+            projected_demand: projectedDemand,
+            projected_stock: projectedStock,
+            suggested_quantity: needsReorder
+              ? Math.max(part.reorder_quantity, part.min_stock_level - projectedStock, 1)
+              : 0,
+          };
+        })
+        .filter(line => line.suggested_quantity > 0);
+
+      const bySupplier: Record<string, ReorderLine[]> = {};
+      lines.forEach(line => {
+        const supplier = line.supplier || NO_SUPPLIER;
+        bySupplier[supplier] = [...(bySupplier[supplier] || []), line];
+      });
+
+      setGroups(
+        Object.keys(bySupplier)
+          .sort((a, b) => a.localeCompare(b, 'pt-BR'))
+          .map(supplier => ({
+            supplier,
+            lines: bySupplier[supplier].sort((a, b) => a.name.localeCompare(b.name, 'pt-BR')),
+          }))
+      );
+    } catch (error) {
+      console.error('Error fetching reorder data:', error);
+      toast({
+        title: "Erro",
+        description: "Erro ao calcular sugestões de compra.",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Purchases are still to be made, so foreign parts convert at today's rate
+  const today = format(new Date(), 'yyyy-MM-dd');
+  const getLineCost = (line: ReorderLine) => line.suggested_quantity * line.unit_cost;
+  const getLineCostInBase = (line: ReorderLine) => toBase(getLineCost(line), line.currency, today);
+  const getGroupTotal = (group: SupplierGroup) =>
+    group.lines.reduce((sum, line) => sum + (getLineCostInBase(line) ?? 0), 0);
+
+  const grandTotal = groups.reduce((sum, group) => sum + getGroupTotal(group), 0);
+  const unconvertedCount = groups.reduce(
+    (count, group) => count + group.lines.filter(line => getLineCostInBase(line) === null).length,
+    0
+  );
+
+  const handleExportCSV = () => {
+    const headers = ['Fornecedor', 'Código', 'Peça', 'Estoque Atual', 'Demanda Prevista', 'Estoque Projetado', 'Estoque Mínimo', 'Quantidade Sugerida', 'Moeda', 'Custo Unitário', 'Custo Total', `Custo Total (${baseCurrency})`];
+    const csvRows = [headers.join(',')];
+
+    groups.forEach(group => {
+      group.lines.forEach(line => {
+        const row = [
+          `"${group.supplier}"`,
+          `"${line.part_number}"`,
+          `"${line.name}"`,
+          line.stock_quantity,
+          line.projected_demand,
+          line.projected_stock,
+          line.min_stock_level,
+          line.suggested_quantity,
+          line.currency,
+          line.unit_cost.toFixed(2),
+          getLineCost(line).toFixed(2),
+          getLineCostInBase(line)?.toFixed(2) ?? ''
+        ];
+        csvRows.push(row.join(','));
+      });
+    });
+
+    const csvContent = csvRows.join('\n');
+    const blob = new Blob([csvContent], { type: 'text/csv;charset=utf-8;' });
+    const link = document.createElement("a");
+    const url = URL.createObjectURL(blob);
+    link.setAttribute("href", url);
+    link.setAttribute("download", "sugestao-compra-pecas.csv");
+    link.style.visibility = 'hidden';
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+
+    toast({ title: "Sucesso", description: "CSV exportado com sucesso!" });
+  };
+
+  const handleExportPDF = async () => {
+    try {
+      const { jsPDF } = await import('jspdf');
+      const doc = new jsPDF();
+
+      // Cabeçalho
+      doc.setFontSize(18);
+      doc.text('Sugestão de Compra de Peças - AssetFlow', 20, 20);
+      doc.setFontSize(10);
+      doc.text(`Data: ${new Date().toLocaleDateString('pt-BR')} - Demanda prevista para ${horizonDays} dias`, 20, 28);
+
+      let yPosition = 42;
+      groups.forEach(group => {
+        if (yPosition > 260) {
+          doc.addPage();
+          yPosition = 20;
+        }
+
+        doc.setFontSize(13);
+        doc.text(group.supplier, 20, yPosition);
+        yPosition += 8;
+
+        doc.setFontSize(9);
+        doc.text('Código', 20, yPosition);
+        doc.text('Peça', 50, yPosition);
+        doc.text('Estoque', 115, yPosition);
+        doc.text('Demanda', 135, yPosition);
+        doc.text('Comprar', 155, yPosition);
+        doc.text('Total', 175, yPosition);
+        yPosition += 6;
+
+        group.lines.forEach(line => {
+          if (yPosition > 280) {
+            doc.addPage();
+            yPosition = 20;
+          }
+          doc.text(line.part_number.substring(0, 15), 20, yPosition);
+          doc.text(line.name.substring(0, 35), 50, yPosition);
+          doc.text(String(line.stock_quantity), 115, yPosition);
+          doc.text(String(line.projected_demand), 135, yPosition);
+          doc.text(String(line.suggested_quantity), 155, yPosition);
+          doc.text(formatMoney(getLineCost(line), line.currency), 175, yPosition);
+          yPosition += 6;
+        });
+
+        doc.setFontSize(10);
+        doc.text(`Subtotal: ${formatBase(getGroupTotal(group))}`, 140, yPosition + 2);
+        yPosition += 14;
+      });
+
+      doc.setFontSize(12);
+      doc.text(`Total geral: ${formatBase(grandTotal)}`, 20, yPosition);
+
+      doc.save('sugestao-compra-pecas.pdf');
+      toast({ title: "Sucesso", description: "PDF exportado com sucesso!" });
+    } catch (error) {
+      console.error('Error exporting reorder PDF:', error);
+      toast({ title: "Erro", description: "Erro ao exportar PDF", variant: "destructive" });
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div className="space-y-1.5">
+          <CardTitle className="flex items-center gap-2">
+            <ShoppingCart className="h-5 w-5" />
+            Sugestão de Compra
+          </CardTitle>
+          <CardDescription>
+            Peças abaixo do estoque mínimo considerando as manutenções agendadas
+          </CardDescription>
+        </div>
+        <div className="flex items-center gap-2">
+          <Button variant="outline" size="sm" onClick={handleExportPDF} disabled={groups.length === 0}>
+            <FileText className="h-4 w-4 mr-2" />
+            Exportar PDF
+          </Button>
+          <Button variant="outline" size="sm" onClick={handleExportCSV} disabled={groups.length === 0}>
+            <FileSpreadsheet className="h-4 w-4 mr-2" />
+            Exportar CSV
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="flex items-center gap-2">
+          <Label>Manutenções agendadas até</Label>
+          <Select value={horizonDays} onValueChange={setHorizonDays}>
+            <SelectTrigger className="w-40">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="30">30 dias</SelectItem>
+              <SelectItem value="60">60 dias</SelectItem>
+              <SelectItem value="90">90 dias</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+
+        {loading ? (
+          <div className="flex justify-center p-8">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+          </div>
+        ) : groups.length === 0 ? (
+          <p className="text-center text-muted-foreground py-8">
+            Nenhuma peça precisa de reposição.
+          </p>
+        ) : (
+          <>
+            {groups.map((group) => (
+              <div key={group.supplier} className="space-y-2">
+                <div className="flex items-center justify-between">
+                  <h3 className="font-semibold">{group.supplier}</h3>
+                  <span className="text-sm text-muted-foreground">Subtotal: {formatBase(getGroupTotal(group))}</span>
+                </div>
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Código</TableHead>
+                      <TableHead>Peça</TableHead>
+                      <TableHead className="text-right">Estoque</TableHead>
+                      <TableHead className="text-right">Demanda Prevista</TableHead>
+                      <TableHead className="text-right">Mínimo</TableHead>
+                      <TableHead className="text-right">Comprar</TableHead>
+                      <TableHead className="text-right">Custo</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {group.lines.map((line) => (
+                      <TableRow key={line.id}>
+                        <TableCell>
+                          <Badge variant="outline">{line.part_number}</Badge>
+                        </TableCell>
+                        <TableCell className="font-medium">{line.name}</TableCell>
+                        <TableCell className="text-right">{line.stock_quantity}</TableCell>
+                        <TableCell className="text-right">{line.projected_demand}</TableCell>
+                        <TableCell className="text-right">{line.min_stock_level}</TableCell>
+                        <TableCell className="text-right font-semibold">{line.suggested_quantity}</TableCell>
+                        <TableCell className="text-right">{formatMoney(getLineCost(line), line.currency)}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            ))}
+            <div className="flex flex-col items-end">
+              <span className="font-semibold">Total geral: {formatBase(grandTotal)}</span>
+              {unconvertedCount > 0 && (
+                <span className="text-xs text-orange-600">
+                  {unconvertedCount} {unconvertedCount === 1 ? 'peça sem cotação' : 'peças sem cotação'} de câmbio fora do total
+                </span>
+              )}
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default SparePartsReorderReport;
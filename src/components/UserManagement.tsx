@@ -1,5 +1,6 @@
 import { useState, useEffect } from 'react';
 import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/components/AuthProvider';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -9,14 +10,19 @@ import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Textarea } from '@/components/ui/textarea';
+import { Badge } from '@/components/ui/badge';
 import { toast } from '@/hooks/use-toast';
-import { Users, Building2, Package, Plus, Edit, Trash2, Building } from 'lucide-react';
+import { Users, Building2, Package, Plus, Edit, Trash2, Building, KeyRound, UserX, UserCheck, Mail } from 'lucide-react';
+import { format } from 'date-fns';
+import { ptBR } from 'date-fns/locale';
+import { CURRENCIES, CURRENCY_LABELS, DEFAULT_CURRENCY } from '@/lib/currency';
 import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from '@/components/ui/alert-dialog';
 
 interface Company {
   id: string;
   name: string;
   description: string;
+  base_currency: string;
   created_at: string;
   updated_at: string;
 }
@@ -29,9 +35,20 @@ interface Profile {
   department_id: string | null;
   unit_id: string | null;
   company_id: string | null;
+  deactivated_at: string | null;
   created_at: string;
 }
 
+interface Invitation {
+  id: string;
+  email: string;
+  full_name: string | null;
+  role: string;
+  department_id: string | null;
+  unit_id: string | null;
+  last_sent_at: string;
+}
+
 interface Department {
   id: string;
   name: string;
@@ -49,9 +66,49 @@ interface Unit {
   departments?: { name: string };
 }
 
+const USER_ADMIN_ERRORS: Record<string, string> = {
+  'Permission denied': 'Somente administradores podem gerenciar usuários.',
+  'User already registered': 'Já existe um usuário com este email.',
+  'User already a member': 'Este usuário já faz parte desta empresa.',
+  'Password too short': 'A senha deve ter no mínimo 6 caracteres.',
+  'Invalid department': 'O departamento não pertence a esta empresa.',
+  'Invalid unit': 'A unidade não pertence ao departamento selecionado.',
+  'Cannot change your own role': 'Você não pode alterar o seu próprio cargo.',
+  'Cannot deactivate yourself': 'Você não pode desativar a sua própria conta.',
+  'User not found': 'Usuário não encontrado nesta empresa.',
+  'User belongs to another company': 'Este usuário também pertence a outra empresa; só ele pode alterar a própria senha.',
+  'Invitation already pending': 'Já existe um convite pendente para este email.',
+  'Invitation not found': 'Convite não encontrado ou já utilizado.',
+};
+
+const ROLE_LABELS: Record<string, string> = {
+  admin: 'Administrador',
+  manager: 'Gerente',
+  user: 'Usuário',
+};
+
+// Where the invitation email lands; must be listed in the auth redirect URLs
+const acceptInviteUrl = () => `${window.location.origin}/accept-invite`;
+
+// Accounts are managed by the manage-users edge function, which holds the
+// service role key; the browser only has the anon key
+const manageUsers = async (body: Record<string, unknown>) => {
+  const { data, error } = await supabase.functions.invoke('manage-users', { body });
+  if (error) {
+    const details = await error.context?.json?.().catch(() => null);
+    throw new Error(details?.error || error.message);
+  }
+  return data;
+};
+
+const userAdminErrorMessage = (error: unknown, fallback: string) =>
+  USER_ADMIN_ERRORS[(error as Error)?.message] || fallback;
+
 const UserManagement = () => {
+  const { user } = useAuth();
   const [companies, setCompanies] = useState<Company[]>([]);
   const [profiles, setProfiles] = useState<Profile[]>([]);
+  const [invitations, setInvitations] = useState<Invitation[]>([]);
   const [departments, setDepartments] = useState<Department[]>([]);
   const [units, setUnits] = useState<Unit[]>([]);
   const [loading, setLoading] = useState(true);
@@ -63,11 +120,14 @@ const UserManagement = () => {
   const [isUnitDialogOpen, setIsUnitDialogOpen] = useState(false);
   const [isUserDialogOpen, setIsUserDialogOpen] = useState(false);
   const [isCompanyDialogOpen, setIsCompanyDialogOpen] = useState(false);
+  const [passwordProfile, setPasswordProfile] = useState<Profile | null>(null);
+  const [newPassword, setNewPassword] = useState('');
 
   // Form states
   const [companyForm, setCompanyForm] = useState({
     name: '',
-    description: ''
+    description: '',
+    base_currency: DEFAULT_CURRENCY
   });
 
   const [departmentForm, setDepartmentForm] = useState({
@@ -84,6 +144,7 @@ const UserManagement = () => {
   });
 
   const [userForm, setUserForm] = useState({
+    access: 'invite' as 'invite' | 'password',
     email: '',
     password: '',
     full_name: '',
@@ -116,6 +177,19 @@ const UserManagement = () => {
 
       if (profilesError) throw profilesError;
 
+      // Role, department, unit and status are per company; the profile only
+      // mirrors the company the person is working in right now
+      const { data: activeCompanyId, error: companyIdError } = await supabase.rpc('current_user_company_id');
+
+      if (companyIdError) throw companyIdError;
+
+      const { data: memberships, error: membershipsError } = await supabase
+        .from('company_members')
+        .select('user_id, role, department_id, unit_id, deactivated_at')
+        .eq('company_id', activeCompanyId);
+
+      if (membershipsError) throw membershipsError;
+
       // Fetch departments
       const { data: departmentsData, error: departmentsError } = await supabase
         .from('departments')
@@ -137,10 +211,30 @@ const UserManagement = () => {
 
       if (unitsError) throw unitsError;
 
+      // Pending invitations of the active company
+      const { data: invitationsData, error: invitationsError } = await supabase
+        .from('user_invitations')
+        .select('id, email, full_name, role, department_id, unit_id, last_sent_at')
+        .is('accepted_at', null)
+        .is('revoked_at', null)
+        .order('created_at', { ascending: false });
+
+      if (invitationsError) throw invitationsError;
+
       setCompanies(companiesData || []);
-      setProfiles(profilesData || []);
+      setProfiles((profilesData || []).map(profile => {
+        const membership = memberships?.find(m => m.user_id === profile.user_id);
+        return membership ? {
+          ...profile,
+          role: membership.role,
+          department_id: membership.department_id,
+          unit_id: membership.unit_id,
+          deactivated_at: membership.deactivated_at,
+        } : { ...profile, deactivated_at: null };
+      }));
       setDepartments(departmentsData || []);
       setUnits(unitsData || []);
+      setInvitations(invitationsData || []);
     } catch (error) {
       console.error('Error fetching data:', error);
       toast({
@@ -153,19 +247,17 @@ const UserManagement = () => {
     }
   };
 
-  const handleUpdateProfile = async (profileData: { department_id: string | null; unit_id: string | null }) => {
+  const handleUpdateProfile = async (profileData: { role: string; department_id: string | null; unit_id: string | null }) => {
     if (!selectedProfile) return;
 
     try {
-      const { error } = await supabase
-        .from('profiles')
-        .update({
-          department_id: profileData.department_id === 'unassigned' ? null : profileData.department_id,
-          unit_id: profileData.unit_id === 'unassigned' ? null : profileData.unit_id
-        })
-        .eq('user_id', selectedProfile.user_id);
-
-      if (error) throw error;
+      await manageUsers({
+        action: 'update',
+        user_id: selectedProfile.user_id,
+        role: profileData.role,
+        department_id: profileData.department_id === 'unassigned' ? null : profileData.department_id,
+        unit_id: profileData.unit_id === 'unassigned' ? null : profileData.unit_id
+      });
 
       toast({
         title: "Sucesso",
@@ -179,7 +271,7 @@ const UserManagement = () => {
       console.error('Error updating profile:', error);
       toast({
         title: "Erro",
-        description: "Erro ao atualizar usuário.",
+        description: userAdminErrorMessage(error, "Erro ao atualizar usuário."),
         variant: "destructive",
       });
     }
@@ -200,7 +292,8 @@ const UserManagement = () => {
         .from('companies')
         .insert({
           name: companyForm.name.trim(),
-          description: companyForm.description?.trim() || null
+          description: companyForm.description?.trim() || null,
+          base_currency: companyForm.base_currency
         });
 
       if (error) throw error;
@@ -210,7 +303,7 @@ const UserManagement = () => {
         description: "Empresa criada com sucesso.",
       });
 
-      setCompanyForm({ name: '', description: '' });
+      setCompanyForm({ name: '', description: '', base_currency: DEFAULT_CURRENCY });
       setIsCompanyDialogOpen(false);
       fetchData();
     } catch (error) {
@@ -321,7 +414,8 @@ const UserManagement = () => {
   };
 
   const handleCreateUser = async () => {
-    if (!userForm.email || !userForm.password || !userForm.full_name) {
+    const needsPassword = userForm.access === 'password';
+    if (!userForm.email || !userForm.full_name || (needsPassword && !userForm.password)) {
       toast({
         title: "Erro",
         description: "Preencha todos os campos obrigatórios",
@@ -331,61 +425,111 @@ const UserManagement = () => {
     }
 
     try {
-      // Create user account through Supabase Auth Admin API
-      const { data: authData, error: authError } = await supabase.auth.admin.createUser({
+      const result = await manageUsers({
+        action: needsPassword ? 'create' : 'invite',
         email: userForm.email,
-        password: userForm.password,
-        email_confirm: true,
-        user_metadata: {
-          full_name: userForm.full_name,
-        }
+        password: needsPassword ? userForm.password : undefined,
+        full_name: userForm.full_name,
+        role: userForm.role,
+        department_id: userForm.department_id || null,
+        unit_id: userForm.unit_id || null,
+        redirect_to: acceptInviteUrl(),
       });
 
-      if (authError) throw authError;
-
-      if (authData.user) {
-        // Get current user's company_id for new user
-        const { data: currentProfile } = await supabase
-          .from('profiles')
-          .select('company_id')
-          .eq('user_id', (await supabase.auth.getUser()).data.user?.id)
-          .single();
-
-        // Create profile for new user
-        const { error: profileError } = await supabase
-          .from('profiles')
-          .insert({
-            user_id: authData.user.id,
-            full_name: userForm.full_name,
-            role: userForm.role,
-            department_id: userForm.department_id || null,
-            unit_id: userForm.unit_id || null,
-            company_id: currentProfile?.company_id || null,
-          });
-
-        if (profileError) throw profileError;
-
-        toast({
-          title: "Sucesso",
-          description: "Usuário criado com sucesso!",
-        });
+      // An email that already has an account is invited instead of created
+      const description = !needsPassword
+        ? "Convite enviado para o email do usuário."
+        : result?.invitation_id
+          ? "Este email já tem uma conta; enviamos um convite para entrar nesta empresa."
+          : "Usuário criado com sucesso!";
 
-        setUserForm({
-          email: '',
-          password: '',
-          full_name: '',
-          role: 'user',
-          department_id: '',
-          unit_id: ''
-        });
-        setIsUserDialogOpen(false);
-        fetchData();
-      }
-    } catch (error: any) {
+      toast({
+        title: "Sucesso",
+        description,
+      });
+
+      setUserForm({
+        access: 'invite',
+        email: '',
+        password: '',
+        full_name: '',
+        role: 'user',
+        department_id: '',
+        unit_id: ''
+      });
+      setIsUserDialogOpen(false);
+      fetchData();
+    } catch (error) {
       console.error('Erro ao criar usuário:', error);
       toast({
         title: "Erro",
-        description: error.message || "Erro ao criar usuário",
+        description: userAdminErrorMessage(error, "Erro ao criar usuário"),
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleToggleActive = async (profile: Profile) => {
+    const deactivate = !profile.deactivated_at;
+    try {
+      await manageUsers({ action: deactivate ? 'deactivate' : 'reactivate', user_id: profile.user_id });
+
+      toast({
+        title: "Sucesso",
+        description: deactivate ? "Usuário desativado." : "Usuário reativado.",
+      });
+      fetchData();
+    } catch (error) {
+      console.error('Error changing user status:', error);
+      toast({
+        title: "Erro",
+        description: userAdminErrorMessage(error, "Erro ao alterar o status do usuário."),
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleResetPassword = async () => {
+    if (!passwordProfile) return;
+
+    try {
+      await manageUsers({ action: 'reset_password', user_id: passwordProfile.user_id, password: newPassword });
+
+      toast({
+        title: "Sucesso",
+        description: "Senha redefinida. Informe a nova senha ao usuário.",
+      });
+      setPasswordProfile(null);
+      setNewPassword('');
+    } catch (error) {
+      console.error('Error resetting password:', error);
+      toast({
+        title: "Erro",
+        description: userAdminErrorMessage(error, "Erro ao redefinir senha."),
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleInvitation = async (invitation: Invitation, action: 'resend_invite' | 'revoke_invite') => {
+    try {
+      await manageUsers({ action, invitation_id: invitation.id, redirect_to: acceptInviteUrl() });
+
+      toast({
+        title: "Sucesso",
+        description: action === 'resend_invite'
+          ? `Convite reenviado para ${invitation.email}.`
+          : "Convite revogado.",
+      });
+      fetchData();
+    } catch (error) {
+      console.error('Error updating invitation:', error);
+      toast({
+        title: "Erro",
+        description: userAdminErrorMessage(
+          error,
+          action === 'resend_invite' ? "Erro ao reenviar convite." : "Erro ao revogar convite."
+        ),
         variant: "destructive",
       });
     }
@@ -467,6 +611,21 @@ const UserManagement = () => {
                     </DialogDescription>
                   </DialogHeader>
                   <div className="space-y-4">
+                    <div className="space-y-2">
+                      <Label htmlFor="user-access">Acesso</Label>
+                      <Select
+                        value={userForm.access}
+                        onValueChange={(value: 'invite' | 'password') => setUserForm({...userForm, access: value})}
+                      >
+                        <SelectTrigger id="user-access">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="invite">Enviar convite por email</SelectItem>
+                          <SelectItem value="password">Definir senha agora</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    </div>
                     <div className="space-y-2">
                       <Label htmlFor="user-email">Email *</Label>
                       <Input
@@ -477,16 +636,18 @@ const UserManagement = () => {
                         placeholder="usuario@exemplo.com"
                       />
                     </div>
-                    <div className="space-y-2">
-                      <Label htmlFor="user-password">Senha *</Label>
-                      <Input
-                        id="user-password"
-                        type="password"
-                        value={userForm.password}
-                        onChange={(e) => setUserForm({...userForm, password: e.target.value})}
-                        placeholder="Mínimo 6 caracteres"
-                      />
-                    </div>
+                    {userForm.access === 'password' && (
+                      <div className="space-y-2">
+                        <Label htmlFor="user-password">Senha *</Label>
+                        <Input
+                          id="user-password"
+                          type="password"
+                          value={userForm.password}
+                          onChange={(e) => setUserForm({...userForm, password: e.target.value})}
+                          placeholder="Mínimo 6 caracteres"
+                        />
+                      </div>
+                    )}
                     <div className="space-y-2">
                       <Label htmlFor="user-name">Nome Completo *</Label>
                       <Input
@@ -559,7 +720,7 @@ const UserManagement = () => {
                         Cancelar
                       </Button>
                       <Button onClick={handleCreateUser}>
-                        Criar Usuário
+                        {userForm.access === 'invite' ? 'Enviar Convite' : 'Criar Usuário'}
                       </Button>
                     </div>
                   </div>
@@ -574,6 +735,7 @@ const UserManagement = () => {
                     <TableHead>Função</TableHead>
                     <TableHead>Departamento</TableHead>
                     <TableHead>Unidade</TableHead>
+                    <TableHead>Status</TableHead>
                     <TableHead>Ações</TableHead>
                   </TableRow>
                 </TableHeader>
@@ -587,6 +749,11 @@ const UserManagement = () => {
                       <TableCell>{getDepartmentName(profile.department_id)}</TableCell>
                       <TableCell>{getUnitName(profile.unit_id)}</TableCell>
                       <TableCell>
+                        <Badge variant={profile.deactivated_at ? 'destructive' : 'secondary'}>
+                          {profile.deactivated_at ? 'Inativo' : 'Ativo'}
+                        </Badge>
+                      </TableCell>
+                      <TableCell className="flex items-center gap-2">
                         <Dialog open={isDialogOpen && selectedProfile?.id === profile.id} onOpenChange={setIsDialogOpen}>
                           <DialogTrigger asChild>
                             <Button
@@ -601,18 +768,32 @@ const UserManagement = () => {
                             <DialogHeader>
                               <DialogTitle>Editar Usuário</DialogTitle>
                               <DialogDescription>
-                                Atribua o usuário a um departamento e unidade
+                                Defina o cargo e atribua o usuário a um departamento e unidade
                               </DialogDescription>
                             </DialogHeader>
                             <form onSubmit={(e) => {
                               e.preventDefault();
                               const formData = new FormData(e.target as HTMLFormElement);
                               handleUpdateProfile({
+                                role: formData.get('role') as string,
                                 department_id: formData.get('department_id') as string,
                                 unit_id: formData.get('unit_id') as string
                               });
                             }}>
                               <div className="space-y-4">
+                                <div className="space-y-2">
+                                  <Label htmlFor="role">Cargo</Label>
+                                  <Select name="role" defaultValue={selectedProfile?.role || 'user'}>
+                                    <SelectTrigger>
+                                      <SelectValue />
+                                    </SelectTrigger>
+                                    <SelectContent>
+                                      <SelectItem value="user">Usuário</SelectItem>
+                                      <SelectItem value="manager">Gerente</SelectItem>
+                                      <SelectItem value="admin">Administrador</SelectItem>
+                                    </SelectContent>
+                                  </Select>
+                                </div>
                                 <div className="space-y-2">
                                   <Label htmlFor="department_id">Departamento</Label>
                                   <Select name="department_id" defaultValue={selectedProfile?.department_id || 'unassigned'}>
@@ -657,6 +838,49 @@ const UserManagement = () => {
                             </form>
                           </DialogContent>
                         </Dialog>
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          title="Redefinir senha"
+                          onClick={() => setPasswordProfile(profile)}
+                        >
+                          <KeyRound className="w-4 h-4" />
+                        </Button>
+                        {profile.user_id !== user?.id && (
+                          profile.deactivated_at ? (
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              title="Reativar usuário"
+                              onClick={() => handleToggleActive(profile)}
+                            >
+                              <UserCheck className="w-4 h-4" />
+                            </Button>
+                          ) : (
+                            <AlertDialog>
+                              <AlertDialogTrigger asChild>
+                                <Button variant="outline" size="sm" title="Desativar usuário">
+                                  <UserX className="w-4 h-4" />
+                                </Button>
+                              </AlertDialogTrigger>
+                              <AlertDialogContent>
+                                <AlertDialogHeader>
+                                  <AlertDialogTitle>Desativar usuário?</AlertDialogTitle>
+                                  <AlertDialogDescription>
+                                    {profile.full_name || 'O usuário'} perderá o acesso a esta empresa até ser reativado.
+                                    O histórico de ativos e manutenções é mantido.
+                                  </AlertDialogDescription>
+                                </AlertDialogHeader>
+                                <AlertDialogFooter>
+                                  <AlertDialogCancel>Cancelar</AlertDialogCancel>
+                                  <AlertDialogAction onClick={() => handleToggleActive(profile)}>
+                                    Desativar
+                                  </AlertDialogAction>
+                                </AlertDialogFooter>
+                              </AlertDialogContent>
+                            </AlertDialog>
+                          )
+                        )}
                       </TableCell>
                     </TableRow>
                   ))}
@@ -664,6 +888,125 @@ const UserManagement = () => {
               </Table>
             </CardContent>
           </Card>
+
+          {invitations.length > 0 && (
+            <Card>
+              <CardHeader>
+                <CardTitle>Convites Pendentes</CardTitle>
+                <CardDescription>
+                  Convites enviados que ainda não foram aceitos
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Email</TableHead>
+                      <TableHead>Função</TableHead>
+                      <TableHead>Departamento</TableHead>
+                      <TableHead>Unidade</TableHead>
+                      <TableHead>Último envio</TableHead>
+                      <TableHead>Ações</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {invitations.map((invitation) => (
+                      <TableRow key={invitation.id}>
+                        <TableCell>
+                          <div>{invitation.email}</div>
+                          {invitation.full_name && (
+                            <div className="text-xs text-muted-foreground">{invitation.full_name}</div>
+                          )}
+                        </TableCell>
+                        <TableCell>{ROLE_LABELS[invitation.role] || invitation.role}</TableCell>
+                        <TableCell>{getDepartmentName(invitation.department_id)}</TableCell>
+                        <TableCell>{getUnitName(invitation.unit_id)}</TableCell>
+                        <TableCell>
+                          {format(new Date(invitation.last_sent_at), "dd/MM/yyyy HH:mm", { locale: ptBR })}
+                        </TableCell>
+                        <TableCell className="flex items-center gap-2">
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            title="Reenviar convite"
+                            onClick={() => handleInvitation(invitation, 'resend_invite')}
+                          >
+                            <Mail className="w-4 h-4" />
+                          </Button>
+                          <AlertDialog>
+                            <AlertDialogTrigger asChild>
+                              <Button variant="outline" size="sm" title="Revogar convite">
+                                <Trash2 className="w-4 h-4" />
+                              </Button>
+                            </AlertDialogTrigger>
+                            <AlertDialogContent>
+                              <AlertDialogHeader>
+                                <AlertDialogTitle>Revogar convite?</AlertDialogTitle>
+                                <AlertDialogDescription>
+                                  O link enviado para {invitation.email} deixará de funcionar.
+                                </AlertDialogDescription>
+                              </AlertDialogHeader>
+                              <AlertDialogFooter>
+                                <AlertDialogCancel>Cancelar</AlertDialogCancel>
+                                <AlertDialogAction onClick={() => handleInvitation(invitation, 'revoke_invite')}>
+                                  Revogar
+                                </AlertDialogAction>
+                              </AlertDialogFooter>
+                            </AlertDialogContent>
+                          </AlertDialog>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </CardContent>
+            </Card>
+          )}
+
+          <Dialog
+            open={!!passwordProfile}
+            onOpenChange={(open) => {
+              if (!open) {
+                setPasswordProfile(null);
+                setNewPassword('');
+              }
+            }}
+          >
+            <DialogContent className="max-w-md">
+              <DialogHeader>
+                <DialogTitle>Redefinir Senha</DialogTitle>
+                <DialogDescription>
+                  Defina uma nova senha para {passwordProfile?.full_name || 'o usuário'}
+                </DialogDescription>
+              </DialogHeader>
+              <div className="space-y-4">
+                <div className="space-y-2">
+                  <Label htmlFor="new-password">Nova senha *</Label>
+                  <Input
+                    id="new-password"
+                    type="password"
+                    value={newPassword}
+                    onChange={(e) => setNewPassword(e.target.value)}
+                    placeholder="Mínimo 6 caracteres"
+                  />
+                </div>
+                <div className="flex justify-end gap-2 pt-4">
+                  <Button
+                    variant="outline"
+                    onClick={() => {
+                      setPasswordProfile(null);
+                      setNewPassword('');
+                    }}
+                  >
+                    Cancelar
+                  </Button>
+                  <Button onClick={handleResetPassword} disabled={newPassword.length < 6}>
+                    Redefinir
+                  </Button>
+                </div>
+              </div>
+            </DialogContent>
+          </Dialog>
         </TabsContent>
 
         <TabsContent value="companies" className="space-y-4">
@@ -702,6 +1045,22 @@ const UserManagement = () => {
                       placeholder="Descrição da empresa"
                     />
                   </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="company-currency">Moeda Base</Label>
+                    <Select
+                      value={companyForm.base_currency}
+                      onValueChange={(value) => setCompanyForm(prev => ({ ...prev, base_currency: value }))}
+                    >
+                      <SelectTrigger id="company-currency">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {CURRENCIES.map(currency => (
+                          <SelectItem key={currency} value={currency}>{CURRENCY_LABELS[currency]}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
                   <div className="flex justify-end space-x-2">
                     <Button type="button" variant="outline" onClick={() => setIsCompanyDialogOpen(false)}>
                       Cancelar
@@ -732,6 +1091,9 @@ const UserManagement = () => {
                     <p className="text-sm">
                       <strong>Usuários:</strong> {profiles.filter(p => p.company_id === company.id).length}
                     </p>
+                    <p className="text-sm">
+                      <strong>Moeda base:</strong> {company.base_currency}
+                    </p>
                   </div>
                 </CardContent>
               </Card>
@@ -0,0 +1,39 @@
+import { useCallback, useEffect, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { convertAmount, DEFAULT_CURRENCY, ExchangeRate, formatMoney } from '@/lib/currency';
+
+// Base currency of the user's company and the rate table, to report amounts in one currency
+export const useExchangeRates = () => {
+  const [baseCurrency, setBaseCurrency] = useState(DEFAULT_CURRENCY);
+  const [rates, setRates] = useState<ExchangeRate[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    const fetchRates = async () => {
+      const [baseResult, ratesResult] = await Promise.all([
+        supabase.rpc('get_base_currency'),
+        supabase.from('exchange_rates').select('currency, base_currency, rate_date, rate'),
+      ]);
+
+      if (baseResult.error) console.error('Error fetching base currency:', baseResult.error);
+      if (ratesResult.error) console.error('Error fetching exchange rates:', ratesResult.error);
+
+      setBaseCurrency(baseResult.data || DEFAULT_CURRENCY);
+      setRates(ratesResult.data || []);
+      setLoading(false);
+    };
+
+    fetchRates();
+  }, []);
+
+  // Amount in the base currency at the rate of the transaction date, null without a known rate
+  const toBase = useCallback(
+    (amount: number, currency: string | null | undefined, date: string) =>
+      convertAmount(rates, amount, currency || DEFAULT_CURRENCY, baseCurrency, date),
+    [rates, baseCurrency]
+  );
+
+  const formatBase = useCallback((value: number) => formatMoney(value, baseCurrency), [baseCurrency]);
+
+  return { baseCurrency, rates, loading, toBase, formatBase };
+};
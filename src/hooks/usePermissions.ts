@@ -0,0 +1,56 @@
+import { useCallback, useEffect, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/components/AuthProvider';
+
+export type UserRole = 'admin' | 'manager' | 'user';
+
+// What the signed-in user may do, mirroring the database policies so the UI
+// only offers actions that will be accepted. The database still decides.
+export const usePermissions = () => {
+  const { user } = useAuth();
+  const [role, setRole] = useState<UserRole>('user');
+  const [departmentId, setDepartmentId] = useState<string | null>(null);
+  const [companyId, setCompanyId] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    if (!user) return;
+
+    supabase
+      .from('profiles')
+      .select('role, department_id, company_id')
+      .eq('user_id', user.id)
+      .maybeSingle()
+      .then(({ data, error }) => {
+        if (error) console.error('Error fetching permissions:', error);
+        setRole((data?.role as UserRole) || 'user');
+        setDepartmentId(data?.department_id || null);
+        setCompanyId(data?.company_id || null);
+        setLoading(false);
+      });
+  }, [user]);
+
+  const isAdmin = role === 'admin';
+  const isManager = role === 'manager';
+
+  // Same rule as can_manage_asset: admins any asset, managers their own department
+  const canManageAsset = useCallback(
+    (assetDepartmentId: string | null | undefined) =>
+      isAdmin || (isManager && !!departmentId && assetDepartmentId === departmentId),
+    [isAdmin, isManager, departmentId]
+  );
+
+  return {
+    role,
+    departmentId,
+    // Active company; everything the user sees and edits belongs to it
+    companyId,
+    loading,
+    isAdmin,
+    // Create assets, manage spare parts, disposals and any maintenance record
+    canManageAssets: isAdmin || isManager,
+    canManageAsset,
+    // Company, departments, units, categories and user assignments
+    canManageOrganization: isAdmin,
+  };
+};
@@ -22,7 +22,7 @@ export type Database = {
           id: string
           new_data: Json | null
           old_data: Json | null
-          user_id: string
+          user_id: string | null
         }
         Insert: {
           action: string
@@ -31,7 +31,7 @@ export type Database = {
           id?: string
           new_data?: Json | null
           old_data?: Json | null
-          user_id: string
+          user_id?: string | null
         }
         Update: {
           action?: string
@@ -40,44 +40,132 @@ export type Database = {
           id?: string
           new_data?: Json | null
           old_data?: Json | null
-          user_id?: string
+          user_id?: string | null
         }
         Relationships: []
       }
+      asset_depreciation_entries: {
+        Row: {
+          accumulated_depreciation: number
+          asset_id: string
+          charge: number
+          closing_value: number
+          company_id: string
+          created_at: string
+          currency: string
+          exchange_rate: number
+          fiscal_accumulated_depreciation: number
+          fiscal_charge: number
+          fiscal_rate: number | null
+          id: string
+          method: string
+          opening_value: number
+          period: string
+          valuation_adjustment: number
+        }
+        Insert: {
+          accumulated_depreciation: number
+          asset_id: string
+          charge: number
+          closing_value: number
+          company_id: string
+          created_at?: string
+          currency?: string
+          exchange_rate?: number
+          fiscal_accumulated_depreciation?: number
+          fiscal_charge?: number
+          fiscal_rate?: number | null
+          id?: string
+          method: string
+          opening_value: number
+          period: string
+          valuation_adjustment?: number
+        }
+        Update: {
+          accumulated_depreciation?: number
+          asset_id?: string
+          charge?: number
+          closing_value?: number
+          company_id?: string
+          created_at?: string
+          currency?: string
+          exchange_rate?: number
+          fiscal_accumulated_depreciation?: number
+          fiscal_charge?: number
+          fiscal_rate?: number | null
+          id?: string
+          method?: string
+          opening_value?: number
+          period?: string
+          valuation_adjustment?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "asset_depreciation_entries_asset_id_fkey"
+            columns: ["asset_id"]
+            isOneToOne: false
+            referencedRelation: "assets"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "asset_depreciation_entries_company_id_fkey"
+            columns: ["company_id"]
+            isOneToOne: false
+            referencedRelation: "companies"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "asset_depreciation_entries_company_period_fkey"
+            columns: ["company_id", "period"]
+            isOneToOne: false
+            referencedRelation: "depreciation_periods"
+            referencedColumns: ["company_id", "period"]
+          },
+        ]
+      }
       asset_disposal: {
         Row: {
           asset_id: string
+          book_value: number | null
           buyer_info: string | null
           certificate_url: string | null
           created_at: string
           disposal_date: string
           disposal_method: string
           disposal_reason: string
+          disposed_by: string | null
           environmental_compliance: boolean | null
+          gain_loss: number | null
           id: string
           sale_value: number | null
         }
         Insert: {
           asset_id: string
+          book_value?: number | null
           buyer_info?: string | null
           certificate_url?: string | null
           created_at?: string
           disposal_date: string
           disposal_method: string
           disposal_reason: string
+          disposed_by?: string | null
           environmental_compliance?: boolean | null
+          gain_loss?: number | null
           id?: string
           sale_value?: number | null
         }
         Update: {
           asset_id?: string
+          book_value?: number | null
           buyer_info?: string | null
           certificate_url?: string | null
           created_at?: string
           disposal_date?: string
           disposal_method?: string
           disposal_reason?: string
+          disposed_by?: string | null
           environmental_compliance?: boolean | null
+          gain_loss?: number | null
           id?: string
           sale_value?: number | null
         }
@@ -91,52 +179,191 @@ export type Database = {
           },
         ]
       }
+      asset_imports: {
+        Row: {
+          company_id: string
+          created_at: string
+          created_by: string | null
+          file_name: string
+          id: string
+          imported_rows: number
+          mode: string
+          total_rows: number
+        }
+        Insert: {
+          company_id: string
+          created_at?: string
+          created_by?: string | null
+          file_name: string
+          id?: string
+          imported_rows?: number
+          mode?: string
+          total_rows?: number
+        }
+        Update: {
+          company_id?: string
+          created_at?: string
+          created_by?: string | null
+          file_name?: string
+          id?: string
+          imported_rows?: number
+          mode?: string
+          total_rows?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "asset_imports_company_id_fkey"
+            columns: ["company_id"]
+            isOneToOne: false
+            referencedRelation: "companies"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      asset_loans: {
+        Row: {
+          asset_id: string
+          borrower_id: string
+          checked_in_by: string | null
+          checked_out_at: string
+          checked_out_by: string | null
+          checkout_condition: string
+          checkout_notes: string | null
+          company_id: string
+          created_at: string
+          due_date: string
+          id: string
+          previous_assigned_to: string | null
+          return_condition: string | null
+          return_notes: string | null
+          return_photos: string[]
+          returned_at: string | null
+        }
+        Insert: {
+          asset_id: string
+          borrower_id: string
+          checked_in_by?: string | null
+          checked_out_at?: string
+          checked_out_by?: string | null
+          checkout_condition: string
+          checkout_notes?: string | null
+          company_id: string
+          created_at?: string
+          due_date: string
+          id?: string
+          previous_assigned_to?: string | null
+          return_condition?: string | null
+          return_notes?: string | null
+          return_photos?: string[]
+          returned_at?: string | null
+        }
+        Update: {
+          asset_id?: string
+          borrower_id?: string
+          checked_in_by?: string | null
+          checked_out_at?: string
+          checked_out_by?: string | null
+          checkout_condition?: string
+          checkout_notes?: string | null
+          company_id?: string
+          created_at?: string
+          due_date?: string
+          id?: string
+          previous_assigned_to?: string | null
+          return_condition?: string | null
+          return_notes?: string | null
+          return_photos?: string[]
+          returned_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "asset_loans_asset_id_fkey"
+            columns: ["asset_id"]
+            isOneToOne: false
+            referencedRelation: "assets"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "asset_loans_borrower_id_fkey"
+            columns: ["borrower_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["user_id"]
+          },
+          {
+            foreignKeyName: "asset_loans_company_id_fkey"
+            columns: ["company_id"]
+            isOneToOne: false
+            referencedRelation: "companies"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "asset_loans_previous_assigned_to_fkey"
+            columns: ["previous_assigned_to"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["user_id"]
+          },
+        ]
+      }
       asset_maintenance: {
         Row: {
           asset_id: string
+          company_id: string
           completed_date: string | null
           cost: number | null
           created_at: string
+          currency: string
           description: string
           id: string
+          labor_cost: number | null
           labor_hours: number | null
           maintenance_type: string
           next_maintenance_date: string | null
           parts_used: Json | null
           performed_by: string | null
           scheduled_date: string
+          search_vector: unknown | null
           status: string
           updated_at: string
         }
         Insert: {
           asset_id: string
+          company_id?: string
           completed_date?: string | null
           cost?: number | null
           created_at?: string
+          currency?: string
           description: string
           id?: string
+          labor_cost?: number | null
           labor_hours?: number | null
           maintenance_type: string
           next_maintenance_date?: string | null
           parts_used?: Json | null
           performed_by?: string | null
           scheduled_date: string
+          search_vector?: never
           status?: string
           updated_at?: string
         }
         Update: {
           asset_id?: string
+          company_id?: string
           completed_date?: string | null
           cost?: number | null
           created_at?: string
+          currency?: string
           description?: string
           id?: string
+          labor_cost?: number | null
           labor_hours?: number | null
           maintenance_type?: string
           next_maintenance_date?: string | null
           parts_used?: Json | null
           performed_by?: string | null
           scheduled_date?: string
+          search_vector?: never
           status?: string
           updated_at?: string
         }
@@ -148,6 +375,13 @@ export type Database = {
             referencedRelation: "assets"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "asset_maintenance_company_id_fkey"
+            columns: ["company_id"]
+            isOneToOne: false
+            referencedRelation: "companies"
+            referencedColumns: ["id"]
+          },
         ]
       }
       asset_parts: {
@@ -186,78 +420,171 @@ export type Database = {
           },
         ]
       }
+      asset_valuation_events: {
+        Row: {
+          asset_id: string
+          created_at: string
+          created_by: string | null
+          document_id: string | null
+          event_date: string
+          event_type: string
+          id: string
+          justification: string
+          new_book_value: number
+          previous_book_value: number
+          remaining_useful_life_years: number
+          units_used_at_event: number
+        }
+        Insert: {
+          asset_id: string
+          created_at?: string
+          created_by?: string | null
+          document_id?: string | null
+          event_date: string
+          event_type: string
+          id?: string
+          justification: string
+          new_book_value: number
+          previous_book_value: number
+          remaining_useful_life_years: number
+          units_used_at_event?: number
+        }
+        Update: {
+          asset_id?: string
+          created_at?: string
+          created_by?: string | null
+          document_id?: string | null
+          event_date?: string
+          event_type?: string
+          id?: string
+          justification?: string
+          new_book_value?: number
+          previous_book_value?: number
+          remaining_useful_life_years?: number
+          units_used_at_event?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "asset_valuation_events_asset_id_fkey"
+            columns: ["asset_id"]
+            isOneToOne: false
+            referencedRelation: "assets"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "asset_valuation_events_document_id_fkey"
+            columns: ["document_id"]
+            isOneToOne: false
+            referencedRelation: "documents"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       assets: {
         Row: {
           assigned_to: string | null
           category_id: string | null
           code: string
+          company_id: string
           created_at: string
           created_by: string | null
+          currency: string
           current_location: string | null
+          deleted_at: string | null
+          deleted_by: string | null
           department_id: string | null
+          depreciation_method: string | null
           description: string | null
           id: string
+          import_id: string | null
           latitude: number | null
           location_type: string | null
           longitude: number | null
           name: string
+          ncm: string | null
           purchase_date: string
           purchase_value: number
           residual_value: number | null
           rfid_id: string | null
+          search_vector: unknown | null
           serial_number: string | null
           status: string | null
+          total_units: number | null
           unit_id: string | null
+          units_used: number
           updated_at: string
           useful_life_years: number
+          work_shifts: number
         }
         Insert: {
           assigned_to?: string | null
           category_id?: string | null
           code: string
+          company_id?: string
           created_at?: string
           created_by?: string | null
+          currency?: string
           current_location?: string | null
+          deleted_at?: string | null
+          deleted_by?: string | null
           department_id?: string | null
+          depreciation_method?: string | null
           description?: string | null
           id?: string
+          import_id?: string | null
           latitude?: number | null
           location_type?: string | null
           longitude?: number | null
           name: string
+          ncm?: string | null
           purchase_date: string
           purchase_value: number
           residual_value?: number | null
           rfid_id?: string | null
+          search_vector?: never
           serial_number?: string | null
           status?: string | null
+          total_units?: number | null
           unit_id?: string | null
+          units_used?: number
           updated_at?: string
           useful_life_years?: number
+          work_shifts?: number
         }
         Update: {
           assigned_to?: string | null
           category_id?: string | null
           code?: string
+          company_id?: string
           created_at?: string
           created_by?: string | null
+          currency?: string
           current_location?: string | null
+          deleted_at?: string | null
+          deleted_by?: string | null
           department_id?: string | null
+          depreciation_method?: string | null
           description?: string | null
           id?: string
+          import_id?: string | null
           latitude?: number | null
           location_type?: string | null
           longitude?: number | null
           name?: string
+          ncm?: string | null
           purchase_date?: string
           purchase_value?: number
           residual_value?: number | null
           rfid_id?: string | null
+          search_vector?: never
           serial_number?: string | null
           status?: string | null
+          total_units?: number | null
           unit_id?: string | null
+          units_used?: number
           updated_at?: string
           useful_life_years?: number
+          work_shifts?: number
         }
         Relationships: [
           {
@@ -274,6 +601,13 @@ export type Database = {
             referencedRelation: "categories"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "assets_company_id_fkey"
+            columns: ["company_id"]
+            isOneToOne: false
+            referencedRelation: "companies"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "assets_department_id_fkey"
             columns: ["department_id"]
@@ -281,6 +615,13 @@ export type Database = {
             referencedRelation: "departments"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "assets_import_id_fkey"
+            columns: ["import_id"]
+            isOneToOne: false
+            referencedRelation: "asset_imports"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "assets_unit_id_fkey"
             columns: ["unit_id"]
@@ -292,27 +633,52 @@ export type Database = {
       }
       categories: {
         Row: {
+          company_id: string
           created_at: string
+          depreciation_method: string
           description: string | null
+          fiscal_rate_id: string | null
           id: string
           name: string
         }
         Insert: {
+          company_id?: string
           created_at?: string
+          depreciation_method?: string
           description?: string | null
+          fiscal_rate_id?: string | null
           id?: string
           name: string
         }
         Update: {
+          company_id?: string
           created_at?: string
+          depreciation_method?: string
           description?: string | null
+          fiscal_rate_id?: string | null
           id?: string
           name?: string
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "categories_company_id_fkey"
+            columns: ["company_id"]
+            isOneToOne: false
+            referencedRelation: "companies"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "categories_fiscal_rate_id_fkey"
+            columns: ["fiscal_rate_id"]
+            isOneToOne: false
+            referencedRelation: "fiscal_depreciation_rates"
+            referencedColumns: ["id"]
+          },
+        ]
       }
       companies: {
         Row: {
+          base_currency: string
           created_at: string
           description: string | null
           id: string
@@ -320,6 +686,7 @@ export type Database = {
           updated_at: string
         }
         Insert: {
+          base_currency?: string
           created_at?: string
           description?: string | null
           id?: string
@@ -327,6 +694,7 @@ export type Database = {
           updated_at?: string
         }
         Update: {
+          base_currency?: string
           created_at?: string
           description?: string | null
           id?: string
@@ -335,6 +703,61 @@ export type Database = {
         }
         Relationships: []
       }
+      company_members: {
+        Row: {
+          company_id: string
+          created_at: string
+          deactivated_at: string | null
+          department_id: string | null
+          id: string
+          role: string
+          unit_id: string | null
+          user_id: string
+        }
+        Insert: {
+          company_id: string
+          created_at?: string
+          deactivated_at?: string | null
+          department_id?: string | null
+          id?: string
+          role?: string
+          unit_id?: string | null
+          user_id: string
+        }
+        Update: {
+          company_id?: string
+          created_at?: string
+          deactivated_at?: string | null
+          department_id?: string | null
+          id?: string
+          role?: string
+          unit_id?: string | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "company_members_company_id_fkey"
+            columns: ["company_id"]
+            isOneToOne: false
+            referencedRelation: "companies"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "company_members_department_id_fkey"
+            columns: ["department_id"]
+            isOneToOne: false
+            referencedRelation: "departments"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "company_members_unit_id_fkey"
+            columns: ["unit_id"]
+            isOneToOne: false
+            referencedRelation: "units"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       departments: {
         Row: {
           budget: number | null
@@ -373,6 +796,50 @@ export type Database = {
           },
         ]
       }
+      depreciation_periods: {
+        Row: {
+          asset_count: number
+          base_currency: string
+          closed_at: string
+          closed_by: string | null
+          company_id: string
+          id: string
+          period: string
+          total_charge: number
+          total_fiscal_charge: number
+        }
+        Insert: {
+          asset_count?: number
+          base_currency?: string
+          closed_at?: string
+          closed_by?: string | null
+          company_id: string
+          id?: string
+          period: string
+          total_charge?: number
+          total_fiscal_charge?: number
+        }
+        Update: {
+          asset_count?: number
+          base_currency?: string
+          closed_at?: string
+          closed_by?: string | null
+          company_id?: string
+          id?: string
+          period?: string
+          total_charge?: number
+          total_fiscal_charge?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "depreciation_periods_company_id_fkey"
+            columns: ["company_id"]
+            isOneToOne: false
+            referencedRelation: "companies"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       documents: {
         Row: {
           asset_id: string | null
@@ -382,6 +849,7 @@ export type Database = {
           id: string
           mime_type: string | null
           name: string
+          search_vector: unknown | null
           type: string
           uploaded_by: string | null
         }
@@ -393,6 +861,7 @@ export type Database = {
           id?: string
           mime_type?: string | null
           name: string
+          search_vector?: never
           type: string
           uploaded_by?: string | null
         }
@@ -404,6 +873,7 @@ export type Database = {
           id?: string
           mime_type?: string | null
           name?: string
+          search_vector?: never
           type?: string
           uploaded_by?: string | null
         }
@@ -417,6 +887,83 @@ export type Database = {
           },
         ]
       }
+      exchange_rates: {
+        Row: {
+          base_currency: string
+          company_id: string
+          created_at: string
+          created_by: string | null
+          currency: string
+          id: string
+          rate: number
+          rate_date: string
+          source: string | null
+          updated_at: string
+        }
+        Insert: {
+          base_currency?: string
+          company_id?: string
+          created_at?: string
+          created_by?: string | null
+          currency: string
+          id?: string
+          rate: number
+          rate_date: string
+          source?: string | null
+          updated_at?: string
+        }
+        Update: {
+          base_currency?: string
+          company_id?: string
+          created_at?: string
+          created_by?: string | null
+          currency?: string
+          id?: string
+          rate?: number
+          rate_date?: string
+          source?: string | null
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "exchange_rates_company_id_fkey"
+            columns: ["company_id"]
+            isOneToOne: false
+            referencedRelation: "companies"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      fiscal_depreciation_rates: {
+        Row: {
+          annual_rate: number
+          created_at: string
+          description: string
+          id: string
+          ncm: string
+          updated_at: string
+          useful_life_years: number
+        }
+        Insert: {
+          annual_rate: number
+          created_at?: string
+          description: string
+          id?: string
+          ncm: string
+          updated_at?: string
+          useful_life_years: number
+        }
+        Update: {
+          annual_rate?: number
+          created_at?: string
+          description?: string
+          id?: string
+          ncm?: string
+          updated_at?: string
+          useful_life_years?: number
+        }
+        Relationships: []
+      }
       maintenance_parts: {
         Row: {
           cost_per_unit: number
@@ -550,41 +1097,112 @@ export type Database = {
         }
         Relationships: []
       }
+      spare_part_movements: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          id: string
+          maintenance_id: string | null
+          part_id: string
+          quantity_change: number
+          reason: string
+          resulting_quantity: number
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          maintenance_id?: string | null
+          part_id: string
+          quantity_change: number
+          reason: string
+          resulting_quantity: number
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          maintenance_id?: string | null
+          part_id?: string
+          quantity_change?: number
+          reason?: string
+          resulting_quantity?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "spare_part_movements_maintenance_id_fkey"
+            columns: ["maintenance_id"]
+            isOneToOne: false
+            referencedRelation: "asset_maintenance"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "spare_part_movements_part_id_fkey"
+            columns: ["part_id"]
+            isOneToOne: false
+            referencedRelation: "spare_parts"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       spare_parts: {
         Row: {
+          archived_at: string | null
+          company_id: string
           created_at: string
+          currency: string
           description: string | null
           id: string
+          min_stock_level: number
           name: string
           part_number: string
+          reorder_quantity: number
           stock_quantity: number
           supplier: string | null
           unit_cost: number
           updated_at: string
         }
         Insert: {
+          archived_at?: string | null
+          company_id?: string
           created_at?: string
+          currency?: string
           description?: string | null
           id?: string
+          min_stock_level?: number
           name: string
           part_number: string
+          reorder_quantity?: number
           stock_quantity?: number
           supplier?: string | null
           unit_cost?: number
           updated_at?: string
         }
         Update: {
+          archived_at?: string | null
+          company_id?: string
           created_at?: string
+          currency?: string
           description?: string | null
           id?: string
+          min_stock_level?: number
           name?: string
           part_number?: string
+          reorder_quantity?: number
           stock_quantity?: number
           supplier?: string | null
           unit_cost?: number
           updated_at?: string
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "spare_parts_company_id_fkey"
+            columns: ["company_id"]
+            isOneToOne: false
+            referencedRelation: "companies"
+            referencedColumns: ["id"]
+          },
+        ]
       }
       units: {
         Row: {
@@ -621,11 +1239,133 @@ export type Database = {
           },
         ]
       }
+      user_invitations: {
+        Row: {
+          accepted_at: string | null
+          company_id: string
+          created_account: boolean
+          created_at: string
+          department_id: string | null
+          email: string
+          full_name: string | null
+          id: string
+          invited_by: string | null
+          last_sent_at: string
+          revoked_at: string | null
+          role: string
+          unit_id: string | null
+          user_id: string | null
+        }
+        Insert: {
+          accepted_at?: string | null
+          company_id: string
+          created_account?: boolean
+          created_at?: string
+          department_id?: string | null
+          email: string
+          full_name?: string | null
+          id?: string
+          invited_by?: string | null
+          last_sent_at?: string
+          revoked_at?: string | null
+          role?: string
+          unit_id?: string | null
+          user_id?: string | null
+        }
+        Update: {
+          accepted_at?: string | null
+          company_id?: string
+          created_account?: boolean
+          created_at?: string
+          department_id?: string | null
+          email?: string
+          full_name?: string | null
+          id?: string
+          invited_by?: string | null
+          last_sent_at?: string
+          revoked_at?: string | null
+          role?: string
+          unit_id?: string | null
+          user_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "user_invitations_company_id_fkey"
+            columns: ["company_id"]
+            isOneToOne: false
+            referencedRelation: "companies"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "user_invitations_department_id_fkey"
+            columns: ["department_id"]
+            isOneToOne: false
+            referencedRelation: "departments"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "user_invitations_unit_id_fkey"
+            columns: ["unit_id"]
+            isOneToOne: false
+            referencedRelation: "units"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
     }
     Views: {
       [_ in never]: never
     }
     Functions: {
+      accept_invitation: {
+        Args: {
+          p_full_name: string
+        }
+        Returns: string
+      }
+      adjust_spare_part_stock: {
+        Args: {
+          p_part_id: string
+          p_quantity_change: number
+          p_reason: string
+        }
+        Returns: number
+      }
+      archive_asset: {
+        Args: {
+          p_asset_id: string
+        }
+        Returns: undefined
+      }
+      asset_book_value_through_period: {
+        Args: {
+          p_asset_id: string
+          p_events_before?: string
+          p_period: string
+        }
+        Returns: number
+      }
+      bulk_update_assets: {
+        Args: {
+          p_asset_ids: string[]
+          p_changes: Json
+        }
+        Returns: number
+      }
+      calculate_asset_book_value: {
+        Args: {
+          p_as_of?: string
+          p_asset_id: string
+        }
+        Returns: number
+      }
+      calculate_asset_depreciation: {
+        Args: {
+          p_as_of?: string
+          p_asset_id: string
+        }
+        Returns: number
+      }
       calculate_book_value: {
         Args: {
           purchase_date: string
@@ -644,6 +1384,301 @@ export type Database = {
         }
         Returns: number
       }
+      can_manage_asset: {
+        Args: {
+          p_department_id: string
+        }
+        Returns: boolean
+      }
+      check_in_asset: {
+        Args: {
+          p_condition: string
+          p_loan_id: string
+          p_notes: string
+          p_photos: string[]
+        }
+        Returns: undefined
+      }
+      check_out_asset: {
+        Args: {
+          p_asset_id: string
+          p_borrower_id: string
+          p_condition: string
+          p_due_date: string
+          p_notes: string
+        }
+        Returns: string
+      }
+      close_depreciation_period: {
+        Args: {
+          p_period: string
+        }
+        Returns: number
+      }
+      complete_maintenance: {
+        Args: {
+          p_labor_cost: number
+          p_maintenance_id: string
+          p_parts: Json
+        }
+        Returns: number
+      }
+      convert_to_base_currency: {
+        Args: {
+          p_amount: number
+          p_currency: string
+          p_date: string
+        }
+        Returns: number
+      }
+      create_spare_part: {
+        Args: {
+          p_initial_stock: number
+          p_part: Json
+        }
+        Returns: string
+      }
+      current_user_company_id: {
+        Args: Record<PropertyKey, never>
+        Returns: string
+      }
+      current_user_role: {
+        Args: Record<PropertyKey, never>
+        Returns: string
+      }
+      depreciation_amount: {
+        Args: {
+          p_as_of: string
+          p_method: string
+          p_purchase_date: string
+          p_purchase_value: number
+          p_residual_value: number
+          p_total_units?: number
+          p_units_used?: number
+          p_useful_life_years: number
+        }
+        Returns: number
+      }
+      depreciation_for_years: {
+        Args: {
+          p_method: string
+          p_purchase_value: number
+          p_residual_value: number
+          p_total_units?: number
+          p_units_used?: number
+          p_useful_life_years: number
+          p_years: number
+        }
+        Returns: number
+      }
+      depreciation_through_period: {
+        Args: {
+          p_method: string
+          p_period: string
+          p_purchase_date: string
+          p_purchase_value: number
+          p_residual_value: number
+          p_total_units?: number
+          p_units_used?: number
+          p_useful_life_years: number
+        }
+        Returns: number
+      }
+      dispose_asset: {
+        Args: {
+          p_asset_id: string
+          p_buyer_info: string
+          p_certificate_mime_type?: string
+          p_certificate_name?: string
+          p_certificate_size?: number
+          p_certificate_url: string
+          p_disposal_date: string
+          p_disposal_method: string
+          p_disposal_reason: string
+          p_environmental_compliance: boolean
+          p_sale_value: number
+        }
+        Returns: number
+      }
+      edit_completed_maintenance: {
+        Args: {
+          p_description: string
+          p_labor_cost: number
+          p_labor_hours: number
+          p_maintenance_id: string
+          p_maintenance_type: string
+          p_parts: Json
+          p_scheduled_date: string
+        }
+        Returns: number
+      }
+      fiscal_depreciation_through_period: {
+        Args: {
+          p_annual_rate: number
+          p_period: string
+          p_purchase_date: string
+          p_purchase_value: number
+        }
+        Returns: number
+      }
+      get_asset_as_of: {
+        Args: {
+          p_as_of: string
+          p_asset_id: string
+        }
+        Returns: Json
+      }
+      get_asset_fiscal_rate: {
+        Args: {
+          p_asset_id: string
+        }
+        Returns: {
+          annual_rate: number
+          base_rate: number
+          coefficient: number
+          source: string
+        }[]
+      }
+      get_base_currency: {
+        Args: Record<PropertyKey, never>
+        Returns: string
+      }
+      get_depreciation_reconciliation: {
+        Args: {
+          p_period: string
+        }
+        Returns: {
+          accounting_accumulated: number
+          accounting_charge: number
+          asset_id: string
+          category_name: string
+          code: string
+          currency: string
+          difference: number
+          exchange_rate: number
+          fiscal_accumulated: number
+          fiscal_charge: number
+          fiscal_rate: number
+          fiscal_rate_source: string
+          is_closed: boolean
+          name: string
+          ncm: string
+          purchase_value: number
+          work_shifts: number
+        }[]
+      }
+      get_depreciation_schedule: {
+        Args: {
+          p_asset_id: string
+        }
+        Returns: {
+          accumulated_depreciation: number
+          charge: number
+          closing_value: number
+          fiscal_accumulated_depreciation: number
+          fiscal_charge: number
+          fiscal_rate: number
+          is_closed: boolean
+          method: string
+          opening_value: number
+          period: string
+          valuation_adjustment: number
+        }[]
+      }
+      get_exchange_rate: {
+        Args: {
+          p_base_currency: string
+          p_company_id: string
+          p_currency: string
+          p_date: string
+        }
+        Returns: number
+      }
+      global_search: {
+        Args: {
+          p_limit?: number
+          p_query: string
+        }
+        Returns: {
+          result_type: string
+          record_id: string
+          asset_id: string
+          title: string
+          subtitle: string
+          rank: number
+        }[]
+      }
+      import_asset_updates: {
+        Args: {
+          p_import_id: string
+          p_rows: Json
+        }
+        Returns: number
+      }
+      import_assets: {
+        Args: {
+          p_import_id: string
+          p_rows: Json
+        }
+        Returns: number
+      }
+      prefix_tsquery: {
+        Args: {
+          p_query: string
+        }
+        Returns: unknown
+      }
+      purge_asset: {
+        Args: {
+          p_asset_id: string
+        }
+        Returns: undefined
+      }
+      record_valuation_event: {
+        Args: {
+          p_asset_id: string
+          p_document_id?: string
+          p_event_date: string
+          p_event_type: string
+          p_justification: string
+          p_new_book_value: number
+          p_remaining_useful_life_years: number
+        }
+        Returns: string
+      }
+      reopen_depreciation_period: {
+        Args: {
+          p_period: string
+        }
+        Returns: undefined
+      }
+      restore_asset: {
+        Args: {
+          p_asset_id: string
+        }
+        Returns: undefined
+      }
+      revert_asset_to: {
+        Args: {
+          p_as_of: string
+          p_asset_id: string
+        }
+        Returns: undefined
+      }
+      start_asset_import: {
+        Args: {
+          p_file_name: string
+          p_mode?: string
+          p_total_rows: number
+        }
+        Returns: string
+      }
+      switch_company: {
+        Args: {
+          p_company_id: string
+        }
+        Returns: undefined
+      }
     }
     Enums: {
       [_ in never]: never
@@ -0,0 +1,67 @@
+// Full-fidelity CSV export of assets. Values are written raw (numbers with a
+// dot decimal, ISO dates) under the column names of the assets table, so the
+// file works in a spreadsheet and loads back through the import wizard in
+// update mode.
+
+import { Tables } from '@/integrations/supabase/types';
+
+export type ExportableAsset = Tables<'assets'> & {
+  categories: { name: string } | null;
+  departments: { name: string } | null;
+  units: { name: string } | null;
+  profiles: { full_name: string | null } | null;
+};
+
+// Every assets column plus the names its ids resolve to
+export const ASSET_EXPORT_COLUMNS: { header: string; value: (asset: ExportableAsset) => unknown }[] = [
+  { header: 'id', value: asset => asset.id },
+  { header: 'code', value: asset => asset.code },
+  { header: 'name', value: asset => asset.name },
+  { header: 'serial_number', value: asset => asset.serial_number },
+  { header: 'description', value: asset => asset.description },
+  { header: 'status', value: asset => asset.status },
+  { header: 'category_id', value: asset => asset.category_id },
+  { header: 'category_name', value: asset => asset.categories?.name },
+  { header: 'department_id', value: asset => asset.department_id },
+  { header: 'department_name', value: asset => asset.departments?.name },
+  { header: 'unit_id', value: asset => asset.unit_id },
+  { header: 'unit_name', value: asset => asset.units?.name },
+  { header: 'purchase_value', value: asset => asset.purchase_value },
+  { header: 'currency', value: asset => asset.currency },
+  { header: 'purchase_date', value: asset => asset.purchase_date },
+  { header: 'residual_value', value: asset => asset.residual_value },
+  { header: 'useful_life_years', value: asset => asset.useful_life_years },
+  { header: 'depreciation_method', value: asset => asset.depreciation_method },
+  { header: 'total_units', value: asset => asset.total_units },
+  { header: 'units_used', value: asset => asset.units_used },
+  { header: 'ncm', value: asset => asset.ncm },
+  { header: 'work_shifts', value: asset => asset.work_shifts },
+  { header: 'location_type', value: asset => asset.location_type },
+  { header: 'current_location', value: asset => asset.current_location },
+  { header: 'latitude', value: asset => asset.latitude },
+  { header: 'longitude', value: asset => asset.longitude },
+  { header: 'rfid_id', value: asset => asset.rfid_id },
+  { header: 'assigned_to', value: asset => asset.assigned_to },
+  { header: 'assigned_to_name', value: asset => asset.profiles?.full_name },
+  { header: 'import_id', value: asset => asset.import_id },
+  { header: 'created_by', value: asset => asset.created_by },
+  { header: 'created_at', value: asset => asset.created_at },
+  { header: 'updated_at', value: asset => asset.updated_at },
+  { header: 'deleted_at', value: asset => asset.deleted_at },
+  { header: 'deleted_by', value: asset => asset.deleted_by },
+];
+
+const csvCell = (value: unknown) => {
+  if (value === null || value === undefined) return '';
+  if (typeof value === 'number') return String(value);
+  return `"${String(value).replace(/"/g, '""')}"`;
+};
+
+export const buildAssetExportCsv = (assets: ExportableAsset[]) => {
+  const rows = [
+    ASSET_EXPORT_COLUMNS.map(column => column.header).join(','),
+    ...assets.map(asset => ASSET_EXPORT_COLUMNS.map(column => csvCell(column.value(asset))).join(',')),
+  ];
+  // BOM so spreadsheet apps read the file as UTF-8
+  return '\uFEFF' + rows.join('\n');
+};
@@ -0,0 +1,179 @@
+// Filters, sorting and paging of the asset list. They are applied by the
+// database query (the API caps a response at 1000 rows) and kept in the URL
+// so a filtered list survives reloads and can be shared. The export builds
+// its query with the same function, so a file exported "as filtered" holds
+// exactly the assets the list shows.
+
+export interface AssetListFilters {
+  searchTerm: string;
+  category: string;
+  status: string;
+  responsible: string;
+  department: string;
+  unit: string;
+  // ISO dates (yyyy-MM-dd), inclusive
+  purchaseDateFrom: string;
+  purchaseDateTo: string;
+  // Purchase value in the asset's own currency, inclusive
+  minValue: string;
+  maxValue: string;
+  showArchived: boolean;
+}
+
+export const DEFAULT_ASSET_FILTERS: AssetListFilters = {
+  searchTerm: '',
+  category: 'all',
+  status: 'all',
+  responsible: 'all',
+  department: 'all',
+  unit: 'all',
+  purchaseDateFrom: '',
+  purchaseDateTo: '',
+  minValue: '',
+  maxValue: '',
+  showArchived: false,
+};
+
+export type AssetSortColumn = 'created_at' | 'name' | 'code' | 'purchase_value' | 'purchase_date';
+
+export const ASSET_SORT_LABELS: Record<AssetSortColumn, string> = {
+  created_at: 'Data de cadastro',
+  name: 'Nome',
+  code: 'Código',
+  purchase_value: 'Valor de compra',
+  purchase_date: 'Data de compra',
+};
+
+export interface AssetListSort {
+  column: AssetSortColumn;
+  ascending: boolean;
+}
+
+export const DEFAULT_ASSET_SORT: AssetListSort = { column: 'created_at', ascending: false };
+
+export const ASSET_PAGE_SIZES = [20, 50, 100];
+
+export interface AssetListParams {
+  filters: AssetListFilters;
+  sort: AssetListSort;
+  page: number;
+  pageSize: number;
+}
+
+// URL parameter per filter; defaults are left out of the URL
+const FILTER_PARAMS: Record<Exclude<keyof AssetListFilters, 'showArchived'>, string> = {
+  searchTerm: 'q',
+  category: 'category',
+  status: 'status',
+  responsible: 'responsible',
+  department: 'department',
+  unit: 'unit',
+  purchaseDateFrom: 'from',
+  purchaseDateTo: 'to',
+  minValue: 'min',
+  maxValue: 'max',
+};
+
+const LIST_PARAMS = [...Object.values(FILTER_PARAMS), 'archived', 'sort', 'dir', 'page', 'size'];
+
+export const readAssetListParams = (params: URLSearchParams): AssetListParams => {
+  const filters = { ...DEFAULT_ASSET_FILTERS };
+  (Object.keys(FILTER_PARAMS) as (keyof typeof FILTER_PARAMS)[]).forEach(key => {
+    const value = params.get(FILTER_PARAMS[key]);
+    if (value) filters[key] = value;
+  });
+  filters.showArchived = params.get('archived') === '1';
+
+  const column = params.get('sort') as AssetSortColumn;
+  // Own keys only: `in` would also accept prototype names such as ?sort=constructor
+  const sort = column && Object.prototype.hasOwnProperty.call(ASSET_SORT_LABELS, column)
+    ? { column, ascending: params.get('dir') !== 'desc' }
+    : DEFAULT_ASSET_SORT;
+
+  const page = Math.max(1, parseInt(params.get('page') || '', 10) || 1);
+  const size = parseInt(params.get('size') || '', 10);
+  const pageSize = ASSET_PAGE_SIZES.includes(size) ? size : ASSET_PAGE_SIZES[0];
+
+  return { filters, sort, page, pageSize };
+};
+
+// Returns a copy of params with the list state replaced; other parameters are kept
+export const writeAssetListParams = (params: URLSearchParams, { filters, sort, page, pageSize }: AssetListParams) => {
+  const next = new URLSearchParams(params);
+  LIST_PARAMS.forEach(name => next.delete(name));
+
+  (Object.keys(FILTER_PARAMS) as (keyof typeof FILTER_PARAMS)[]).forEach(key => {
+    if (filters[key] !== DEFAULT_ASSET_FILTERS[key]) next.set(FILTER_PARAMS[key], filters[key]);
+  });
+  if (filters.showArchived) next.set('archived', '1');
+  if (sort.column !== DEFAULT_ASSET_SORT.column || sort.ascending !== DEFAULT_ASSET_SORT.ascending) {
+    next.set('sort', sort.column);
+    next.set('dir', sort.ascending ? 'asc' : 'desc');
+  }
+  if (page > 1) next.set('page', String(page));
+  if (pageSize !== ASSET_PAGE_SIZES[0]) next.set('size', String(pageSize));
+
+  return next;
+};
+
+// The subset of the Supabase query builder the filters need. Checking the
+// full builder type against it exceeds the compiler's instantiation depth, so
+// applyAssetFilters takes any query and narrows it internally.
+interface FilterableQuery {
+  eq(column: string, value: string): this;
+  is(column: string, value: null): this;
+  not(column: string, operator: string, value: null): this;
+  gte(column: string, value: string | number): this;
+  lte(column: string, value: string | number): this;
+  textSearch(column: string, query: string, options: { config: string }): this;
+}
+
+// Same as prefix_tsquery in the database: every word as a prefix, all required
+const toPrefixTsQuery = (term: string) => term
+  .toLowerCase()
+  .split(/[^\p{L}\p{N}]+/u)
+  .filter(Boolean)
+  .map(word => `${word}:*`)
+  .join(' & ');
+
+const parseAmount = (value: string) => {
+  const amount = parseFloat(value.replace(',', '.'));
+  return Number.isFinite(amount) ? amount : null;
+};
+
+export const applyAssetFilters = <Q>(query: Q, filters: AssetListFilters): Q => {
+  const builder = query as unknown as FilterableQuery;
+  let filtered = filters.showArchived
+    ? builder.not('deleted_at', 'is', null)
+    : builder.is('deleted_at', null);
+
+  // Full-text index over name, code, serial number, RFID and description
+  const searchQuery = toPrefixTsQuery(filters.searchTerm);
+  if (searchQuery) {
+    filtered = filtered.textSearch('search_vector', searchQuery, { config: 'portuguese_unaccent' });
+  }
+
+  if (filters.category !== 'all') filtered = filtered.eq('category_id', filters.category);
+  if (filters.status !== 'all') filtered = filtered.eq('status', filters.status);
+  if (filters.responsible === 'unassigned') {
+    filtered = filtered.is('assigned_to', null);
+  } else if (filters.responsible !== 'all') {
+    filtered = filtered.eq('assigned_to', filters.responsible);
+  }
+  if (filters.department !== 'all') filtered = filtered.eq('department_id', filters.department);
+  if (filters.unit !== 'all') filtered = filtered.eq('unit_id', filters.unit);
+
+  if (filters.purchaseDateFrom) filtered = filtered.gte('purchase_date', filters.purchaseDateFrom);
+  if (filters.purchaseDateTo) filtered = filtered.lte('purchase_date', filters.purchaseDateTo);
+
+  const minValue = parseAmount(filters.minValue);
+  const maxValue = parseAmount(filters.maxValue);
+  if (minValue !== null) filtered = filtered.gte('purchase_value', minValue);
+  if (maxValue !== null) filtered = filtered.lte('purchase_value', maxValue);
+
+  return filtered as unknown as Q;
+};
+
+export const hasActiveFilters = (filters: AssetListFilters) =>
+  (Object.keys(DEFAULT_ASSET_FILTERS) as (keyof AssetListFilters)[])
+    .some(key => filters[key] !== DEFAULT_ASSET_FILTERS[key]);
@@ -0,0 +1,555 @@
+// Spreadsheet import of assets: reading the file, mapping its columns to
+// asset fields and validating each row before anything is written.
+
+import type { CellValue } from 'exceljs';
+import { CURRENCIES, DEFAULT_CURRENCY } from '@/lib/currency';
+import { DEPRECIATION_METHOD_LABELS, DepreciationMethod, WORK_SHIFT_LABELS } from '@/lib/depreciation';
+
+export type ImportField =
+  | 'id'
+  | 'name'
+  | 'code'
+  | 'serial_number'
+  | 'description'
+  | 'category'
+  | 'department'
+  | 'unit'
+  | 'purchase_value'
+  | 'currency'
+  | 'purchase_date'
+  | 'residual_value'
+  | 'useful_life_years'
+  | 'depreciation_method'
+  | 'total_units'
+  | 'units_used'
+  | 'ncm'
+  | 'work_shifts'
+  | 'status'
+  | 'current_location'
+  | 'rfid_id';
+
+export interface ImportFieldDefinition {
+  key: ImportField;
+  label: string;
+  required?: boolean;
+  // Only read when updating existing assets
+  updateOnly?: boolean;
+  // Normalized header names recognised when mapping columns automatically
+  aliases: string[];
+}
+
+export const IMPORT_FIELDS: ImportFieldDefinition[] = [
+  { key: 'id', label: 'ID do Ativo', updateOnly: true, aliases: ['id do ativo'] },
+  { key: 'name', label: 'Nome', required: true, aliases: ['nome', 'ativo', 'nome do ativo'] },
+  { key: 'code', label: 'Código', required: true, aliases: ['codigo', 'cod', 'patrimonio', 'plaqueta'] },
+  { key: 'serial_number', label: 'Número de Série', aliases: ['numero de serie', 'serie', 'serial'] },
+  { key: 'description', label: 'Descrição', aliases: ['descricao'] },
+  { key: 'category', label: 'Categoria', aliases: ['categoria', 'category name'] },
+  { key: 'department', label: 'Departamento', aliases: ['departamento', 'setor', 'department name'] },
+  { key: 'unit', label: 'Unidade', aliases: ['unidade', 'filial', 'unit name'] },
+  { key: 'purchase_value', label: 'Valor de Compra', required: true, aliases: ['valor de compra', 'valor', 'valor de aquisicao', 'custo'] },
+  { key: 'currency', label: 'Moeda', aliases: ['moeda'] },
+  { key: 'purchase_date', label: 'Data de Compra', required: true, aliases: ['data de compra', 'data de aquisicao', 'data'] },
+  { key: 'residual_value', label: 'Valor Residual', aliases: ['valor residual'] },
+  { key: 'useful_life_years', label: 'Vida Útil (anos)', aliases: ['vida util', 'vida util anos', 'vida util (anos)'] },
+  { key: 'depreciation_method', label: 'Método de Depreciação', aliases: ['metodo de depreciacao', 'metodo'] },
+  { key: 'total_units', label: 'Produção Total Estimada', aliases: ['producao total estimada', 'producao total'] },
+  { key: 'units_used', label: 'Unidades Produzidas', aliases: ['unidades produzidas'] },
+  { key: 'ncm', label: 'NCM', aliases: [] },
+  { key: 'work_shifts', label: 'Turnos de Operação', aliases: ['turnos de operacao', 'turnos'] },
+  { key: 'status', label: 'Status', aliases: ['situacao'] },
+  { key: 'current_location', label: 'Localização', aliases: ['localizacao', 'local'] },
+  { key: 'rfid_id', label: 'RFID', aliases: ['tag rfid'] },
+];
+
+// 'create' inserts every row as a new asset, 'update' matches rows to
+// existing assets by id (or code) and writes only the columns that changed
+export type ImportMode = 'create' | 'update';
+
+// Field -> spreadsheet header it is read from
+export type ColumnMapping = Partial<Record<ImportField, string>>;
+
+export interface ImportLookups {
+  categories: { id: string; name: string }[];
+  departments: { id: string; name: string }[];
+  units: { id: string; name: string; department_id: string }[];
+}
+
+export interface ImportedAsset {
+  name: string;
+  code: string;
+  serial_number: string | null;
+  description: string | null;
+  category_id: string | null;
+  department_id: string | null;
+  unit_id: string | null;
+  purchase_value: number;
+  currency: string;
+  purchase_date: string;
+  residual_value: number;
+  useful_life_years: number;
+  depreciation_method: DepreciationMethod | null;
+  total_units: number | null;
+  units_used: number;
+  ncm: string | null;
+  work_shifts: number;
+  status: string;
+  current_location: string | null;
+  rfid_id: string | null;
+}
+
+export interface ExistingAsset extends ImportedAsset {
+  id: string;
+  deleted_at: string | null;
+}
+
+// Asset columns fetched to compare an update row with the stored asset
+export const EXISTING_ASSET_COLUMNS =
+  'id, name, code, serial_number, description, category_id, department_id, unit_id, purchase_value, currency, ' +
+  'purchase_date, residual_value, useful_life_years, depreciation_method, total_units, units_used, ncm, ' +
+  'work_shifts, status, current_location, rfid_id, deleted_at';
+
+export interface ImportRow {
+  // Line number in the spreadsheet, counting the header as line 1
+  line: number;
+  asset: ImportedAsset;
+  errors: string[];
+  // Update mode: the matched asset and the columns that differ from it
+  assetId?: string;
+  changes?: Partial<ImportedAsset>;
+}
+
+// Asset columns an import field writes, compared with the stored asset in update mode
+const FIELD_COLUMNS: Partial<Record<ImportField, (keyof ImportedAsset)[]>> = {
+  name: ['name'],
+  code: ['code'],
+  serial_number: ['serial_number'],
+  description: ['description'],
+  category: ['category_id'],
+  department: ['department_id'],
+  unit: ['unit_id'],
+  purchase_value: ['purchase_value'],
+  currency: ['currency'],
+  purchase_date: ['purchase_date'],
+  residual_value: ['residual_value'],
+  useful_life_years: ['useful_life_years'],
+  depreciation_method: ['depreciation_method'],
+  total_units: ['total_units'],
+  units_used: ['units_used'],
+  ncm: ['ncm'],
+  work_shifts: ['work_shifts'],
+  status: ['status'],
+  current_location: ['current_location'],
+  rfid_id: ['rfid_id'],
+};
+
+const sameValue = (a: unknown, b: unknown) => {
+  if ((a ?? null) === null || (b ?? null) === null) return (a ?? null) === (b ?? null);
+  if (typeof a === 'number' || typeof b === 'number') return Number(a) === Number(b);
+  return String(a) === String(b);
+};
+
+export interface SpreadsheetData {
+  headers: string[];
+  rows: Record<string, unknown>[];
+}
+
+const IMPORT_STATUS_LABELS: Record<string, string> = {
+  active: 'Ativo',
+  maintenance: 'Manutenção',
+  inactive: 'Inativo',
+};
+
+export const normalizeName = (value: unknown) =>
+  String(value ?? '')
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[_\s]+/g, ' ')
+    .trim()
+    .toLowerCase();
+
+const text = (value: unknown) => String(value ?? '').trim();
+
+const CSV_SEPARATORS = [';', ',', '\t'];
+
+// Quoted fields may hold separators, line breaks and doubled quotes ("")
+const parseCsv = (content: string, separator: string) => {
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+    if (quoted) {
+      if (char === '"' && content[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === separator) {
+      record.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && content[i + 1] === '\n') i++;
+      record.push(field);
+      records.push(record);
+      record = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field !== '' || record.length > 0) {
+    record.push(field);
+    records.push(record);
+  }
+
+  return records;
+};
+
+// The separator that splits the header line into the most columns
+const detectSeparator = (content: string) => {
+  const headerLine = content.split(/\r?\n/, 1)[0];
+  return CSV_SEPARATORS.reduce((best, separator) =>
+    headerLine.split(separator).length > headerLine.split(best).length ? separator : best
+  );
+};
+
+// Formulas give their result and rich text or hyperlinks their text; dates
+// and numbers are kept as such for parseImportDate and parseImportNumber
+const workbookCell = (value: CellValue | undefined): unknown => {
+  if (value === null || value === undefined) return '';
+  if (value instanceof Date || typeof value !== 'object') return value;
+  if ('result' in value) return workbookCell(value.result as CellValue);
+  if ('richText' in value) return value.richText.map(part => part.text).join('');
+  if ('text' in value) return workbookCell(value.text);
+  return '';
+};
+
+// First worksheet of an .xlsx workbook; exceljs is only loaded for these files
+const readWorkbook = async (file: File) => {
+  const { default: ExcelJS } = await import('exceljs');
+  const workbook = new ExcelJS.Workbook();
+  await workbook.xlsx.load(await file.arrayBuffer());
+
+  const records: unknown[][] = [];
+  workbook.worksheets[0]?.eachRow(row => {
+    // row.values starts at index 1, like the sheet's columns
+    const values = row.values as CellValue[];
+    records.push(Array.from({ length: values.length - 1 }, (_, index) => workbookCell(values[index + 1])));
+  });
+  return records;
+};
+
+// An .xlsx workbook, or a CSV with any common separator as saved by Excel,
+// LibreOffice or Google Sheets. CSV cells are read as plain text so dates and
+// decimals keep the pt-BR reading instead of being guessed as US formats.
+export const readSpreadsheet = async (file: File): Promise<SpreadsheetData> => {
+  let records: unknown[][];
+  if (/\.xlsx$/i.test(file.name)) {
+    records = await readWorkbook(file);
+  } else {
+    const content = (await file.text()).replace(/^\uFEFF/, '');
+    records = parseCsv(content, detectSeparator(content));
+  }
+  const [headerRow = [], ...dataRows] = records;
+
+  const headers = headerRow.map(text).filter(Boolean);
+  const rows = dataRows
+    .filter(cells => cells.some(cell => text(cell) !== ''))
+    .map(cells => Object.fromEntries(
+      headerRow
+        .map((header, index) => [text(header), cells[index] ?? ''] as const)
+        .filter(([header]) => header)
+    ));
+
+  return { headers, rows };
+};
+
+export const autoMapColumns = (headers: string[]): ColumnMapping => {
+  const mapping: ColumnMapping = {};
+  IMPORT_FIELDS.forEach(field => {
+    const candidates = [field.key, field.label, ...field.aliases].map(normalizeName);
+    const header = headers.find(h => candidates.includes(normalizeName(h)));
+    if (header) mapping[field.key] = header;
+  });
+  return mapping;
+};
+
+// Accepts 1234.56, 1.234,56, 1234,56, 1.500.000 and currency prefixes such as "R$ 1.234,56"
+export const parseImportNumber = (value: unknown): number | null => {
+  if (typeof value === 'number') return Number.isFinite(value) ? value : null;
+
+  let raw = text(value).replace(/[^\d,.-]/g, '');
+  if (!raw) return null;
+
+  const lastComma = raw.lastIndexOf(',');
+  const lastDot = raw.lastIndexOf('.');
+  if (lastComma > lastDot) {
+    raw = raw.replace(/\./g, '').replace(',', '.');
+  } else if (lastComma !== -1) {
+    raw = raw.replace(/,/g, '');
+  } else if (/^-?\d{1,3}(\.\d{3}){2,}$/.test(raw)) {
+    // Several dot groups can only be thousands (1.500.000); a single dot is a
+    // decimal point, as written by the CSV export
+    raw = raw.replace(/\./g, '');
+  }
+
+  const parsed = Number(raw);
+  return Number.isFinite(parsed) ? parsed : null;
+};
+
+const toIsoDate = (year: number, month: number, day: number) => {
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (date.getUTCFullYear() !== year || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) {
+    return null;
+  }
+  return date.toISOString().slice(0, 10);
+};
+
+// Accepts workbook dates, dd/mm/yyyy (also with - or .) and yyyy-mm-dd
+export const parseImportDate = (value: unknown): string | null => {
+  // exceljs gives date cells as midnight UTC
+  if (value instanceof Date) {
+    if (isNaN(value.getTime())) return null;
+    return toIsoDate(value.getUTCFullYear(), value.getUTCMonth() + 1, value.getUTCDate());
+  }
+
+  const raw = text(value);
+  let match = raw.match(/^(\d{4})-(\d{1,2})-(\d{1,2})/);
+  if (match) return toIsoDate(Number(match[1]), Number(match[2]), Number(match[3]));
+
+  match = raw.match(/^(\d{1,2})[/.-](\d{1,2})[/.-](\d{2}|\d{4})$/);
+  if (match) {
+    const year = match[3].length === 2 ? 2000 + Number(match[3]) : Number(match[3]);
+    return toIsoDate(year, Number(match[2]), Number(match[1]));
+  }
+
+  return null;
+};
+
+const matchOption = <T extends string>(value: string, labels: Record<T, string>) => {
+  const normalized = normalizeName(value);
+  return (Object.keys(labels) as T[]).find(
+    key => normalizeName(key) === normalized || normalizeName(labels[key]) === normalized
+  );
+};
+
+const resolveByName = <T extends { id: string; name: string }>(
+  items: T[],
+  name: string,
+  label: string,
+  errors: string[]
+) => {
+  const matches = items.filter(item => normalizeName(item.name) === normalizeName(name));
+  if (matches.length === 0) errors.push(`${label} "${name}" não encontrado(a)`);
+  if (matches.length > 1) errors.push(`${label} "${name}" é ambíguo(a)`);
+  return matches.length === 1 ? matches[0] : null;
+};
+
+// Dry run of the import: every row is converted to an asset payload and
+// checked the same way AssetForm checks a single asset, plus code uniqueness
+// against the database (existingAssets) and within the file itself. In
+// update mode rows are matched to existingAssets by id when that column is
+// mapped, otherwise by code, and a blank or unmapped cell keeps the stored
+// value; the defaults only apply to new assets.
+export const validateImportRows = (
+  data: SpreadsheetData,
+  mapping: ColumnMapping,
+  lookups: ImportLookups,
+  existingAssets: ExistingAsset[],
+  mode: ImportMode = 'create'
+): ImportRow[] => {
+  const isUpdate = mode === 'update';
+  const byId = new Map(existingAssets.map(asset => [asset.id, asset]));
+  const byCode = new Map(existingAssets.map(asset => [asset.code, asset]));
+  const seenCodes = new Map<string, number>();
+  const seenAssets = new Map<string, number>();
+
+  return data.rows.map((row, index) => {
+    const line = index + 2;
+    const errors: string[] = [];
+    const mapped = (field: ImportField) => Boolean(mapping[field]) && (isUpdate || field !== 'id');
+    const cell = (field: ImportField) => (mapped(field) ? row[mapping[field] as string] : undefined);
+    const optional = (field: ImportField) => text(cell(field)) || null;
+    const required = (field: ImportField, message: string) => {
+      if (!isUpdate && mapped(field) && text(cell(field)) === '') errors.push(message);
+    };
+
+    const number = (field: ImportField, label: string) => {
+      if (text(cell(field)) === '') return null;
+      const parsed = parseImportNumber(cell(field));
+      if (parsed === null) errors.push(`${label} inválido(a): "${text(cell(field))}"`);
+      return parsed;
+    };
+
+    let target: ExistingAsset | undefined;
+    if (isUpdate) {
+      const key = mapped('id') ? text(cell('id')) : text(cell('code'));
+      target = mapped('id') ? byId.get(key) : byCode.get(key);
+      if (!key) {
+        errors.push(mapped('id') ? 'ID do ativo é obrigatório' : 'Código é obrigatório');
+      } else if (!target) {
+        errors.push(`Ativo "${key}" não encontrado`);
+      } else if (seenAssets.has(target.id)) {
+        errors.push(`Ativo repetido na linha ${seenAssets.get(target.id)}`);
+      } else {
+        seenAssets.set(target.id, line);
+      }
+    }
+
+    const stored = <K extends keyof ImportedAsset>(column: K, fallback: ImportedAsset[K]) =>
+      target ? target[column] : fallback;
+
+    const name = text(cell('name'));
+    required('name', 'Nome é obrigatório');
+
+    const code = text(cell('code'));
+    const codeOwner = byCode.get(code);
+    if (!isUpdate) required('code', 'Código é obrigatório');
+    if (code && codeOwner && codeOwner.id !== target?.id) {
+      errors.push(`Código "${code}" já cadastrado`);
+    } else if (code && seenCodes.has(code)) {
+      errors.push(`Código "${code}" repetido na linha ${seenCodes.get(code)}`);
+    }
+    if (code && !seenCodes.has(code)) seenCodes.set(code, line);
+
+    const purchaseValue = number('purchase_value', 'Valor de compra');
+    required('purchase_value', 'Valor de compra é obrigatório');
+    if (purchaseValue !== null && purchaseValue < 0) errors.push('Valor de compra não pode ser negativo');
+
+    const purchaseDate = parseImportDate(cell('purchase_date'));
+    required('purchase_date', 'Data de compra é obrigatória');
+    if (text(cell('purchase_date')) !== '' && !purchaseDate) {
+      errors.push(`Data de compra inválida: "${text(cell('purchase_date'))}"`);
+    }
+
+    const residualCell = number('residual_value', 'Valor residual');
+    const residualValue = residualCell ?? stored('residual_value', 0);
+    if (residualValue < 0) errors.push('Valor residual não pode ser negativo');
+    const comparedValue = purchaseValue ?? target?.purchase_value ?? null;
+    if ((residualCell !== null || purchaseValue !== null)
+        && comparedValue !== null && comparedValue >= 0 && residualValue > comparedValue) {
+      errors.push('Valor residual maior que o valor de compra');
+    }
+
+    const usefulLifeCell = number('useful_life_years', 'Vida útil');
+    const usefulLife = usefulLifeCell ?? stored('useful_life_years', 5);
+    if (usefulLifeCell !== null && (!Number.isInteger(usefulLifeCell) || usefulLifeCell <= 0)) {
+      errors.push('Vida útil deve ser um número inteiro de anos');
+    }
+
+    const currencyCell = text(cell('currency')).toUpperCase();
+    const currency = currencyCell || stored('currency', DEFAULT_CURRENCY);
+    if (currencyCell && !CURRENCIES.includes(currencyCell)) errors.push(`Moeda "${currencyCell}" não suportada`);
+
+    let depreciationMethod = stored('depreciation_method', null);
+    if (text(cell('depreciation_method'))) {
+      depreciationMethod = matchOption(text(cell('depreciation_method')), DEPRECIATION_METHOD_LABELS) || null;
+      if (!depreciationMethod) errors.push(`Método de depreciação "${text(cell('depreciation_method'))}" desconhecido`);
+    }
+
+    const totalUnits = number('total_units', 'Produção total') ?? stored('total_units', null);
+    if (depreciationMethod === 'units_of_production' && !totalUnits) {
+      errors.push('Produção total estimada é obrigatória para o método de unidades produzidas');
+    }
+    const unitsUsed = number('units_used', 'Unidades produzidas') ?? stored('units_used', 0);
+
+    const ncm = text(cell('ncm')).replace(/\D/g, '');
+    if (ncm && ncm.length !== 8) errors.push('O NCM deve ter 8 dígitos');
+
+    const workShiftsCell = number('work_shifts', 'Turnos');
+    const workShifts = workShiftsCell ?? stored('work_shifts', 1);
+    if (workShiftsCell !== null && !WORK_SHIFT_LABELS[workShiftsCell]) {
+      errors.push('Turnos de operação deve ser 1, 2 ou 3');
+    }
+
+    // Disposal has its own records, so 'disposed' is only accepted when it is already the stored status
+    let status = stored('status', 'active');
+    if (text(cell('status'))) {
+      const statusLabels: Record<string, string> = target?.status === 'disposed'
+        ? { ...IMPORT_STATUS_LABELS, disposed: 'Descartado' }
+        : IMPORT_STATUS_LABELS;
+      status = matchOption(text(cell('status')), statusLabels) || '';
+      if (!status) errors.push(`Status "${text(cell('status'))}" inválido (use Ativo, Manutenção ou Inativo)`);
+    }
+
+    const categoryName = text(cell('category'));
+    const category = categoryName ? resolveByName(lookups.categories, categoryName, 'Categoria', errors) : null;
+
+    const departmentName = text(cell('department'));
+    const department = departmentName
+      ? resolveByName(lookups.departments, departmentName, 'Departamento', errors)
+      : null;
+
+    // Unit names repeat across departments, so a given department narrows the search
+    const unitName = text(cell('unit'));
+    const unit = unitName
+      ? resolveByName(
+          department ? lookups.units.filter(u => u.department_id === department.id) : lookups.units,
+          unitName,
+          'Unidade',
+          errors
+        )
+      : null;
+
+    // A unit given without its department moves the asset to the unit's
+    // department; a new department without a unit drops a unit it doesn't have
+    const departmentId = departmentName
+      ? department?.id || null
+      : unit?.department_id || stored('department_id', null);
+    const storedUnitId = stored('unit_id', null);
+    const keepsUnit = !departmentName || lookups.units.some(u => u.id === storedUnitId && u.department_id === departmentId);
+
+    const asset: ImportedAsset = {
+      name: name || stored('name', ''),
+      code: code || stored('code', ''),
+      serial_number: optional('serial_number') ?? stored('serial_number', null),
+      description: optional('description') ?? stored('description', null),
+      category_id: categoryName ? category?.id || null : stored('category_id', null),
+      department_id: departmentId,
+      unit_id: unitName ? unit?.id || null : keepsUnit ? storedUnitId : null,
+      purchase_value: purchaseValue ?? stored('purchase_value', 0),
+      currency,
+      purchase_date: purchaseDate || stored('purchase_date', ''),
+      residual_value: residualValue,
+      useful_life_years: usefulLife,
+      depreciation_method: depreciationMethod,
+      total_units: totalUnits,
+      units_used: unitsUsed,
+      ncm: ncm || stored('ncm', null),
+      work_shifts: workShifts,
+      status,
+      current_location: optional('current_location') ?? stored('current_location', null),
+      rfid_id: optional('rfid_id') ?? stored('rfid_id', null),
+    };
+
+    if (!isUpdate || !target) {
+      return { line, errors, asset };
+    }
+
+    // Blank cells already hold the stored value, so only given cells and the
+    // department or unit they imply show up as changes
+    const columns = new Set<keyof ImportedAsset>();
+    Object.values(FIELD_COLUMNS).forEach(fieldColumns => fieldColumns?.forEach(column => columns.add(column)));
+
+    const changes: Partial<ImportedAsset> = {};
+    columns.forEach(column => {
+      if (!sameValue(asset[column], target[column])) {
+        (changes as Record<string, unknown>)[column] = asset[column];
+      }
+    });
+
+    if (Object.keys(changes).length > 0 && (target.status === 'disposed' || target.deleted_at)) {
+      errors.push('Ativos baixados ou arquivados não podem ser alterados pela importação');
+    }
+
+    return { line, errors, asset, assetId: target.id, changes };
+  });
+};
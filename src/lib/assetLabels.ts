@@ -0,0 +1,77 @@
+// Printable QR label sheet for a set of assets: A4 pages in a 3 x 8 grid
+// (63.5 x 33.9 mm, the common adhesive label layout). Codes carry the same
+// ASSET:<code> value as QRCodeGenerator, so the scanner finds the asset.
+
+import { createElement } from 'react';
+import { renderToStaticMarkup } from 'react-dom/server';
+import QRCode from 'react-qr-code';
+
+export interface LabelAsset {
+  code: string;
+  name: string;
+}
+
+const COLUMNS = 3;
+const ROWS = 8;
+const LABEL_WIDTH = 63.5;
+const LABEL_HEIGHT = 33.9;
+const MARGIN_LEFT = 7.2;
+const MARGIN_TOP = 12.9;
+const COLUMN_GAP = 2.5;
+const QR_SIZE = 26;
+const QR_PIXELS = 256;
+
+// jsPDF takes raster images, so each SVG code goes through a canvas
+const renderQrPng = (value: string) => new Promise<string>((resolve, reject) => {
+  const svg = renderToStaticMarkup(createElement(QRCode, { value, size: QR_PIXELS }));
+  const canvas = document.createElement('canvas');
+  const ctx = canvas.getContext('2d');
+  const img = new Image();
+
+  canvas.width = QR_PIXELS;
+  canvas.height = QR_PIXELS;
+
+  img.onload = () => {
+    if (!ctx) {
+      reject(new Error('Canvas not available'));
+      return;
+    }
+    ctx.fillStyle = 'white';
+    ctx.fillRect(0, 0, QR_PIXELS, QR_PIXELS);
+    ctx.drawImage(img, 0, 0);
+    resolve(canvas.toDataURL('image/png'));
+  };
+  img.onerror = () => reject(new Error(`Could not render QR code for ${value}`));
+
+  img.src = 'data:image/svg+xml;base64,' + btoa(svg);
+});
+
+export const generateQrLabels = async (assets: LabelAsset[]) => {
+  const { jsPDF } = await import('jspdf');
+  const doc = new jsPDF({ unit: 'mm', format: 'a4' });
+  const perPage = COLUMNS * ROWS;
+
+  for (let index = 0; index < assets.length; index++) {
+    const asset = assets[index];
+    if (index > 0 && index % perPage === 0) doc.addPage();
+
+    const slot = index % perPage;
+    const x = MARGIN_LEFT + (slot % COLUMNS) * (LABEL_WIDTH + COLUMN_GAP);
+    const y = MARGIN_TOP + Math.floor(slot / COLUMNS) * LABEL_HEIGHT;
+
+    const png = await renderQrPng(`ASSET:${asset.code}`);
+    doc.addImage(png, 'PNG', x + 2, y + (LABEL_HEIGHT - QR_SIZE) / 2, QR_SIZE, QR_SIZE);
+
+    const textX = x + QR_SIZE + 5;
+    const textWidth = LABEL_WIDTH - QR_SIZE - 7;
+    doc.setFont('helvetica', 'bold');
+    doc.setFontSize(10);
+    doc.text(asset.code, textX, y + 10, { maxWidth: textWidth });
+    doc.setFont('helvetica', 'normal');
+    doc.setFontSize(8);
+    const nameLines = (doc.splitTextToSize(asset.name, textWidth) as string[]).slice(0, 3);
+    doc.text(nameLines, textX, y + 15);
+  }
+
+  doc.save(`etiquetas-qr-${new Date().toISOString().slice(0, 10)}.pdf`);
+};
@@ -0,0 +1,168 @@
+import { format } from 'date-fns';
+import { ptBR } from 'date-fns/locale';
+import { supabase } from '@/integrations/supabase/client';
+import { Json } from '@/integrations/supabase/types';
+import { formatMoney } from '@/lib/currency';
+import { DEPRECIATION_METHOD_LABELS, DepreciationMethod } from '@/lib/depreciation';
+
+export type AuditRecord = { [key: string]: Json | undefined };
+
+export interface FieldChange {
+  field: string;
+  old: Json | undefined;
+  new: Json | undefined;
+}
+
+// Names used to resolve foreign keys, keyed by id
+export interface AuditLookups {
+  categories: Record<string, string>;
+  departments: Record<string, string>;
+  units: Record<string, string>;
+  profiles: Record<string, string>;
+}
+
+// search_vector is derived by the database from the other columns
+const IGNORED_FIELDS = ['id', 'created_at', 'updated_at', 'search_vector'];
+
+const FIELD_LABELS: Record<string, string> = {
+  name: 'Nome',
+  code: 'Código',
+  serial_number: 'Número de Série',
+  description: 'Descrição',
+  category_id: 'Categoria',
+  company_id: 'Empresa',
+  department_id: 'Departamento',
+  unit_id: 'Unidade',
+  purchase_value: 'Valor de Compra',
+  currency: 'Moeda',
+  purchase_date: 'Data de Compra',
+  residual_value: 'Valor Residual',
+  useful_life_years: 'Vida Útil (anos)',
+  depreciation_method: 'Método de Depreciação',
+  total_units: 'Produção Total Estimada',
+  units_used: 'Unidades Produzidas',
+  ncm: 'NCM',
+  work_shifts: 'Turnos de Operação',
+  status: 'Status',
+  current_location: 'Localização',
+  location_type: 'Tipo de Localização',
+  latitude: 'Latitude',
+  longitude: 'Longitude',
+  rfid_id: 'RFID',
+  assigned_to: 'Responsável',
+  deleted_at: 'Arquivado em',
+  deleted_by: 'Arquivado por',
+  maintenance_type: 'Tipo de Manutenção',
+  scheduled_date: 'Data Agendada',
+  completed_date: 'Data de Conclusão',
+  cost: 'Custo',
+  labor_cost: 'Mão de Obra',
+  labor_hours: 'Horas de Trabalho',
+  parts_used: 'Peças',
+  performed_by: 'Executado por',
+  disposal_date: 'Data da Baixa',
+  disposal_method: 'Método de Baixa',
+  disposal_reason: 'Motivo da Baixa',
+  sale_value: 'Valor de Venda',
+  buyer_info: 'Comprador',
+  book_value: 'Valor Contábil',
+  gain_loss: 'Ganho/Perda',
+  environmental_compliance: 'Conformidade Ambiental',
+  certificate_url: 'Certificado',
+  disposed_by: 'Baixado por',
+  event_type: 'Tipo de Evento',
+  event_date: 'Data do Evento',
+  previous_book_value: 'Valor Contábil Anterior',
+  new_book_value: 'Novo Valor Contábil',
+  remaining_useful_life_years: 'Vida Útil Remanescente (anos)',
+  units_used_at_event: 'Unidades Produzidas no Evento',
+  justification: 'Justificativa',
+  document_id: 'Laudo de Avaliação',
+  created_by: 'Registrado por',
+};
+
+const CURRENCY_FIELDS = ['purchase_value', 'residual_value', 'cost', 'labor_cost', 'sale_value', 'book_value', 'gain_loss', 'previous_book_value', 'new_book_value'];
+const DATE_FIELDS = ['purchase_date', 'scheduled_date', 'completed_date', 'disposal_date', 'event_date'];
+const TIMESTAMP_FIELDS = ['deleted_at'];
+const PROFILE_FIELDS = ['assigned_to', 'deleted_by', 'performed_by', 'disposed_by', 'created_by'];
+
+const STATUS_LABELS: Record<string, string> = {
+  active: 'Ativo',
+  maintenance: 'Manutenção',
+  inactive: 'Inativo',
+  disposed: 'Descartado',
+};
+
+const EVENT_TYPE_LABELS: Record<string, string> = {
+  revaluation: 'Reavaliação',
+  impairment: 'Impairment',
+};
+
+export const getFieldLabel = (field: string) => FIELD_LABELS[field] || field;
+
+export const toAuditRecord = (data: Json | null): AuditRecord | null =>
+  data && typeof data === 'object' && !Array.isArray(data) ? data : null;
+
+// Every key present on either side, so new columns show up without changes here
+export const diffAuditData = (oldData: Json | null, newData: Json | null): FieldChange[] => {
+  const before = toAuditRecord(oldData) || {};
+  const after = toAuditRecord(newData) || {};
+  const fields = [...new Set([...Object.keys(before), ...Object.keys(after)])]
+    .filter(field => !IGNORED_FIELDS.includes(field));
+
+  return fields
+    .filter(field => JSON.stringify(before[field] ?? null) !== JSON.stringify(after[field] ?? null))
+    .map(field => ({ field, old: before[field], new: after[field] }));
+};
+
+// Amounts are shown in the currency of the logged record
+export const formatAuditValue = (
+  field: string,
+  value: Json | undefined,
+  lookups: AuditLookups,
+  record: AuditRecord | null = null
+) => {
+  if (value === null || value === undefined || value === '') return '—';
+
+  const text = String(value);
+  if (field === 'category_id') return lookups.categories[text] || text;
+  if (field === 'department_id') return lookups.departments[text] || text;
+  if (field === 'unit_id') return lookups.units[text] || text;
+  if (PROFILE_FIELDS.includes(field)) return lookups.profiles[text] || text;
+  if (field === 'status') return STATUS_LABELS[text] || text;
+  if (field === 'event_type') return EVENT_TYPE_LABELS[text] || text;
+  if (field === 'depreciation_method') return DEPRECIATION_METHOD_LABELS[text as DepreciationMethod] || text;
+
+  if (CURRENCY_FIELDS.includes(field)) {
+    return formatMoney(Number(value), typeof record?.currency === 'string' ? record.currency : undefined);
+  }
+  if (DATE_FIELDS.includes(field)) {
+    return format(new Date(`${text.slice(0, 10)}T00:00:00`), 'dd/MM/yyyy', { locale: ptBR });
+  }
+  if (TIMESTAMP_FIELDS.includes(field)) {
+    return format(new Date(text), 'dd/MM/yyyy HH:mm', { locale: ptBR });
+  }
+  if (typeof value === 'boolean') return value ? 'Sim' : 'Não';
+  if (typeof value === 'object') return JSON.stringify(value);
+
+  return text;
+};
+
+export const fetchAuditLookups = async (): Promise<AuditLookups> => {
+  const [categories, departments, units, profiles] = await Promise.all([
+    supabase.from('categories').select('id, name'),
+    supabase.from('departments').select('id, name'),
+    supabase.from('units').select('id, name'),
+    supabase.from('profiles').select('user_id, full_name'),
+  ]);
+
+  const toMap = (rows: { id: string; name: string }[] | null) =>
+    Object.fromEntries((rows || []).map(row => [row.id, row.name]));
+
+  return {
+    categories: toMap(categories.data),
+    departments: toMap(departments.data),
+    units: toMap(units.data),
+    profiles: Object.fromEntries((profiles.data || []).map(profile => [profile.user_id, profile.full_name || profile.user_id])),
+  };
+};
@@ -0,0 +1,58 @@
+// Currency rules shared by every screen. Keep in sync with the SQL
+// function public.get_exchange_rate so database and UI agree.
+
+export const DEFAULT_CURRENCY = 'BRL';
+
+export const CURRENCY_LABELS: Record<string, string> = {
+  BRL: 'Real (BRL)',
+  USD: 'Dólar americano (USD)',
+  EUR: 'Euro (EUR)',
+  GBP: 'Libra esterlina (GBP)',
+  JPY: 'Iene (JPY)',
+  CNY: 'Yuan (CNY)',
+  CHF: 'Franco suíço (CHF)',
+  ARS: 'Peso argentino (ARS)',
+};
+
+export const CURRENCIES = Object.keys(CURRENCY_LABELS);
+
+export interface ExchangeRate {
+  currency: string;
+  base_currency: string;
+  rate_date: string;
+  rate: number;
+}
+
+export const formatMoney = (value: number, currency: string = DEFAULT_CURRENCY) =>
+  new Intl.NumberFormat('pt-BR', { style: 'currency', currency: currency || DEFAULT_CURRENCY }).format(value);
+
+const latestOnOrBefore = (rates: ExchangeRate[], currency: string, base: string, date: string) =>
+  rates
+    .filter(rate => rate.currency === currency && rate.base_currency === base && rate.rate_date <= date)
+    .sort((a, b) => b.rate_date.localeCompare(a.rate_date))[0] || null;
+
+// Latest rate on or before the date; a quote stored the other way round is inverted.
+// null when no rate is known, so callers never convert at an invented rate.
+export const findExchangeRate = (rates: ExchangeRate[], currency: string, base: string, date: string) => {
+  if (!currency || currency === base) return 1;
+
+  const day = date.slice(0, 10);
+  const direct = latestOnOrBefore(rates, currency, base, day);
+  const inverse = latestOnOrBefore(rates, base, currency, day);
+
+  if (inverse && (!direct || inverse.rate_date > direct.rate_date)) {
+    return 1 / Number(inverse.rate);
+  }
+  return direct ? Number(direct.rate) : null;
+};
+
+export const convertAmount = (
+  rates: ExchangeRate[],
+  amount: number,
+  currency: string,
+  base: string,
+  date: string
+) => {
+  const rate = findExchangeRate(rates, currency, base, date);
+  return rate === null ? null : Number(amount) * rate;
+};
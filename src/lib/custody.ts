@@ -0,0 +1,35 @@
+import { format } from 'date-fns';
+
+// Custody loan rules shared by the asset details, "Meus Ativos" and the
+// notifications. Conditions match the CHECK constraint on public.asset_loans.
+
+export type LoanCondition = 'new' | 'good' | 'fair' | 'poor' | 'damaged';
+
+export const LOAN_CONDITION_LABELS: Record<LoanCondition, string> = {
+  new: 'Novo',
+  good: 'Bom',
+  fair: 'Regular',
+  poor: 'Ruim',
+  damaged: 'Danificado',
+};
+
+export const getLoanConditionLabel = (condition: string | null) =>
+  condition ? LOAN_CONDITION_LABELS[condition as LoanCondition] || condition : '—';
+
+export const LOAN_ERROR_MESSAGES: Record<string, string> = {
+  'Permission denied': 'Você não tem permissão para emprestar este ativo.',
+  'Asset is not in service': 'O ativo está baixado ou arquivado.',
+  'Borrower not found': 'A pessoa selecionada não pertence à empresa.',
+  'Due date must not be in the past': 'A data de devolução não pode estar no passado.',
+  'Asset already checked out': 'O ativo já está emprestado.',
+  'Asset already checked in': 'O empréstimo já foi encerrado.',
+  'Loan not found': 'Empréstimo não encontrado.',
+};
+
+export const todayDate = () => format(new Date(), 'yyyy-MM-dd');
+
+// Due dates are calendar days: a loan is overdue from the day after it
+export const isLoanOverdue = (loan: { due_date: string; returned_at: string | null }) =>
+  !loan.returned_at && loan.due_date < todayDate();
+
+export const formatDueDate = (date: string) => format(new Date(`${date}T00:00:00`), 'dd/MM/yyyy');
@@ -0,0 +1,158 @@
+// Depreciation rules shared by every screen. Keep in sync with the SQL
+// function public.depreciation_amount so database and UI agree.
+
+export type DepreciationMethod =
+  | 'straight_line'
+  | 'declining_balance'
+  | 'sum_of_years_digits'
+  | 'units_of_production';
+
+export const DEPRECIATION_METHOD_LABELS: Record<DepreciationMethod, string> = {
+  straight_line: 'Linear',
+  declining_balance: 'Saldo decrescente',
+  sum_of_years_digits: 'Soma dos dígitos dos anos',
+  units_of_production: 'Unidades produzidas',
+};
+
+// Accelerated fiscal depreciation for assets running more than one 8-hour shift (RIR/2018, art. 323)
+export const WORK_SHIFT_LABELS: Record<number, string> = {
+  1: '1 turno (8h)',
+  2: '2 turnos (16h) - coeficiente 1,5',
+  3: '3 turnos (24h) - coeficiente 2,0',
+};
+
+// Units of production has no history of readings: the units stored on the asset
+// count for every date, so past values follow later edits of that number
+export const UNITS_OF_PRODUCTION_NOTE =
+  'As unidades produzidas informadas valem para qualquer data: atualize-as antes de fechar cada período, ' +
+  'pois alterações posteriores mudam os valores de datas passadas e dos períodos ainda abertos.';
+
+export const FISCAL_RATE_SOURCE_LABELS: Record<string, string> = {
+  ncm: 'NCM',
+  category: 'Categoria',
+  accounting: 'Vida útil contábil',
+};
+
+export interface ValuationEvent {
+  event_date: string;
+  new_book_value: number;
+  remaining_useful_life_years: number;
+  units_used_at_event: number;
+}
+
+export interface DepreciableAsset {
+  purchase_value: number;
+  residual_value: number | null;
+  useful_life_years: number;
+  purchase_date: string;
+  depreciation_method?: string | null;
+  total_units?: number | null;
+  units_used?: number | null;
+  categories?: { depreciation_method?: string | null } | null;
+  asset_valuation_events?: ValuationEvent[] | null;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const toDate = (date: string) => new Date(`${date.slice(0, 10)}T00:00:00`);
+
+// The asset override wins over its category; straight-line is the default
+export const getDepreciationMethod = (asset: DepreciableAsset): DepreciationMethod =>
+  (asset.depreciation_method || asset.categories?.depreciation_method || 'straight_line') as DepreciationMethod;
+
+// Accumulated depreciation of a cost after a number of years, mirrors public.depreciation_for_years
+const depreciationForYears = (
+  method: DepreciationMethod,
+  cost: number,
+  residual: number,
+  life: number,
+  elapsedYears: number,
+  totalUnits: number | null,
+  unitsUsed: number
+) => {
+  const depreciable = Math.max(0, cost - residual);
+  const years = Math.max(0, elapsedYears);
+
+  if (depreciable === 0 || !life) return 0;
+
+  let depreciation: number;
+  switch (method) {
+    case 'declining_balance': {
+      // Double-declining balance, switching to straight-line over the remaining life once
+      // that charges more, so the book value reaches the residual value at the end of the life
+      const rate = Math.min(2 / life, 1);
+      const yearCharge = (bookValue: number, year: number) =>
+        Math.min(Math.max(bookValue * rate, (bookValue - residual) / (life - year)), bookValue - residual);
+      const fullYears = Math.min(Math.floor(years), life);
+      let bookValue = cost;
+      for (let year = 0; year < fullYears; year++) {
+        bookValue -= yearCharge(bookValue, year);
+      }
+      if (fullYears < life) {
+        bookValue -= (years - fullYears) * yearCharge(bookValue, fullYears);
+      }
+      depreciation = cost - bookValue;
+      break;
+    }
+    case 'sum_of_years_digits': {
+      const digits = (life * (life + 1)) / 2;
+      const fullYears = Math.min(Math.floor(years), life);
+      const fraction = years >= life ? 0 : years - fullYears;
+      const elapsedDigits = fullYears * life - (fullYears * (fullYears - 1)) / 2 + fraction * (life - fullYears);
+      depreciation = depreciable * (elapsedDigits / digits);
+      break;
+    }
+    case 'units_of_production':
+      // Uses the units stored now for any date (see UNITS_OF_PRODUCTION_NOTE).
+      // Without an expected total of units there is nothing to spread, fall back to straight-line
+      if (totalUnits && totalUnits > 0) {
+        depreciation = depreciable * Math.min(unitsUsed / totalUnits, 1);
+      } else {
+        depreciation = depreciable * (Math.min(years, life) / life);
+      }
+      break;
+    default:
+      depreciation = depreciable * (Math.min(years, life) / life);
+  }
+
+  return Math.min(Math.max(0, depreciation), depreciable);
+};
+
+const yearsBetween = (from: string, asOf: Date) => (asOf.getTime() - toDate(from).getTime()) / DAY_MS / 365.25;
+
+// Depreciation from the purchase data alone, before any revaluation or impairment
+export const calculateDepreciation = (asset: DepreciableAsset, asOf: Date = new Date()) =>
+  depreciationForYears(
+    getDepreciationMethod(asset),
+    Number(asset.purchase_value),
+    Number(asset.residual_value || 0),
+    asset.useful_life_years,
+    yearsBetween(asset.purchase_date, asOf),
+    asset.total_units ? Number(asset.total_units) : null,
+    Number(asset.units_used || 0)
+  );
+
+export const getLatestValuationEvent = (asset: DepreciableAsset, asOf: Date = new Date()) =>
+  (asset.asset_valuation_events || [])
+    .filter(event => toDate(event.event_date) <= asOf)
+    .sort((a, b) => b.event_date.localeCompare(a.event_date))[0] || null;
+
+// After a revaluation or impairment, depreciation restarts from the new carrying amount
+// over the remaining life. Mirrors public.calculate_asset_book_value.
+export const calculateBookValue = (asset: DepreciableAsset, asOf: Date = new Date()) => {
+  const event = getLatestValuationEvent(asset, asOf);
+  if (!event) {
+    return Number(asset.purchase_value) - calculateDepreciation(asset, asOf);
+  }
+
+  const unitsAtEvent = Number(event.units_used_at_event || 0);
+  return Number(event.new_book_value) - depreciationForYears(
+    getDepreciationMethod(asset),
+    Number(event.new_book_value),
+    Number(asset.residual_value || 0),
+    event.remaining_useful_life_years,
+    yearsBetween(event.event_date, asOf),
+    asset.total_units ? Number(asset.total_units) - unitsAtEvent : null,
+    Number(asset.units_used || 0) - unitsAtEvent
+  );
+};
@@ -0,0 +1,222 @@
+// Tabular PDF inventory report: assets grouped by category or department
+// with subtotals, a grand total and accumulated depreciation. Amounts are
+// converted to the base currency at the purchase-date rate, like the dashboard.
+
+import { calculateBookValue, DepreciableAsset } from '@/lib/depreciation';
+import { ExchangeRate, findExchangeRate, formatMoney } from '@/lib/currency';
+
+export type ReportGrouping = 'category' | 'department';
+
+export const REPORT_GROUPING_LABELS: Record<ReportGrouping, string> = {
+  category: 'Categoria',
+  department: 'Departamento',
+};
+
+export interface ReportAsset extends DepreciableAsset {
+  code: string;
+  name: string;
+  currency: string;
+  categories: { name: string; depreciation_method?: string | null } | null;
+  departments: { name: string } | null;
+  units: { name: string } | null;
+}
+
+export interface InventoryReportOptions {
+  assets: ReportAsset[];
+  grouping: ReportGrouping;
+  companyName: string;
+  baseCurrency: string;
+  rates: ExchangeRate[];
+  // One human-readable line per applied filter
+  filters: string[];
+}
+
+interface ReportLine {
+  asset: ReportAsset;
+  purchaseValue: number;
+  bookValue: number;
+  // Without a rate for the purchase date the line keeps its own currency and stays out of the totals
+  converted: boolean;
+}
+
+const NO_GROUP = {
+  category: 'Sem categoria',
+  department: 'Sem departamento',
+};
+
+const MARGIN = 14;
+const HEADER_HEIGHT = 24;
+
+const groupName = (asset: ReportAsset, grouping: ReportGrouping) =>
+  (grouping === 'category' ? asset.categories?.name : asset.departments?.name) || NO_GROUP[grouping];
+
+const sumLines = (lines: ReportLine[]) => lines
+  .filter(line => line.converted)
+  .reduce((totals, line) => ({
+    purchaseValue: totals.purchaseValue + line.purchaseValue,
+    bookValue: totals.bookValue + line.bookValue,
+  }), { purchaseValue: 0, bookValue: 0 });
+
+export const generateInventoryReport = async ({
+  assets,
+  grouping,
+  companyName,
+  baseCurrency,
+  rates,
+  filters,
+}: InventoryReportOptions) => {
+  const { jsPDF } = await import('jspdf');
+  const { autoTable } = await import('jspdf-autotable');
+
+  const formatBase = (value: number) => formatMoney(value, baseCurrency);
+  const generatedAt = new Date();
+
+  const lines: ReportLine[] = assets.map(asset => {
+    const rate = findExchangeRate(rates, asset.currency, baseCurrency, asset.purchase_date);
+    const bookValue = calculateBookValue(asset, generatedAt);
+    return {
+      asset,
+      purchaseValue: Number(asset.purchase_value) * (rate ?? 1),
+      bookValue: bookValue * (rate ?? 1),
+      converted: rate !== null,
+    };
+  });
+
+  const groups = new Map<string, ReportLine[]>();
+  lines.forEach(line => {
+    const name = groupName(line.asset, grouping);
+    groups.set(name, [...(groups.get(name) || []), line]);
+  });
+  // Alphabetical, with the "no group" bucket last
+  const groupNames = Array.from(groups.keys()).sort((a, b) => {
+    if (a === NO_GROUP[grouping]) return 1;
+    if (b === NO_GROUP[grouping]) return -1;
+    return a.localeCompare(b, 'pt-BR');
+  });
+
+  const formatLineValue = (line: ReportLine, value: number) =>
+    line.converted ? formatBase(value) : `${formatMoney(value, line.asset.currency)} *`;
+
+  const body = groupNames.flatMap(name => {
+    const groupLines = groups.get(name)!.sort((a, b) => a.asset.code.localeCompare(b.asset.code, 'pt-BR'));
+    const subtotal = sumLines(groupLines);
+    return [
+      [{
+        content: `${REPORT_GROUPING_LABELS[grouping]}: ${name}`,
+        colSpan: 7,
+        styles: { fontStyle: 'bold' as const, fillColor: [235, 238, 243] as [number, number, number] },
+      }],
+      ...groupLines.map(line => [
+        line.asset.code,
+        line.asset.name,
+        line.asset.categories?.name || '—',
+        line.asset.departments?.name || '—',
+        line.asset.units?.name || '—',
+        formatLineValue(line, line.purchaseValue),
+        formatLineValue(line, line.bookValue),
+      ]),
+      [
+        {
+          content: `Subtotal ${name} (${groupLines.length} ${groupLines.length === 1 ? 'ativo' : 'ativos'})`,
+          colSpan: 5,
+          styles: { fontStyle: 'bold' as const, halign: 'right' as const },
+        },
+        { content: formatBase(subtotal.purchaseValue), styles: { fontStyle: 'bold' as const } },
+        { content: formatBase(subtotal.bookValue), styles: { fontStyle: 'bold' as const } },
+      ],
+    ];
+  });
+
+  const doc = new jsPDF({ orientation: 'landscape' });
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const pageHeight = doc.internal.pageSize.getHeight();
+
+  const drawHeader = () => {
+    doc.setFontSize(14);
+    doc.setFont('helvetica', 'bold');
+    doc.text(companyName, MARGIN, 12);
+    doc.setFontSize(11);
+    doc.setFont('helvetica', 'normal');
+    doc.text('Relatório de Inventário de Ativos', MARGIN, 18);
+    doc.setFontSize(8);
+    doc.text(
+      `Emitido em ${generatedAt.toLocaleString('pt-BR')} · Valores em ${baseCurrency}`,
+      pageWidth - MARGIN,
+      12,
+      { align: 'right' }
+    );
+    doc.setDrawColor(180);
+    doc.line(MARGIN, 21, pageWidth - MARGIN, 21);
+  };
+
+  drawHeader();
+  doc.setFontSize(9);
+  doc.text('Filtros aplicados:', MARGIN, HEADER_HEIGHT + 4);
+  const filterLines = filters.length > 0 ? filters : ['Nenhum (todos os ativos ativos)'];
+  filterLines.forEach((filter, index) => doc.text(`• ${filter}`, MARGIN + 4, HEADER_HEIGHT + 9 + index * 4.5));
+  doc.text(
+    `Agrupamento: ${REPORT_GROUPING_LABELS[grouping]} · ${assets.length} ${assets.length === 1 ? 'ativo' : 'ativos'}`,
+    MARGIN,
+    HEADER_HEIGHT + 11 + filterLines.length * 4.5
+  );
+
+  autoTable(doc, {
+    startY: HEADER_HEIGHT + 15 + filterLines.length * 4.5,
+    margin: { top: HEADER_HEIGHT + 4, left: MARGIN, right: MARGIN, bottom: 16 },
+    head: [['Código', 'Nome', 'Categoria', 'Departamento', 'Unidade', 'Valor de Compra', 'Valor Contábil']],
+    body,
+    theme: 'grid',
+    styles: { fontSize: 8, cellPadding: 1.5, overflow: 'linebreak' },
+    headStyles: { fillColor: [37, 99, 235], textColor: 255, fontStyle: 'bold' },
+    columnStyles: {
+      0: { cellWidth: 28 },
+      5: { halign: 'right', cellWidth: 34 },
+      6: { halign: 'right', cellWidth: 34 },
+    },
+    didDrawPage: (data) => {
+      if (data.pageNumber > 1) drawHeader();
+    },
+  });
+
+  // Grand total, moved to a new page when it does not fit under the table
+  const totals = sumLines(lines);
+  const unconverted = lines.filter(line => !line.converted).length;
+  let y = (doc as unknown as { lastAutoTable: { finalY: number } }).lastAutoTable.finalY + 8;
+  if (y + 30 > pageHeight - 16) {
+    doc.addPage();
+    drawHeader();
+    y = HEADER_HEIGHT + 8;
+  }
+
+  autoTable(doc, {
+    startY: y,
+    margin: { top: HEADER_HEIGHT + 4, left: pageWidth - MARGIN - 110, right: MARGIN },
+    theme: 'plain',
+    styles: { fontSize: 9, cellPadding: 1.2 },
+    columnStyles: { 1: { halign: 'right', fontStyle: 'bold' } },
+    body: [
+      ['Total geral - valor de compra', formatBase(totals.purchaseValue)],
+      ['Depreciação acumulada', formatBase(totals.purchaseValue - totals.bookValue)],
+      ['Total geral - valor contábil', formatBase(totals.bookValue)],
+    ],
+  });
+
+  if (unconverted > 0) {
+    y = (doc as unknown as { lastAutoTable: { finalY: number } }).lastAutoTable.finalY + 5;
+    doc.setFontSize(8);
+    doc.text(
+      `* ${unconverted} ativo(s) sem cotação de câmbio na data de compra: valores na moeda original, fora dos subtotais e totais.`,
+      MARGIN,
+      y
+    );
+  }
+
+  const pageCount = doc.getNumberOfPages();
+  for (let page = 1; page <= pageCount; page++) {
+    doc.setPage(page);
+    doc.setFontSize(8);
+    doc.text(`Página ${page} de ${pageCount}`, pageWidth - MARGIN, pageHeight - 8, { align: 'right' });
+  }
+
+  doc.save(`inventario-${grouping === 'category' ? 'categorias' : 'departamentos'}-${generatedAt.toISOString().slice(0, 10)}.pdf`);
+};
@@ -0,0 +1,207 @@
+import React, { useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/components/AuthProvider';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { useToast } from '@/hooks/use-toast';
+import { Loader2, Building2 } from 'lucide-react';
+
+// The invitation email links here with a session in the URL; the invitee
+// chooses a password and gets the profile prepared by the admin. Only an
+// account an invitation created, and that never accepted one, lacks a
+// password; anyone else (self sign-up, other companies) keeps theirs and joins.
+const AcceptInvite = () => {
+  const { user, loading: authLoading } = useAuth();
+  const { toast } = useToast();
+  const [invitationLoading, setInvitationLoading] = useState(true);
+  const [hasInvitation, setHasInvitation] = useState(false);
+  const [existingAccount, setExistingAccount] = useState(false);
+  const [fullName, setFullName] = useState('');
+  const [password, setPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+
+  useEffect(() => {
+    if (authLoading) return;
+    if (!user) {
+      setInvitationLoading(false);
+      return;
+    }
+
+    Promise.all([
+      supabase
+        .from('user_invitations')
+        .select('id, full_name')
+        .eq('user_id', user.id)
+        .is('accepted_at', null)
+        .is('revoked_at', null)
+        .order('created_at', { ascending: false })
+        .limit(1)
+        .maybeSingle(),
+      supabase
+        .from('user_invitations')
+        .select('created_account, accepted_at')
+        .eq('user_id', user.id),
+    ]).then(([{ data, error }, { data: history, error: historyError }]) => {
+      if (error) console.error('Error fetching invitation:', error);
+      if (historyError) console.error('Error fetching invitations:', historyError);
+      const invitations = history || [];
+      setHasInvitation(!!data);
+      setExistingAccount(
+        !invitations.some(invitation => invitation.created_account)
+          || invitations.some(invitation => invitation.accepted_at)
+      );
+      setFullName(data?.full_name || user.user_metadata?.full_name || '');
+      setInvitationLoading(false);
+    });
+  }, [user, authLoading]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!existingAccount && password.length < 6) {
+      toast({
+        title: "Erro",
+        description: "A senha deve ter no mínimo 6 caracteres.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    if (!existingAccount && password !== confirmPassword) {
+      toast({
+        title: "Erro",
+        description: "As senhas não conferem.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setSubmitting(true);
+    try {
+      if (!existingAccount) {
+        const { error: passwordError } = await supabase.auth.updateUser({ password });
+        if (passwordError) throw passwordError;
+      }
+
+      const { error } = await supabase.rpc('accept_invitation', { p_full_name: fullName });
+      if (error) throw error;
+
+      toast({
+        title: "Convite aceito!",
+        description: "Bem-vindo ao sistema de gestão de ativos",
+      });
+
+      // Full reload so every screen reads the new profile
+      window.location.href = '/';
+    } catch (error) {
+      console.error('Error accepting invitation:', error);
+      toast({
+        title: "Erro",
+        description: (error as Error).message === 'Invitation not found'
+          ? "Convite não encontrado ou revogado."
+          : "Erro ao aceitar convite.",
+        variant: "destructive",
+      });
+      setSubmitting(false);
+    }
+  };
+
+  const loading = authLoading || invitationLoading;
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-background to-accent/20 flex items-center justify-center p-4">
+      <div className="w-full max-w-md space-y-6">
+        <div className="text-center space-y-2">
+          <div className="mx-auto w-16 h-16 bg-gradient-primary rounded-2xl flex items-center justify-center shadow-lg">
+            <Building2 className="w-8 h-8 text-white" />
+          </div>
+          <h1 className="text-3xl font-bold text-foreground">AssetFlow</h1>
+          <p className="text-muted-foreground">
+            Sistema de Gestão de Ativos e Inventário
+          </p>
+        </div>
+
+        <Card className="bg-gradient-card border-border/50 shadow-xl">
+          <CardHeader className="space-y-1">
+            <CardTitle className="text-2xl text-center text-foreground">
+              Aceitar convite
+            </CardTitle>
+            <CardDescription className="text-center text-muted-foreground">
+              {user?.email || 'Defina sua senha para acessar o sistema'}
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            {loading ? (
+              <div className="flex justify-center py-6">
+                <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+              </div>
+            ) : !hasInvitation ? (
+              <div className="space-y-4 text-center">
+                <p className="text-sm text-muted-foreground">
+                  Este convite é inválido, expirou ou já foi utilizado. Peça ao administrador
+                  para reenviá-lo.
+                </p>
+                <Button asChild variant="outline" className="w-full">
+                  <Link to="/auth">Ir para o login</Link>
+                </Button>
+              </div>
+            ) : (
+              <form onSubmit={handleSubmit} className="space-y-4">
+                <div className="space-y-2">
+                  <Label htmlFor="invite-name">Nome Completo</Label>
+                  <Input
+                    id="invite-name"
+                    type="text"
+                    value={fullName}
+                    onChange={(e) => setFullName(e.target.value)}
+                    required
+                  />
+                </div>
+                {!existingAccount && (
+                  <>
+                    <div className="space-y-2">
+                      <Label htmlFor="invite-password">Senha</Label>
+                      <Input
+                        id="invite-password"
+                        type="password"
+                        placeholder="Mínimo 6 caracteres"
+                        value={password}
+                        onChange={(e) => setPassword(e.target.value)}
+                        required
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="invite-confirm-password">Confirmar Senha</Label>
+                      <Input
+                        id="invite-confirm-password"
+                        type="password"
+                        placeholder="••••••••"
+                        value={confirmPassword}
+                        onChange={(e) => setConfirmPassword(e.target.value)}
+                        required
+                      />
+                    </div>
+                  </>
+                )}
+                <Button
+                  type="submit"
+                  className="w-full bg-gradient-primary hover:bg-gradient-primary/90"
+                  disabled={submitting}
+                >
+                  {submitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                  {existingAccount ? 'Entrar na empresa' : 'Definir senha e entrar'}
+                </Button>
+              </form>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+};
+
+export default AcceptInvite;
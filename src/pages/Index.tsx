@@ -4,18 +4,32 @@ import { useNavigate } from 'react-router-dom';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent } from '@/components/ui/card';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Dialog } from '@/components/ui/dialog';
 import Dashboard from '@/components/Dashboard';
 import InventoryManager from '@/components/InventoryManager';
 import EnhancedMaintenanceDashboard from '@/components/EnhancedMaintenanceDashboard';
-import { Building2, Package, Plus, List, BarChart3, LogOut, User, Wrench, MapPin, Users, Tag, FileText } from 'lucide-react';
+import { Building2, Package, Plus, List, BarChart3, LogOut, User, Wrench, MapPin, Users, Tag, FileText, Boxes, BookLock, Coins, PackageCheck } from 'lucide-react';
 import UserManagement from '@/components/UserManagement';
 import CategoryManager from '@/components/CategoryManager';
 import NotificationSystem from '@/components/NotificationSystem';
+import SparePartsManager from '@/components/SparePartsManager';
+import SparePartsReorderReport from '@/components/SparePartsReorderReport';
+import DepreciationClose from '@/components/DepreciationClose';
+import DepreciationReconciliationReport from '@/components/DepreciationReconciliationReport';
+import ExchangeRateManager from '@/components/ExchangeRateManager';
+import GlobalSearch from '@/components/GlobalSearch';
+import CompanySwitcher from '@/components/CompanySwitcher';
+import AssetDetails from '@/components/AssetDetails';
+import MyAssets from '@/components/MyAssets';
+import { usePermissions } from '@/hooks/usePermissions';
 
 const Index = () => {
   const { user, loading, signOut } = useAuth();
+  const { canManageAssets, canManageOrganization } = usePermissions();
   const navigate = useNavigate();
   const [activeTab, setActiveTab] = useState('dashboard');
+  const [searchAssetId, setSearchAssetId] = useState<string | null>(null);
+  const [focusMaintenanceId, setFocusMaintenanceId] = useState<string | null>(null);
 
   useEffect(() => {
     if (!loading && !user) {
@@ -62,19 +76,29 @@ const Index = () => {
             </div>
             
             <div className="flex items-center gap-4">
+              <CompanySwitcher />
+              <GlobalSearch
+                onSelectAsset={setSearchAssetId}
+                onSelectMaintenance={(maintenanceId) => {
+                  setActiveTab('maintenance');
+                  setFocusMaintenanceId(maintenanceId);
+                }}
+              />
               <div className="flex items-center gap-2 text-sm text-muted-foreground">
                 <User className="w-4 h-4" />
                 {user.email}
               </div>
-              <Button 
-                variant="outline" 
-                size="sm" 
-                onClick={() => setActiveTab('settings')}
-                className="flex items-center gap-2"
-              >
-                <Users className="w-4 h-4" />
-                Configurações
-              </Button>
+              {canManageAssets && (
+                <Button 
+                  variant="outline" 
+                  size="sm" 
+                  onClick={() => setActiveTab('settings')}
+                  className="flex items-center gap-2"
+                >
+                  <Users className="w-4 h-4" />
+                  Configurações
+                </Button>
+              )}
               <Button variant="outline" size="sm" onClick={handleSignOut}>
                 <LogOut className="w-4 h-4 mr-2" />
                 Sair
@@ -88,7 +112,7 @@ const Index = () => {
       <main className="container mx-auto px-4 py-8">
         <Tabs value={activeTab} onValueChange={setActiveTab} className="space-y-6">
           <div className="flex items-center justify-between">
-            <TabsList className="grid w-auto grid-cols-3 bg-card/50 backdrop-blur-sm">
+            <TabsList className="grid w-auto grid-cols-5 bg-card/50 backdrop-blur-sm">
               <TabsTrigger value="dashboard" className="flex items-center gap-2">
                 <BarChart3 className="w-4 h-4" />
                 Dashboard
@@ -101,6 +125,14 @@ const Index = () => {
                 <Wrench className="w-4 h-4" />
                 Manutenções
               </TabsTrigger>
+              <TabsTrigger value="parts" className="flex items-center gap-2">
+                <Boxes className="w-4 h-4" />
+                Peças
+              </TabsTrigger>
+              <TabsTrigger value="my-assets" className="flex items-center gap-2">
+                <PackageCheck className="w-4 h-4" />
+                Meus Ativos
+              </TabsTrigger>
             </TabsList>
           </div>
 
@@ -120,35 +152,83 @@ const Index = () => {
           </TabsContent>
 
           <TabsContent value="maintenance" className="space-y-6">
-            <EnhancedMaintenanceDashboard />
+            <EnhancedMaintenanceDashboard
+              focusMaintenanceId={focusMaintenanceId}
+              onFocusHandled={() => setFocusMaintenanceId(null)}
+            />
+          </TabsContent>
+
+          <TabsContent value="parts" className="space-y-6">
+            <SparePartsManager />
+            <SparePartsReorderReport />
+          </TabsContent>
+
+          <TabsContent value="my-assets" className="space-y-6">
+            <MyAssets onSelectAsset={setSearchAssetId} />
           </TabsContent>
 
-          {activeTab === 'settings' && (
+          {activeTab === 'settings' && canManageAssets && (
             <div className="space-y-6">
-              <Tabs defaultValue="users" className="space-y-6">
-                <TabsList className="grid w-auto grid-cols-2 bg-card/50">
-                  <TabsTrigger value="users" className="flex items-center gap-2">
-                    <Users className="w-4 h-4" />
-                    Usuários
+              {/* Users and categories are organization settings, for admins only */}
+              <Tabs defaultValue={canManageOrganization ? 'users' : 'closing'} className="space-y-6">
+                <TabsList className={`grid w-auto ${canManageOrganization ? 'grid-cols-4' : 'grid-cols-2'} bg-card/50`}>
+                  {canManageOrganization && (
+                    <>
+                      <TabsTrigger value="users" className="flex items-center gap-2">
+                        <Users className="w-4 h-4" />
+                        Usuários
+                      </TabsTrigger>
+                      <TabsTrigger value="categories" className="flex items-center gap-2">
+                        <Tag className="w-4 h-4" />
+                        Categorias
+                      </TabsTrigger>
+                    </>
+                  )}
+                  <TabsTrigger value="closing" className="flex items-center gap-2">
+                    <BookLock className="w-4 h-4" />
+                    Fechamento
                   </TabsTrigger>
-                  <TabsTrigger value="categories" className="flex items-center gap-2">
-                    <Tag className="w-4 h-4" />
-                    Categorias
+                  <TabsTrigger value="exchange" className="flex items-center gap-2">
+                    <Coins className="w-4 h-4" />
+                    Câmbio
                   </TabsTrigger>
                 </TabsList>
                 
-                <TabsContent value="users">
-                  <UserManagement />
+                {canManageOrganization && (
+                  <>
+                    <TabsContent value="users">
+                      <UserManagement />
+                    </TabsContent>
+
+                    <TabsContent value="categories">
+                      <CategoryManager />
+                    </TabsContent>
+                  </>
+                )}
+
+                <TabsContent value="closing" className="space-y-6">
+                  <DepreciationClose />
+                  <DepreciationReconciliationReport />
                 </TabsContent>
-                
-                <TabsContent value="categories">
-                  <CategoryManager />
+
+                <TabsContent value="exchange">
+                  <ExchangeRateManager />
                 </TabsContent>
               </Tabs>
             </div>
           )}
         </Tabs>
       </main>
+
+      {/* Asset picked in the global search or in Meus Ativos */}
+      {searchAssetId && (
+        <Dialog open={!!searchAssetId} onOpenChange={() => setSearchAssetId(null)}>
+          <AssetDetails
+            assetId={searchAssetId}
+            onClose={() => setSearchAssetId(null)}
+          />
+        </Dialog>
+      )}
     </div>
   );
 };
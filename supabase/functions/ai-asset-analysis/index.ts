@@ -49,6 +49,8 @@ serve(async (req) => {
     
     5. INTERVALO DE MANUTENÇÃO: Sugira intervalos de manutenção em meses
     
+    6. NCM: Sugira o código NCM de 8 dígitos do ativo, usado para a taxa de depreciação fiscal da Receita Federal (IN RFB 1.700/2017, Anexo III)
+    
     Responda APENAS em formato JSON válido:
     {
       "categoria": "string",
@@ -56,6 +58,7 @@ serve(async (req) => {
       "valorResidualPercentual": number,
       "tipoManutencao": "preventiva" | "corretiva" | "preditiva",
       "intervaloManutencaoMeses": number,
+      "ncm": "string com 8 dígitos, sem pontos",
       "justificativa": "string explicando brevemente as escolhas"
     }
     `;
@@ -108,6 +111,7 @@ serve(async (req) => {
         valorResidualPercentual: 10,
         tipoManutencao: "preventiva",
         intervaloManutencaoMeses: 6,
+        ncm: null,
         justificativa: "Análise padrão aplicada devido a erro no processamento da resposta da IA"
       };
     }
@@ -11,6 +11,33 @@ const openAIApiKey = Deno.env.get('Open_AI_KEY');
 const supabaseUrl = Deno.env.get('SUPABASE_URL');
 const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
 
+interface ExchangeRate {
+  currency: string;
+  base_currency: string;
+  rate_date: string;
+  rate: number;
+}
+
+// Same lookup as src/lib/currency.ts: latest rate on or before the date, inverse quotes allowed
+const findExchangeRate = (rates: ExchangeRate[], currency: string, base: string, date: string) => {
+  if (!currency || currency === base) return 1;
+
+  const latest = (from: string, to: string) => rates
+    .filter(rate => rate.currency === from && rate.base_currency === to && rate.rate_date <= date.slice(0, 10))
+    .sort((a, b) => b.rate_date.localeCompare(a.rate_date))[0];
+
+  const direct = latest(currency, base);
+  const inverse = latest(base, currency);
+  if (inverse && (!direct || inverse.rate_date > direct.rate_date)) return 1 / Number(inverse.rate);
+  return direct ? Number(direct.rate) : null;
+};
+
+const respondError = (error: string, status: number) =>
+  new Response(JSON.stringify({ success: false, error }), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+
 serve(async (req) => {
   // Handle CORS preflight requests
   if (req.method === 'OPTIONS') {
@@ -22,7 +49,7 @@ serve(async (req) => {
       throw new Error('Required environment variables not configured');
     }
 
-    const { prompt, userToken } = await req.json();
+    const { prompt } = await req.json();
 
     if (!prompt) {
       throw new Error('Prompt is required');
@@ -33,6 +60,51 @@ serve(async (req) => {
     // Initialize Supabase client with service role for data access
     const supabase = createClient(supabaseUrl, supabaseServiceKey);
 
+    // The service role bypasses RLS, so the caller comes from their own token
+    // and every query below is filtered by their active company
+    const token = req.headers.get('Authorization')?.replace('Bearer ', '');
+    const { data: { user } } = await supabase.auth.getUser(token);
+    if (!user) {
+      return respondError('Not authenticated', 401);
+    }
+
+    // Amounts are reported in the base currency of the user's company, at the transaction date rate
+    const { data: profile } = await supabase
+      .from('profiles')
+      .select('company_id, companies (base_currency)')
+      .eq('user_id', user.id)
+      .maybeSingle();
+    if (!profile?.company_id) {
+      return respondError('Permission denied', 403);
+    }
+    const companyId: string = profile.company_id;
+
+    const { data: membership } = await supabase
+      .from('company_members')
+      .select('id')
+      .eq('user_id', user.id)
+      .eq('company_id', companyId)
+      .is('deactivated_at', null)
+      .maybeSingle();
+    if (!membership) {
+      return respondError('Permission denied', 403);
+    }
+
+    const { data: rates } = await supabase
+      .from('exchange_rates')
+      .select('currency, base_currency, rate_date, rate')
+      .eq('company_id', companyId);
+    const baseCurrency = profile?.companies?.base_currency || 'BRL';
+    let unconverted = 0;
+    const toBase = (amount: number | null, currency: string, date: string) => {
+      const rate = findExchangeRate(rates || [], currency, baseCurrency, date);
+      if (rate === null) {
+        unconverted += 1;
+        return 0;
+      }
+      return Number(amount || 0) * rate;
+    };
+
     // First, let AI understand what data is available and what query to make
     const schemaPrompt = `
     Você é um analista de dados especializado em gestão de ativos. Baseado no prompt do usuário abaixo, gere uma consulta SQL para o banco de dados PostgreSQL.
@@ -43,10 +115,12 @@ serve(async (req) => {
     - id (uuid)
     - name (text) - nome do ativo
     - code (text) - código do ativo  
-    - purchase_value (numeric) - valor de compra
+    - purchase_value (numeric) - valor de compra, na moeda do ativo
+    - currency (text) - moeda ISO 4217 do valor de compra
     - residual_value (numeric) - valor residual
     - purchase_date (date) - data de compra
     - useful_life_years (integer) - vida útil em anos
+    - depreciation_method (text) - método de depreciação do ativo; quando nulo, vale o da categoria
     - status (text) - status do ativo
     - category_id (uuid) - referência para categoria
     - department_id (uuid) - referência para departamento
@@ -57,7 +131,8 @@ serve(async (req) => {
     - id (uuid)
     - asset_id (uuid) - referência para ativo
     - description (text) - descrição da manutenção
-    - cost (numeric) - custo da manutenção
+    - cost (numeric) - custo da manutenção, na moeda da manutenção
+    - currency (text) - moeda ISO 4217 do custo
     - scheduled_date (date) - data agendada
     - completed_date (date) - data de conclusão
     - maintenance_type (text) - tipo: 'preventiva', 'corretiva', 'emergencial'
@@ -65,10 +140,18 @@ serve(async (req) => {
     - labor_hours (numeric) - horas de trabalho
     - created_at (timestamp)
 
+    Tabela "exchange_rates":
+    - company_id (uuid) - empresa dona da cotação
+    - currency (text) - moeda cotada
+    - base_currency (text) - moeda base
+    - rate_date (date) - data da cotação
+    - rate (numeric) - unidades da moeda base por unidade da moeda cotada
+
     Tabela "categories":
     - id (uuid)
     - name (text) - nome da categoria
     - description (text)
+    - depreciation_method (text) - método de depreciação padrão da categoria
 
     Tabela "departments":
     - id (uuid)
@@ -81,8 +164,7 @@ serve(async (req) => {
     - department_id (uuid)
 
     Funções disponíveis:
-    - calculate_depreciation(purchase_value, residual_value, useful_life_years, purchase_date) - calcula depreciação
-    - calculate_book_value(purchase_value, residual_value, useful_life_years, purchase_date) - calcula valor contábil
+    - calculate_asset_book_value(asset_id, data) - valor contábil do ativo na data (padrão: hoje), na moeda do ativo; considera o método de depreciação do ativo ou da categoria e as reavaliações e impairments registrados
 
     PROMPT DO USUÁRIO: "${prompt}"
 
@@ -144,7 +226,8 @@ serve(async (req) => {
         .select(`
           *,
           categories (name)
-        `);
+        `)
+        .eq('company_id', companyId);
       
       if (error) throw error;
       
@@ -156,7 +239,7 @@ serve(async (req) => {
         if (!categoryData[categoryName]) {
           categoryData[categoryName] = { value: 0, total: 0 };
         }
-        categoryData[categoryName].value += asset.purchase_value || 0;
+        categoryData[categoryName].value += toBase(asset.purchase_value, asset.currency, asset.purchase_date);
         categoryData[categoryName].total += 1;
       });
       
@@ -173,6 +256,7 @@ serve(async (req) => {
           *,
           assets (name, code)
         `)
+        .eq('company_id', companyId)
         .order('created_at', { ascending: false })
         .limit(50);
       
@@ -186,7 +270,7 @@ serve(async (req) => {
         if (!maintenanceData[type]) {
           maintenanceData[type] = { value: 0, total: 0 };
         }
-        maintenanceData[type].value += maintenance.cost || 0;
+        maintenanceData[type].value += toBase(maintenance.cost, maintenance.currency, maintenance.completed_date || maintenance.scheduled_date);
         maintenanceData[type].total += 1;
       });
       
@@ -199,7 +283,8 @@ serve(async (req) => {
       // Default: assets by status
       const { data, error } = await supabase
         .from('assets')
-        .select('*');
+        .select('*')
+        .eq('company_id', companyId);
       
       if (error) throw error;
       
@@ -210,7 +295,7 @@ serve(async (req) => {
         if (!statusData[status]) {
           statusData[status] = { value: 0, total: 0 };
         }
-        statusData[status].value += asset.purchase_value || 0;
+        statusData[status].value += toBase(asset.purchase_value, asset.currency, asset.purchase_date);
         statusData[status].total += 1;
       });
       
@@ -229,6 +314,8 @@ serve(async (req) => {
     
     Prompt original: "${prompt}"
     
+    Valores monetários em ${baseCurrency}.
+    
     Dados do relatório:
     ${JSON.stringify(reportData, null, 2)}
     
@@ -281,6 +368,8 @@ serve(async (req) => {
       data: reportData,
       title: reportMetadata.title,
       insights: reportMetadata.insights,
+      currency: baseCurrency,
+      unconverted,
       query: sqlQuery
     }), {
       headers: { ...corsHeaders, 'Content-Type': 'application/json' },
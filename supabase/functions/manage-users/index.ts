@@ -0,0 +1,437 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.39.3';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const supabaseUrl = Deno.env.get('SUPABASE_URL');
+const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+
+const ROLES = ['admin', 'manager', 'user'];
+// Supabase has no permanent ban; a hundred years is the convention
+const BAN_DURATION = '876000h';
+
+// Errors the UI translates; anything else is reported as is with status 500
+class RequestError extends Error {
+  constructor(message: string, public status = 400) {
+    super(message);
+  }
+}
+
+interface Assignment {
+  role?: string;
+  department_id?: string | null;
+  unit_id?: string | null;
+}
+
+const isAlreadyRegistered = (error: { message: string }) =>
+  error.message.toLowerCase().includes('already been registered');
+
+const respond = (body: Record<string, unknown>, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+
+serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    if (!supabaseUrl || !supabaseServiceKey) {
+      throw new Error('Required environment variables not configured');
+    }
+
+    // Service role for the auth admin API; the caller is identified by their own token
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    const token = req.headers.get('Authorization')?.replace('Bearer ', '');
+    const { data: { user: caller } } = await supabase.auth.getUser(token);
+    if (!caller) {
+      throw new RequestError('Not authenticated', 401);
+    }
+
+    const { data: callerProfile } = await supabase
+      .from('profiles')
+      .select('role, company_id')
+      .eq('user_id', caller.id)
+      .maybeSingle();
+    if (callerProfile?.role !== 'admin' || !callerProfile.company_id) {
+      throw new RequestError('Permission denied', 403);
+    }
+    const companyId: string = callerProfile.company_id;
+
+    const { data: callerMembership } = await supabase
+      .from('company_members')
+      .select('id')
+      .eq('user_id', caller.id)
+      .eq('company_id', companyId)
+      .is('deactivated_at', null)
+      .maybeSingle();
+    if (!callerMembership) {
+      throw new RequestError('Permission denied', 403);
+    }
+
+    // Departments and units must belong to the admin's active company
+    const checkAssignment = async ({ role, department_id, unit_id }: Assignment) => {
+      if (role !== undefined && !ROLES.includes(role)) {
+        throw new RequestError('Invalid role');
+      }
+      if (department_id) {
+        const { data } = await supabase
+          .from('departments')
+          .select('id')
+          .eq('id', department_id)
+          .eq('company_id', companyId)
+          .maybeSingle();
+        if (!data) throw new RequestError('Invalid department');
+      }
+      if (unit_id) {
+        if (!department_id) throw new RequestError('Invalid unit');
+        const { data } = await supabase
+          .from('units')
+          .select('id')
+          .eq('id', unit_id)
+          .eq('department_id', department_id)
+          .maybeSingle();
+        if (!data) throw new RequestError('Invalid unit');
+      }
+    };
+
+    // Admins only manage members of their own company
+    const checkMember = async (userId: string) => {
+      if (!userId) throw new RequestError('User is required');
+      const { data } = await supabase
+        .from('company_members')
+        .select('id')
+        .eq('user_id', userId)
+        .eq('company_id', companyId)
+        .maybeSingle();
+      if (!data) throw new RequestError('User not found', 404);
+    };
+
+    // The password and the ban apply to the whole account, which other
+    // companies' admins also manage
+    const otherMemberships = async (userId: string, activeOnly = false) => {
+      let query = supabase
+        .from('company_members')
+        .select('company_id, role, department_id, unit_id')
+        .eq('user_id', userId)
+        .neq('company_id', companyId);
+      if (activeOnly) query = query.is('deactivated_at', null);
+      const { data, error } = await query;
+      if (error) throw error;
+      return data || [];
+    };
+
+    // New accounts start in the admin's company; the profile trigger adds the membership
+    const createProfile = async (userId: string, fullName: string, assignment: Assignment) => {
+      const { error } = await supabase.from('profiles').upsert({
+        user_id: userId,
+        full_name: fullName,
+        role: assignment.role || 'user',
+        department_id: assignment.department_id || null,
+        unit_id: assignment.unit_id || null,
+        company_id: companyId,
+      }, { onConflict: 'user_id' });
+      if (error) {
+        await supabase.auth.admin.deleteUser(userId);
+        throw error;
+      }
+    };
+
+    // Sent through the auth mailer: Inbucket locally, the project's SMTP otherwise.
+    // An existing account (someone who already opened an earlier link, or a
+    // member of another company) gets a sign-in link to the same page instead
+    // and keeps its password. `created` tells whether the account is the invitation's own.
+    const sendInvitation = async (email: string, fullName: string | null, redirectTo: string) => {
+      const { data, error } = await supabase.auth.admin.inviteUserByEmail(email, {
+        data: { full_name: fullName },
+        redirectTo,
+      });
+      if (!error) return { userId: data.user.id, created: true };
+      if (!isAlreadyRegistered(error)) throw error;
+
+      // generateLink only resolves the account; the email goes out below
+      const { data: existing, error: lookupError } = await supabase.auth.admin.generateLink({
+        type: 'magiclink',
+        email,
+      });
+      if (lookupError) throw lookupError;
+
+      const { data: membership } = await supabase
+        .from('company_members')
+        .select('id')
+        .eq('user_id', existing.user.id)
+        .eq('company_id', companyId)
+        .maybeSingle();
+      if (membership) throw new RequestError('User already a member', 409);
+
+      const { error: linkError } = await supabase.auth.signInWithOtp({
+        email,
+        options: { shouldCreateUser: false, emailRedirectTo: redirectTo },
+      });
+      if (linkError) throw linkError;
+      return { userId: existing.user.id, created: false };
+    };
+
+    // The membership is only created when the invitee accepts (accept_invitation)
+    const inviteMember = async (email: string, fullName: string | null, assignment: Assignment, redirectTo: string) => {
+      const { data: pending } = await supabase
+        .from('user_invitations')
+        .select('id')
+        .eq('company_id', companyId)
+        .eq('email', email)
+        .is('accepted_at', null)
+        .is('revoked_at', null)
+        .maybeSingle();
+      if (pending) throw new RequestError('Invitation already pending', 409);
+
+      const { userId, created } = await sendInvitation(email, fullName, redirectTo);
+
+      const { data: invitation, error } = await supabase
+        .from('user_invitations')
+        .insert({
+          company_id: companyId,
+          user_id: userId,
+          created_account: created,
+          email,
+          full_name: fullName,
+          role: assignment.role || 'user',
+          department_id: assignment.department_id || null,
+          unit_id: assignment.unit_id || null,
+          invited_by: caller.id,
+        })
+        .select('id')
+        .single();
+      if (error) throw error;
+      return invitation.id;
+    };
+
+    const body = await req.json();
+    const { action } = body;
+    console.log('Managing users:', { action, caller: caller.id });
+
+    switch (action) {
+      case 'create': {
+        const email = String(body.email || '').trim().toLowerCase();
+        const fullName = String(body.full_name || '').trim();
+        if (!email || !fullName) {
+          throw new RequestError('Email and name are required');
+        }
+        await checkAssignment(body);
+        if (!body.password || String(body.password).length < 6) {
+          throw new RequestError('Password too short');
+        }
+
+        const { data, error } = await supabase.auth.admin.createUser({
+          email,
+          password: body.password,
+          email_confirm: true,
+          user_metadata: { full_name: fullName },
+        });
+        if (error) {
+          if (!isAlreadyRegistered(error)) throw error;
+          // An existing account keeps its password and joins through an invitation
+          const invitationId = await inviteMember(email, fullName, body, body.redirect_to);
+          return respond({ success: true, invitation_id: invitationId });
+        }
+
+        await createProfile(data.user.id, fullName, body);
+        return respond({ success: true, user_id: data.user.id });
+      }
+
+      case 'invite': {
+        const email = String(body.email || '').trim().toLowerCase();
+        const fullName = String(body.full_name || '').trim() || null;
+        if (!email) {
+          throw new RequestError('Email is required');
+        }
+        await checkAssignment(body);
+
+        const invitationId = await inviteMember(email, fullName, body, body.redirect_to);
+        return respond({ success: true, invitation_id: invitationId });
+      }
+
+      case 'resend_invite':
+      case 'revoke_invite': {
+        const { data: invitation } = await supabase
+          .from('user_invitations')
+          .select('*')
+          .eq('id', body.invitation_id)
+          .eq('company_id', companyId)
+          .is('accepted_at', null)
+          .is('revoked_at', null)
+          .maybeSingle();
+        if (!invitation) throw new RequestError('Invitation not found', 404);
+
+        if (action === 'resend_invite') {
+          const { userId, created } = await sendInvitation(invitation.email, invitation.full_name, body.redirect_to);
+          const { error } = await supabase
+            .from('user_invitations')
+            .update({
+              last_sent_at: new Date().toISOString(),
+              user_id: userId,
+              created_account: created || invitation.created_account,
+            })
+            .eq('id', invitation.id);
+          if (error) throw error;
+          return respond({ success: true });
+        }
+
+        const { error } = await supabase
+          .from('user_invitations')
+          .update({ revoked_at: new Date().toISOString() })
+          .eq('id', invitation.id);
+        if (error) throw error;
+
+        // An account an invitation created and that never joined a company only
+        // existed for it, and removing it also invalidates the link already sent.
+        // Accounts that were already there (self sign-up, other companies) stay.
+        if (invitation.user_id) {
+          const [{ count: createdBy }, { count: memberships }, { count: otherInvitations }] = await Promise.all([
+            supabase
+              .from('user_invitations')
+              .select('id', { count: 'exact', head: true })
+              .eq('user_id', invitation.user_id)
+              .eq('created_account', true),
+            supabase
+              .from('company_members')
+              .select('id', { count: 'exact', head: true })
+              .eq('user_id', invitation.user_id),
+            supabase
+              .from('user_invitations')
+              .select('id', { count: 'exact', head: true })
+              .eq('user_id', invitation.user_id)
+              .is('accepted_at', null)
+              .is('revoked_at', null),
+          ]);
+          if (createdBy && !memberships && !otherInvitations) {
+            await supabase.auth.admin.deleteUser(invitation.user_id);
+          }
+        }
+
+        return respond({ success: true });
+      }
+
+      case 'update': {
+        await checkMember(body.user_id);
+        if (body.user_id === caller.id && body.role !== undefined && body.role !== 'admin') {
+          throw new RequestError('Cannot change your own role');
+        }
+
+        // Only the fields sent change; a unit left out is kept while its
+        // department stays and cleared when the department changes
+        const { data: current, error: currentError } = await supabase
+          .from('company_members')
+          .select('department_id, unit_id')
+          .eq('user_id', body.user_id)
+          .eq('company_id', companyId)
+          .single();
+        if (currentError) throw currentError;
+
+        const departmentId = body.department_id !== undefined ? body.department_id || null : current.department_id;
+        const departmentChanged = departmentId !== current.department_id;
+        const unitId = body.unit_id !== undefined ? body.unit_id || null : departmentChanged ? null : current.unit_id;
+        await checkAssignment({ role: body.role, department_id: departmentId, unit_id: unitId });
+
+        const assignment: Assignment = {
+          ...(body.role !== undefined && { role: body.role }),
+          ...(body.department_id !== undefined && { department_id: departmentId }),
+          ...((body.unit_id !== undefined || departmentChanged) && { unit_id: unitId }),
+        };
+        if (Object.keys(assignment).length === 0) {
+          return respond({ success: true });
+        }
+
+        const { error: memberError } = await supabase
+          .from('company_members')
+          .update(assignment)
+          .eq('user_id', body.user_id)
+          .eq('company_id', companyId);
+        if (memberError) throw memberError;
+
+        // The profile only mirrors the membership while this company is the active one
+        const { error: profileError } = await supabase
+          .from('profiles')
+          .update(assignment)
+          .eq('user_id', body.user_id)
+          .eq('company_id', companyId);
+        if (profileError) throw profileError;
+
+        return respond({ success: true });
+      }
+
+      case 'deactivate':
+      case 'reactivate': {
+        await checkMember(body.user_id);
+        if (body.user_id === caller.id) {
+          throw new RequestError('Cannot deactivate yourself');
+        }
+
+        const deactivate = action === 'deactivate';
+        const { error: memberError } = await supabase
+          .from('company_members')
+          .update({ deactivated_at: deactivate ? new Date().toISOString() : null })
+          .eq('user_id', body.user_id)
+          .eq('company_id', companyId);
+        if (memberError) throw memberError;
+
+        // Only an account no other company uses is locked out entirely
+        const activeElsewhere = await otherMemberships(body.user_id, true);
+        if (activeElsewhere.length === 0) {
+          const { error: authError } = await supabase.auth.admin.updateUserById(body.user_id, {
+            ban_duration: deactivate ? BAN_DURATION : 'none',
+          });
+          if (authError) throw authError;
+        } else if (deactivate) {
+          // Someone working in this company moves to one where they are still active
+          const [next] = activeElsewhere;
+          const { error: profileError } = await supabase
+            .from('profiles')
+            .update({
+              company_id: next.company_id,
+              role: next.role,
+              department_id: next.department_id,
+              unit_id: next.unit_id,
+            })
+            .eq('user_id', body.user_id)
+            .eq('company_id', companyId);
+          if (profileError) throw profileError;
+        }
+
+        return respond({ success: true });
+      }
+
+      case 'reset_password': {
+        await checkMember(body.user_id);
+        if ((await otherMemberships(body.user_id)).length > 0) {
+          throw new RequestError('User belongs to another company', 403);
+        }
+        if (!body.password || String(body.password).length < 6) {
+          throw new RequestError('Password too short');
+        }
+
+        const { error } = await supabase.auth.admin.updateUserById(body.user_id, {
+          password: body.password,
+        });
+        if (error) throw error;
+
+        return respond({ success: true });
+      }
+
+      default:
+        throw new RequestError('Unsupported action');
+    }
+  } catch (error) {
+    console.error('Error in manage-users function:', error);
+    return respond({
+      success: false,
+      error: error.message
+    }, error instanceof RequestError ? error.status : 500);
+  }
+});
@@ -0,0 +1,73 @@
+-- Spare parts catalog: archiving and stock movements
+
+-- Archived parts stay in the catalog for history but are hidden from daily use
+ALTER TABLE public.spare_parts ADD COLUMN archived_at TIMESTAMP WITH TIME ZONE;
+
+-- Create stock movements table
+CREATE TABLE public.spare_part_movements (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  part_id UUID NOT NULL REFERENCES public.spare_parts(id) ON DELETE CASCADE,
+  quantity_change INTEGER NOT NULL CHECK (quantity_change <> 0),
+  resulting_quantity INTEGER NOT NULL,
+  reason TEXT NOT NULL,
+  created_by UUID REFERENCES auth.users(id),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Enable RLS on spare_part_movements
+ALTER TABLE public.spare_part_movements ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view stock movements"
+ON public.spare_part_movements
+FOR SELECT
+USING (auth.uid() IS NOT NULL);
+
+-- Movements are only written through adjust_spare_part_stock
+
+-- Adjust stock and record the movement in a single transaction
+CREATE OR REPLACE FUNCTION public.adjust_spare_part_stock(p_part_id uuid, p_quantity_change integer, p_reason text)
+ RETURNS integer
+ LANGUAGE plpgsql
+ SECURITY DEFINER
+ SET search_path = public
+AS $function$
+DECLARE
+  new_quantity INTEGER;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF p_quantity_change IS NULL OR p_quantity_change = 0 THEN
+    RAISE EXCEPTION 'Quantity change must be different from zero';
+  END IF;
+
+  IF p_reason IS NULL OR length(trim(p_reason)) = 0 THEN
+    RAISE EXCEPTION 'A reason is required for stock adjustments';
+  END IF;
+
+  -- Row lock prevents concurrent adjustments from reading a stale quantity
+  UPDATE public.spare_parts
+  SET stock_quantity = stock_quantity + p_quantity_change
+  WHERE id = p_part_id
+  RETURNING stock_quantity INTO new_quantity;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Spare part not found';
+  END IF;
+
+  IF new_quantity < 0 THEN
+    RAISE EXCEPTION 'Insufficient stock for this adjustment';
+  END IF;
+
+  INSERT INTO public.spare_part_movements (part_id, quantity_change, resulting_quantity, reason, created_by)
+  VALUES (p_part_id, p_quantity_change, new_quantity, trim(p_reason), auth.uid());
+
+  RETURN new_quantity;
+END;
+$function$;
+
+-- Create indexes for better performance
+CREATE INDEX idx_spare_parts_supplier ON public.spare_parts(supplier);
+CREATE INDEX idx_spare_part_movements_part_id ON public.spare_part_movements(part_id);
+CREATE INDEX idx_spare_part_movements_created_at ON public.spare_part_movements(created_at DESC);
@@ -0,0 +1,104 @@
+-- Track labor cost separately so maintenance cost = labor + parts
+ALTER TABLE public.asset_maintenance ADD COLUMN labor_cost NUMERIC DEFAULT 0;
+
+-- Existing jobs only had a free cost value, keep it as labor so totals don't change
+UPDATE public.asset_maintenance SET labor_cost = COALESCE(cost, 0);
+
+-- Link stock movements to the maintenance that consumed the parts
+ALTER TABLE public.spare_part_movements ADD COLUMN maintenance_id UUID REFERENCES public.asset_maintenance(id) ON DELETE SET NULL;
+
+CREATE INDEX idx_maintenance_parts_maintenance_id ON public.maintenance_parts(maintenance_id);
+CREATE INDEX idx_maintenance_parts_part_id ON public.maintenance_parts(part_id);
+CREATE INDEX idx_spare_part_movements_maintenance_id ON public.spare_part_movements(maintenance_id);
+
+-- Record the parts consumed by a maintenance job and complete it.
+-- p_parts is a JSON array of { "part_id": uuid, "quantity": integer }.
+-- Calling it again for a completed job returns the previous parts to stock
+-- before consuming the new list, so corrections never drift the inventory.
+CREATE OR REPLACE FUNCTION public.complete_maintenance(p_maintenance_id uuid, p_labor_cost numeric, p_parts jsonb)
+ RETURNS numeric
+ LANGUAGE plpgsql
+ SECURITY DEFINER
+ SET search_path = public
+AS $function$
+DECLARE
+  previous RECORD;
+  item RECORD;
+  part RECORD;
+  new_quantity INTEGER;
+  parts_total NUMERIC := 0;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  PERFORM 1 FROM public.asset_maintenance WHERE id = p_maintenance_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Maintenance not found';
+  END IF;
+
+  -- Return previously consumed parts to stock
+  FOR previous IN
+    SELECT part_id, SUM(quantity_used) AS quantity
+    FROM public.maintenance_parts
+    WHERE maintenance_id = p_maintenance_id
+    GROUP BY part_id
+  LOOP
+    UPDATE public.spare_parts
+    SET stock_quantity = stock_quantity + previous.quantity
+    WHERE id = previous.part_id
+    RETURNING stock_quantity INTO new_quantity;
+
+    INSERT INTO public.spare_part_movements (part_id, quantity_change, resulting_quantity, reason, created_by, maintenance_id)
+    VALUES (previous.part_id, previous.quantity, new_quantity, 'Estorno de consumo em manutenção', auth.uid(), p_maintenance_id);
+  END LOOP;
+
+  DELETE FROM public.maintenance_parts WHERE maintenance_id = p_maintenance_id;
+
+  -- Consume the new list of parts
+  FOR item IN
+    SELECT (value->>'part_id')::uuid AS part_id, SUM((value->>'quantity')::integer) AS quantity
+    FROM jsonb_array_elements(COALESCE(p_parts, '[]'::jsonb))
+    GROUP BY 1
+  LOOP
+    IF item.quantity IS NULL OR item.quantity <= 0 THEN
+      RAISE EXCEPTION 'Invalid quantity for part %', item.part_id;
+    END IF;
+
+    SELECT id, part_number, unit_cost INTO part
+    FROM public.spare_parts
+    WHERE id = item.part_id
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Spare part % not found', item.part_id;
+    END IF;
+
+    UPDATE public.spare_parts
+    SET stock_quantity = stock_quantity - item.quantity
+    WHERE id = item.part_id
+    RETURNING stock_quantity INTO new_quantity;
+
+    IF new_quantity < 0 THEN
+      RAISE EXCEPTION 'Insufficient stock for part %', part.part_number;
+    END IF;
+
+    INSERT INTO public.maintenance_parts (maintenance_id, part_id, quantity_used, cost_per_unit)
+    VALUES (p_maintenance_id, item.part_id, item.quantity, part.unit_cost);
+
+    INSERT INTO public.spare_part_movements (part_id, quantity_change, resulting_quantity, reason, created_by, maintenance_id)
+    VALUES (item.part_id, -item.quantity, new_quantity, 'Consumo em manutenção', auth.uid(), p_maintenance_id);
+
+    parts_total := parts_total + item.quantity * part.unit_cost;
+  END LOOP;
+
+  UPDATE public.asset_maintenance
+  SET labor_cost = COALESCE(p_labor_cost, 0),
+      cost = COALESCE(p_labor_cost, 0) + parts_total,
+      status = 'concluída',
+      completed_date = COALESCE(completed_date, CURRENT_DATE)
+  WHERE id = p_maintenance_id;
+
+  RETURN COALESCE(p_labor_cost, 0) + parts_total;
+END;
+$function$;
@@ -0,0 +1,6 @@
+-- Reorder points for spare parts
+ALTER TABLE public.spare_parts
+  ADD COLUMN min_stock_level INTEGER NOT NULL DEFAULT 0 CHECK (min_stock_level >= 0),
+  ADD COLUMN reorder_quantity INTEGER NOT NULL DEFAULT 0 CHECK (reorder_quantity >= 0);
+
+CREATE INDEX idx_asset_maintenance_status_scheduled_date ON public.asset_maintenance(status, scheduled_date);
@@ -0,0 +1,87 @@
+-- Keep the accounting result of each disposal
+ALTER TABLE public.asset_disposal
+  ADD COLUMN book_value NUMERIC,
+  ADD COLUMN gain_loss NUMERIC,
+  ADD COLUMN disposed_by UUID REFERENCES auth.users(id);
+
+-- Dispose an asset: record the disposal with its gain or loss against the
+-- book value at the disposal date, flag the asset as disposed and write the
+-- audit entry, all in one transaction. Returns the gain (positive) or loss.
+CREATE OR REPLACE FUNCTION public.dispose_asset(
+  p_asset_id uuid,
+  p_disposal_date date,
+  p_disposal_method text,
+  p_disposal_reason text,
+  p_sale_value numeric,
+  p_buyer_info text,
+  p_environmental_compliance boolean,
+  p_certificate_url text
+)
+ RETURNS numeric
+ LANGUAGE plpgsql
+ SECURITY DEFINER
+ SET search_path = public
+AS $function$
+DECLARE
+  asset RECORD;
+  years_passed NUMERIC;
+  depreciation NUMERIC;
+  book_value NUMERIC;
+  gain_loss NUMERIC;
+  disposal_id UUID;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT * INTO asset FROM public.assets WHERE id = p_asset_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Asset not found';
+  END IF;
+
+  IF asset.status = 'disposed' THEN
+    RAISE EXCEPTION 'Asset already disposed';
+  END IF;
+
+  IF p_disposal_date < asset.purchase_date THEN
+    RAISE EXCEPTION 'Disposal date before purchase date';
+  END IF;
+
+  -- Straight-line book value at the disposal date
+  years_passed := (p_disposal_date - asset.purchase_date) / 365.25;
+  depreciation := GREATEST(0, (asset.purchase_value - COALESCE(asset.residual_value, 0)) / asset.useful_life_years * LEAST(years_passed, asset.useful_life_years));
+  book_value := asset.purchase_value - depreciation;
+  gain_loss := COALESCE(p_sale_value, 0) - book_value;
+
+  INSERT INTO public.asset_disposal (
+    asset_id, disposal_date, disposal_method, disposal_reason, sale_value, buyer_info,
+    environmental_compliance, certificate_url, book_value, gain_loss, disposed_by
+  )
+  VALUES (
+    p_asset_id, p_disposal_date, p_disposal_method, p_disposal_reason, COALESCE(p_sale_value, 0), p_buyer_info,
+    COALESCE(p_environmental_compliance, false), p_certificate_url, book_value, gain_loss, auth.uid()
+  )
+  RETURNING id INTO disposal_id;
+
+  UPDATE public.assets SET status = 'disposed' WHERE id = p_asset_id;
+
+  INSERT INTO public.asset_audit_log (asset_id, user_id, action, old_data, new_data)
+  VALUES (
+    p_asset_id,
+    auth.uid(),
+    'disposed',
+    to_jsonb(asset),
+    to_jsonb(asset) || jsonb_build_object(
+      'status', 'disposed',
+      'disposal_id', disposal_id,
+      'disposal_date', p_disposal_date,
+      'disposal_method', p_disposal_method,
+      'sale_value', COALESCE(p_sale_value, 0),
+      'book_value', book_value,
+      'gain_loss', gain_loss
+    )
+  );
+
+  RETURN gain_loss;
+END;
+$function$;
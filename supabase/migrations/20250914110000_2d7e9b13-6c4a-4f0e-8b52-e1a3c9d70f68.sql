@@ -0,0 +1,107 @@
+-- Soft delete for assets: archived assets keep their maintenance and audit history
+ALTER TABLE public.assets
+  ADD COLUMN deleted_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN deleted_by UUID REFERENCES auth.users(id);
+
+CREATE INDEX idx_assets_deleted_at ON public.assets(deleted_at);
+
+-- Archive an asset
+CREATE OR REPLACE FUNCTION public.archive_asset(p_asset_id uuid)
+ RETURNS void
+ LANGUAGE plpgsql
+ SECURITY DEFINER
+ SET search_path = public
+AS $function$
+DECLARE
+  asset RECORD;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT * INTO asset FROM public.assets WHERE id = p_asset_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Asset not found';
+  END IF;
+
+  IF asset.deleted_at IS NOT NULL THEN
+    RAISE EXCEPTION 'Asset already archived';
+  END IF;
+
+  UPDATE public.assets
+  SET deleted_at = now(), deleted_by = auth.uid()
+  WHERE id = p_asset_id;
+
+  INSERT INTO public.asset_audit_log (asset_id, user_id, action, old_data, new_data)
+  SELECT p_asset_id, auth.uid(), 'archived', to_jsonb(asset), to_jsonb(a)
+  FROM public.assets a
+  WHERE a.id = p_asset_id;
+END;
+$function$;
+
+-- Restore an archived asset
+CREATE OR REPLACE FUNCTION public.restore_asset(p_asset_id uuid)
+ RETURNS void
+ LANGUAGE plpgsql
+ SECURITY DEFINER
+ SET search_path = public
+AS $function$
+DECLARE
+  asset RECORD;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT * INTO asset FROM public.assets WHERE id = p_asset_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Asset not found';
+  END IF;
+
+  IF asset.deleted_at IS NULL THEN
+    RAISE EXCEPTION 'Asset is not archived';
+  END IF;
+
+  UPDATE public.assets
+  SET deleted_at = NULL, deleted_by = NULL
+  WHERE id = p_asset_id;
+
+  INSERT INTO public.asset_audit_log (asset_id, user_id, action, old_data, new_data)
+  SELECT p_asset_id, auth.uid(), 'restored', to_jsonb(asset), to_jsonb(a)
+  FROM public.assets a
+  WHERE a.id = p_asset_id;
+END;
+$function$;
+
+-- Permanently remove an archived asset. Admins only; the audit log has no
+-- foreign key to assets, so the purge entry outlives the asset.
+CREATE OR REPLACE FUNCTION public.purge_asset(p_asset_id uuid)
+ RETURNS void
+ LANGUAGE plpgsql
+ SECURITY DEFINER
+ SET search_path = public
+AS $function$
+DECLARE
+  asset RECORD;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM public.profiles WHERE user_id = auth.uid() AND role = 'admin'
+  ) THEN
+    RAISE EXCEPTION 'Only administrators can purge assets';
+  END IF;
+
+  SELECT * INTO asset FROM public.assets WHERE id = p_asset_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Asset not found';
+  END IF;
+
+  IF asset.deleted_at IS NULL THEN
+    RAISE EXCEPTION 'Only archived assets can be purged';
+  END IF;
+
+  INSERT INTO public.asset_audit_log (asset_id, user_id, action, old_data, new_data)
+  VALUES (p_asset_id, auth.uid(), 'purged', to_jsonb(asset), NULL);
+
+  DELETE FROM public.assets WHERE id = p_asset_id;
+END;
+$function$;
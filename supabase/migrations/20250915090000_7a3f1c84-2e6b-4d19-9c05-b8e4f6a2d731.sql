@@ -0,0 +1,282 @@
+-- Audit trail written by the database: every change to assets, maintenance
+-- and disposals is logged with old/new row data and the acting user,
+-- whatever the write path.
+
+-- Writes made outside a user session (service role, SQL) have no acting user
+ALTER TABLE public.asset_audit_log ALTER COLUMN user_id DROP NOT NULL;
+
+-- Only the triggers write audit rows
+DROP POLICY IF EXISTS "Authenticated users can create audit logs" ON public.asset_audit_log;
+
+CREATE OR REPLACE FUNCTION public.log_asset_change()
+ RETURNS trigger
+ LANGUAGE plpgsql
+ SECURITY DEFINER
+ SET search_path = public
+AS $function$
+DECLARE
+  audit_action TEXT;
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    audit_action := 'created';
+  ELSIF TG_OP = 'DELETE' THEN
+    audit_action := CASE WHEN OLD.deleted_at IS NOT NULL THEN 'purged' ELSE 'deleted' END;
+  ELSE
+    -- Ignore updates that only touch updated_at
+    IF (to_jsonb(OLD) - 'updated_at') = (to_jsonb(NEW) - 'updated_at') THEN
+      RETURN NEW;
+    END IF;
+
+    IF OLD.deleted_at IS NULL AND NEW.deleted_at IS NOT NULL THEN
+      audit_action := 'archived';
+    ELSIF OLD.deleted_at IS NOT NULL AND NEW.deleted_at IS NULL THEN
+      audit_action := 'restored';
+    ELSIF NEW.status = 'disposed' AND OLD.status IS DISTINCT FROM 'disposed' THEN
+      audit_action := 'disposed';
+    ELSIF (to_jsonb(OLD) - 'updated_at' - 'assigned_to') = (to_jsonb(NEW) - 'updated_at' - 'assigned_to') THEN
+      audit_action := CASE WHEN NEW.assigned_to IS NULL THEN 'removed_responsible' ELSE 'assigned_responsible' END;
+    ELSE
+      audit_action := 'updated';
+    END IF;
+  END IF;
+
+  INSERT INTO public.asset_audit_log (asset_id, user_id, action, old_data, new_data)
+  VALUES (
+    COALESCE(NEW.id, OLD.id),
+    auth.uid(),
+    audit_action,
+    CASE WHEN TG_OP = 'INSERT' THEN NULL ELSE to_jsonb(OLD) END,
+    CASE WHEN TG_OP = 'DELETE' THEN NULL ELSE to_jsonb(NEW) END
+  );
+
+  RETURN COALESCE(NEW, OLD);
+END;
+$function$;
+
+CREATE OR REPLACE FUNCTION public.log_asset_maintenance_change()
+ RETURNS trigger
+ LANGUAGE plpgsql
+ SECURITY DEFINER
+ SET search_path = public
+AS $function$
+DECLARE
+  audit_action TEXT;
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    audit_action := 'maintenance_scheduled';
+  ELSIF TG_OP = 'DELETE' THEN
+    -- Rows removed together with a purged asset are covered by its purge entry
+    IF NOT EXISTS (SELECT 1 FROM public.assets WHERE id = OLD.asset_id) THEN
+      RETURN OLD;
+    END IF;
+    audit_action := 'maintenance_deleted';
+  ELSE
+    IF (to_jsonb(OLD) - 'updated_at') = (to_jsonb(NEW) - 'updated_at') THEN
+      RETURN NEW;
+    END IF;
+
+    audit_action := CASE
+      WHEN NEW.status = 'concluída' AND OLD.status IS DISTINCT FROM 'concluída' THEN 'maintenance_completed'
+      WHEN NEW.status = 'cancelada' AND OLD.status IS DISTINCT FROM 'cancelada' THEN 'maintenance_cancelled'
+      ELSE 'maintenance_updated'
+    END;
+  END IF;
+
+  INSERT INTO public.asset_audit_log (asset_id, user_id, action, old_data, new_data)
+  VALUES (
+    COALESCE(NEW.asset_id, OLD.asset_id),
+    auth.uid(),
+    audit_action,
+    CASE WHEN TG_OP = 'INSERT' THEN NULL ELSE to_jsonb(OLD) END,
+    CASE WHEN TG_OP = 'DELETE' THEN NULL ELSE to_jsonb(NEW) END
+  );
+
+  RETURN COALESCE(NEW, OLD);
+END;
+$function$;
+
+CREATE OR REPLACE FUNCTION public.log_asset_disposal_change()
+ RETURNS trigger
+ LANGUAGE plpgsql
+ SECURITY DEFINER
+ SET search_path = public
+AS $function$
+BEGIN
+  IF TG_OP = 'DELETE' AND NOT EXISTS (SELECT 1 FROM public.assets WHERE id = OLD.asset_id) THEN
+    RETURN OLD;
+  END IF;
+
+  INSERT INTO public.asset_audit_log (asset_id, user_id, action, old_data, new_data)
+  VALUES (
+    COALESCE(NEW.asset_id, OLD.asset_id),
+    auth.uid(),
+    CASE TG_OP
+      WHEN 'INSERT' THEN 'disposal_recorded'
+      WHEN 'UPDATE' THEN 'disposal_updated'
+      ELSE 'disposal_deleted'
+    END,
+    CASE WHEN TG_OP = 'INSERT' THEN NULL ELSE to_jsonb(OLD) END,
+    CASE WHEN TG_OP = 'DELETE' THEN NULL ELSE to_jsonb(NEW) END
+  );
+
+  RETURN COALESCE(NEW, OLD);
+END;
+$function$;
+
+CREATE TRIGGER audit_assets
+  AFTER INSERT OR UPDATE OR DELETE ON public.assets
+  FOR EACH ROW EXECUTE FUNCTION public.log_asset_change();
+
+CREATE TRIGGER audit_asset_maintenance
+  AFTER INSERT OR UPDATE OR DELETE ON public.asset_maintenance
+  FOR EACH ROW EXECUTE FUNCTION public.log_asset_maintenance_change();
+
+CREATE TRIGGER audit_asset_disposal
+  AFTER INSERT OR UPDATE OR DELETE ON public.asset_disposal
+  FOR EACH ROW EXECUTE FUNCTION public.log_asset_disposal_change();
+
+-- The triggers now write the audit entries these functions used to insert
+
+CREATE OR REPLACE FUNCTION public.archive_asset(p_asset_id uuid)
+ RETURNS void
+ LANGUAGE plpgsql
+ SECURITY DEFINER
+ SET search_path = public
+AS $function$
+DECLARE
+  asset RECORD;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT * INTO asset FROM public.assets WHERE id = p_asset_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Asset not found';
+  END IF;
+
+  IF asset.deleted_at IS NOT NULL THEN
+    RAISE EXCEPTION 'Asset already archived';
+  END IF;
+
+  UPDATE public.assets
+  SET deleted_at = now(), deleted_by = auth.uid()
+  WHERE id = p_asset_id;
+END;
+$function$;
+
+CREATE OR REPLACE FUNCTION public.restore_asset(p_asset_id uuid)
+ RETURNS void
+ LANGUAGE plpgsql
+ SECURITY DEFINER
+ SET search_path = public
+AS $function$
+DECLARE
+  asset RECORD;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT * INTO asset FROM public.assets WHERE id = p_asset_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Asset not found';
+  END IF;
+
+  IF asset.deleted_at IS NULL THEN
+    RAISE EXCEPTION 'Asset is not archived';
+  END IF;
+
+  UPDATE public.assets
+  SET deleted_at = NULL, deleted_by = NULL
+  WHERE id = p_asset_id;
+END;
+$function$;
+
+CREATE OR REPLACE FUNCTION public.purge_asset(p_asset_id uuid)
+ RETURNS void
+ LANGUAGE plpgsql
+ SECURITY DEFINER
+ SET search_path = public
+AS $function$
+DECLARE
+  asset RECORD;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM public.profiles WHERE user_id = auth.uid() AND role = 'admin'
+  ) THEN
+    RAISE EXCEPTION 'Only administrators can purge assets';
+  END IF;
+
+  SELECT * INTO asset FROM public.assets WHERE id = p_asset_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Asset not found';
+  END IF;
+
+  IF asset.deleted_at IS NULL THEN
+    RAISE EXCEPTION 'Only archived assets can be purged';
+  END IF;
+
+  DELETE FROM public.assets WHERE id = p_asset_id;
+END;
+$function$;
+
+CREATE OR REPLACE FUNCTION public.dispose_asset(
+  p_asset_id uuid,
+  p_disposal_date date,
+  p_disposal_method text,
+  p_disposal_reason text,
+  p_sale_value numeric,
+  p_buyer_info text,
+  p_environmental_compliance boolean,
+  p_certificate_url text
+)
+ RETURNS numeric
+ LANGUAGE plpgsql
+ SECURITY DEFINER
+ SET search_path = public
+AS $function$
+DECLARE
+  asset RECORD;
+  years_passed NUMERIC;
+  depreciation NUMERIC;
+  book_value NUMERIC;
+  gain_loss NUMERIC;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT * INTO asset FROM public.assets WHERE id = p_asset_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Asset not found';
+  END IF;
+
+  IF asset.status = 'disposed' THEN
+    RAISE EXCEPTION 'Asset already disposed';
+  END IF;
+
+  IF p_disposal_date < asset.purchase_date THEN
+    RAISE EXCEPTION 'Disposal date before purchase date';
+  END IF;
+
+  -- Straight-line book value at the disposal date
+  years_passed := (p_disposal_date - asset.purchase_date) / 365.25;
+  depreciation := GREATEST(0, (asset.purchase_value - COALESCE(asset.residual_value, 0)) / asset.useful_life_years * LEAST(years_passed, asset.useful_life_years));
+  book_value := asset.purchase_value - depreciation;
+  gain_loss := COALESCE(p_sale_value, 0) - book_value;
+
+  INSERT INTO public.asset_disposal (
+    asset_id, disposal_date, disposal_method, disposal_reason, sale_value, buyer_info,
+    environmental_compliance, certificate_url, book_value, gain_loss, disposed_by
+  )
+  VALUES (
+    p_asset_id, p_disposal_date, p_disposal_method, p_disposal_reason, COALESCE(p_sale_value, 0), p_buyer_info,
+    COALESCE(p_environmental_compliance, false), p_certificate_url, book_value, gain_loss, auth.uid()
+  );
+
+  UPDATE public.assets SET status = 'disposed' WHERE id = p_asset_id;
+
+  RETURN gain_loss;
+END;
+$function$;
@@ -0,0 +1,151 @@
+-- Let a function name the audit action its own writes get logged as
+CREATE OR REPLACE FUNCTION public.log_asset_change()
+ RETURNS trigger
+ LANGUAGE plpgsql
+ SECURITY DEFINER
+ SET search_path = public
+AS $function$
+DECLARE
+  audit_action TEXT;
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    audit_action := 'created';
+  ELSIF TG_OP = 'DELETE' THEN
+    audit_action := CASE WHEN OLD.deleted_at IS NOT NULL THEN 'purged' ELSE 'deleted' END;
+  ELSE
+    -- Ignore updates that only touch updated_at
+    IF (to_jsonb(OLD) - 'updated_at') = (to_jsonb(NEW) - 'updated_at') THEN
+      RETURN NEW;
+    END IF;
+
+    IF OLD.deleted_at IS NULL AND NEW.deleted_at IS NOT NULL THEN
+      audit_action := 'archived';
+    ELSIF OLD.deleted_at IS NOT NULL AND NEW.deleted_at IS NULL THEN
+      audit_action := 'restored';
+    ELSIF NEW.status = 'disposed' AND OLD.status IS DISTINCT FROM 'disposed' THEN
+      audit_action := 'disposed';
+    ELSIF (to_jsonb(OLD) - 'updated_at' - 'assigned_to') = (to_jsonb(NEW) - 'updated_at' - 'assigned_to') THEN
+      audit_action := CASE WHEN NEW.assigned_to IS NULL THEN 'removed_responsible' ELSE 'assigned_responsible' END;
+    ELSE
+      audit_action := 'updated';
+    END IF;
+  END IF;
+
+  audit_action := COALESCE(NULLIF(current_setting('app.audit_action', true), ''), audit_action);
+
+  INSERT INTO public.asset_audit_log (asset_id, user_id, action, old_data, new_data)
+  VALUES (
+    COALESCE(NEW.id, OLD.id),
+    auth.uid(),
+    audit_action,
+    CASE WHEN TG_OP = 'INSERT' THEN NULL ELSE to_jsonb(OLD) END,
+    CASE WHEN TG_OP = 'DELETE' THEN NULL ELSE to_jsonb(NEW) END
+  );
+
+  RETURN COALESCE(NEW, OLD);
+END;
+$function$;
+
+-- Rebuild an asset as it was at p_as_of by replaying its audit snapshots.
+-- Older entries may hold only the changed fields, so each one is merged
+-- over the previous state instead of replacing it.
+CREATE OR REPLACE FUNCTION public.get_asset_as_of(p_asset_id uuid, p_as_of timestamp with time zone)
+ RETURNS jsonb
+ LANGUAGE plpgsql
+ STABLE
+ SET search_path = public
+AS $function$
+DECLARE
+  entry RECORD;
+  state JSONB;
+BEGIN
+  FOR entry IN
+    SELECT new_data
+    FROM public.asset_audit_log
+    WHERE asset_id = p_asset_id
+      AND created_at <= p_as_of
+      AND new_data IS NOT NULL
+      AND action NOT LIKE 'maintenance_%'
+      AND action NOT LIKE 'disposal_%'
+    ORDER BY created_at
+  LOOP
+    state := COALESCE(state, '{}'::jsonb) || entry.new_data;
+  END LOOP;
+
+  -- Nothing logged yet at that date: use the state before the first later change
+  IF state IS NULL THEN
+    SELECT old_data INTO state
+    FROM public.asset_audit_log
+    WHERE asset_id = p_asset_id
+      AND created_at > p_as_of
+      AND old_data IS NOT NULL
+      AND action NOT LIKE 'maintenance_%'
+      AND action NOT LIKE 'disposal_%'
+    ORDER BY created_at
+    LIMIT 1;
+  END IF;
+
+  RETURN state;
+END;
+$function$;
+
+-- Put an asset back to how it was at p_as_of. The change is logged by the
+-- audit trigger as a 'reverted' entry.
+CREATE OR REPLACE FUNCTION public.revert_asset_to(p_asset_id uuid, p_as_of timestamp with time zone)
+ RETURNS void
+ LANGUAGE plpgsql
+ SECURITY DEFINER
+ SET search_path = public
+AS $function$
+DECLARE
+  asset public.assets;
+  snapshot JSONB;
+  target public.assets;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT * INTO asset FROM public.assets WHERE id = p_asset_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Asset not found';
+  END IF;
+
+  snapshot := public.get_asset_as_of(p_asset_id, p_as_of);
+  IF snapshot IS NULL THEN
+    RAISE EXCEPTION 'No history for the asset at this date';
+  END IF;
+
+  -- Disposal has its own records, it is not undone by a revert
+  IF asset.status = 'disposed' OR snapshot->>'status' = 'disposed' THEN
+    RAISE EXCEPTION 'Disposed assets cannot be reverted';
+  END IF;
+
+  target := jsonb_populate_record(asset, snapshot);
+
+  PERFORM set_config('app.audit_action', 'reverted', true);
+
+  UPDATE public.assets
+  SET name = target.name,
+      code = target.code,
+      serial_number = target.serial_number,
+      description = target.description,
+      category_id = target.category_id,
+      department_id = target.department_id,
+      unit_id = target.unit_id,
+      purchase_value = target.purchase_value,
+      purchase_date = target.purchase_date,
+      residual_value = target.residual_value,
+      useful_life_years = target.useful_life_years,
+      status = target.status,
+      current_location = target.current_location,
+      location_type = target.location_type,
+      latitude = target.latitude,
+      longitude = target.longitude,
+      rfid_id = target.rfid_id,
+      assigned_to = target.assigned_to
+  WHERE id = p_asset_id;
+
+  PERFORM set_config('app.audit_action', '', true);
+END;
+$function$;
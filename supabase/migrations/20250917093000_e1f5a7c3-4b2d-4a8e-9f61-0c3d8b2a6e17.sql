@@ -0,0 +1,172 @@
+-- Depreciation method per category, with an optional override per asset
+ALTER TABLE public.categories
+  ADD COLUMN depreciation_method TEXT NOT NULL DEFAULT 'straight_line'
+  CHECK (depreciation_method IN ('straight_line', 'declining_balance', 'sum_of_years_digits', 'units_of_production'));
+
+ALTER TABLE public.assets
+  ADD COLUMN depreciation_method TEXT
+  CHECK (depreciation_method IN ('straight_line', 'declining_balance', 'sum_of_years_digits', 'units_of_production')),
+  ADD COLUMN total_units NUMERIC CHECK (total_units > 0),
+  ADD COLUMN units_used NUMERIC NOT NULL DEFAULT 0 CHECK (units_used >= 0);
+
+-- Accumulated depreciation at p_as_of. Mirrors src/lib/depreciation.ts.
+CREATE OR REPLACE FUNCTION public.depreciation_amount(
+  p_method text,
+  p_purchase_value numeric,
+  p_residual_value numeric,
+  p_useful_life_years integer,
+  p_purchase_date date,
+  p_as_of date,
+  p_total_units numeric DEFAULT NULL,
+  p_units_used numeric DEFAULT 0
+)
+ RETURNS numeric
+ LANGUAGE plpgsql
+ IMMUTABLE
+ SET search_path = public
+AS $function$
+DECLARE
+  depreciable NUMERIC := GREATEST(0, p_purchase_value - COALESCE(p_residual_value, 0));
+  years NUMERIC := GREATEST(0, (p_as_of - p_purchase_date) / 365.25);
+  rate NUMERIC;
+  digits NUMERIC;
+  full_years INTEGER;
+  fraction NUMERIC;
+  depreciation NUMERIC;
+BEGIN
+  IF depreciable = 0 OR COALESCE(p_useful_life_years, 0) = 0 THEN
+    RETURN 0;
+  END IF;
+
+  CASE COALESCE(p_method, 'straight_line')
+    WHEN 'declining_balance' THEN
+      -- Double-declining balance, fully depreciated at the end of the useful life
+      rate := LEAST(2.0 / p_useful_life_years, 1);
+      IF years >= p_useful_life_years THEN
+        depreciation := depreciable;
+      ELSE
+        depreciation := p_purchase_value * (1 - power(1 - rate, years));
+      END IF;
+    WHEN 'sum_of_years_digits' THEN
+      digits := p_useful_life_years * (p_useful_life_years + 1) / 2.0;
+      full_years := LEAST(floor(years)::integer, p_useful_life_years);
+      fraction := CASE WHEN years >= p_useful_life_years THEN 0 ELSE years - full_years END;
+      depreciation := depreciable * (full_years * p_useful_life_years - full_years * (full_years - 1) / 2.0
+        + fraction * (p_useful_life_years - full_years)) / digits;
+    WHEN 'units_of_production' THEN
+      -- Without an expected total of units there is nothing to spread, fall back to straight-line
+      IF COALESCE(p_total_units, 0) > 0 THEN
+        depreciation := depreciable * LEAST(COALESCE(p_units_used, 0) / p_total_units, 1);
+      ELSE
+        depreciation := depreciable * LEAST(years, p_useful_life_years) / p_useful_life_years;
+      END IF;
+    ELSE
+      depreciation := depreciable * LEAST(years, p_useful_life_years) / p_useful_life_years;
+  END CASE;
+
+  RETURN LEAST(GREATEST(0, depreciation), depreciable);
+END;
+$function$;
+
+-- Depreciation of an asset using its own method or its category's
+CREATE OR REPLACE FUNCTION public.calculate_asset_depreciation(p_asset_id uuid, p_as_of date DEFAULT CURRENT_DATE)
+ RETURNS numeric
+ LANGUAGE sql
+ STABLE
+ SECURITY DEFINER
+ SET search_path = public
+AS $function$
+  SELECT public.depreciation_amount(
+    COALESCE(a.depreciation_method, c.depreciation_method),
+    a.purchase_value,
+    a.residual_value,
+    a.useful_life_years,
+    a.purchase_date,
+    p_as_of,
+    a.total_units,
+    a.units_used
+  )
+  FROM public.assets a
+  LEFT JOIN public.categories c ON c.id = a.category_id
+  WHERE a.id = p_asset_id;
+$function$;
+
+CREATE OR REPLACE FUNCTION public.calculate_asset_book_value(p_asset_id uuid, p_as_of date DEFAULT CURRENT_DATE)
+ RETURNS numeric
+ LANGUAGE sql
+ STABLE
+ SECURITY DEFINER
+ SET search_path = public
+AS $function$
+  SELECT a.purchase_value - public.calculate_asset_depreciation(a.id, p_as_of)
+  FROM public.assets a
+  WHERE a.id = p_asset_id;
+$function$;
+
+-- The original helpers keep their signature and stay straight-line
+CREATE OR REPLACE FUNCTION public.calculate_depreciation(purchase_value numeric, residual_value numeric, useful_life_years integer, purchase_date date)
+ RETURNS numeric
+ LANGUAGE plpgsql
+ SECURITY DEFINER
+ SET search_path = public
+AS $function$
+BEGIN
+  RETURN public.depreciation_amount('straight_line', purchase_value, residual_value, useful_life_years, purchase_date, CURRENT_DATE);
+END;
+$function$;
+
+-- Disposal uses the asset's depreciation method for the book value
+CREATE OR REPLACE FUNCTION public.dispose_asset(
+  p_asset_id uuid,
+  p_disposal_date date,
+  p_disposal_method text,
+  p_disposal_reason text,
+  p_sale_value numeric,
+  p_buyer_info text,
+  p_environmental_compliance boolean,
+  p_certificate_url text
+)
+ RETURNS numeric
+ LANGUAGE plpgsql
+ SECURITY DEFINER
+ SET search_path = public
+AS $function$
+DECLARE
+  asset RECORD;
+  book_value NUMERIC;
+  gain_loss NUMERIC;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT * INTO asset FROM public.assets WHERE id = p_asset_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Asset not found';
+  END IF;
+
+  IF asset.status = 'disposed' THEN
+    RAISE EXCEPTION 'Asset already disposed';
+  END IF;
+
+  IF p_disposal_date < asset.purchase_date THEN
+    RAISE EXCEPTION 'Disposal date before purchase date';
+  END IF;
+
+  book_value := public.calculate_asset_book_value(p_asset_id, p_disposal_date);
+  gain_loss := COALESCE(p_sale_value, 0) - book_value;
+
+  INSERT INTO public.asset_disposal (
+    asset_id, disposal_date, disposal_method, disposal_reason, sale_value, buyer_info,
+    environmental_compliance, certificate_url, book_value, gain_loss, disposed_by
+  )
+  VALUES (
+    p_asset_id, p_disposal_date, p_disposal_method, p_disposal_reason, COALESCE(p_sale_value, 0), p_buyer_info,
+    COALESCE(p_environmental_compliance, false), p_certificate_url, book_value, gain_loss, auth.uid()
+  );
+
+  UPDATE public.assets SET status = 'disposed' WHERE id = p_asset_id;
+
+  RETURN gain_loss;
+END;
+$function$;
@@ -0,0 +1,381 @@
+-- Monthly depreciation ledger and accounting close
+CREATE TABLE public.depreciation_periods (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  period DATE NOT NULL UNIQUE CHECK (period = date_trunc('month', period)::date),
+  asset_count INTEGER NOT NULL DEFAULT 0,
+  total_charge NUMERIC NOT NULL DEFAULT 0,
+  closed_by UUID REFERENCES auth.users(id),
+  closed_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE TABLE public.asset_depreciation_entries (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  asset_id UUID NOT NULL REFERENCES public.assets(id) ON DELETE CASCADE,
+  period DATE NOT NULL REFERENCES public.depreciation_periods(period) ON DELETE CASCADE,
+  method TEXT NOT NULL,
+  opening_value NUMERIC NOT NULL,
+  charge NUMERIC NOT NULL,
+  accumulated_depreciation NUMERIC NOT NULL,
+  closing_value NUMERIC NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (asset_id, period)
+);
+
+CREATE INDEX idx_asset_depreciation_entries_period ON public.asset_depreciation_entries(period);
+
+ALTER TABLE public.depreciation_periods ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.asset_depreciation_entries ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view depreciation periods"
+ON public.depreciation_periods
+FOR SELECT
+USING (auth.uid() IS NOT NULL);
+
+CREATE POLICY "Authenticated users can view depreciation entries"
+ON public.asset_depreciation_entries
+FOR SELECT
+USING (auth.uid() IS NOT NULL);
+
+-- Periods and entries are only written through close_depreciation_period and reopen_depreciation_period
+
+-- The method formulas, parameterised by elapsed years so the ledger can count whole months
+CREATE OR REPLACE FUNCTION public.depreciation_for_years(
+  p_method text,
+  p_purchase_value numeric,
+  p_residual_value numeric,
+  p_useful_life_years integer,
+  p_years numeric,
+  p_total_units numeric DEFAULT NULL,
+  p_units_used numeric DEFAULT 0
+)
+ RETURNS numeric
+ LANGUAGE plpgsql
+ IMMUTABLE
+ SET search_path = public
+AS $function$
+DECLARE
+  depreciable NUMERIC := GREATEST(0, p_purchase_value - COALESCE(p_residual_value, 0));
+  years NUMERIC := GREATEST(0, p_years);
+  rate NUMERIC;
+  digits NUMERIC;
+  full_years INTEGER;
+  fraction NUMERIC;
+  depreciation NUMERIC;
+BEGIN
+  IF depreciable = 0 OR COALESCE(p_useful_life_years, 0) = 0 THEN
+    RETURN 0;
+  END IF;
+
+  CASE COALESCE(p_method, 'straight_line')
+    WHEN 'declining_balance' THEN
+      -- Double-declining balance, fully depreciated at the end of the useful life
+      rate := LEAST(2.0 / p_useful_life_years, 1);
+      IF years >= p_useful_life_years THEN
+        depreciation := depreciable;
+      ELSE
+        depreciation := p_purchase_value * (1 - power(1 - rate, years));
+      END IF;
+    WHEN 'sum_of_years_digits' THEN
+      digits := p_useful_life_years * (p_useful_life_years + 1) / 2.0;
+      full_years := LEAST(floor(years)::integer, p_useful_life_years);
+      fraction := CASE WHEN years >= p_useful_life_years THEN 0 ELSE years - full_years END;
+      depreciation := depreciable * (full_years * p_useful_life_years - full_years * (full_years - 1) / 2.0
+        + fraction * (p_useful_life_years - full_years)) / digits;
+    WHEN 'units_of_production' THEN
+      -- Without an expected total of units there is nothing to spread, fall back to straight-line
+      IF COALESCE(p_total_units, 0) > 0 THEN
+        depreciation := depreciable * LEAST(COALESCE(p_units_used, 0) / p_total_units, 1);
+      ELSE
+        depreciation := depreciable * LEAST(years, p_useful_life_years) / p_useful_life_years;
+      END IF;
+    ELSE
+      depreciation := depreciable * LEAST(years, p_useful_life_years) / p_useful_life_years;
+  END CASE;
+
+  RETURN LEAST(GREATEST(0, depreciation), depreciable);
+END;
+$function$;
+
+-- Day-based accumulation used by the on-screen values, unchanged in behaviour
+CREATE OR REPLACE FUNCTION public.depreciation_amount(
+  p_method text,
+  p_purchase_value numeric,
+  p_residual_value numeric,
+  p_useful_life_years integer,
+  p_purchase_date date,
+  p_as_of date,
+  p_total_units numeric DEFAULT NULL,
+  p_units_used numeric DEFAULT 0
+)
+ RETURNS numeric
+ LANGUAGE sql
+ IMMUTABLE
+ SET search_path = public
+AS $function$
+  SELECT public.depreciation_for_years(
+    p_method, p_purchase_value, p_residual_value, p_useful_life_years,
+    (p_as_of - p_purchase_date) / 365.25, p_total_units, p_units_used
+  );
+$function$;
+
+-- Accumulated depreciation at the end of a month. The month of purchase counts as a full month.
+CREATE OR REPLACE FUNCTION public.depreciation_through_period(
+  p_method text,
+  p_purchase_value numeric,
+  p_residual_value numeric,
+  p_useful_life_years integer,
+  p_purchase_date date,
+  p_period date,
+  p_total_units numeric DEFAULT NULL,
+  p_units_used numeric DEFAULT 0
+)
+ RETURNS numeric
+ LANGUAGE sql
+ IMMUTABLE
+ SET search_path = public
+AS $function$
+  SELECT round(public.depreciation_for_years(
+    p_method, p_purchase_value, p_residual_value, p_useful_life_years,
+    GREATEST(0, (extract(year FROM p_period) - extract(year FROM p_purchase_date)) * 12
+      + extract(month FROM p_period) - extract(month FROM p_purchase_date) + 1) / 12.0,
+    p_total_units, p_units_used
+  ), 2);
+$function$;
+
+-- Close a month: write one ledger entry per asset in service and lock the period
+CREATE OR REPLACE FUNCTION public.close_depreciation_period(p_period date)
+ RETURNS integer
+ LANGUAGE plpgsql
+ SECURITY DEFINER
+ SET search_path = public
+AS $function$
+DECLARE
+  period_start DATE := date_trunc('month', p_period)::date;
+  last_closed DATE;
+  asset RECORD;
+  previous RECORD;
+  accumulated NUMERIC;
+  entry_count INTEGER := 0;
+  total NUMERIC := 0;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.profiles WHERE user_id = auth.uid() AND role IN ('admin', 'manager')
+  ) THEN
+    RAISE EXCEPTION 'Only administrators and managers can close periods';
+  END IF;
+
+  IF period_start > date_trunc('month', CURRENT_DATE)::date THEN
+    RAISE EXCEPTION 'Cannot close a future period';
+  END IF;
+
+  LOCK TABLE public.depreciation_periods IN EXCLUSIVE MODE;
+
+  SELECT max(period) INTO last_closed FROM public.depreciation_periods;
+  IF last_closed IS NOT NULL AND period_start <= last_closed THEN
+    RAISE EXCEPTION 'Period already closed';
+  END IF;
+  IF last_closed IS NOT NULL AND period_start <> (last_closed + interval '1 month')::date THEN
+    RAISE EXCEPTION 'Periods must be closed in order';
+  END IF;
+
+  INSERT INTO public.depreciation_periods (period, closed_by)
+  VALUES (period_start, auth.uid());
+
+  FOR asset IN
+    SELECT a.*, COALESCE(a.depreciation_method, c.depreciation_method, 'straight_line') AS method
+    FROM public.assets a
+    LEFT JOIN public.categories c ON c.id = a.category_id
+    WHERE a.deleted_at IS NULL
+      AND a.purchase_date < (period_start + interval '1 month')::date
+      AND NOT EXISTS (
+        SELECT 1 FROM public.asset_disposal d
+        WHERE d.asset_id = a.id AND d.disposal_date < period_start
+      )
+  LOOP
+    SELECT accumulated_depreciation, closing_value INTO previous
+    FROM public.asset_depreciation_entries
+    WHERE asset_id = asset.id
+    ORDER BY period DESC
+    LIMIT 1;
+
+    -- An asset entering the ledger late catches up its past depreciation in this period
+    accumulated := public.depreciation_through_period(
+      asset.method, asset.purchase_value, asset.residual_value, asset.useful_life_years,
+      asset.purchase_date, period_start, asset.total_units, asset.units_used
+    );
+
+    INSERT INTO public.asset_depreciation_entries (
+      asset_id, period, method, opening_value, charge, accumulated_depreciation, closing_value
+    )
+    VALUES (
+      asset.id,
+      period_start,
+      asset.method,
+      COALESCE(previous.closing_value, asset.purchase_value),
+      accumulated - COALESCE(previous.accumulated_depreciation, 0),
+      accumulated,
+      asset.purchase_value - accumulated
+    );
+
+    entry_count := entry_count + 1;
+    total := total + accumulated - COALESCE(previous.accumulated_depreciation, 0);
+  END LOOP;
+
+  UPDATE public.depreciation_periods
+  SET asset_count = entry_count, total_charge = total
+  WHERE period = period_start;
+
+  RETURN entry_count;
+END;
+$function$;
+
+-- Only the latest closed period can be reopened, and only by an administrator
+CREATE OR REPLACE FUNCTION public.reopen_depreciation_period(p_period date)
+ RETURNS void
+ LANGUAGE plpgsql
+ SECURITY DEFINER
+ SET search_path = public
+AS $function$
+DECLARE
+  period_start DATE := date_trunc('month', p_period)::date;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.profiles WHERE user_id = auth.uid() AND role = 'admin'
+  ) THEN
+    RAISE EXCEPTION 'Only administrators can reopen periods';
+  END IF;
+
+  LOCK TABLE public.depreciation_periods IN EXCLUSIVE MODE;
+
+  IF period_start IS DISTINCT FROM (SELECT max(period) FROM public.depreciation_periods) THEN
+    RAISE EXCEPTION 'Only the latest closed period can be reopened';
+  END IF;
+
+  -- Entries go with the period through the foreign key
+  DELETE FROM public.depreciation_periods WHERE period = period_start;
+END;
+$function$;
+
+-- Closed months from the ledger followed by the projection of the remaining useful life
+CREATE OR REPLACE FUNCTION public.get_depreciation_schedule(p_asset_id uuid)
+ RETURNS TABLE (
+   period date,
+   method text,
+   opening_value numeric,
+   charge numeric,
+   accumulated_depreciation numeric,
+   closing_value numeric,
+   is_closed boolean
+ )
+ LANGUAGE plpgsql
+ STABLE
+ SECURITY DEFINER
+ SET search_path = public
+AS $function$
+DECLARE
+  asset RECORD;
+  asset_method TEXT;
+  last_entry RECORD;
+  last_closed DATE;
+  current_period DATE;
+  final_period DATE;
+  previous_accumulated NUMERIC;
+  previous_closing NUMERIC;
+  accumulated NUMERIC;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT a.*, COALESCE(a.depreciation_method, c.depreciation_method, 'straight_line') AS method INTO asset
+  FROM public.assets a
+  LEFT JOIN public.categories c ON c.id = a.category_id
+  WHERE a.id = p_asset_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Asset not found';
+  END IF;
+
+  asset_method := asset.method;
+
+  RETURN QUERY
+  SELECT e.period, e.method, e.opening_value, e.charge, e.accumulated_depreciation, e.closing_value, true
+  FROM public.asset_depreciation_entries e
+  WHERE e.asset_id = p_asset_id
+  ORDER BY e.period;
+
+  SELECT e.accumulated_depreciation, e.closing_value INTO last_entry
+  FROM public.asset_depreciation_entries e
+  WHERE e.asset_id = p_asset_id
+  ORDER BY e.period DESC
+  LIMIT 1;
+
+  SELECT max(p.period) INTO last_closed FROM public.depreciation_periods p;
+
+  current_period := GREATEST(
+    date_trunc('month', asset.purchase_date)::date,
+    COALESCE((last_closed + interval '1 month')::date, date_trunc('month', asset.purchase_date)::date)
+  );
+  final_period := (date_trunc('month', asset.purchase_date) + make_interval(months => asset.useful_life_years * 12 - 1))::date;
+
+  IF EXISTS (SELECT 1 FROM public.asset_disposal d WHERE d.asset_id = p_asset_id) THEN
+    final_period := LEAST(final_period, (
+      SELECT date_trunc('month', min(d.disposal_date))::date FROM public.asset_disposal d WHERE d.asset_id = p_asset_id
+    ));
+  END IF;
+
+  previous_accumulated := COALESCE(last_entry.accumulated_depreciation, 0);
+  previous_closing := COALESCE(last_entry.closing_value, asset.purchase_value);
+
+  WHILE current_period <= final_period LOOP
+    accumulated := public.depreciation_through_period(
+      asset_method, asset.purchase_value, asset.residual_value, asset.useful_life_years,
+      asset.purchase_date, current_period, asset.total_units, asset.units_used
+    );
+
+    period := current_period;
+    method := asset_method;
+    opening_value := previous_closing;
+    charge := accumulated - previous_accumulated;
+    accumulated_depreciation := accumulated;
+    closing_value := asset.purchase_value - accumulated;
+    is_closed := false;
+    RETURN NEXT;
+
+    previous_accumulated := accumulated;
+    previous_closing := asset.purchase_value - accumulated;
+    current_period := (current_period + interval '1 month')::date;
+  END LOOP;
+END;
+$function$;
+
+-- Disposals cannot be dated inside a closed period
+CREATE OR REPLACE FUNCTION public.check_disposal_period_open()
+ RETURNS trigger
+ LANGUAGE plpgsql
+ SET search_path = public
+AS $function$
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM public.depreciation_periods
+    WHERE period >= date_trunc('month', NEW.disposal_date)::date
+  ) THEN
+    RAISE EXCEPTION 'Disposal date falls in a closed period';
+  END IF;
+
+  RETURN NEW;
+END;
+$function$;
+
+CREATE TRIGGER check_asset_disposal_period
+BEFORE INSERT OR UPDATE OF disposal_date ON public.asset_disposal
+FOR EACH ROW
+EXECUTE FUNCTION public.check_disposal_period_open();
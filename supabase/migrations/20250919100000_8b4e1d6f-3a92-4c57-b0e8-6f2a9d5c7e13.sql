@@ -0,0 +1,420 @@
+-- Fiscal depreciation book based on the Receita Federal rate table (IN RFB 1.700/2017, Anexo III)
+CREATE TABLE public.fiscal_depreciation_rates (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  ncm TEXT NOT NULL UNIQUE CHECK (ncm ~ '^[0-9]{2,8}$'),
+  description TEXT NOT NULL,
+  annual_rate NUMERIC NOT NULL CHECK (annual_rate > 0 AND annual_rate <= 100),
+  useful_life_years INTEGER NOT NULL CHECK (useful_life_years > 0),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.fiscal_depreciation_rates ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view fiscal rates"
+ON public.fiscal_depreciation_rates
+FOR SELECT
+USING (auth.uid() IS NOT NULL);
+
+CREATE POLICY "Admins can manage fiscal rates"
+ON public.fiscal_depreciation_rates
+FOR ALL
+USING (EXISTS (SELECT 1 FROM public.profiles WHERE user_id = auth.uid() AND role = 'admin'))
+WITH CHECK (EXISTS (SELECT 1 FROM public.profiles WHERE user_id = auth.uid() AND role = 'admin'));
+
+CREATE TRIGGER update_fiscal_depreciation_rates_updated_at
+BEFORE UPDATE ON public.fiscal_depreciation_rates
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+INSERT INTO public.fiscal_depreciation_rates (ncm, description, annual_rate, useful_life_years) VALUES
+  ('8415', 'Máquinas e aparelhos de ar-condicionado', 10, 10),
+  ('8418', 'Refrigeradores, congeladores e outros materiais para produção de frio', 10, 10),
+  ('8443', 'Máquinas e aparelhos de impressão', 10, 10),
+  ('8471', 'Máquinas automáticas para processamento de dados', 20, 5),
+  ('8517', 'Aparelhos telefônicos e outros aparelhos de comunicação', 20, 5),
+  ('8701', 'Tratores', 25, 4),
+  ('8702', 'Veículos automóveis para transporte de dez pessoas ou mais', 25, 4),
+  ('8703', 'Automóveis de passageiros', 20, 5),
+  ('8704', 'Veículos automóveis para transporte de mercadorias', 25, 4),
+  ('8711', 'Motocicletas', 25, 4),
+  ('9401', 'Assentos', 10, 10),
+  ('9403', 'Outros móveis', 10, 10);
+
+-- Category default for assets without an NCM
+ALTER TABLE public.categories
+  ADD COLUMN fiscal_rate_id UUID REFERENCES public.fiscal_depreciation_rates(id) ON DELETE SET NULL;
+
+-- Accelerated depreciation for assets running in more than one 8-hour shift (RIR/2018, art. 323)
+ALTER TABLE public.assets
+  ADD COLUMN ncm TEXT CHECK (ncm ~ '^[0-9]{8}$'),
+  ADD COLUMN work_shifts SMALLINT NOT NULL DEFAULT 1 CHECK (work_shifts BETWEEN 1 AND 3);
+
+ALTER TABLE public.asset_depreciation_entries
+  ADD COLUMN fiscal_rate NUMERIC,
+  ADD COLUMN fiscal_charge NUMERIC NOT NULL DEFAULT 0,
+  ADD COLUMN fiscal_accumulated_depreciation NUMERIC NOT NULL DEFAULT 0;
+
+ALTER TABLE public.depreciation_periods
+  ADD COLUMN total_fiscal_charge NUMERIC NOT NULL DEFAULT 0;
+
+-- Effective annual fiscal rate of an asset: the longest NCM prefix wins, then the category,
+-- then the accounting useful life. The shift coefficient is already applied.
+CREATE OR REPLACE FUNCTION public.get_asset_fiscal_rate(p_asset_id uuid)
+ RETURNS TABLE (base_rate numeric, coefficient numeric, annual_rate numeric, source text)
+ LANGUAGE plpgsql
+ STABLE
+ SECURITY DEFINER
+ SET search_path = public
+AS $function$
+DECLARE
+  asset RECORD;
+BEGIN
+  SELECT a.ncm, a.work_shifts, a.useful_life_years, c.fiscal_rate_id INTO asset
+  FROM public.assets a
+  LEFT JOIN public.categories c ON c.id = a.category_id
+  WHERE a.id = p_asset_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Asset not found';
+  END IF;
+
+  coefficient := CASE asset.work_shifts WHEN 2 THEN 1.5 WHEN 3 THEN 2.0 ELSE 1.0 END;
+  source := 'ncm';
+
+  SELECT r.annual_rate INTO base_rate
+  FROM public.fiscal_depreciation_rates r
+  WHERE asset.ncm IS NOT NULL AND asset.ncm LIKE r.ncm || '%'
+  ORDER BY length(r.ncm) DESC
+  LIMIT 1;
+
+  IF base_rate IS NULL THEN
+    source := 'category';
+    SELECT r.annual_rate INTO base_rate
+    FROM public.fiscal_depreciation_rates r
+    WHERE r.id = asset.fiscal_rate_id;
+  END IF;
+
+  IF base_rate IS NULL THEN
+    source := 'accounting';
+    base_rate := round(100.0 / GREATEST(asset.useful_life_years, 1), 4);
+  END IF;
+
+  annual_rate := LEAST(base_rate * coefficient, 100);
+  RETURN NEXT;
+END;
+$function$;
+
+-- Fiscal depreciation is straight-line on the full cost, counting whole months like the ledger
+CREATE OR REPLACE FUNCTION public.fiscal_depreciation_through_period(
+  p_purchase_value numeric,
+  p_annual_rate numeric,
+  p_purchase_date date,
+  p_period date
+)
+ RETURNS numeric
+ LANGUAGE sql
+ IMMUTABLE
+ SET search_path = public
+AS $function$
+  SELECT round(LEAST(
+    p_purchase_value,
+    p_purchase_value * COALESCE(p_annual_rate, 0) / 100.0
+      * GREATEST(0, (extract(year FROM p_period) - extract(year FROM p_purchase_date)) * 12
+        + extract(month FROM p_period) - extract(month FROM p_purchase_date) + 1) / 12.0
+  ), 2);
+$function$;
+
+-- Closing a month now writes both books
+CREATE OR REPLACE FUNCTION public.close_depreciation_period(p_period date)
+ RETURNS integer
+ LANGUAGE plpgsql
+ SECURITY DEFINER
+ SET search_path = public
+AS $function$
+DECLARE
+  period_start DATE := date_trunc('month', p_period)::date;
+  last_closed DATE;
+  asset RECORD;
+  previous RECORD;
+  rate RECORD;
+  accumulated NUMERIC;
+  fiscal_accumulated NUMERIC;
+  entry_count INTEGER := 0;
+  total NUMERIC := 0;
+  fiscal_total NUMERIC := 0;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.profiles WHERE user_id = auth.uid() AND role IN ('admin', 'manager')
+  ) THEN
+    RAISE EXCEPTION 'Only administrators and managers can close periods';
+  END IF;
+
+  IF period_start > date_trunc('month', CURRENT_DATE)::date THEN
+    RAISE EXCEPTION 'Cannot close a future period';
+  END IF;
+
+  LOCK TABLE public.depreciation_periods IN EXCLUSIVE MODE;
+
+  SELECT max(period) INTO last_closed FROM public.depreciation_periods;
+  IF last_closed IS NOT NULL AND period_start <= last_closed THEN
+    RAISE EXCEPTION 'Period already closed';
+  END IF;
+  IF last_closed IS NOT NULL AND period_start <> (last_closed + interval '1 month')::date THEN
+    RAISE EXCEPTION 'Periods must be closed in order';
+  END IF;
+
+  INSERT INTO public.depreciation_periods (period, closed_by)
+  VALUES (period_start, auth.uid());
+
+  FOR asset IN
+    SELECT a.*, COALESCE(a.depreciation_method, c.depreciation_method, 'straight_line') AS method
+    FROM public.assets a
+    LEFT JOIN public.categories c ON c.id = a.category_id
+    WHERE a.deleted_at IS NULL
+      AND a.purchase_date < (period_start + interval '1 month')::date
+      AND NOT EXISTS (
+        SELECT 1 FROM public.asset_disposal d
+        WHERE d.asset_id = a.id AND d.disposal_date < period_start
+      )
+  LOOP
+    SELECT accumulated_depreciation, closing_value, fiscal_accumulated_depreciation INTO previous
+    FROM public.asset_depreciation_entries
+    WHERE asset_id = asset.id
+    ORDER BY period DESC
+    LIMIT 1;
+
+    SELECT * INTO rate FROM public.get_asset_fiscal_rate(asset.id);
+
+    -- An asset entering the ledger late catches up its past depreciation in this period
+    accumulated := public.depreciation_through_period(
+      asset.method, asset.purchase_value, asset.residual_value, asset.useful_life_years,
+      asset.purchase_date, period_start, asset.total_units, asset.units_used
+    );
+    fiscal_accumulated := public.fiscal_depreciation_through_period(
+      asset.purchase_value, rate.annual_rate, asset.purchase_date, period_start
+    );
+
+    INSERT INTO public.asset_depreciation_entries (
+      asset_id, period, method, opening_value, charge, accumulated_depreciation, closing_value,
+      fiscal_rate, fiscal_charge, fiscal_accumulated_depreciation
+    )
+    VALUES (
+      asset.id,
+      period_start,
+      asset.method,
+      COALESCE(previous.closing_value, asset.purchase_value),
+      accumulated - COALESCE(previous.accumulated_depreciation, 0),
+      accumulated,
+      asset.purchase_value - accumulated,
+      rate.annual_rate,
+      fiscal_accumulated - COALESCE(previous.fiscal_accumulated_depreciation, 0),
+      fiscal_accumulated
+    );
+
+    entry_count := entry_count + 1;
+    total := total + accumulated - COALESCE(previous.accumulated_depreciation, 0);
+    fiscal_total := fiscal_total + fiscal_accumulated - COALESCE(previous.fiscal_accumulated_depreciation, 0);
+  END LOOP;
+
+  UPDATE public.depreciation_periods
+  SET asset_count = entry_count, total_charge = total, total_fiscal_charge = fiscal_total
+  WHERE period = period_start;
+
+  RETURN entry_count;
+END;
+$function$;
+
+-- The schedule gains the fiscal columns, so it has to be recreated
+DROP FUNCTION public.get_depreciation_schedule(uuid);
+
+CREATE OR REPLACE FUNCTION public.get_depreciation_schedule(p_asset_id uuid)
+ RETURNS TABLE (
+   period date,
+   method text,
+   opening_value numeric,
+   charge numeric,
+   accumulated_depreciation numeric,
+   closing_value numeric,
+   fiscal_rate numeric,
+   fiscal_charge numeric,
+   fiscal_accumulated_depreciation numeric,
+   is_closed boolean
+ )
+ LANGUAGE plpgsql
+ STABLE
+ SECURITY DEFINER
+ SET search_path = public
+AS $function$
+DECLARE
+  asset RECORD;
+  asset_method TEXT;
+  rate RECORD;
+  last_entry RECORD;
+  last_closed DATE;
+  current_period DATE;
+  final_period DATE;
+  previous_accumulated NUMERIC;
+  previous_closing NUMERIC;
+  previous_fiscal NUMERIC;
+  accumulated NUMERIC;
+  fiscal_accumulated NUMERIC;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT a.*, COALESCE(a.depreciation_method, c.depreciation_method, 'straight_line') AS method INTO asset
+  FROM public.assets a
+  LEFT JOIN public.categories c ON c.id = a.category_id
+  WHERE a.id = p_asset_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Asset not found';
+  END IF;
+
+  asset_method := asset.method;
+  SELECT * INTO rate FROM public.get_asset_fiscal_rate(p_asset_id);
+
+  RETURN QUERY
+  SELECT e.period, e.method, e.opening_value, e.charge, e.accumulated_depreciation, e.closing_value,
+    e.fiscal_rate, e.fiscal_charge, e.fiscal_accumulated_depreciation, true
+  FROM public.asset_depreciation_entries e
+  WHERE e.asset_id = p_asset_id
+  ORDER BY e.period;
+
+  SELECT e.accumulated_depreciation, e.closing_value, e.fiscal_accumulated_depreciation INTO last_entry
+  FROM public.asset_depreciation_entries e
+  WHERE e.asset_id = p_asset_id
+  ORDER BY e.period DESC
+  LIMIT 1;
+
+  SELECT max(p.period) INTO last_closed FROM public.depreciation_periods p;
+
+  current_period := GREATEST(
+    date_trunc('month', asset.purchase_date)::date,
+    COALESCE((last_closed + interval '1 month')::date, date_trunc('month', asset.purchase_date)::date)
+  );
+
+  -- Run until both books are fully depreciated
+  final_period := (date_trunc('month', asset.purchase_date) + make_interval(months => GREATEST(
+    asset.useful_life_years * 12,
+    ceil(1200.0 / rate.annual_rate)::integer
+  ) - 1))::date;
+
+  IF EXISTS (SELECT 1 FROM public.asset_disposal d WHERE d.asset_id = p_asset_id) THEN
+    final_period := LEAST(final_period, (
+      SELECT date_trunc('month', min(d.disposal_date))::date FROM public.asset_disposal d WHERE d.asset_id = p_asset_id
+    ));
+  END IF;
+
+  previous_accumulated := COALESCE(last_entry.accumulated_depreciation, 0);
+  previous_closing := COALESCE(last_entry.closing_value, asset.purchase_value);
+  previous_fiscal := COALESCE(last_entry.fiscal_accumulated_depreciation, 0);
+
+  WHILE current_period <= final_period LOOP
+    accumulated := public.depreciation_through_period(
+      asset_method, asset.purchase_value, asset.residual_value, asset.useful_life_years,
+      asset.purchase_date, current_period, asset.total_units, asset.units_used
+    );
+    fiscal_accumulated := public.fiscal_depreciation_through_period(
+      asset.purchase_value, rate.annual_rate, asset.purchase_date, current_period
+    );
+
+    period := current_period;
+    method := asset_method;
+    opening_value := previous_closing;
+    charge := accumulated - previous_accumulated;
+    accumulated_depreciation := accumulated;
+    closing_value := asset.purchase_value - accumulated;
+    fiscal_rate := rate.annual_rate;
+    fiscal_charge := fiscal_accumulated - previous_fiscal;
+    fiscal_accumulated_depreciation := fiscal_accumulated;
+    is_closed := false;
+    RETURN NEXT;
+
+    previous_accumulated := accumulated;
+    previous_closing := asset.purchase_value - accumulated;
+    previous_fiscal := fiscal_accumulated;
+    current_period := (current_period + interval '1 month')::date;
+  END LOOP;
+END;
+$function$;
+
+-- Accounting vs fiscal book per asset at the end of a month: the ledger for closed months,
+-- the same formulas otherwise
+CREATE OR REPLACE FUNCTION public.get_depreciation_reconciliation(p_period date)
+ RETURNS TABLE (
+   asset_id uuid,
+   code text,
+   name text,
+   category_name text,
+   ncm text,
+   work_shifts smallint,
+   fiscal_rate numeric,
+   fiscal_rate_source text,
+   purchase_value numeric,
+   accounting_charge numeric,
+   fiscal_charge numeric,
+   accounting_accumulated numeric,
+   fiscal_accumulated numeric,
+   difference numeric,
+   is_closed boolean
+ )
+ LANGUAGE plpgsql
+ STABLE
+ SECURITY DEFINER
+ SET search_path = public
+AS $function$
+DECLARE
+  period_start DATE := date_trunc('month', p_period)::date;
+  previous_period DATE := (date_trunc('month', p_period) - interval '1 month')::date;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM public.depreciation_periods p WHERE p.period = period_start) THEN
+    RETURN QUERY
+    SELECT a.id, a.code, a.name, c.name, a.ncm, a.work_shifts, e.fiscal_rate, r.source, a.purchase_value,
+      e.charge, e.fiscal_charge, e.accumulated_depreciation, e.fiscal_accumulated_depreciation,
+      e.fiscal_accumulated_depreciation - e.accumulated_depreciation, true
+    FROM public.asset_depreciation_entries e
+    JOIN public.assets a ON a.id = e.asset_id
+    LEFT JOIN public.categories c ON c.id = a.category_id
+    CROSS JOIN LATERAL public.get_asset_fiscal_rate(a.id) r
+    WHERE e.period = period_start
+    ORDER BY a.code;
+    RETURN;
+  END IF;
+
+  RETURN QUERY
+  SELECT b.id, b.code, b.name, b.category_name, b.ncm, b.work_shifts, b.annual_rate, b.source, b.purchase_value,
+    b.accounting_now - b.accounting_before, b.fiscal_now - b.fiscal_before,
+    b.accounting_now, b.fiscal_now, b.fiscal_now - b.accounting_now, false
+  FROM (
+    SELECT a.id, a.code, a.name, c.name AS category_name, a.ncm, a.work_shifts, r.annual_rate, r.source, a.purchase_value,
+      public.depreciation_through_period(m.method, a.purchase_value, a.residual_value, a.useful_life_years,
+        a.purchase_date, period_start, a.total_units, a.units_used) AS accounting_now,
+      public.depreciation_through_period(m.method, a.purchase_value, a.residual_value, a.useful_life_years,
+        a.purchase_date, previous_period, a.total_units, a.units_used) AS accounting_before,
+      public.fiscal_depreciation_through_period(a.purchase_value, r.annual_rate, a.purchase_date, period_start) AS fiscal_now,
+      public.fiscal_depreciation_through_period(a.purchase_value, r.annual_rate, a.purchase_date, previous_period) AS fiscal_before
+    FROM public.assets a
+    LEFT JOIN public.categories c ON c.id = a.category_id
+    CROSS JOIN LATERAL (SELECT COALESCE(a.depreciation_method, c.depreciation_method, 'straight_line') AS method) m
+    CROSS JOIN LATERAL public.get_asset_fiscal_rate(a.id) r
+    WHERE a.deleted_at IS NULL
+      AND a.purchase_date < (period_start + interval '1 month')::date
+      AND NOT EXISTS (
+        SELECT 1 FROM public.asset_disposal d
+        WHERE d.asset_id = a.id AND d.disposal_date < period_start
+      )
+  ) b
+  ORDER BY b.code;
+END;
+$function$;
@@ -0,0 +1,472 @@
+-- Revaluation and impairment events (CPC 01) that rebase the carrying amount of an asset
+ALTER TABLE public.documents DROP CONSTRAINT documents_type_check;
+ALTER TABLE public.documents
+  ADD CONSTRAINT documents_type_check CHECK (type IN ('invoice', 'manual', 'warranty', 'appraisal', 'other'));
+
+CREATE TABLE public.asset_valuation_events (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  asset_id UUID NOT NULL REFERENCES public.assets(id) ON DELETE CASCADE,
+  event_type TEXT NOT NULL CHECK (event_type IN ('revaluation', 'impairment')),
+  event_date DATE NOT NULL,
+  previous_book_value NUMERIC NOT NULL,
+  new_book_value NUMERIC NOT NULL CHECK (new_book_value >= 0),
+  remaining_useful_life_years INTEGER NOT NULL CHECK (remaining_useful_life_years > 0),
+  units_used_at_event NUMERIC NOT NULL DEFAULT 0,
+  justification TEXT NOT NULL,
+  document_id UUID REFERENCES public.documents(id) ON DELETE SET NULL,
+  created_by UUID REFERENCES auth.users(id),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (asset_id, event_date)
+);
+
+CREATE INDEX idx_asset_valuation_events_asset ON public.asset_valuation_events(asset_id, event_date);
+
+ALTER TABLE public.asset_valuation_events ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view valuation events"
+ON public.asset_valuation_events
+FOR SELECT
+USING (auth.uid() IS NOT NULL);
+
+-- Events are only written through record_valuation_event and cannot be changed afterwards
+
+ALTER TABLE public.asset_depreciation_entries
+  ADD COLUMN valuation_adjustment NUMERIC NOT NULL DEFAULT 0;
+
+CREATE OR REPLACE FUNCTION public.log_asset_valuation_change()
+ RETURNS trigger
+ LANGUAGE plpgsql
+ SECURITY DEFINER
+ SET search_path = public
+AS $function$
+BEGIN
+  INSERT INTO public.asset_audit_log (asset_id, user_id, action, old_data, new_data)
+  VALUES (
+    NEW.asset_id,
+    auth.uid(),
+    CASE NEW.event_type WHEN 'impairment' THEN 'impaired' ELSE 'revalued' END,
+    NULL,
+    to_jsonb(NEW)
+  );
+
+  RETURN NEW;
+END;
+$function$;
+
+CREATE TRIGGER audit_asset_valuation_events
+  AFTER INSERT ON public.asset_valuation_events
+  FOR EACH ROW EXECUTE FUNCTION public.log_asset_valuation_change();
+
+-- Carrying amount at a date: after the latest event up to that date, depreciation restarts
+-- from the new carrying amount over the remaining life. Mirrors src/lib/depreciation.ts.
+CREATE OR REPLACE FUNCTION public.calculate_asset_book_value(p_asset_id uuid, p_as_of date DEFAULT CURRENT_DATE)
+ RETURNS numeric
+ LANGUAGE plpgsql
+ STABLE
+ SECURITY DEFINER
+ SET search_path = public
+AS $function$
+DECLARE
+  asset RECORD;
+  valuation RECORD;
+BEGIN
+  SELECT a.*, COALESCE(a.depreciation_method, c.depreciation_method, 'straight_line') AS method INTO asset
+  FROM public.assets a
+  LEFT JOIN public.categories c ON c.id = a.category_id
+  WHERE a.id = p_asset_id;
+
+  IF NOT FOUND THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT * INTO valuation
+  FROM public.asset_valuation_events
+  WHERE asset_id = p_asset_id AND event_date <= p_as_of
+  ORDER BY event_date DESC
+  LIMIT 1;
+
+  IF NOT FOUND THEN
+    RETURN asset.purchase_value - public.depreciation_amount(
+      asset.method, asset.purchase_value, asset.residual_value, asset.useful_life_years,
+      asset.purchase_date, p_as_of, asset.total_units, asset.units_used
+    );
+  END IF;
+
+  RETURN valuation.new_book_value - public.depreciation_for_years(
+    asset.method, valuation.new_book_value, asset.residual_value, valuation.remaining_useful_life_years,
+    (p_as_of - valuation.event_date) / 365.25,
+    asset.total_units - valuation.units_used_at_event, asset.units_used - valuation.units_used_at_event
+  );
+END;
+$function$;
+
+-- Same rule at the end of a month, counting whole months after the event month.
+-- p_events_before leaves out events on or after that date, giving the value before them.
+CREATE OR REPLACE FUNCTION public.asset_book_value_through_period(
+  p_asset_id uuid,
+  p_period date,
+  p_events_before date DEFAULT NULL
+)
+ RETURNS numeric
+ LANGUAGE plpgsql
+ STABLE
+ SECURITY DEFINER
+ SET search_path = public
+AS $function$
+DECLARE
+  asset RECORD;
+  valuation RECORD;
+BEGIN
+  SELECT a.*, COALESCE(a.depreciation_method, c.depreciation_method, 'straight_line') AS method INTO asset
+  FROM public.assets a
+  LEFT JOIN public.categories c ON c.id = a.category_id
+  WHERE a.id = p_asset_id;
+
+  IF NOT FOUND THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT * INTO valuation
+  FROM public.asset_valuation_events
+  WHERE asset_id = p_asset_id
+    AND event_date < (date_trunc('month', p_period) + interval '1 month')::date
+    AND (p_events_before IS NULL OR event_date < p_events_before)
+  ORDER BY event_date DESC
+  LIMIT 1;
+
+  IF NOT FOUND THEN
+    RETURN asset.purchase_value - public.depreciation_through_period(
+      asset.method, asset.purchase_value, asset.residual_value, asset.useful_life_years,
+      asset.purchase_date, p_period, asset.total_units, asset.units_used
+    );
+  END IF;
+
+  RETURN valuation.new_book_value - round(public.depreciation_for_years(
+    asset.method, valuation.new_book_value, asset.residual_value, valuation.remaining_useful_life_years,
+    GREATEST(0, (extract(year FROM p_period) - extract(year FROM valuation.event_date)) * 12
+      + extract(month FROM p_period) - extract(month FROM valuation.event_date)) / 12.0,
+    asset.total_units - valuation.units_used_at_event, asset.units_used - valuation.units_used_at_event
+  ), 2);
+END;
+$function$;
+
+CREATE OR REPLACE FUNCTION public.record_valuation_event(
+  p_asset_id uuid,
+  p_event_type text,
+  p_event_date date,
+  p_new_book_value numeric,
+  p_remaining_useful_life_years integer,
+  p_justification text,
+  p_document_id uuid DEFAULT NULL
+)
+ RETURNS uuid
+ LANGUAGE plpgsql
+ SECURITY DEFINER
+ SET search_path = public
+AS $function$
+DECLARE
+  asset RECORD;
+  previous_value NUMERIC;
+  event_id UUID;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.profiles WHERE user_id = auth.uid() AND role IN ('admin', 'manager')
+  ) THEN
+    RAISE EXCEPTION 'Only administrators and managers can record valuation events';
+  END IF;
+
+  SELECT * INTO asset FROM public.assets WHERE id = p_asset_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Asset not found';
+  END IF;
+
+  IF asset.status = 'disposed' OR asset.deleted_at IS NOT NULL THEN
+    RAISE EXCEPTION 'Asset is not in service';
+  END IF;
+
+  IF p_event_type NOT IN ('revaluation', 'impairment') THEN
+    RAISE EXCEPTION 'Invalid event type';
+  END IF;
+
+  IF p_justification IS NULL OR length(trim(p_justification)) = 0 THEN
+    RAISE EXCEPTION 'A justification is required';
+  END IF;
+
+  IF p_event_date < asset.purchase_date OR p_event_date > CURRENT_DATE THEN
+    RAISE EXCEPTION 'Event date out of range';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.asset_valuation_events
+    WHERE asset_id = p_asset_id AND event_date >= p_event_date
+  ) THEN
+    RAISE EXCEPTION 'Event date must be after the latest event';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.depreciation_periods
+    WHERE period >= date_trunc('month', p_event_date)::date
+  ) THEN
+    RAISE EXCEPTION 'Event date falls in a closed period';
+  END IF;
+
+  previous_value := round(public.calculate_asset_book_value(p_asset_id, p_event_date), 2);
+
+  IF p_event_type = 'impairment' AND p_new_book_value >= previous_value THEN
+    RAISE EXCEPTION 'Impairment must reduce the carrying amount';
+  END IF;
+
+  INSERT INTO public.asset_valuation_events (
+    asset_id, event_type, event_date, previous_book_value, new_book_value,
+    remaining_useful_life_years, units_used_at_event, justification, document_id, created_by
+  )
+  VALUES (
+    p_asset_id, p_event_type, p_event_date, previous_value, p_new_book_value,
+    p_remaining_useful_life_years, asset.units_used, trim(p_justification), p_document_id, auth.uid()
+  )
+  RETURNING id INTO event_id;
+
+  RETURN event_id;
+END;
+$function$;
+
+-- The ledger separates the monthly charge from the valuation adjustment of the month
+CREATE OR REPLACE FUNCTION public.close_depreciation_period(p_period date)
+ RETURNS integer
+ LANGUAGE plpgsql
+ SECURITY DEFINER
+ SET search_path = public
+AS $function$
+DECLARE
+  period_start DATE := date_trunc('month', p_period)::date;
+  last_closed DATE;
+  asset RECORD;
+  previous RECORD;
+  rate RECORD;
+  opening NUMERIC;
+  book_value NUMERIC;
+  value_before_events NUMERIC;
+  charge NUMERIC;
+  fiscal_accumulated NUMERIC;
+  entry_count INTEGER := 0;
+  total NUMERIC := 0;
+  fiscal_total NUMERIC := 0;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.profiles WHERE user_id = auth.uid() AND role IN ('admin', 'manager')
+  ) THEN
+    RAISE EXCEPTION 'Only administrators and managers can close periods';
+  END IF;
+
+  IF period_start > date_trunc('month', CURRENT_DATE)::date THEN
+    RAISE EXCEPTION 'Cannot close a future period';
+  END IF;
+
+  LOCK TABLE public.depreciation_periods IN EXCLUSIVE MODE;
+
+  SELECT max(period) INTO last_closed FROM public.depreciation_periods;
+  IF last_closed IS NOT NULL AND period_start <= last_closed THEN
+    RAISE EXCEPTION 'Period already closed';
+  END IF;
+  IF last_closed IS NOT NULL AND period_start <> (last_closed + interval '1 month')::date THEN
+    RAISE EXCEPTION 'Periods must be closed in order';
+  END IF;
+
+  INSERT INTO public.depreciation_periods (period, closed_by)
+  VALUES (period_start, auth.uid());
+
+  FOR asset IN
+    SELECT a.*, COALESCE(a.depreciation_method, c.depreciation_method, 'straight_line') AS method
+    FROM public.assets a
+    LEFT JOIN public.categories c ON c.id = a.category_id
+    WHERE a.deleted_at IS NULL
+      AND a.purchase_date < (period_start + interval '1 month')::date
+      AND NOT EXISTS (
+        SELECT 1 FROM public.asset_disposal d
+        WHERE d.asset_id = a.id AND d.disposal_date < period_start
+      )
+  LOOP
+    SELECT accumulated_depreciation, closing_value, fiscal_accumulated_depreciation INTO previous
+    FROM public.asset_depreciation_entries
+    WHERE asset_id = asset.id
+    ORDER BY period DESC
+    LIMIT 1;
+
+    SELECT * INTO rate FROM public.get_asset_fiscal_rate(asset.id);
+
+    -- An asset entering the ledger late catches up its past depreciation in this period
+    opening := COALESCE(previous.closing_value, asset.purchase_value);
+    book_value := public.asset_book_value_through_period(asset.id, period_start);
+    value_before_events := public.asset_book_value_through_period(asset.id, period_start, period_start);
+    charge := opening - value_before_events;
+    fiscal_accumulated := public.fiscal_depreciation_through_period(
+      asset.purchase_value, rate.annual_rate, asset.purchase_date, period_start
+    );
+
+    INSERT INTO public.asset_depreciation_entries (
+      asset_id, period, method, opening_value, charge, valuation_adjustment, accumulated_depreciation, closing_value,
+      fiscal_rate, fiscal_charge, fiscal_accumulated_depreciation
+    )
+    VALUES (
+      asset.id,
+      period_start,
+      asset.method,
+      opening,
+      charge,
+      book_value - value_before_events,
+      COALESCE(previous.accumulated_depreciation, 0) + charge,
+      book_value,
+      rate.annual_rate,
+      fiscal_accumulated - COALESCE(previous.fiscal_accumulated_depreciation, 0),
+      fiscal_accumulated
+    );
+
+    entry_count := entry_count + 1;
+    total := total + charge;
+    fiscal_total := fiscal_total + fiscal_accumulated - COALESCE(previous.fiscal_accumulated_depreciation, 0);
+  END LOOP;
+
+  UPDATE public.depreciation_periods
+  SET asset_count = entry_count, total_charge = total, total_fiscal_charge = fiscal_total
+  WHERE period = period_start;
+
+  RETURN entry_count;
+END;
+$function$;
+
+DROP FUNCTION public.get_depreciation_schedule(uuid);
+
+CREATE OR REPLACE FUNCTION public.get_depreciation_schedule(p_asset_id uuid)
+ RETURNS TABLE (
+   period date,
+   method text,
+   opening_value numeric,
+   charge numeric,
+   valuation_adjustment numeric,
+   accumulated_depreciation numeric,
+   closing_value numeric,
+   fiscal_rate numeric,
+   fiscal_charge numeric,
+   fiscal_accumulated_depreciation numeric,
+   is_closed boolean
+ )
+ LANGUAGE plpgsql
+ STABLE
+ SECURITY DEFINER
+ SET search_path = public
+AS $function$
+DECLARE
+  asset RECORD;
+  asset_method TEXT;
+  rate RECORD;
+  last_entry RECORD;
+  last_event RECORD;
+  last_closed DATE;
+  current_period DATE;
+  final_period DATE;
+  previous_accumulated NUMERIC;
+  previous_closing NUMERIC;
+  previous_fiscal NUMERIC;
+  book_value NUMERIC;
+  value_before_events NUMERIC;
+  fiscal_accumulated NUMERIC;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT a.*, COALESCE(a.depreciation_method, c.depreciation_method, 'straight_line') AS method INTO asset
+  FROM public.assets a
+  LEFT JOIN public.categories c ON c.id = a.category_id
+  WHERE a.id = p_asset_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Asset not found';
+  END IF;
+
+  asset_method := asset.method;
+  SELECT * INTO rate FROM public.get_asset_fiscal_rate(p_asset_id);
+
+  RETURN QUERY
+  SELECT e.period, e.method, e.opening_value, e.charge, e.valuation_adjustment, e.accumulated_depreciation,
+    e.closing_value, e.fiscal_rate, e.fiscal_charge, e.fiscal_accumulated_depreciation, true
+  FROM public.asset_depreciation_entries e
+  WHERE e.asset_id = p_asset_id
+  ORDER BY e.period;
+
+  SELECT e.accumulated_depreciation, e.closing_value, e.fiscal_accumulated_depreciation INTO last_entry
+  FROM public.asset_depreciation_entries e
+  WHERE e.asset_id = p_asset_id
+  ORDER BY e.period DESC
+  LIMIT 1;
+
+  SELECT max(p.period) INTO last_closed FROM public.depreciation_periods p;
+
+  current_period := GREATEST(
+    date_trunc('month', asset.purchase_date)::date,
+    COALESCE((last_closed + interval '1 month')::date, date_trunc('month', asset.purchase_date)::date)
+  );
+
+  -- Run until both books are fully depreciated, including the remaining life set by the latest event
+  final_period := (date_trunc('month', asset.purchase_date) + make_interval(months => GREATEST(
+    asset.useful_life_years * 12,
+    ceil(1200.0 / rate.annual_rate)::integer
+  ) - 1))::date;
+
+  SELECT v.event_date, v.remaining_useful_life_years INTO last_event
+  FROM public.asset_valuation_events v
+  WHERE v.asset_id = p_asset_id
+  ORDER BY v.event_date DESC
+  LIMIT 1;
+
+  IF last_event.event_date IS NOT NULL THEN
+    final_period := GREATEST(final_period, (
+      date_trunc('month', last_event.event_date) + make_interval(months => last_event.remaining_useful_life_years * 12)
+    )::date);
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM public.asset_disposal d WHERE d.asset_id = p_asset_id) THEN
+    final_period := LEAST(final_period, (
+      SELECT date_trunc('month', min(d.disposal_date))::date FROM public.asset_disposal d WHERE d.asset_id = p_asset_id
+    ));
+  END IF;
+
+  previous_accumulated := COALESCE(last_entry.accumulated_depreciation, 0);
+  previous_closing := COALESCE(last_entry.closing_value, asset.purchase_value);
+  previous_fiscal := COALESCE(last_entry.fiscal_accumulated_depreciation, 0);
+
+  WHILE current_period <= final_period LOOP
+    book_value := public.asset_book_value_through_period(p_asset_id, current_period);
+    value_before_events := public.asset_book_value_through_period(p_asset_id, current_period, current_period);
+    fiscal_accumulated := public.fiscal_depreciation_through_period(
+      asset.purchase_value, rate.annual_rate, asset.purchase_date, current_period
+    );
+
+    period := current_period;
+    method := asset_method;
+    opening_value := previous_closing;
+    charge := previous_closing - value_before_events;
+    valuation_adjustment := book_value - value_before_events;
+    accumulated_depreciation := previous_accumulated + charge;
+    closing_value := book_value;
+    fiscal_rate := rate.annual_rate;
+    fiscal_charge := fiscal_accumulated - previous_fiscal;
+    fiscal_accumulated_depreciation := fiscal_accumulated;
+    is_closed := false;
+    RETURN NEXT;
+
+    previous_accumulated := previous_accumulated + charge;
+    previous_closing := book_value;
+    previous_fiscal := fiscal_accumulated;
+    current_period := (current_period + interval '1 month')::date;
+  END LOOP;
+END;
+$function$;
@@ -0,0 +1,338 @@
+-- Amounts are stored in the currency of the transaction; reports convert them to the
+-- company's base currency with the rate in force on the transaction date
+ALTER TABLE public.companies
+  ADD COLUMN base_currency TEXT NOT NULL DEFAULT 'BRL' CHECK (base_currency ~ '^[A-Z]{3}$');
+
+ALTER TABLE public.assets
+  ADD COLUMN currency TEXT NOT NULL DEFAULT 'BRL' CHECK (currency ~ '^[A-Z]{3}$');
+
+ALTER TABLE public.asset_maintenance
+  ADD COLUMN currency TEXT NOT NULL DEFAULT 'BRL' CHECK (currency ~ '^[A-Z]{3}$');
+
+ALTER TABLE public.spare_parts
+  ADD COLUMN currency TEXT NOT NULL DEFAULT 'BRL' CHECK (currency ~ '^[A-Z]{3}$');
+
+-- Units of base_currency per one unit of currency, maintained by hand or from the BCB PTAX bulletin
+CREATE TABLE public.exchange_rates (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  currency TEXT NOT NULL CHECK (currency ~ '^[A-Z]{3}$'),
+  base_currency TEXT NOT NULL DEFAULT 'BRL' CHECK (base_currency ~ '^[A-Z]{3}$'),
+  rate_date DATE NOT NULL,
+  rate NUMERIC NOT NULL CHECK (rate > 0),
+  source TEXT,
+  created_by UUID REFERENCES auth.users(id),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (currency, base_currency, rate_date),
+  CHECK (currency <> base_currency)
+);
+
+CREATE INDEX idx_exchange_rates_lookup ON public.exchange_rates(currency, base_currency, rate_date DESC);
+
+ALTER TABLE public.exchange_rates ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view exchange rates"
+ON public.exchange_rates
+FOR SELECT
+USING (auth.uid() IS NOT NULL);
+
+CREATE POLICY "Admins and managers can manage exchange rates"
+ON public.exchange_rates
+FOR ALL
+USING (EXISTS (SELECT 1 FROM public.profiles WHERE user_id = auth.uid() AND role IN ('admin', 'manager')))
+WITH CHECK (EXISTS (SELECT 1 FROM public.profiles WHERE user_id = auth.uid() AND role IN ('admin', 'manager')));
+
+CREATE TRIGGER update_exchange_rates_updated_at
+BEFORE UPDATE ON public.exchange_rates
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Base currency of the current user's company, BRL when the user has none
+CREATE OR REPLACE FUNCTION public.get_base_currency()
+ RETURNS text
+ LANGUAGE sql
+ STABLE
+ SECURITY DEFINER
+ SET search_path = public
+AS $function$
+  SELECT COALESCE(
+    (SELECT c.base_currency
+     FROM public.profiles p
+     JOIN public.companies c ON c.id = p.company_id
+     WHERE p.user_id = auth.uid()),
+    'BRL'
+  );
+$function$;
+
+-- Latest rate on or before the date; a quote stored the other way round is inverted.
+-- NULL when no rate is known, so callers never convert at an invented rate.
+CREATE OR REPLACE FUNCTION public.get_exchange_rate(p_currency text, p_base_currency text, p_date date)
+ RETURNS numeric
+ LANGUAGE plpgsql
+ STABLE
+ SECURITY DEFINER
+ SET search_path = public
+AS $function$
+DECLARE
+  direct RECORD;
+  inverse RECORD;
+BEGIN
+  IF p_currency = p_base_currency THEN
+    RETURN 1;
+  END IF;
+
+  SELECT rate, rate_date INTO direct
+  FROM public.exchange_rates
+  WHERE currency = p_currency AND base_currency = p_base_currency AND rate_date <= p_date
+  ORDER BY rate_date DESC
+  LIMIT 1;
+
+  SELECT rate, rate_date INTO inverse
+  FROM public.exchange_rates
+  WHERE currency = p_base_currency AND base_currency = p_currency AND rate_date <= p_date
+  ORDER BY rate_date DESC
+  LIMIT 1;
+
+  IF inverse.rate_date IS NOT NULL AND (direct.rate_date IS NULL OR inverse.rate_date > direct.rate_date) THEN
+    RETURN 1 / inverse.rate;
+  END IF;
+
+  RETURN direct.rate;
+END;
+$function$;
+
+CREATE OR REPLACE FUNCTION public.convert_to_base_currency(p_amount numeric, p_currency text, p_date date)
+ RETURNS numeric
+ LANGUAGE sql
+ STABLE
+ SECURITY DEFINER
+ SET search_path = public
+AS $function$
+  SELECT round(p_amount * public.get_exchange_rate(p_currency, public.get_base_currency(), p_date), 2);
+$function$;
+
+-- Ledger entries stay in the asset's currency; the period totals are in the base currency of
+-- whoever closed the period, at the rate of the purchase date (historical cost, CPC 02)
+ALTER TABLE public.asset_depreciation_entries
+  ADD COLUMN currency TEXT NOT NULL DEFAULT 'BRL',
+  ADD COLUMN exchange_rate NUMERIC NOT NULL DEFAULT 1;
+
+ALTER TABLE public.depreciation_periods
+  ADD COLUMN base_currency TEXT NOT NULL DEFAULT 'BRL';
+
+CREATE OR REPLACE FUNCTION public.close_depreciation_period(p_period date)
+ RETURNS integer
+ LANGUAGE plpgsql
+ SECURITY DEFINER
+ SET search_path = public
+AS $function$
+DECLARE
+  period_start DATE := date_trunc('month', p_period)::date;
+  last_closed DATE;
+  ledger_currency TEXT := public.get_base_currency();
+  asset RECORD;
+  previous RECORD;
+  rate RECORD;
+  historical_rate NUMERIC;
+  opening NUMERIC;
+  book_value NUMERIC;
+  value_before_events NUMERIC;
+  charge NUMERIC;
+  fiscal_accumulated NUMERIC;
+  entry_count INTEGER := 0;
+  total NUMERIC := 0;
+  fiscal_total NUMERIC := 0;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.profiles WHERE user_id = auth.uid() AND role IN ('admin', 'manager')
+  ) THEN
+    RAISE EXCEPTION 'Only administrators and managers can close periods';
+  END IF;
+
+  IF period_start > date_trunc('month', CURRENT_DATE)::date THEN
+    RAISE EXCEPTION 'Cannot close a future period';
+  END IF;
+
+  LOCK TABLE public.depreciation_periods IN EXCLUSIVE MODE;
+
+  SELECT max(period) INTO last_closed FROM public.depreciation_periods;
+  IF last_closed IS NOT NULL AND period_start <= last_closed THEN
+    RAISE EXCEPTION 'Period already closed';
+  END IF;
+  IF last_closed IS NOT NULL AND period_start <> (last_closed + interval '1 month')::date THEN
+    RAISE EXCEPTION 'Periods must be closed in order';
+  END IF;
+
+  INSERT INTO public.depreciation_periods (period, closed_by, base_currency)
+  VALUES (period_start, auth.uid(), ledger_currency);
+
+  FOR asset IN
+    SELECT a.*, COALESCE(a.depreciation_method, c.depreciation_method, 'straight_line') AS method
+    FROM public.assets a
+    LEFT JOIN public.categories c ON c.id = a.category_id
+    WHERE a.deleted_at IS NULL
+      AND a.purchase_date < (period_start + interval '1 month')::date
+      AND NOT EXISTS (
+        SELECT 1 FROM public.asset_disposal d
+        WHERE d.asset_id = a.id AND d.disposal_date < period_start
+      )
+  LOOP
+    historical_rate := public.get_exchange_rate(asset.currency, ledger_currency, asset.purchase_date);
+    IF historical_rate IS NULL THEN
+      RAISE EXCEPTION 'Missing exchange rate for % on %', asset.currency, asset.purchase_date;
+    END IF;
+
+    SELECT accumulated_depreciation, closing_value, fiscal_accumulated_depreciation INTO previous
+    FROM public.asset_depreciation_entries
+    WHERE asset_id = asset.id
+    ORDER BY period DESC
+    LIMIT 1;
+
+    SELECT * INTO rate FROM public.get_asset_fiscal_rate(asset.id);
+
+    -- An asset entering the ledger late catches up its past depreciation in this period
+    opening := COALESCE(previous.closing_value, asset.purchase_value);
+    book_value := public.asset_book_value_through_period(asset.id, period_start);
+    value_before_events := public.asset_book_value_through_period(asset.id, period_start, period_start);
+    charge := opening - value_before_events;
+    fiscal_accumulated := public.fiscal_depreciation_through_period(
+      asset.purchase_value, rate.annual_rate, asset.purchase_date, period_start
+    );
+
+    INSERT INTO public.asset_depreciation_entries (
+      asset_id, period, method, opening_value, charge, valuation_adjustment, accumulated_depreciation, closing_value,
+      fiscal_rate, fiscal_charge, fiscal_accumulated_depreciation, currency, exchange_rate
+    )
+    VALUES (
+      asset.id,
+      period_start,
+      asset.method,
+      opening,
+      charge,
+      book_value - value_before_events,
+      COALESCE(previous.accumulated_depreciation, 0) + charge,
+      book_value,
+      rate.annual_rate,
+      fiscal_accumulated - COALESCE(previous.fiscal_accumulated_depreciation, 0),
+      fiscal_accumulated,
+      asset.currency,
+      historical_rate
+    );
+
+    entry_count := entry_count + 1;
+    total := total + round(charge * historical_rate, 2);
+    fiscal_total := fiscal_total + round((fiscal_accumulated - COALESCE(previous.fiscal_accumulated_depreciation, 0)) * historical_rate, 2);
+  END LOOP;
+
+  UPDATE public.depreciation_periods
+  SET asset_count = entry_count, total_charge = total, total_fiscal_charge = fiscal_total
+  WHERE period = period_start;
+
+  RETURN entry_count;
+END;
+$function$;
+
+-- Parts are charged to a job in the job's currency, at the rate of the completion date
+CREATE OR REPLACE FUNCTION public.complete_maintenance(p_maintenance_id uuid, p_labor_cost numeric, p_parts jsonb)
+ RETURNS numeric
+ LANGUAGE plpgsql
+ SECURITY DEFINER
+ SET search_path = public
+AS $function$
+DECLARE
+  maintenance RECORD;
+  previous RECORD;
+  item RECORD;
+  part RECORD;
+  part_rate NUMERIC;
+  job_unit_cost NUMERIC;
+  new_quantity INTEGER;
+  parts_total NUMERIC := 0;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT currency, COALESCE(completed_date, CURRENT_DATE) AS completed_on INTO maintenance
+  FROM public.asset_maintenance
+  WHERE id = p_maintenance_id
+  FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Maintenance not found';
+  END IF;
+
+  -- Return previously consumed parts to stock
+  FOR previous IN
+    SELECT part_id, SUM(quantity_used) AS quantity
+    FROM public.maintenance_parts
+    WHERE maintenance_id = p_maintenance_id
+    GROUP BY part_id
+  LOOP
+    UPDATE public.spare_parts
+    SET stock_quantity = stock_quantity + previous.quantity
+    WHERE id = previous.part_id
+    RETURNING stock_quantity INTO new_quantity;
+
+    INSERT INTO public.spare_part_movements (part_id, quantity_change, resulting_quantity, reason, created_by, maintenance_id)
+    VALUES (previous.part_id, previous.quantity, new_quantity, 'Estorno de consumo em manutenção', auth.uid(), p_maintenance_id);
+  END LOOP;
+
+  DELETE FROM public.maintenance_parts WHERE maintenance_id = p_maintenance_id;
+
+  -- Consume the new list of parts
+  FOR item IN
+    SELECT (value->>'part_id')::uuid AS part_id, SUM((value->>'quantity')::integer) AS quantity
+    FROM jsonb_array_elements(COALESCE(p_parts, '[]'::jsonb))
+    GROUP BY 1
+  LOOP
+    IF item.quantity IS NULL OR item.quantity <= 0 THEN
+      RAISE EXCEPTION 'Invalid quantity for part %', item.part_id;
+    END IF;
+
+    SELECT id, part_number, unit_cost, currency INTO part
+    FROM public.spare_parts
+    WHERE id = item.part_id
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Spare part % not found', item.part_id;
+    END IF;
+
+    part_rate := public.get_exchange_rate(part.currency, maintenance.currency, maintenance.completed_on);
+    IF part_rate IS NULL THEN
+      RAISE EXCEPTION 'Missing exchange rate for % on %', part.currency, maintenance.completed_on;
+    END IF;
+    job_unit_cost := round(part.unit_cost * part_rate, 2);
+
+    UPDATE public.spare_parts
+    SET stock_quantity = stock_quantity - item.quantity
+    WHERE id = item.part_id
+    RETURNING stock_quantity INTO new_quantity;
+
+    IF new_quantity < 0 THEN
+      RAISE EXCEPTION 'Insufficient stock for part %', part.part_number;
+    END IF;
+
+    INSERT INTO public.maintenance_parts (maintenance_id, part_id, quantity_used, cost_per_unit)
+    VALUES (p_maintenance_id, item.part_id, item.quantity, job_unit_cost);
+
+    INSERT INTO public.spare_part_movements (part_id, quantity_change, resulting_quantity, reason, created_by, maintenance_id)
+    VALUES (item.part_id, -item.quantity, new_quantity, 'Consumo em manutenção', auth.uid(), p_maintenance_id);
+
+    parts_total := parts_total + item.quantity * job_unit_cost;
+  END LOOP;
+
+  UPDATE public.asset_maintenance
+  SET labor_cost = COALESCE(p_labor_cost, 0),
+      cost = COALESCE(p_labor_cost, 0) + parts_total,
+      status = 'concluída',
+      completed_date = COALESCE(completed_date, CURRENT_DATE)
+  WHERE id = p_maintenance_id;
+
+  RETURN COALESCE(p_labor_cost, 0) + parts_total;
+END;
+$function$;
@@ -0,0 +1,111 @@
+-- Bulk asset import: each spreadsheet load is recorded as a batch and its
+-- assets are logged as 'imported' instead of 'created'
+
+CREATE TABLE public.asset_imports (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  file_name TEXT NOT NULL,
+  total_rows INTEGER NOT NULL DEFAULT 0,
+  imported_rows INTEGER NOT NULL DEFAULT 0,
+  created_by UUID REFERENCES auth.users(id),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.asset_imports ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view asset imports"
+ON public.asset_imports
+FOR SELECT
+USING (auth.uid() IS NOT NULL);
+
+ALTER TABLE public.assets
+  ADD COLUMN import_id UUID REFERENCES public.asset_imports(id) ON DELETE SET NULL;
+
+CREATE INDEX idx_assets_import_id ON public.assets(import_id);
+
+-- Open an import batch for the calling user
+CREATE OR REPLACE FUNCTION public.start_asset_import(p_file_name text, p_total_rows integer)
+ RETURNS uuid
+ LANGUAGE plpgsql
+ SECURITY DEFINER
+ SET search_path = public
+AS $function$
+DECLARE
+  new_import_id UUID;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  INSERT INTO public.asset_imports (file_name, total_rows, created_by)
+  VALUES (p_file_name, p_total_rows, auth.uid())
+  RETURNING id INTO new_import_id;
+
+  RETURN new_import_id;
+END;
+$function$;
+
+-- Insert one batch of validated rows. Each call is its own transaction, so a
+-- failing batch (e.g. a code taken since the preview) leaves earlier ones in place.
+CREATE OR REPLACE FUNCTION public.import_assets(p_import_id uuid, p_rows jsonb)
+ RETURNS integer
+ LANGUAGE plpgsql
+ SECURITY DEFINER
+ SET search_path = public
+AS $function$
+DECLARE
+  inserted_count INTEGER;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.asset_imports WHERE id = p_import_id AND created_by = auth.uid()
+  ) THEN
+    RAISE EXCEPTION 'Import not found';
+  END IF;
+
+  PERFORM set_config('app.audit_action', 'imported', true);
+
+  INSERT INTO public.assets (
+    name, code, serial_number, description, category_id, department_id, unit_id,
+    purchase_value, currency, purchase_date, residual_value, useful_life_years,
+    depreciation_method, total_units, units_used, ncm, work_shifts, status,
+    current_location, rfid_id, created_by, import_id
+  )
+  SELECT
+    row_data.name,
+    row_data.code,
+    row_data.serial_number,
+    row_data.description,
+    row_data.category_id,
+    row_data.department_id,
+    row_data.unit_id,
+    row_data.purchase_value,
+    COALESCE(row_data.currency, 'BRL'),
+    row_data.purchase_date,
+    COALESCE(row_data.residual_value, 0),
+    COALESCE(row_data.useful_life_years, 5),
+    row_data.depreciation_method,
+    row_data.total_units,
+    COALESCE(row_data.units_used, 0),
+    row_data.ncm,
+    COALESCE(row_data.work_shifts, 1),
+    COALESCE(row_data.status, 'active'),
+    row_data.current_location,
+    row_data.rfid_id,
+    auth.uid(),
+    p_import_id
+  FROM jsonb_populate_recordset(NULL::public.assets, p_rows) AS row_data;
+
+  GET DIAGNOSTICS inserted_count = ROW_COUNT;
+
+  UPDATE public.asset_imports
+  SET imported_rows = imported_rows + inserted_count
+  WHERE id = p_import_id;
+
+  PERFORM set_config('app.audit_action', '', true);
+
+  RETURN inserted_count;
+END;
+$function$;
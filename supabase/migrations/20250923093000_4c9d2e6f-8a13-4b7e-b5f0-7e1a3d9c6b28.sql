@@ -0,0 +1,110 @@
+-- Spreadsheet imports can also update existing assets, e.g. a CSV export
+-- edited offline and loaded back
+
+ALTER TABLE public.asset_imports
+  ADD COLUMN mode TEXT NOT NULL DEFAULT 'create' CHECK (mode IN ('create', 'update'));
+
+DROP FUNCTION IF EXISTS public.start_asset_import(text, integer);
+
+CREATE OR REPLACE FUNCTION public.start_asset_import(p_file_name text, p_total_rows integer, p_mode text DEFAULT 'create')
+ RETURNS uuid
+ LANGUAGE plpgsql
+ SECURITY DEFINER
+ SET search_path = public
+AS $function$
+DECLARE
+  new_import_id UUID;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  INSERT INTO public.asset_imports (file_name, total_rows, mode, created_by)
+  VALUES (p_file_name, p_total_rows, p_mode, auth.uid())
+  RETURNING id INTO new_import_id;
+
+  RETURN new_import_id;
+END;
+$function$;
+
+-- Apply one batch of changes. Each row holds the asset id plus only the
+-- columns to change; the rest of the asset is left as stored.
+CREATE OR REPLACE FUNCTION public.import_asset_updates(p_import_id uuid, p_rows jsonb)
+ RETURNS integer
+ LANGUAGE plpgsql
+ SECURITY DEFINER
+ SET search_path = public
+AS $function$
+DECLARE
+  change JSONB;
+  asset public.assets;
+  target public.assets;
+  updated_count INTEGER := 0;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.asset_imports
+    WHERE id = p_import_id AND created_by = auth.uid() AND mode = 'update'
+  ) THEN
+    RAISE EXCEPTION 'Import not found';
+  END IF;
+
+  PERFORM set_config('app.audit_action', 'import_updated', true);
+
+  FOR change IN SELECT * FROM jsonb_array_elements(p_rows) LOOP
+    -- Same visibility as the assets update policy: the user's company or no department
+    SELECT * INTO asset FROM public.assets
+    WHERE id = (change->>'id')::uuid
+      AND (department_id IS NULL OR department_id IN (
+        SELECT id FROM public.departments
+        WHERE company_id = (SELECT company_id FROM public.profiles WHERE user_id = auth.uid())
+      ))
+    FOR UPDATE;
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Asset not found';
+    END IF;
+
+    IF asset.status = 'disposed' OR asset.deleted_at IS NOT NULL THEN
+      RAISE EXCEPTION 'Disposed or archived assets cannot be updated by import';
+    END IF;
+
+    target := jsonb_populate_record(asset, change - 'id');
+
+    UPDATE public.assets
+    SET name = target.name,
+        code = target.code,
+        serial_number = target.serial_number,
+        description = target.description,
+        category_id = target.category_id,
+        department_id = target.department_id,
+        unit_id = target.unit_id,
+        purchase_value = target.purchase_value,
+        currency = target.currency,
+        purchase_date = target.purchase_date,
+        residual_value = target.residual_value,
+        useful_life_years = target.useful_life_years,
+        depreciation_method = target.depreciation_method,
+        total_units = target.total_units,
+        units_used = target.units_used,
+        ncm = target.ncm,
+        work_shifts = target.work_shifts,
+        status = target.status,
+        current_location = target.current_location,
+        rfid_id = target.rfid_id
+    WHERE id = asset.id;
+
+    updated_count := updated_count + 1;
+  END LOOP;
+
+  UPDATE public.asset_imports
+  SET imported_rows = imported_rows + updated_count
+  WHERE id = p_import_id;
+
+  PERFORM set_config('app.audit_action', '', true);
+
+  RETURN updated_count;
+END;
+$function$;
@@ -0,0 +1,72 @@
+-- Bulk edit from the asset list: the same changes applied to many assets,
+-- each one logged as its own 'bulk_updated' audit entry
+
+CREATE OR REPLACE FUNCTION public.bulk_update_assets(p_asset_ids uuid[], p_changes jsonb)
+ RETURNS integer
+ LANGUAGE plpgsql
+ SECURITY DEFINER
+ SET search_path = public
+AS $function$
+DECLARE
+  asset public.assets;
+  target public.assets;
+  updated_count INTEGER := 0;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM jsonb_object_keys(p_changes) AS field
+    WHERE field NOT IN ('status', 'category_id', 'department_id', 'unit_id', 'assigned_to', 'current_location')
+  ) THEN
+    RAISE EXCEPTION 'Unsupported bulk field';
+  END IF;
+
+  -- Disposal has its own records and wizard
+  IF p_changes ? 'status' AND p_changes->>'status' NOT IN ('active', 'maintenance', 'inactive') THEN
+    RAISE EXCEPTION 'Invalid status';
+  END IF;
+
+  PERFORM set_config('app.audit_action', 'bulk_updated', true);
+
+  -- Same visibility as the assets update policy: the user's company or no department
+  FOR asset IN
+    SELECT * FROM public.assets
+    WHERE id = ANY(p_asset_ids)
+      AND (department_id IS NULL OR department_id IN (
+        SELECT id FROM public.departments
+        WHERE company_id = (SELECT company_id FROM public.profiles WHERE user_id = auth.uid())
+      ))
+    ORDER BY code
+    FOR UPDATE
+  LOOP
+    -- Disposed and archived assets are left out of bulk changes
+    CONTINUE WHEN asset.status = 'disposed' OR asset.deleted_at IS NOT NULL;
+
+    target := jsonb_populate_record(asset, p_changes);
+    CONTINUE WHEN to_jsonb(target) = to_jsonb(asset);
+
+    IF target.unit_id IS NOT NULL AND NOT EXISTS (
+      SELECT 1 FROM public.units WHERE id = target.unit_id AND department_id = target.department_id
+    ) THEN
+      RAISE EXCEPTION 'Unit does not belong to the department';
+    END IF;
+
+    UPDATE public.assets
+    SET status = target.status,
+        category_id = target.category_id,
+        department_id = target.department_id,
+        unit_id = target.unit_id,
+        assigned_to = target.assigned_to,
+        current_location = target.current_location
+    WHERE id = asset.id;
+
+    updated_count := updated_count + 1;
+  END LOOP;
+
+  PERFORM set_config('app.audit_action', '', true);
+
+  RETURN updated_count;
+END;
+$function$;
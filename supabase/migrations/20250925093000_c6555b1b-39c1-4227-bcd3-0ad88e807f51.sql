@@ -0,0 +1,94 @@
+-- Full-text search over assets, maintenance and documents. Portuguese
+-- stemming with accents removed, so "manutencao" finds "manutenção".
+
+CREATE EXTENSION IF NOT EXISTS unaccent WITH SCHEMA extensions;
+
+CREATE TEXT SEARCH CONFIGURATION public.portuguese_unaccent (COPY = pg_catalog.portuguese);
+
+ALTER TEXT SEARCH CONFIGURATION public.portuguese_unaccent
+  ALTER MAPPING FOR hword, hword_part, word
+  WITH extensions.unaccent, portuguese_stem;
+
+ALTER TABLE public.assets
+  ADD COLUMN search_vector tsvector GENERATED ALWAYS AS (
+    setweight(to_tsvector('public.portuguese_unaccent', coalesce(name, '')), 'A') ||
+    setweight(to_tsvector('public.portuguese_unaccent', coalesce(code, '')), 'A') ||
+    setweight(to_tsvector('public.portuguese_unaccent', coalesce(serial_number, '')), 'B') ||
+    setweight(to_tsvector('public.portuguese_unaccent', coalesce(rfid_id, '')), 'B') ||
+    setweight(to_tsvector('public.portuguese_unaccent', coalesce(description, '')), 'C')
+  ) STORED;
+
+CREATE INDEX idx_assets_search_vector ON public.assets USING GIN (search_vector);
+
+ALTER TABLE public.asset_maintenance
+  ADD COLUMN search_vector tsvector GENERATED ALWAYS AS (
+    setweight(to_tsvector('public.portuguese_unaccent', coalesce(description, '')), 'A') ||
+    setweight(to_tsvector('public.portuguese_unaccent', coalesce(maintenance_type, '')), 'B')
+  ) STORED;
+
+CREATE INDEX idx_asset_maintenance_search_vector ON public.asset_maintenance USING GIN (search_vector);
+
+ALTER TABLE public.documents
+  ADD COLUMN search_vector tsvector GENERATED ALWAYS AS (
+    to_tsvector('public.portuguese_unaccent', coalesce(name, ''))
+  ) STORED;
+
+CREATE INDEX idx_documents_search_vector ON public.documents USING GIN (search_vector);
+
+-- Every word of the input as a prefix, so results show up while typing
+CREATE OR REPLACE FUNCTION public.prefix_tsquery(p_query text)
+ RETURNS tsquery
+ LANGUAGE sql
+ IMMUTABLE
+ SET search_path = public
+AS $function$
+  SELECT to_tsquery('public.portuguese_unaccent', string_agg(term || ':*', ' & '))
+  FROM regexp_split_to_table(lower(p_query), '[^[:alnum:]]+') AS term
+  WHERE term <> '';
+$function$;
+
+-- Command palette search. Runs as the caller, so each table's RLS decides
+-- what is found. Documents are reached through their asset.
+CREATE OR REPLACE FUNCTION public.global_search(p_query text, p_limit integer DEFAULT 8)
+ RETURNS TABLE(result_type text, record_id uuid, asset_id uuid, title text, subtitle text, rank real)
+ LANGUAGE plpgsql
+ STABLE
+ SET search_path = public
+AS $function$
+DECLARE
+  search_query tsquery := public.prefix_tsquery(p_query);
+BEGIN
+  IF search_query IS NULL OR numnode(search_query) = 0 THEN
+    RETURN;
+  END IF;
+
+  RETURN QUERY
+  (
+    SELECT 'asset'::text, a.id, a.id, a.name, a.code, ts_rank(a.search_vector, search_query)
+    FROM public.assets a
+    WHERE a.search_vector @@ search_query AND a.deleted_at IS NULL
+    ORDER BY 6 DESC
+    LIMIT p_limit
+  )
+  UNION ALL
+  (
+    SELECT 'maintenance'::text, m.id, m.asset_id, m.description, a.code || ' - ' || a.name,
+      ts_rank(m.search_vector, search_query)
+    FROM public.asset_maintenance m
+    JOIN public.assets a ON a.id = m.asset_id
+    WHERE m.search_vector @@ search_query
+    ORDER BY 6 DESC
+    LIMIT p_limit
+  )
+  UNION ALL
+  (
+    SELECT 'document'::text, d.id, d.asset_id, d.name, a.code || ' - ' || a.name,
+      ts_rank(d.search_vector, search_query)
+    FROM public.documents d
+    JOIN public.assets a ON a.id = d.asset_id
+    WHERE d.search_vector @@ search_query
+    ORDER BY 6 DESC
+    LIMIT p_limit
+  );
+END;
+$function$;
@@ -0,0 +1,311 @@
+-- Role-based access control. Admins manage the organization (company,
+-- departments, units, categories, user assignments), managers edit the
+-- assets of their own department and users view assets and log maintenance.
+
+-- Role and company of the signed-in user. SECURITY DEFINER so policies on
+-- profiles can use them without querying profiles through its own policies.
+CREATE OR REPLACE FUNCTION public.current_user_role()
+ RETURNS text
+ LANGUAGE sql
+ STABLE
+ SECURITY DEFINER
+ SET search_path = public
+AS $function$
+  SELECT role FROM public.profiles WHERE user_id = auth.uid();
+$function$;
+
+CREATE OR REPLACE FUNCTION public.current_user_company_id()
+ RETURNS uuid
+ LANGUAGE sql
+ STABLE
+ SECURITY DEFINER
+ SET search_path = public
+AS $function$
+  SELECT company_id FROM public.profiles WHERE user_id = auth.uid();
+$function$;
+
+-- Admins manage every asset; managers only those of their own department
+CREATE OR REPLACE FUNCTION public.can_manage_asset(p_department_id uuid)
+ RETURNS boolean
+ LANGUAGE sql
+ STABLE
+ SECURITY DEFINER
+ SET search_path = public
+AS $function$
+  SELECT EXISTS (
+    SELECT 1 FROM public.profiles
+    WHERE user_id = auth.uid()
+      AND (
+        role = 'admin'
+        OR (role = 'manager' AND department_id IS NOT NULL AND department_id = p_department_id)
+      )
+  );
+$function$;
+
+-- The asset functions (dispose, archive, import, bulk edit, revert...) run
+-- as SECURITY DEFINER and bypass the policies below, so the same rule is
+-- checked on the rows themselves. Without a signed-in user (migrations,
+-- service role) nothing is checked.
+CREATE OR REPLACE FUNCTION public.enforce_asset_permissions()
+ RETURNS trigger
+ LANGUAGE plpgsql
+ SECURITY DEFINER
+ SET search_path = public
+AS $function$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RETURN COALESCE(NEW, OLD);
+  END IF;
+
+  IF TG_OP = 'DELETE' THEN
+    IF public.current_user_role() IS DISTINCT FROM 'admin' THEN
+      RAISE EXCEPTION 'Permission denied';
+    END IF;
+    RETURN OLD;
+  END IF;
+
+  -- A manager can neither take assets out of nor move them into another department
+  IF NOT public.can_manage_asset(NEW.department_id)
+     OR (TG_OP = 'UPDATE' AND NOT public.can_manage_asset(OLD.department_id)) THEN
+    RAISE EXCEPTION 'Permission denied';
+  END IF;
+
+  RETURN NEW;
+END;
+$function$;
+
+CREATE TRIGGER enforce_asset_permissions
+BEFORE INSERT OR UPDATE OR DELETE ON public.assets
+FOR EACH ROW
+EXECUTE FUNCTION public.enforce_asset_permissions();
+
+-- Users may edit their own name and avatar, but only an admin assigns
+-- roles, companies, departments and units
+CREATE OR REPLACE FUNCTION public.enforce_profile_permissions()
+ RETURNS trigger
+ LANGUAGE plpgsql
+ SECURITY DEFINER
+ SET search_path = public
+AS $function$
+BEGIN
+  IF auth.uid() IS NULL OR public.current_user_role() = 'admin' THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    IF COALESCE(NEW.role, 'user') <> 'user'
+       OR NEW.company_id IS NOT NULL
+       OR NEW.department_id IS NOT NULL
+       OR NEW.unit_id IS NOT NULL THEN
+      RAISE EXCEPTION 'Permission denied';
+    END IF;
+  ELSIF NEW.role IS DISTINCT FROM OLD.role
+     OR NEW.company_id IS DISTINCT FROM OLD.company_id
+     OR NEW.department_id IS DISTINCT FROM OLD.department_id
+     OR NEW.unit_id IS DISTINCT FROM OLD.unit_id THEN
+    RAISE EXCEPTION 'Permission denied';
+  END IF;
+
+  RETURN NEW;
+END;
+$function$;
+
+CREATE TRIGGER enforce_profile_permissions
+BEFORE INSERT OR UPDATE ON public.profiles
+FOR EACH ROW
+EXECUTE FUNCTION public.enforce_profile_permissions();
+
+CREATE POLICY "Admins can update profiles in their company"
+ON public.profiles
+FOR UPDATE
+USING (public.current_user_role() = 'admin' AND company_id = public.current_user_company_id())
+WITH CHECK (public.current_user_role() = 'admin' AND company_id = public.current_user_company_id());
+
+-- Assets
+DROP POLICY IF EXISTS "Authenticated users can create assets" ON public.assets;
+DROP POLICY IF EXISTS "Users can update assets from their company" ON public.assets;
+
+CREATE POLICY "Admins and managers can create assets"
+ON public.assets
+FOR INSERT
+TO authenticated
+WITH CHECK (
+  auth.uid() = created_by
+  AND public.can_manage_asset(department_id)
+  AND (
+    department_id IS NULL
+    OR department_id IN (SELECT id FROM public.departments WHERE company_id = public.current_user_company_id())
+  )
+);
+
+CREATE POLICY "Admins and managers can update assets"
+ON public.assets
+FOR UPDATE
+USING (
+  public.can_manage_asset(department_id)
+  AND (
+    department_id IS NULL
+    OR department_id IN (SELECT id FROM public.departments WHERE company_id = public.current_user_company_id())
+  )
+)
+WITH CHECK (
+  public.can_manage_asset(department_id)
+  AND (
+    department_id IS NULL
+    OR department_id IN (SELECT id FROM public.departments WHERE company_id = public.current_user_company_id())
+  )
+);
+
+-- Categories
+DROP POLICY IF EXISTS "Authenticated users can manage categories" ON public.categories;
+
+CREATE POLICY "Admins can manage categories"
+ON public.categories
+FOR ALL
+USING (public.current_user_role() = 'admin')
+WITH CHECK (public.current_user_role() = 'admin');
+
+-- Company, departments and units
+DROP POLICY IF EXISTS "Users can update their own company" ON public.companies;
+
+CREATE POLICY "Admins can update their own company"
+ON public.companies
+FOR UPDATE
+USING (public.current_user_role() = 'admin' AND id = public.current_user_company_id());
+
+DROP POLICY IF EXISTS "Users can insert departments in their company" ON public.departments;
+DROP POLICY IF EXISTS "Users can update departments in their company" ON public.departments;
+DROP POLICY IF EXISTS "Users can delete departments in their company" ON public.departments;
+
+CREATE POLICY "Admins can insert departments in their company"
+ON public.departments
+FOR INSERT
+WITH CHECK (public.current_user_role() = 'admin' AND company_id = public.current_user_company_id());
+
+CREATE POLICY "Admins can update departments in their company"
+ON public.departments
+FOR UPDATE
+USING (public.current_user_role() = 'admin' AND company_id = public.current_user_company_id());
+
+CREATE POLICY "Admins can delete departments in their company"
+ON public.departments
+FOR DELETE
+USING (public.current_user_role() = 'admin' AND company_id = public.current_user_company_id());
+
+DROP POLICY IF EXISTS "Users can insert units in their company" ON public.units;
+DROP POLICY IF EXISTS "Users can update units in their company" ON public.units;
+DROP POLICY IF EXISTS "Users can delete units in their company" ON public.units;
+
+CREATE POLICY "Admins can insert units in their company"
+ON public.units
+FOR INSERT
+WITH CHECK (public.current_user_role() = 'admin' AND department_id IN (
+  SELECT id FROM public.departments WHERE company_id = public.current_user_company_id()
+));
+
+CREATE POLICY "Admins can update units in their company"
+ON public.units
+FOR UPDATE
+USING (public.current_user_role() = 'admin' AND department_id IN (
+  SELECT id FROM public.departments WHERE company_id = public.current_user_company_id()
+));
+
+CREATE POLICY "Admins can delete units in their company"
+ON public.units
+FOR DELETE
+USING (public.current_user_role() = 'admin' AND department_id IN (
+  SELECT id FROM public.departments WHERE company_id = public.current_user_company_id()
+));
+
+-- Maintenance: everyone logs it, the performer keeps editing their own
+-- records and only admins and managers edit or delete anyone's
+DROP POLICY IF EXISTS "Authenticated users can update maintenance records" ON public.asset_maintenance;
+
+CREATE POLICY "Performers, admins and managers can update maintenance records"
+ON public.asset_maintenance
+FOR UPDATE
+USING (auth.uid() = performed_by OR public.current_user_role() IN ('admin', 'manager'));
+
+CREATE POLICY "Admins and managers can delete maintenance records"
+ON public.asset_maintenance
+FOR DELETE
+USING (public.current_user_role() IN ('admin', 'manager'));
+
+-- Spare parts catalog and the parts fitted to each asset
+DROP POLICY IF EXISTS "Authenticated users can manage spare parts" ON public.spare_parts;
+
+CREATE POLICY "Admins and managers can manage spare parts"
+ON public.spare_parts
+FOR ALL
+USING (public.current_user_role() IN ('admin', 'manager'))
+WITH CHECK (public.current_user_role() IN ('admin', 'manager'));
+
+DROP POLICY IF EXISTS "Authenticated users can view asset parts" ON public.asset_parts;
+
+CREATE POLICY "Authenticated users can view asset parts"
+ON public.asset_parts
+FOR SELECT
+USING (auth.uid() IS NOT NULL);
+
+CREATE POLICY "Admins and managers can manage asset parts"
+ON public.asset_parts
+FOR ALL
+USING (public.current_user_role() IN ('admin', 'manager'))
+WITH CHECK (public.current_user_role() IN ('admin', 'manager'));
+
+-- Disposal records are written by dispose_asset, which is checked by the
+-- asset trigger; direct inserts are limited the same way
+DROP POLICY IF EXISTS "Authenticated users can create disposal records" ON public.asset_disposal;
+
+CREATE POLICY "Admins and managers can create disposal records"
+ON public.asset_disposal
+FOR INSERT
+WITH CHECK (public.current_user_role() IN ('admin', 'manager'));
+
+-- Manual stock adjustments are catalog management; parts used in a
+-- maintenance are still consumed by complete_maintenance for everyone
+CREATE OR REPLACE FUNCTION public.adjust_spare_part_stock(p_part_id uuid, p_quantity_change integer, p_reason text)
+ RETURNS integer
+ LANGUAGE plpgsql
+ SECURITY DEFINER
+ SET search_path = public
+AS $function$
+DECLARE
+  new_quantity INTEGER;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF public.current_user_role() NOT IN ('admin', 'manager') THEN
+    RAISE EXCEPTION 'Permission denied';
+  END IF;
+
+  IF p_quantity_change IS NULL OR p_quantity_change = 0 THEN
+    RAISE EXCEPTION 'Quantity change must be different from zero';
+  END IF;
+
+  IF p_reason IS NULL OR length(trim(p_reason)) = 0 THEN
+    RAISE EXCEPTION 'A reason is required for stock adjustments';
+  END IF;
+
+  -- Row lock prevents concurrent adjustments from reading a stale quantity
+  UPDATE public.spare_parts
+  SET stock_quantity = stock_quantity + p_quantity_change
+  WHERE id = p_part_id
+  RETURNING stock_quantity INTO new_quantity;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Spare part not found';
+  END IF;
+
+  IF new_quantity < 0 THEN
+    RAISE EXCEPTION 'Insufficient stock for this adjustment';
+  END IF;
+
+  INSERT INTO public.spare_part_movements (part_id, quantity_change, resulting_quantity, reason, created_by)
+  VALUES (p_part_id, p_quantity_change, new_quantity, trim(p_reason), auth.uid());
+
+  RETURN new_quantity;
+END;
+$function$;
@@ -0,0 +1,1214 @@
+-- Multi-tenant isolation by company. Assets, maintenance, categories, spare
+-- parts and the depreciation ledger belong to a company, and every policy
+-- limits them to the user's active company (profiles.company_id). Users can
+-- belong to several companies through company_members and switch between
+-- them with switch_company.
+
+-- Memberships: the role, department and unit a user has in each company.
+-- The profile holds a copy of the active one, which the policies read.
+CREATE TABLE public.company_members (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  company_id UUID NOT NULL REFERENCES public.companies(id) ON DELETE CASCADE,
+  role TEXT NOT NULL DEFAULT 'user' CHECK (role IN ('admin', 'manager', 'user')),
+  department_id UUID REFERENCES public.departments(id) ON DELETE SET NULL,
+  unit_id UUID REFERENCES public.units(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (user_id, company_id)
+);
+
+CREATE INDEX idx_company_members_company_id ON public.company_members(company_id);
+
+INSERT INTO public.company_members (user_id, company_id, role, department_id, unit_id)
+SELECT user_id, company_id, COALESCE(role, 'user'), department_id, unit_id
+FROM public.profiles
+WHERE company_id IS NOT NULL;
+
+ALTER TABLE public.company_members ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their memberships and their company's members"
+ON public.company_members
+FOR SELECT
+USING (user_id = auth.uid() OR company_id = public.current_user_company_id());
+
+CREATE POLICY "Admins can manage members of their company"
+ON public.company_members
+FOR ALL
+USING (public.current_user_role() = 'admin' AND company_id = public.current_user_company_id())
+WITH CHECK (public.current_user_role() = 'admin' AND company_id = public.current_user_company_id());
+
+-- Changes an admin makes to the active profile are kept in the membership
+CREATE OR REPLACE FUNCTION public.sync_company_membership()
+ RETURNS trigger
+ LANGUAGE plpgsql
+ SECURITY DEFINER
+ SET search_path = public
+AS $function$
+BEGIN
+  IF NEW.company_id IS NOT NULL THEN
+    INSERT INTO public.company_members (user_id, company_id, role, department_id, unit_id)
+    VALUES (NEW.user_id, NEW.company_id, COALESCE(NEW.role, 'user'), NEW.department_id, NEW.unit_id)
+    ON CONFLICT (user_id, company_id) DO UPDATE
+    SET role = EXCLUDED.role, department_id = EXCLUDED.department_id, unit_id = EXCLUDED.unit_id;
+  END IF;
+
+  RETURN NEW;
+END;
+$function$;
+
+CREATE TRIGGER sync_company_membership
+AFTER INSERT OR UPDATE OF company_id, role, department_id, unit_id ON public.profiles
+FOR EACH ROW
+EXECUTE FUNCTION public.sync_company_membership();
+
+-- Make another company the active one, with the role held there
+CREATE OR REPLACE FUNCTION public.switch_company(p_company_id uuid)
+ RETURNS void
+ LANGUAGE plpgsql
+ SECURITY DEFINER
+ SET search_path = public
+AS $function$
+DECLARE
+  membership public.company_members;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT * INTO membership FROM public.company_members
+  WHERE user_id = auth.uid() AND company_id = p_company_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Not a member of this company';
+  END IF;
+
+  PERFORM set_config('app.company_switch', 'on', true);
+
+  UPDATE public.profiles
+  SET company_id = membership.company_id,
+      role = membership.role,
+      department_id = membership.department_id,
+      unit_id = membership.unit_id
+  WHERE user_id = auth.uid();
+
+  PERFORM set_config('app.company_switch', '', true);
+END;
+$function$;
+
+-- Data from before companies were required goes to the oldest company;
+-- an installation with data but no company gets one to hold it
+INSERT INTO public.companies (name)
+SELECT 'Empresa principal'
+WHERE NOT EXISTS (SELECT 1 FROM public.companies)
+  AND (EXISTS (SELECT 1 FROM public.assets) OR EXISTS (SELECT 1 FROM public.spare_parts)
+    OR EXISTS (SELECT 1 FROM public.categories));
+
+-- Backfills below must not be audited, timestamped or permission-checked
+ALTER TABLE public.assets DISABLE TRIGGER USER;
+ALTER TABLE public.asset_maintenance DISABLE TRIGGER USER;
+
+-- Departments created before companies existed
+UPDATE public.departments
+SET company_id = (SELECT c.id FROM public.companies c ORDER BY c.created_at LIMIT 1)
+WHERE company_id IS NULL;
+
+-- Assets: the company of their department, else of whoever registered them
+ALTER TABLE public.assets ADD COLUMN company_id UUID REFERENCES public.companies(id) ON DELETE CASCADE;
+
+UPDATE public.assets a
+SET company_id = COALESCE(
+  (SELECT d.company_id FROM public.departments d WHERE d.id = a.department_id),
+  (SELECT p.company_id FROM public.profiles p WHERE p.user_id = a.created_by),
+  (SELECT c.id FROM public.companies c ORDER BY c.created_at LIMIT 1)
+);
+
+-- Categories: every company gets its own copy of the current catalogue,
+-- and assets are pointed at the copy of their company
+ALTER TABLE public.categories ADD COLUMN company_id UUID REFERENCES public.companies(id) ON DELETE CASCADE;
+ALTER TABLE public.categories DROP CONSTRAINT categories_name_key;
+
+UPDATE public.categories
+SET company_id = (SELECT c.id FROM public.companies c ORDER BY c.created_at LIMIT 1);
+
+INSERT INTO public.categories
+SELECT (jsonb_populate_record(cat, jsonb_build_object('id', gen_random_uuid(), 'company_id', co.id))).*
+FROM public.categories cat
+CROSS JOIN public.companies co
+WHERE co.id <> cat.company_id;
+
+UPDATE public.assets a
+SET category_id = copy.id
+FROM public.categories original, public.categories copy
+WHERE a.category_id = original.id
+  AND original.company_id <> a.company_id
+  AND copy.company_id = a.company_id
+  AND copy.name = original.name;
+
+-- Maintenance follows its asset
+ALTER TABLE public.asset_maintenance ADD COLUMN company_id UUID REFERENCES public.companies(id) ON DELETE CASCADE;
+
+UPDATE public.asset_maintenance m
+SET company_id = a.company_id
+FROM public.assets a
+WHERE a.id = m.asset_id;
+
+-- Spare parts: the company of the assets that use them
+ALTER TABLE public.spare_parts ADD COLUMN company_id UUID REFERENCES public.companies(id) ON DELETE CASCADE;
+
+UPDATE public.spare_parts sp
+SET company_id = COALESCE(
+  (SELECT a.company_id FROM public.asset_parts ap JOIN public.assets a ON a.id = ap.asset_id
+   WHERE ap.part_id = sp.id GROUP BY a.company_id ORDER BY count(*) DESC LIMIT 1),
+  (SELECT c.id FROM public.companies c ORDER BY c.created_at LIMIT 1)
+);
+
+ALTER TABLE public.assets ENABLE TRIGGER USER;
+ALTER TABLE public.asset_maintenance ENABLE TRIGGER USER;
+
+ALTER TABLE public.assets
+  ALTER COLUMN company_id SET NOT NULL,
+  ALTER COLUMN company_id SET DEFAULT public.current_user_company_id();
+ALTER TABLE public.categories
+  ALTER COLUMN company_id SET NOT NULL,
+  ALTER COLUMN company_id SET DEFAULT public.current_user_company_id();
+ALTER TABLE public.asset_maintenance
+  ALTER COLUMN company_id SET NOT NULL,
+  ALTER COLUMN company_id SET DEFAULT public.current_user_company_id();
+ALTER TABLE public.spare_parts
+  ALTER COLUMN company_id SET NOT NULL,
+  ALTER COLUMN company_id SET DEFAULT public.current_user_company_id();
+
+-- Codes and names only need to be unique within a company
+ALTER TABLE public.assets DROP CONSTRAINT assets_code_key;
+ALTER TABLE public.assets ADD CONSTRAINT assets_company_code_key UNIQUE (company_id, code);
+ALTER TABLE public.categories ADD CONSTRAINT categories_company_name_key UNIQUE (company_id, name);
+ALTER TABLE public.spare_parts DROP CONSTRAINT spare_parts_part_number_key;
+ALTER TABLE public.spare_parts ADD CONSTRAINT spare_parts_company_part_number_key UNIQUE (company_id, part_number);
+
+CREATE INDEX idx_assets_company_id ON public.assets(company_id);
+CREATE INDEX idx_asset_maintenance_company_id ON public.asset_maintenance(company_id);
+
+-- Depreciation ledger: each company closes its own months. Periods closed
+-- so far were closed for everyone, so each company gets a copy of them
+-- with the totals of its own entries.
+ALTER TABLE public.asset_depreciation_entries DROP CONSTRAINT asset_depreciation_entries_period_fkey;
+ALTER TABLE public.depreciation_periods DROP CONSTRAINT depreciation_periods_period_key;
+
+ALTER TABLE public.depreciation_periods ADD COLUMN company_id UUID REFERENCES public.companies(id) ON DELETE CASCADE;
+ALTER TABLE public.asset_depreciation_entries ADD COLUMN company_id UUID REFERENCES public.companies(id) ON DELETE CASCADE;
+
+UPDATE public.asset_depreciation_entries e
+SET company_id = a.company_id
+FROM public.assets a
+WHERE a.id = e.asset_id;
+
+INSERT INTO public.depreciation_periods (
+  period, company_id, asset_count, total_charge, total_fiscal_charge, base_currency, closed_by, closed_at
+)
+SELECT p.period, co.id,
+  count(e.id),
+  COALESCE(sum(round(e.charge * e.exchange_rate, 2)), 0),
+  COALESCE(sum(round(e.fiscal_charge * e.exchange_rate, 2)), 0),
+  p.base_currency, p.closed_by, p.closed_at
+FROM public.depreciation_periods p
+CROSS JOIN public.companies co
+LEFT JOIN public.asset_depreciation_entries e ON e.period = p.period AND e.company_id = co.id
+WHERE p.company_id IS NULL
+GROUP BY p.id, co.id;
+
+DELETE FROM public.depreciation_periods WHERE company_id IS NULL;
+
+ALTER TABLE public.depreciation_periods
+  ALTER COLUMN company_id SET NOT NULL,
+  ADD CONSTRAINT depreciation_periods_company_period_key UNIQUE (company_id, period);
+ALTER TABLE public.asset_depreciation_entries
+  ALTER COLUMN company_id SET NOT NULL,
+  ADD CONSTRAINT asset_depreciation_entries_company_period_fkey
+    FOREIGN KEY (company_id, period) REFERENCES public.depreciation_periods(company_id, period) ON DELETE CASCADE;
+
+-- Consistency within a company for every writer, then the role rules for
+-- signed-in users, now limited to the active company
+CREATE OR REPLACE FUNCTION public.enforce_asset_permissions()
+ RETURNS trigger
+ LANGUAGE plpgsql
+ SECURITY DEFINER
+ SET search_path = public
+AS $function$
+BEGIN
+  IF TG_OP <> 'DELETE' THEN
+    IF NEW.department_id IS NOT NULL AND NOT EXISTS (
+      SELECT 1 FROM public.departments WHERE id = NEW.department_id AND company_id = NEW.company_id
+    ) THEN
+      RAISE EXCEPTION 'Department belongs to another company';
+    END IF;
+
+    IF NEW.category_id IS NOT NULL AND NOT EXISTS (
+      SELECT 1 FROM public.categories WHERE id = NEW.category_id AND company_id = NEW.company_id
+    ) THEN
+      RAISE EXCEPTION 'Category belongs to another company';
+    END IF;
+  END IF;
+
+  IF auth.uid() IS NULL THEN
+    RETURN COALESCE(NEW, OLD);
+  END IF;
+
+  -- Assets never move between companies and only the active company's can be written
+  IF (TG_OP <> 'INSERT' AND OLD.company_id IS DISTINCT FROM public.current_user_company_id())
+     OR (TG_OP <> 'DELETE' AND NEW.company_id IS DISTINCT FROM public.current_user_company_id()) THEN
+    RAISE EXCEPTION 'Permission denied';
+  END IF;
+
+  IF TG_OP = 'DELETE' THEN
+    IF public.current_user_role() IS DISTINCT FROM 'admin' THEN
+      RAISE EXCEPTION 'Permission denied';
+    END IF;
+    RETURN OLD;
+  END IF;
+
+  -- A manager can neither take assets out of nor move them into another department
+  IF NOT public.can_manage_asset(NEW.department_id)
+     OR (TG_OP = 'UPDATE' AND NOT public.can_manage_asset(OLD.department_id)) THEN
+    RAISE EXCEPTION 'Permission denied';
+  END IF;
+
+  RETURN NEW;
+END;
+$function$;
+
+-- switch_company copies the membership into the profile
+CREATE OR REPLACE FUNCTION public.enforce_profile_permissions()
+ RETURNS trigger
+ LANGUAGE plpgsql
+ SECURITY DEFINER
+ SET search_path = public
+AS $function$
+BEGIN
+  IF auth.uid() IS NULL
+     OR public.current_user_role() = 'admin'
+     OR current_setting('app.company_switch', true) = 'on' THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    IF COALESCE(NEW.role, 'user') <> 'user'
+       OR NEW.company_id IS NOT NULL
+       OR NEW.department_id IS NOT NULL
+       OR NEW.unit_id IS NOT NULL THEN
+      RAISE EXCEPTION 'Permission denied';
+    END IF;
+  ELSIF NEW.role IS DISTINCT FROM OLD.role
+     OR NEW.company_id IS DISTINCT FROM OLD.company_id
+     OR NEW.department_id IS DISTINCT FROM OLD.department_id
+     OR NEW.unit_id IS DISTINCT FROM OLD.unit_id THEN
+    RAISE EXCEPTION 'Permission denied';
+  END IF;
+
+  RETURN NEW;
+END;
+$function$;
+
+-- Rows that hang off an asset can only be written for the active company's
+-- assets, also through the SECURITY DEFINER functions
+CREATE OR REPLACE FUNCTION public.enforce_asset_company()
+ RETURNS trigger
+ LANGUAGE plpgsql
+ SECURITY DEFINER
+ SET search_path = public
+AS $function$
+BEGIN
+  IF auth.uid() IS NOT NULL AND NEW.asset_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM public.assets WHERE id = NEW.asset_id AND company_id = public.current_user_company_id()
+  ) THEN
+    RAISE EXCEPTION 'Permission denied';
+  END IF;
+
+  RETURN NEW;
+END;
+$function$;
+
+CREATE TRIGGER enforce_asset_disposal_company
+BEFORE INSERT OR UPDATE OF asset_id ON public.asset_disposal
+FOR EACH ROW
+EXECUTE FUNCTION public.enforce_asset_company();
+
+CREATE TRIGGER enforce_asset_valuation_events_company
+BEFORE INSERT OR UPDATE OF asset_id ON public.asset_valuation_events
+FOR EACH ROW
+EXECUTE FUNCTION public.enforce_asset_company();
+
+CREATE TRIGGER enforce_documents_company
+BEFORE INSERT OR UPDATE OF asset_id ON public.documents
+FOR EACH ROW
+EXECUTE FUNCTION public.enforce_asset_company();
+
+CREATE TRIGGER enforce_asset_parts_company
+BEFORE INSERT OR UPDATE OF asset_id ON public.asset_parts
+FOR EACH ROW
+EXECUTE FUNCTION public.enforce_asset_company();
+
+-- Maintenance takes the company of its asset; complete_maintenance and the
+-- other writers are held to the active company
+CREATE OR REPLACE FUNCTION public.set_maintenance_company()
+ RETURNS trigger
+ LANGUAGE plpgsql
+ SECURITY DEFINER
+ SET search_path = public
+AS $function$
+BEGIN
+  NEW.company_id := (SELECT company_id FROM public.assets WHERE id = NEW.asset_id);
+
+  IF auth.uid() IS NOT NULL AND (
+    NEW.company_id IS DISTINCT FROM public.current_user_company_id()
+    OR (TG_OP = 'UPDATE' AND OLD.company_id IS DISTINCT FROM public.current_user_company_id())
+  ) THEN
+    RAISE EXCEPTION 'Permission denied';
+  END IF;
+
+  RETURN NEW;
+END;
+$function$;
+
+CREATE TRIGGER set_maintenance_company
+BEFORE INSERT OR UPDATE ON public.asset_maintenance
+FOR EACH ROW
+EXECUTE FUNCTION public.set_maintenance_company();
+
+-- Stock only moves for parts of the active company
+CREATE OR REPLACE FUNCTION public.enforce_spare_part_company()
+ RETURNS trigger
+ LANGUAGE plpgsql
+ SECURITY DEFINER
+ SET search_path = public
+AS $function$
+BEGIN
+  IF auth.uid() IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM public.spare_parts WHERE id = NEW.part_id AND company_id = public.current_user_company_id()
+  ) THEN
+    RAISE EXCEPTION 'Permission denied';
+  END IF;
+
+  RETURN NEW;
+END;
+$function$;
+
+CREATE TRIGGER enforce_spare_part_movements_company
+BEFORE INSERT ON public.spare_part_movements
+FOR EACH ROW
+EXECUTE FUNCTION public.enforce_spare_part_company();
+
+CREATE TRIGGER enforce_maintenance_parts_company
+BEFORE INSERT OR UPDATE OF part_id ON public.maintenance_parts
+FOR EACH ROW
+EXECUTE FUNCTION public.enforce_spare_part_company();
+
+-- Each company closes and reopens its own periods
+CREATE OR REPLACE FUNCTION public.close_depreciation_period(p_period date)
+ RETURNS integer
+ LANGUAGE plpgsql
+ SECURITY DEFINER
+ SET search_path = public
+AS $function$
+DECLARE
+  period_start DATE := date_trunc('month', p_period)::date;
+  last_closed DATE;
+  ledger_currency TEXT := public.get_base_currency();
+  active_company UUID := public.current_user_company_id();
+  asset RECORD;
+  previous RECORD;
+  rate RECORD;
+  historical_rate NUMERIC;
+  opening NUMERIC;
+  book_value NUMERIC;
+  value_before_events NUMERIC;
+  charge NUMERIC;
+  fiscal_accumulated NUMERIC;
+  entry_count INTEGER := 0;
+  total NUMERIC := 0;
+  fiscal_total NUMERIC := 0;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.profiles WHERE user_id = auth.uid() AND role IN ('admin', 'manager')
+  ) THEN
+    RAISE EXCEPTION 'Only administrators and managers can close periods';
+  END IF;
+
+  IF active_company IS NULL THEN
+    RAISE EXCEPTION 'No active company';
+  END IF;
+
+  IF period_start > date_trunc('month', CURRENT_DATE)::date THEN
+    RAISE EXCEPTION 'Cannot close a future period';
+  END IF;
+
+  LOCK TABLE public.depreciation_periods IN EXCLUSIVE MODE;
+
+  SELECT max(period) INTO last_closed FROM public.depreciation_periods WHERE company_id = active_company;
+  IF last_closed IS NOT NULL AND period_start <= last_closed THEN
+    RAISE EXCEPTION 'Period already closed';
+  END IF;
+  IF last_closed IS NOT NULL AND period_start <> (last_closed + interval '1 month')::date THEN
+    RAISE EXCEPTION 'Periods must be closed in order';
+  END IF;
+
+  INSERT INTO public.depreciation_periods (period, company_id, closed_by, base_currency)
+  VALUES (period_start, active_company, auth.uid(), ledger_currency);
+
+  FOR asset IN
+    SELECT a.*, COALESCE(a.depreciation_method, c.depreciation_method, 'straight_line') AS method
+    FROM public.assets a
+    LEFT JOIN public.categories c ON c.id = a.category_id
+    WHERE a.company_id = active_company
+      AND a.deleted_at IS NULL
+      AND a.purchase_date < (period_start + interval '1 month')::date
+      AND NOT EXISTS (
+        SELECT 1 FROM public.asset_disposal d
+        WHERE d.asset_id = a.id AND d.disposal_date < period_start
+      )
+  LOOP
+    historical_rate := public.get_exchange_rate(asset.currency, ledger_currency, asset.purchase_date);
+    IF historical_rate IS NULL THEN
+      RAISE EXCEPTION 'Missing exchange rate for % on %', asset.currency, asset.purchase_date;
+    END IF;
+
+    SELECT accumulated_depreciation, closing_value, fiscal_accumulated_depreciation INTO previous
+    FROM public.asset_depreciation_entries
+    WHERE asset_id = asset.id
+    ORDER BY period DESC
+    LIMIT 1;
+
+    SELECT * INTO rate FROM public.get_asset_fiscal_rate(asset.id);
+
+    -- An asset entering the ledger late catches up its past depreciation in this period
+    opening := COALESCE(previous.closing_value, asset.purchase_value);
+    book_value := public.asset_book_value_through_period(asset.id, period_start);
+    value_before_events := public.asset_book_value_through_period(asset.id, period_start, period_start);
+    charge := opening - value_before_events;
+    fiscal_accumulated := public.fiscal_depreciation_through_period(
+      asset.purchase_value, rate.annual_rate, asset.purchase_date, period_start
+    );
+
+    INSERT INTO public.asset_depreciation_entries (
+      asset_id, company_id, period, method, opening_value, charge, valuation_adjustment, accumulated_depreciation, closing_value,
+      fiscal_rate, fiscal_charge, fiscal_accumulated_depreciation, currency, exchange_rate
+    )
+    VALUES (
+      asset.id,
+      active_company,
+      period_start,
+      asset.method,
+      opening,
+      charge,
+      book_value - value_before_events,
+      COALESCE(previous.accumulated_depreciation, 0) + charge,
+      book_value,
+      rate.annual_rate,
+      fiscal_accumulated - COALESCE(previous.fiscal_accumulated_depreciation, 0),
+      fiscal_accumulated,
+      asset.currency,
+      historical_rate
+    );
+
+    entry_count := entry_count + 1;
+    total := total + round(charge * historical_rate, 2);
+    fiscal_total := fiscal_total + round((fiscal_accumulated - COALESCE(previous.fiscal_accumulated_depreciation, 0)) * historical_rate, 2);
+  END LOOP;
+
+  UPDATE public.depreciation_periods
+  SET asset_count = entry_count, total_charge = total, total_fiscal_charge = fiscal_total
+  WHERE company_id = active_company AND period = period_start;
+
+  RETURN entry_count;
+END;
+$function$;
+
+CREATE OR REPLACE FUNCTION public.reopen_depreciation_period(p_period date)
+ RETURNS void
+ LANGUAGE plpgsql
+ SECURITY DEFINER
+ SET search_path = public
+AS $function$
+DECLARE
+  period_start DATE := date_trunc('month', p_period)::date;
+  active_company UUID := public.current_user_company_id();
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.profiles WHERE user_id = auth.uid() AND role = 'admin'
+  ) THEN
+    RAISE EXCEPTION 'Only administrators can reopen periods';
+  END IF;
+
+  LOCK TABLE public.depreciation_periods IN EXCLUSIVE MODE;
+
+  IF period_start IS DISTINCT FROM (
+    SELECT max(period) FROM public.depreciation_periods WHERE company_id = active_company
+  ) THEN
+    RAISE EXCEPTION 'Only the latest closed period can be reopened';
+  END IF;
+
+  -- Entries go with the period through the foreign key
+  DELETE FROM public.depreciation_periods WHERE company_id = active_company AND period = period_start;
+END;
+$function$;
+
+-- Closed periods are those of the asset's company
+CREATE OR REPLACE FUNCTION public.check_disposal_period_open()
+ RETURNS trigger
+ LANGUAGE plpgsql
+ SET search_path = public
+AS $function$
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM public.depreciation_periods
+    WHERE company_id = (SELECT company_id FROM public.assets WHERE id = NEW.asset_id)
+      AND period >= date_trunc('month', NEW.disposal_date)::date
+  ) THEN
+    RAISE EXCEPTION 'Disposal date falls in a closed period';
+  END IF;
+
+  RETURN NEW;
+END;
+$function$;
+
+CREATE OR REPLACE FUNCTION public.record_valuation_event(
+  p_asset_id uuid,
+  p_event_type text,
+  p_event_date date,
+  p_new_book_value numeric,
+  p_remaining_useful_life_years integer,
+  p_justification text,
+  p_document_id uuid DEFAULT NULL
+)
+ RETURNS uuid
+ LANGUAGE plpgsql
+ SECURITY DEFINER
+ SET search_path = public
+AS $function$
+DECLARE
+  asset RECORD;
+  previous_value NUMERIC;
+  event_id UUID;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.profiles WHERE user_id = auth.uid() AND role IN ('admin', 'manager')
+  ) THEN
+    RAISE EXCEPTION 'Only administrators and managers can record valuation events';
+  END IF;
+
+  SELECT * INTO asset FROM public.assets
+  WHERE id = p_asset_id AND company_id = public.current_user_company_id()
+  FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Asset not found';
+  END IF;
+
+  IF asset.status = 'disposed' OR asset.deleted_at IS NOT NULL THEN
+    RAISE EXCEPTION 'Asset is not in service';
+  END IF;
+
+  IF p_event_type NOT IN ('revaluation', 'impairment') THEN
+    RAISE EXCEPTION 'Invalid event type';
+  END IF;
+
+  IF p_justification IS NULL OR length(trim(p_justification)) = 0 THEN
+    RAISE EXCEPTION 'A justification is required';
+  END IF;
+
+  IF p_event_date < asset.purchase_date OR p_event_date > CURRENT_DATE THEN
+    RAISE EXCEPTION 'Event date out of range';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.asset_valuation_events
+    WHERE asset_id = p_asset_id AND event_date >= p_event_date
+  ) THEN
+    RAISE EXCEPTION 'Event date must be after the latest event';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.depreciation_periods
+    WHERE company_id = asset.company_id AND period >= date_trunc('month', p_event_date)::date
+  ) THEN
+    RAISE EXCEPTION 'Event date falls in a closed period';
+  END IF;
+
+  previous_value := round(public.calculate_asset_book_value(p_asset_id, p_event_date), 2);
+
+  IF p_event_type = 'impairment' AND p_new_book_value >= previous_value THEN
+    RAISE EXCEPTION 'Impairment must reduce the carrying amount';
+  END IF;
+
+  INSERT INTO public.asset_valuation_events (
+    asset_id, event_type, event_date, previous_book_value, new_book_value,
+    remaining_useful_life_years, units_used_at_event, justification, document_id, created_by
+  )
+  VALUES (
+    p_asset_id, p_event_type, p_event_date, previous_value, p_new_book_value,
+    p_remaining_useful_life_years, asset.units_used, trim(p_justification), p_document_id, auth.uid()
+  )
+  RETURNING id INTO event_id;
+
+  RETURN event_id;
+END;
+$function$;
+
+CREATE OR REPLACE FUNCTION public.get_depreciation_schedule(p_asset_id uuid)
+ RETURNS TABLE (
+   period date,
+   method text,
+   opening_value numeric,
+   charge numeric,
+   valuation_adjustment numeric,
+   accumulated_depreciation numeric,
+   closing_value numeric,
+   fiscal_rate numeric,
+   fiscal_charge numeric,
+   fiscal_accumulated_depreciation numeric,
+   is_closed boolean
+ )
+ LANGUAGE plpgsql
+ STABLE
+ SECURITY DEFINER
+ SET search_path = public
+AS $function$
+DECLARE
+  asset RECORD;
+  asset_method TEXT;
+  rate RECORD;
+  last_entry RECORD;
+  last_event RECORD;
+  last_closed DATE;
+  current_period DATE;
+  final_period DATE;
+  previous_accumulated NUMERIC;
+  previous_closing NUMERIC;
+  previous_fiscal NUMERIC;
+  book_value NUMERIC;
+  value_before_events NUMERIC;
+  fiscal_accumulated NUMERIC;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT a.*, COALESCE(a.depreciation_method, c.depreciation_method, 'straight_line') AS method INTO asset
+  FROM public.assets a
+  LEFT JOIN public.categories c ON c.id = a.category_id
+  WHERE a.id = p_asset_id AND a.company_id = public.current_user_company_id();
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Asset not found';
+  END IF;
+
+  asset_method := asset.method;
+  SELECT * INTO rate FROM public.get_asset_fiscal_rate(p_asset_id);
+
+  RETURN QUERY
+  SELECT e.period, e.method, e.opening_value, e.charge, e.valuation_adjustment, e.accumulated_depreciation,
+    e.closing_value, e.fiscal_rate, e.fiscal_charge, e.fiscal_accumulated_depreciation, true
+  FROM public.asset_depreciation_entries e
+  WHERE e.asset_id = p_asset_id
+  ORDER BY e.period;
+
+  SELECT e.accumulated_depreciation, e.closing_value, e.fiscal_accumulated_depreciation INTO last_entry
+  FROM public.asset_depreciation_entries e
+  WHERE e.asset_id = p_asset_id
+  ORDER BY e.period DESC
+  LIMIT 1;
+
+  SELECT max(p.period) INTO last_closed FROM public.depreciation_periods p WHERE p.company_id = asset.company_id;
+
+  current_period := GREATEST(
+    date_trunc('month', asset.purchase_date)::date,
+    COALESCE((last_closed + interval '1 month')::date, date_trunc('month', asset.purchase_date)::date)
+  );
+
+  -- Run until both books are fully depreciated, including the remaining life set by the latest event
+  final_period := (date_trunc('month', asset.purchase_date) + make_interval(months => GREATEST(
+    asset.useful_life_years * 12,
+    ceil(1200.0 / rate.annual_rate)::integer
+  ) - 1))::date;
+
+  SELECT v.event_date, v.remaining_useful_life_years INTO last_event
+  FROM public.asset_valuation_events v
+  WHERE v.asset_id = p_asset_id
+  ORDER BY v.event_date DESC
+  LIMIT 1;
+
+  IF last_event.event_date IS NOT NULL THEN
+    final_period := GREATEST(final_period, (
+      date_trunc('month', last_event.event_date) + make_interval(months => last_event.remaining_useful_life_years * 12)
+    )::date);
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM public.asset_disposal d WHERE d.asset_id = p_asset_id) THEN
+    final_period := LEAST(final_period, (
+      SELECT date_trunc('month', min(d.disposal_date))::date FROM public.asset_disposal d WHERE d.asset_id = p_asset_id
+    ));
+  END IF;
+
+  previous_accumulated := COALESCE(last_entry.accumulated_depreciation, 0);
+  previous_closing := COALESCE(last_entry.closing_value, asset.purchase_value);
+  previous_fiscal := COALESCE(last_entry.fiscal_accumulated_depreciation, 0);
+
+  WHILE current_period <= final_period LOOP
+    book_value := public.asset_book_value_through_period(p_asset_id, current_period);
+    value_before_events := public.asset_book_value_through_period(p_asset_id, current_period, current_period);
+    fiscal_accumulated := public.fiscal_depreciation_through_period(
+      asset.purchase_value, rate.annual_rate, asset.purchase_date, current_period
+    );
+
+    period := current_period;
+    method := asset_method;
+    opening_value := previous_closing;
+    charge := previous_closing - value_before_events;
+    valuation_adjustment := book_value - value_before_events;
+    accumulated_depreciation := previous_accumulated + charge;
+    closing_value := book_value;
+    fiscal_rate := rate.annual_rate;
+    fiscal_charge := fiscal_accumulated - previous_fiscal;
+    fiscal_accumulated_depreciation := fiscal_accumulated;
+    is_closed := false;
+    RETURN NEXT;
+
+    previous_accumulated := previous_accumulated + charge;
+    previous_closing := book_value;
+    previous_fiscal := fiscal_accumulated;
+    current_period := (current_period + interval '1 month')::date;
+  END LOOP;
+END;
+$function$;
+
+CREATE OR REPLACE FUNCTION public.get_depreciation_reconciliation(p_period date)
+ RETURNS TABLE (
+   asset_id uuid,
+   code text,
+   name text,
+   category_name text,
+   ncm text,
+   work_shifts smallint,
+   fiscal_rate numeric,
+   fiscal_rate_source text,
+   purchase_value numeric,
+   accounting_charge numeric,
+   fiscal_charge numeric,
+   accounting_accumulated numeric,
+   fiscal_accumulated numeric,
+   difference numeric,
+   is_closed boolean
+ )
+ LANGUAGE plpgsql
+ STABLE
+ SECURITY DEFINER
+ SET search_path = public
+AS $function$
+DECLARE
+  period_start DATE := date_trunc('month', p_period)::date;
+  previous_period DATE := (date_trunc('month', p_period) - interval '1 month')::date;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.depreciation_periods p
+    WHERE p.company_id = public.current_user_company_id() AND p.period = period_start
+  ) THEN
+    RETURN QUERY
+    SELECT a.id, a.code, a.name, c.name, a.ncm, a.work_shifts, e.fiscal_rate, r.source, a.purchase_value,
+      e.charge, e.fiscal_charge, e.accumulated_depreciation, e.fiscal_accumulated_depreciation,
+      e.fiscal_accumulated_depreciation - e.accumulated_depreciation, true
+    FROM public.asset_depreciation_entries e
+    JOIN public.assets a ON a.id = e.asset_id
+    LEFT JOIN public.categories c ON c.id = a.category_id
+    CROSS JOIN LATERAL public.get_asset_fiscal_rate(a.id) r
+    WHERE e.company_id = public.current_user_company_id() AND e.period = period_start
+    ORDER BY a.code;
+    RETURN;
+  END IF;
+
+  RETURN QUERY
+  SELECT b.id, b.code, b.name, b.category_name, b.ncm, b.work_shifts, b.annual_rate, b.source, b.purchase_value,
+    b.accounting_now - b.accounting_before, b.fiscal_now - b.fiscal_before,
+    b.accounting_now, b.fiscal_now, b.fiscal_now - b.accounting_now, false
+  FROM (
+    SELECT a.id, a.code, a.name, c.name AS category_name, a.ncm, a.work_shifts, r.annual_rate, r.source, a.purchase_value,
+      public.depreciation_through_period(m.method, a.purchase_value, a.residual_value, a.useful_life_years,
+        a.purchase_date, period_start, a.total_units, a.units_used) AS accounting_now,
+      public.depreciation_through_period(m.method, a.purchase_value, a.residual_value, a.useful_life_years,
+        a.purchase_date, previous_period, a.total_units, a.units_used) AS accounting_before,
+      public.fiscal_depreciation_through_period(a.purchase_value, r.annual_rate, a.purchase_date, period_start) AS fiscal_now,
+      public.fiscal_depreciation_through_period(a.purchase_value, r.annual_rate, a.purchase_date, previous_period) AS fiscal_before
+    FROM public.assets a
+    LEFT JOIN public.categories c ON c.id = a.category_id
+    CROSS JOIN LATERAL (SELECT COALESCE(a.depreciation_method, c.depreciation_method, 'straight_line') AS method) m
+    CROSS JOIN LATERAL public.get_asset_fiscal_rate(a.id) r
+    WHERE a.company_id = public.current_user_company_id()
+      AND a.deleted_at IS NULL
+      AND a.purchase_date < (period_start + interval '1 month')::date
+      AND NOT EXISTS (
+        SELECT 1 FROM public.asset_disposal d
+        WHERE d.asset_id = a.id AND d.disposal_date < period_start
+      )
+  ) b
+  ORDER BY b.code;
+END;
+$function$;
+
+-- Imports and bulk edits only reach the active company's assets
+CREATE OR REPLACE FUNCTION public.import_asset_updates(p_import_id uuid, p_rows jsonb)
+ RETURNS integer
+ LANGUAGE plpgsql
+ SECURITY DEFINER
+ SET search_path = public
+AS $function$
+DECLARE
+  change JSONB;
+  asset public.assets;
+  target public.assets;
+  updated_count INTEGER := 0;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.asset_imports
+    WHERE id = p_import_id AND created_by = auth.uid() AND mode = 'update'
+  ) THEN
+    RAISE EXCEPTION 'Import not found';
+  END IF;
+
+  PERFORM set_config('app.audit_action', 'import_updated', true);
+
+  FOR change IN SELECT * FROM jsonb_array_elements(p_rows) LOOP
+    -- Same visibility as the assets policies: the active company
+    SELECT * INTO asset FROM public.assets
+    WHERE id = (change->>'id')::uuid
+      AND company_id = public.current_user_company_id()
+    FOR UPDATE;
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Asset not found';
+    END IF;
+
+    IF asset.status = 'disposed' OR asset.deleted_at IS NOT NULL THEN
+      RAISE EXCEPTION 'Disposed or archived assets cannot be updated by import';
+    END IF;
+
+    target := jsonb_populate_record(asset, change - 'id');
+
+    UPDATE public.assets
+    SET name = target.name,
+        code = target.code,
+        serial_number = target.serial_number,
+        description = target.description,
+        category_id = target.category_id,
+        department_id = target.department_id,
+        unit_id = target.unit_id,
+        purchase_value = target.purchase_value,
+        currency = target.currency,
+        purchase_date = target.purchase_date,
+        residual_value = target.residual_value,
+        useful_life_years = target.useful_life_years,
+        depreciation_method = target.depreciation_method,
+        total_units = target.total_units,
+        units_used = target.units_used,
+        ncm = target.ncm,
+        work_shifts = target.work_shifts,
+        status = target.status,
+        current_location = target.current_location,
+        rfid_id = target.rfid_id
+    WHERE id = asset.id;
+
+    updated_count := updated_count + 1;
+  END LOOP;
+
+  UPDATE public.asset_imports
+  SET imported_rows = imported_rows + updated_count
+  WHERE id = p_import_id;
+
+  PERFORM set_config('app.audit_action', '', true);
+
+  RETURN updated_count;
+END;
+$function$;
+
+CREATE OR REPLACE FUNCTION public.bulk_update_assets(p_asset_ids uuid[], p_changes jsonb)
+ RETURNS integer
+ LANGUAGE plpgsql
+ SECURITY DEFINER
+ SET search_path = public
+AS $function$
+DECLARE
+  asset public.assets;
+  target public.assets;
+  updated_count INTEGER := 0;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM jsonb_object_keys(p_changes) AS field
+    WHERE field NOT IN ('status', 'category_id', 'department_id', 'unit_id', 'assigned_to', 'current_location')
+  ) THEN
+    RAISE EXCEPTION 'Unsupported bulk field';
+  END IF;
+
+  -- Disposal has its own records and wizard
+  IF p_changes ? 'status' AND p_changes->>'status' NOT IN ('active', 'maintenance', 'inactive') THEN
+    RAISE EXCEPTION 'Invalid status';
+  END IF;
+
+  PERFORM set_config('app.audit_action', 'bulk_updated', true);
+
+  -- Same visibility as the assets policies: the active company
+  FOR asset IN
+    SELECT * FROM public.assets
+    WHERE id = ANY(p_asset_ids)
+      AND company_id = public.current_user_company_id()
+    ORDER BY code
+    FOR UPDATE
+  LOOP
+    -- Disposed and archived assets are left out of bulk changes
+    CONTINUE WHEN asset.status = 'disposed' OR asset.deleted_at IS NOT NULL;
+
+    target := jsonb_populate_record(asset, p_changes);
+    CONTINUE WHEN to_jsonb(target) = to_jsonb(asset);
+
+    IF target.unit_id IS NOT NULL AND NOT EXISTS (
+      SELECT 1 FROM public.units WHERE id = target.unit_id AND department_id = target.department_id
+    ) THEN
+      RAISE EXCEPTION 'Unit does not belong to the department';
+    END IF;
+
+    UPDATE public.assets
+    SET status = target.status,
+        category_id = target.category_id,
+        department_id = target.department_id,
+        unit_id = target.unit_id,
+        assigned_to = target.assigned_to,
+        current_location = target.current_location
+    WHERE id = asset.id;
+
+    updated_count := updated_count + 1;
+  END LOOP;
+
+  PERFORM set_config('app.audit_action', '', true);
+
+  RETURN updated_count;
+END;
+$function$;
+
+-- Policies: every row is visible and writable only within the active company
+
+-- Profiles and companies. Members of the active company see each other; the
+-- switcher lists every company the user belongs to.
+DROP POLICY IF EXISTS "Users can view profiles from their company" ON public.profiles;
+
+CREATE POLICY "Users can view profiles from their company"
+ON public.profiles
+FOR SELECT
+USING (
+  auth.uid() = user_id
+  OR user_id IN (
+    SELECT m.user_id FROM public.company_members m
+    WHERE m.company_id = public.current_user_company_id()
+  )
+);
+
+CREATE POLICY "Users can view companies they belong to"
+ON public.companies
+FOR SELECT
+USING (id IN (SELECT m.company_id FROM public.company_members m WHERE m.user_id = auth.uid()));
+
+-- Assets
+DROP POLICY IF EXISTS "Users can view assets from their company" ON public.assets;
+DROP POLICY IF EXISTS "Admins and managers can create assets" ON public.assets;
+DROP POLICY IF EXISTS "Admins and managers can update assets" ON public.assets;
+
+CREATE POLICY "Users can view assets from their company"
+ON public.assets
+FOR SELECT
+USING (company_id = public.current_user_company_id());
+
+CREATE POLICY "Admins and managers can create assets"
+ON public.assets
+FOR INSERT
+TO authenticated
+WITH CHECK (
+  auth.uid() = created_by
+  AND company_id = public.current_user_company_id()
+  AND public.can_manage_asset(department_id)
+);
+
+CREATE POLICY "Admins and managers can update assets"
+ON public.assets
+FOR UPDATE
+USING (company_id = public.current_user_company_id() AND public.can_manage_asset(department_id))
+WITH CHECK (company_id = public.current_user_company_id() AND public.can_manage_asset(department_id));
+
+-- Documents, history, disposals and valuation events follow their asset
+DROP POLICY IF EXISTS "Users can view documents from their company assets" ON public.documents;
+
+CREATE POLICY "Users can view documents from their company assets"
+ON public.documents
+FOR SELECT
+USING (asset_id IN (SELECT id FROM public.assets WHERE company_id = public.current_user_company_id()));
+
+-- Purged assets only remain in their own log entries
+DROP POLICY IF EXISTS "Authenticated users can view audit logs" ON public.asset_audit_log;
+
+CREATE POLICY "Users can view audit logs from their company"
+ON public.asset_audit_log
+FOR SELECT
+USING (
+  asset_id IN (SELECT id FROM public.assets WHERE company_id = public.current_user_company_id())
+  OR COALESCE(new_data, old_data)->>'company_id' = public.current_user_company_id()::text
+);
+
+DROP POLICY IF EXISTS "Authenticated users can view disposal records" ON public.asset_disposal;
+DROP POLICY IF EXISTS "Admins and managers can create disposal records" ON public.asset_disposal;
+
+CREATE POLICY "Users can view disposal records from their company"
+ON public.asset_disposal
+FOR SELECT
+USING (asset_id IN (SELECT id FROM public.assets WHERE company_id = public.current_user_company_id()));
+
+CREATE POLICY "Admins and managers can create disposal records"
+ON public.asset_disposal
+FOR INSERT
+WITH CHECK (
+  public.current_user_role() IN ('admin', 'manager')
+  AND asset_id IN (SELECT id FROM public.assets WHERE company_id = public.current_user_company_id())
+);
+
+DROP POLICY IF EXISTS "Authenticated users can view valuation events" ON public.asset_valuation_events;
+
+CREATE POLICY "Users can view valuation events from their company"
+ON public.asset_valuation_events
+FOR SELECT
+USING (asset_id IN (SELECT id FROM public.assets WHERE company_id = public.current_user_company_id()));
+
+-- Maintenance
+DROP POLICY IF EXISTS "Authenticated users can view maintenance records" ON public.asset_maintenance;
+DROP POLICY IF EXISTS "Authenticated users can create maintenance records" ON public.asset_maintenance;
+DROP POLICY IF EXISTS "Performers, admins and managers can update maintenance records" ON public.asset_maintenance;
+DROP POLICY IF EXISTS "Admins and managers can delete maintenance records" ON public.asset_maintenance;
+
+CREATE POLICY "Users can view maintenance records from their company"
+ON public.asset_maintenance
+FOR SELECT
+USING (company_id = public.current_user_company_id());
+
+CREATE POLICY "Users can create maintenance records in their company"
+ON public.asset_maintenance
+FOR INSERT
+WITH CHECK (auth.uid() = performed_by AND company_id = public.current_user_company_id());
+
+CREATE POLICY "Performers, admins and managers can update maintenance records"
+ON public.asset_maintenance
+FOR UPDATE
+USING (
+  company_id = public.current_user_company_id()
+  AND (auth.uid() = performed_by OR public.current_user_role() IN ('admin', 'manager'))
+);
+
+CREATE POLICY "Admins and managers can delete maintenance records"
+ON public.asset_maintenance
+FOR DELETE
+USING (company_id = public.current_user_company_id() AND public.current_user_role() IN ('admin', 'manager'));
+
+DROP POLICY IF EXISTS "Authenticated users can view maintenance parts" ON public.maintenance_parts;
+
+CREATE POLICY "Users can manage maintenance parts in their company"
+ON public.maintenance_parts
+FOR ALL
+USING (maintenance_id IN (
+  SELECT id FROM public.asset_maintenance WHERE company_id = public.current_user_company_id()
+))
+WITH CHECK (maintenance_id IN (
+  SELECT id FROM public.asset_maintenance WHERE company_id = public.current_user_company_id()
+));
+
+-- Categories
+DROP POLICY IF EXISTS "Authenticated users can view categories" ON public.categories;
+DROP POLICY IF EXISTS "Admins can manage categories" ON public.categories;
+
+CREATE POLICY "Users can view categories from their company"
+ON public.categories
+FOR SELECT
+USING (company_id = public.current_user_company_id());
+
+CREATE POLICY "Admins can manage categories"
+ON public.categories
+FOR ALL
+USING (public.current_user_role() = 'admin' AND company_id = public.current_user_company_id())
+WITH CHECK (public.current_user_role() = 'admin' AND company_id = public.current_user_company_id());
+
+-- Spare parts, their stock movements and the parts fitted to each asset
+DROP POLICY IF EXISTS "Authenticated users can view spare parts" ON public.spare_parts;
+DROP POLICY IF EXISTS "Admins and managers can manage spare parts" ON public.spare_parts;
+
+CREATE POLICY "Users can view spare parts from their company"
+ON public.spare_parts
+FOR SELECT
+USING (company_id = public.current_user_company_id());
+
+CREATE POLICY "Admins and managers can manage spare parts"
+ON public.spare_parts
+FOR ALL
+USING (public.current_user_role() IN ('admin', 'manager') AND company_id = public.current_user_company_id())
+WITH CHECK (public.current_user_role() IN ('admin', 'manager') AND company_id = public.current_user_company_id());
+
+DROP POLICY IF EXISTS "Authenticated users can view stock movements" ON public.spare_part_movements;
+
+CREATE POLICY "Users can view stock movements from their company"
+ON public.spare_part_movements
+FOR SELECT
+USING (part_id IN (SELECT id FROM public.spare_parts WHERE company_id = public.current_user_company_id()));
+
+DROP POLICY IF EXISTS "Authenticated users can view asset parts" ON public.asset_parts;
+DROP POLICY IF EXISTS "Admins and managers can manage asset parts" ON public.asset_parts;
+
+CREATE POLICY "Users can view asset parts from their company"
+ON public.asset_parts
+FOR SELECT
+USING (asset_id IN (SELECT id FROM public.assets WHERE company_id = public.current_user_company_id()));
+
+CREATE POLICY "Admins and managers can manage asset parts"
+ON public.asset_parts
+FOR ALL
+USING (
+  public.current_user_role() IN ('admin', 'manager')
+  AND asset_id IN (SELECT id FROM public.assets WHERE company_id = public.current_user_company_id())
+)
+WITH CHECK (
+  public.current_user_role() IN ('admin', 'manager')
+  AND asset_id IN (SELECT id FROM public.assets WHERE company_id = public.current_user_company_id())
+);
+
+-- Depreciation ledger
+DROP POLICY IF EXISTS "Authenticated users can view depreciation periods" ON public.depreciation_periods;
+DROP POLICY IF EXISTS "Authenticated users can view depreciation entries" ON public.asset_depreciation_entries;
+
+CREATE POLICY "Users can view depreciation periods from their company"
+ON public.depreciation_periods
+FOR SELECT
+USING (company_id = public.current_user_company_id());
+
+CREATE POLICY "Users can view depreciation entries from their company"
+ON public.asset_depreciation_entries
+FOR SELECT
+USING (company_id = public.current_user_company_id());
@@ -0,0 +1,38 @@
+-- Users are created, assigned and deactivated by the manage-users edge
+-- function, which runs with the service role. Deactivation bans the auth
+-- user; the profile keeps the date so the list can show it.
+ALTER TABLE public.profiles ADD COLUMN deactivated_at TIMESTAMP WITH TIME ZONE;
+
+-- Users cannot reactivate themselves
+CREATE OR REPLACE FUNCTION public.enforce_profile_permissions()
+ RETURNS trigger
+ LANGUAGE plpgsql
+ SECURITY DEFINER
+ SET search_path = public
+AS $function$
+BEGIN
+  IF auth.uid() IS NULL
+     OR public.current_user_role() = 'admin'
+     OR current_setting('app.company_switch', true) = 'on' THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    IF COALESCE(NEW.role, 'user') <> 'user'
+       OR NEW.company_id IS NOT NULL
+       OR NEW.department_id IS NOT NULL
+       OR NEW.unit_id IS NOT NULL
+       OR NEW.deactivated_at IS NOT NULL THEN
+      RAISE EXCEPTION 'Permission denied';
+    END IF;
+  ELSIF NEW.role IS DISTINCT FROM OLD.role
+     OR NEW.company_id IS DISTINCT FROM OLD.company_id
+     OR NEW.department_id IS DISTINCT FROM OLD.department_id
+     OR NEW.unit_id IS DISTINCT FROM OLD.unit_id
+     OR NEW.deactivated_at IS DISTINCT FROM OLD.deactivated_at THEN
+    RAISE EXCEPTION 'Permission denied';
+  END IF;
+
+  RETURN NEW;
+END;
+$function$;
@@ -0,0 +1,127 @@
+-- Email invitations. An admin invites someone with the role, department
+-- and unit they will have in the company; the manage-users edge function
+-- creates the auth user and sends the email, and the invitee lands on
+-- /accept-invite, sets a password and gets the profile from the invitation.
+CREATE TABLE public.user_invitations (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  company_id UUID NOT NULL REFERENCES public.companies(id) ON DELETE CASCADE,
+  user_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  email TEXT NOT NULL,
+  full_name TEXT,
+  role TEXT NOT NULL DEFAULT 'user' CHECK (role IN ('admin', 'manager', 'user')),
+  department_id UUID REFERENCES public.departments(id) ON DELETE SET NULL,
+  unit_id UUID REFERENCES public.units(id) ON DELETE SET NULL,
+  invited_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  last_sent_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  accepted_at TIMESTAMP WITH TIME ZONE,
+  revoked_at TIMESTAMP WITH TIME ZONE
+);
+
+-- One pending invitation per address and company
+CREATE UNIQUE INDEX idx_user_invitations_pending_email
+ON public.user_invitations (company_id, lower(email))
+WHERE accepted_at IS NULL AND revoked_at IS NULL;
+
+CREATE INDEX idx_user_invitations_user_id ON public.user_invitations(user_id);
+
+ALTER TABLE public.user_invitations ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view invitations of their company"
+ON public.user_invitations
+FOR SELECT
+USING (public.current_user_role() = 'admin' AND company_id = public.current_user_company_id());
+
+CREATE POLICY "Invitees can view their invitations"
+ON public.user_invitations
+FOR SELECT
+USING (user_id = auth.uid());
+
+-- Invitations are only written through the edge function and accept_invitation
+
+-- accept_invitation assigns the invited role and company to the profile
+CREATE OR REPLACE FUNCTION public.enforce_profile_permissions()
+ RETURNS trigger
+ LANGUAGE plpgsql
+ SECURITY DEFINER
+ SET search_path = public
+AS $function$
+BEGIN
+  IF auth.uid() IS NULL
+     OR public.current_user_role() = 'admin'
+     OR current_setting('app.company_switch', true) = 'on'
+     OR current_setting('app.invitation_accept', true) = 'on' THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    IF COALESCE(NEW.role, 'user') <> 'user'
+       OR NEW.company_id IS NOT NULL
+       OR NEW.department_id IS NOT NULL
+       OR NEW.unit_id IS NOT NULL
+       OR NEW.deactivated_at IS NOT NULL THEN
+      RAISE EXCEPTION 'Permission denied';
+    END IF;
+  ELSIF NEW.role IS DISTINCT FROM OLD.role
+     OR NEW.company_id IS DISTINCT FROM OLD.company_id
+     OR NEW.department_id IS DISTINCT FROM OLD.department_id
+     OR NEW.unit_id IS DISTINCT FROM OLD.unit_id
+     OR NEW.deactivated_at IS DISTINCT FROM OLD.deactivated_at THEN
+    RAISE EXCEPTION 'Permission denied';
+  END IF;
+
+  RETURN NEW;
+END;
+$function$;
+
+-- Called by the invitee once signed in through the invitation link
+CREATE OR REPLACE FUNCTION public.accept_invitation(p_full_name text)
+ RETURNS uuid
+ LANGUAGE plpgsql
+ SECURITY DEFINER
+ SET search_path = public
+AS $function$
+DECLARE
+  invitation public.user_invitations;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT * INTO invitation FROM public.user_invitations
+  WHERE user_id = auth.uid() AND accepted_at IS NULL AND revoked_at IS NULL
+  ORDER BY created_at DESC
+  LIMIT 1
+  FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Invitation not found';
+  END IF;
+
+  PERFORM set_config('app.invitation_accept', 'on', true);
+
+  -- The sign-in may already have created an empty profile
+  INSERT INTO public.profiles (user_id, full_name, company_id, role, department_id, unit_id)
+  VALUES (
+    auth.uid(),
+    COALESCE(NULLIF(trim(p_full_name), ''), invitation.full_name),
+    invitation.company_id,
+    invitation.role,
+    invitation.department_id,
+    invitation.unit_id
+  )
+  ON CONFLICT (user_id) DO UPDATE
+  SET full_name = EXCLUDED.full_name,
+      company_id = EXCLUDED.company_id,
+      role = EXCLUDED.role,
+      department_id = EXCLUDED.department_id,
+      unit_id = EXCLUDED.unit_id;
+
+  PERFORM set_config('app.invitation_accept', '', true);
+
+  UPDATE public.user_invitations
+  SET accepted_at = now()
+  WHERE id = invitation.id;
+
+  RETURN invitation.company_id;
+END;
+$function$;
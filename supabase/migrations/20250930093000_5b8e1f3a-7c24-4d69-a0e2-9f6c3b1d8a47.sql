@@ -0,0 +1,160 @@
+-- Custody loans. Lending an asset (notebook, tool, vehicle) opens a loan to
+-- a person with an expected return date and the condition it left in;
+-- returning it closes the loan with the condition it came back in and
+-- photos. While the loan is open the borrower is the asset's responsible.
+CREATE TABLE public.asset_loans (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  asset_id UUID NOT NULL REFERENCES public.assets(id) ON DELETE CASCADE,
+  company_id UUID NOT NULL REFERENCES public.companies(id) ON DELETE CASCADE,
+  borrower_id UUID NOT NULL REFERENCES public.profiles(user_id),
+  -- Restored on check-in
+  previous_assigned_to UUID REFERENCES public.profiles(user_id) ON DELETE SET NULL,
+  checked_out_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  checked_out_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  due_date DATE NOT NULL,
+  checkout_condition TEXT NOT NULL CHECK (checkout_condition IN ('new', 'good', 'fair', 'poor', 'damaged')),
+  checkout_notes TEXT,
+  checked_in_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  returned_at TIMESTAMP WITH TIME ZONE,
+  return_condition TEXT CHECK (return_condition IN ('new', 'good', 'fair', 'poor', 'damaged')),
+  return_notes TEXT,
+  return_photos TEXT[] NOT NULL DEFAULT '{}',
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- An asset is lent to one person at a time
+CREATE UNIQUE INDEX idx_asset_loans_open_asset
+ON public.asset_loans (asset_id)
+WHERE returned_at IS NULL;
+
+CREATE INDEX idx_asset_loans_borrower_id ON public.asset_loans(borrower_id);
+CREATE INDEX idx_asset_loans_open_due_date ON public.asset_loans(company_id, due_date) WHERE returned_at IS NULL;
+
+ALTER TABLE public.asset_loans ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view loans from their company"
+ON public.asset_loans
+FOR SELECT
+USING (company_id = public.current_user_company_id());
+
+-- Loans are only written through check_out_asset and check_in_asset
+
+CREATE OR REPLACE FUNCTION public.check_out_asset(
+  p_asset_id uuid,
+  p_borrower_id uuid,
+  p_due_date date,
+  p_condition text,
+  p_notes text
+)
+ RETURNS uuid
+ LANGUAGE plpgsql
+ SECURITY DEFINER
+ SET search_path = public
+AS $function$
+DECLARE
+  asset RECORD;
+  loan_id UUID;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT * INTO asset FROM public.assets
+  WHERE id = p_asset_id AND company_id = public.current_user_company_id()
+  FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Asset not found';
+  END IF;
+
+  IF NOT public.can_manage_asset(asset.department_id) THEN
+    RAISE EXCEPTION 'Permission denied';
+  END IF;
+
+  IF asset.deleted_at IS NOT NULL OR asset.status = 'disposed' THEN
+    RAISE EXCEPTION 'Asset is not in service';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.company_members
+    WHERE user_id = p_borrower_id AND company_id = asset.company_id
+  ) THEN
+    RAISE EXCEPTION 'Borrower not found';
+  END IF;
+
+  IF p_due_date IS NULL OR p_due_date < CURRENT_DATE THEN
+    RAISE EXCEPTION 'Due date must not be in the past';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM public.asset_loans WHERE asset_id = p_asset_id AND returned_at IS NULL) THEN
+    RAISE EXCEPTION 'Asset already checked out';
+  END IF;
+
+  INSERT INTO public.asset_loans (
+    asset_id, company_id, borrower_id, previous_assigned_to, checked_out_by,
+    due_date, checkout_condition, checkout_notes
+  )
+  VALUES (
+    p_asset_id, asset.company_id, p_borrower_id, asset.assigned_to, auth.uid(),
+    p_due_date, p_condition, NULLIF(trim(p_notes), '')
+  )
+  RETURNING id INTO loan_id;
+
+  PERFORM set_config('app.audit_action', 'checked_out', true);
+  UPDATE public.assets SET assigned_to = p_borrower_id WHERE id = p_asset_id;
+  PERFORM set_config('app.audit_action', '', true);
+
+  RETURN loan_id;
+END;
+$function$;
+
+CREATE OR REPLACE FUNCTION public.check_in_asset(
+  p_loan_id uuid,
+  p_condition text,
+  p_notes text,
+  p_photos text[]
+)
+ RETURNS void
+ LANGUAGE plpgsql
+ SECURITY DEFINER
+ SET search_path = public
+AS $function$
+DECLARE
+  loan public.asset_loans;
+  asset RECORD;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT * INTO loan FROM public.asset_loans
+  WHERE id = p_loan_id AND company_id = public.current_user_company_id()
+  FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Loan not found';
+  END IF;
+
+  IF loan.returned_at IS NOT NULL THEN
+    RAISE EXCEPTION 'Asset already checked in';
+  END IF;
+
+  SELECT * INTO asset FROM public.assets WHERE id = loan.asset_id FOR UPDATE;
+  IF NOT public.can_manage_asset(asset.department_id) THEN
+    RAISE EXCEPTION 'Permission denied';
+  END IF;
+
+  UPDATE public.asset_loans
+  SET returned_at = now(),
+      checked_in_by = auth.uid(),
+      return_condition = p_condition,
+      return_notes = NULLIF(trim(p_notes), ''),
+      return_photos = COALESCE(p_photos, '{}')
+  WHERE id = p_loan_id;
+
+  -- Someone else may have been made responsible while the asset was out
+  IF asset.assigned_to IS NOT DISTINCT FROM loan.borrower_id THEN
+    PERFORM set_config('app.audit_action', 'checked_in', true);
+    UPDATE public.assets SET assigned_to = loan.previous_assigned_to WHERE id = loan.asset_id;
+    PERFORM set_config('app.audit_action', '', true);
+  END IF;
+END;
+$function$;
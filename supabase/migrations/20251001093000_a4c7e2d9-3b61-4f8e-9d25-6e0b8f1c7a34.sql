@@ -0,0 +1,209 @@
+-- Deactivation belongs to a membership, not to the account. An account can
+-- belong to several companies, so an admin deactivates someone in their own
+-- company only; the helpers the policies read treat a deactivated membership
+-- as no company and no role.
+ALTER TABLE public.company_members ADD COLUMN deactivated_at TIMESTAMP WITH TIME ZONE;
+
+UPDATE public.company_members m
+SET deactivated_at = p.deactivated_at
+FROM public.profiles p
+WHERE p.user_id = m.user_id
+  AND p.company_id = m.company_id
+  AND p.deactivated_at IS NOT NULL;
+
+-- Accounts deactivated in one company were banned everywhere; lift the ban
+-- for those who still have an active membership elsewhere
+UPDATE auth.users u
+SET banned_until = NULL
+FROM public.profiles p
+WHERE p.user_id = u.id
+  AND p.deactivated_at IS NOT NULL
+  AND EXISTS (
+    SELECT 1 FROM public.company_members m
+    WHERE m.user_id = p.user_id
+      AND m.company_id IS DISTINCT FROM p.company_id
+      AND m.deactivated_at IS NULL
+  );
+
+CREATE OR REPLACE FUNCTION public.current_user_company_id()
+ RETURNS uuid
+ LANGUAGE sql
+ STABLE
+ SECURITY DEFINER
+ SET search_path = public
+AS $function$
+  SELECT p.company_id
+  FROM public.profiles p
+  JOIN public.company_members m ON m.user_id = p.user_id AND m.company_id = p.company_id
+  WHERE p.user_id = auth.uid() AND m.deactivated_at IS NULL;
+$function$;
+
+CREATE OR REPLACE FUNCTION public.current_user_role()
+ RETURNS text
+ LANGUAGE sql
+ STABLE
+ SECURITY DEFINER
+ SET search_path = public
+AS $function$
+  SELECT p.role
+  FROM public.profiles p
+  JOIN public.company_members m ON m.user_id = p.user_id AND m.company_id = p.company_id
+  WHERE p.user_id = auth.uid() AND m.deactivated_at IS NULL;
+$function$;
+
+CREATE OR REPLACE FUNCTION public.can_manage_asset(p_department_id uuid)
+ RETURNS boolean
+ LANGUAGE sql
+ STABLE
+ SECURITY DEFINER
+ SET search_path = public
+AS $function$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.profiles p
+    JOIN public.company_members m ON m.user_id = p.user_id AND m.company_id = p.company_id
+    WHERE p.user_id = auth.uid()
+      AND m.deactivated_at IS NULL
+      AND (
+        p.role = 'admin'
+        OR (p.role = 'manager' AND p.department_id IS NOT NULL AND p.department_id = p_department_id)
+      )
+  );
+$function$;
+
+-- A deactivated membership cannot be made the active company
+CREATE OR REPLACE FUNCTION public.switch_company(p_company_id uuid)
+ RETURNS void
+ LANGUAGE plpgsql
+ SECURITY DEFINER
+ SET search_path = public
+AS $function$
+DECLARE
+  membership public.company_members;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT * INTO membership FROM public.company_members
+  WHERE user_id = auth.uid() AND company_id = p_company_id AND deactivated_at IS NULL;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Not a member of this company';
+  END IF;
+
+  PERFORM set_config('app.company_switch', 'on', true);
+
+  UPDATE public.profiles
+  SET company_id = membership.company_id,
+      role = membership.role,
+      department_id = membership.department_id,
+      unit_id = membership.unit_id
+  WHERE user_id = auth.uid();
+
+  PERFORM set_config('app.company_switch', '', true);
+END;
+$function$;
+
+-- Lending goes to active members only
+CREATE OR REPLACE FUNCTION public.check_out_asset(
+  p_asset_id uuid,
+  p_borrower_id uuid,
+  p_due_date date,
+  p_condition text,
+  p_notes text
+)
+ RETURNS uuid
+ LANGUAGE plpgsql
+ SECURITY DEFINER
+ SET search_path = public
+AS $function$
+DECLARE
+  asset RECORD;
+  loan_id UUID;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT * INTO asset FROM public.assets
+  WHERE id = p_asset_id AND company_id = public.current_user_company_id()
+  FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Asset not found';
+  END IF;
+
+  IF NOT public.can_manage_asset(asset.department_id) THEN
+    RAISE EXCEPTION 'Permission denied';
+  END IF;
+
+  IF asset.deleted_at IS NOT NULL OR asset.status = 'disposed' THEN
+    RAISE EXCEPTION 'Asset is not in service';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.company_members
+    WHERE user_id = p_borrower_id AND company_id = asset.company_id AND deactivated_at IS NULL
+  ) THEN
+    RAISE EXCEPTION 'Borrower not found';
+  END IF;
+
+  IF p_due_date IS NULL OR p_due_date < CURRENT_DATE THEN
+    RAISE EXCEPTION 'Due date must not be in the past';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM public.asset_loans WHERE asset_id = p_asset_id AND returned_at IS NULL) THEN
+    RAISE EXCEPTION 'Asset already checked out';
+  END IF;
+
+  INSERT INTO public.asset_loans (
+    asset_id, company_id, borrower_id, previous_assigned_to, checked_out_by,
+    due_date, checkout_condition, checkout_notes
+  )
+  VALUES (
+    p_asset_id, asset.company_id, p_borrower_id, asset.assigned_to, auth.uid(),
+    p_due_date, p_condition, NULLIF(trim(p_notes), '')
+  )
+  RETURNING id INTO loan_id;
+
+  PERFORM set_config('app.audit_action', 'checked_out', true);
+  UPDATE public.assets SET assigned_to = p_borrower_id WHERE id = p_asset_id;
+  PERFORM set_config('app.audit_action', '', true);
+
+  RETURN loan_id;
+END;
+$function$;
+
+-- The profile no longer carries the status
+CREATE OR REPLACE FUNCTION public.enforce_profile_permissions()
+ RETURNS trigger
+ LANGUAGE plpgsql
+ SECURITY DEFINER
+ SET search_path = public
+AS $function$
+BEGIN
+  IF auth.uid() IS NULL
+     OR public.current_user_role() = 'admin'
+     OR current_setting('app.company_switch', true) = 'on'
+     OR current_setting('app.invitation_accept', true) = 'on' THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    IF COALESCE(NEW.role, 'user') <> 'user'
+       OR NEW.company_id IS NOT NULL
+       OR NEW.department_id IS NOT NULL
+       OR NEW.unit_id IS NOT NULL THEN
+      RAISE EXCEPTION 'Permission denied';
+    END IF;
+  ELSIF NEW.role IS DISTINCT FROM OLD.role
+     OR NEW.company_id IS DISTINCT FROM OLD.company_id
+     OR NEW.department_id IS DISTINCT FROM OLD.department_id
+     OR NEW.unit_id IS DISTINCT FROM OLD.unit_id THEN
+    RAISE EXCEPTION 'Permission denied';
+  END IF;
+
+  RETURN NEW;
+END;
+$function$;
+
+ALTER TABLE public.profiles DROP COLUMN deactivated_at;
@@ -0,0 +1,183 @@
+-- Corrections to a completed job only move the stock and the price of the
+-- part lines whose quantity changed. Lines left alone keep their original
+-- cost_per_unit (the part's cost and exchange rate when the job was done)
+-- and write no movements.
+CREATE OR REPLACE FUNCTION public.complete_maintenance(p_maintenance_id uuid, p_labor_cost numeric, p_parts jsonb)
+ RETURNS numeric
+ LANGUAGE plpgsql
+ SECURITY DEFINER
+ SET search_path = public
+AS $function$
+DECLARE
+  maintenance RECORD;
+  item RECORD;
+  part RECORD;
+  part_rate NUMERIC;
+  job_unit_cost NUMERIC;
+  requested_quantity INTEGER;
+  quantity_change INTEGER;
+  new_quantity INTEGER;
+  parts_total NUMERIC;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT currency, COALESCE(completed_date, CURRENT_DATE) AS completed_on INTO maintenance
+  FROM public.asset_maintenance
+  WHERE id = p_maintenance_id AND company_id = public.current_user_company_id()
+  FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Maintenance not found';
+  END IF;
+
+  FOR item IN
+    WITH requested AS (
+      SELECT (value->>'part_id')::uuid AS part_id, SUM((value->>'quantity')::integer) AS quantity
+      FROM jsonb_array_elements(COALESCE(p_parts, '[]'::jsonb))
+      GROUP BY 1
+    ),
+    consumed AS (
+      SELECT part_id, SUM(quantity_used) AS quantity
+      FROM public.maintenance_parts
+      WHERE maintenance_id = p_maintenance_id
+      GROUP BY part_id
+    )
+    SELECT COALESCE(r.part_id, c.part_id) AS part_id,
+           r.part_id IS NOT NULL AS is_requested,
+           r.quantity AS requested,
+           COALESCE(c.quantity, 0) AS consumed
+    FROM requested r
+    FULL JOIN consumed c ON c.part_id = r.part_id
+  LOOP
+    IF item.is_requested AND (item.requested IS NULL OR item.requested <= 0) THEN
+      RAISE EXCEPTION 'Invalid quantity for part %', item.part_id;
+    END IF;
+
+    requested_quantity := COALESCE(item.requested, 0);
+    CONTINUE WHEN requested_quantity = item.consumed;
+    quantity_change := requested_quantity - item.consumed;
+
+    SELECT id, part_number, unit_cost, currency INTO part
+    FROM public.spare_parts
+    WHERE id = item.part_id
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Spare part % not found', item.part_id;
+    END IF;
+
+    UPDATE public.spare_parts
+    SET stock_quantity = stock_quantity - quantity_change
+    WHERE id = item.part_id
+    RETURNING stock_quantity INTO new_quantity;
+
+    IF new_quantity < 0 THEN
+      RAISE EXCEPTION 'Insufficient stock for part %', part.part_number;
+    END IF;
+
+    INSERT INTO public.spare_part_movements (part_id, quantity_change, resulting_quantity, reason, created_by, maintenance_id)
+    VALUES (
+      item.part_id,
+      -quantity_change,
+      new_quantity,
+      CASE WHEN quantity_change > 0 THEN 'Consumo em manutenção' ELSE 'Estorno de consumo em manutenção' END,
+      auth.uid(),
+      p_maintenance_id
+    );
+
+    DELETE FROM public.maintenance_parts
+    WHERE maintenance_id = p_maintenance_id AND part_id = item.part_id;
+
+    IF requested_quantity > 0 THEN
+      part_rate := public.get_exchange_rate(part.currency, maintenance.currency, maintenance.completed_on);
+      IF part_rate IS NULL THEN
+        RAISE EXCEPTION 'Missing exchange rate for % on %', part.currency, maintenance.completed_on;
+      END IF;
+      job_unit_cost := round(part.unit_cost * part_rate, 2);
+
+      INSERT INTO public.maintenance_parts (maintenance_id, part_id, quantity_used, cost_per_unit)
+      VALUES (p_maintenance_id, item.part_id, requested_quantity, job_unit_cost);
+    END IF;
+  END LOOP;
+
+  SELECT COALESCE(SUM(quantity_used * cost_per_unit), 0) INTO parts_total
+  FROM public.maintenance_parts
+  WHERE maintenance_id = p_maintenance_id;
+
+  UPDATE public.asset_maintenance
+  SET labor_cost = COALESCE(p_labor_cost, 0),
+      cost = COALESCE(p_labor_cost, 0) + parts_total,
+      status = 'concluída',
+      completed_date = COALESCE(completed_date, CURRENT_DATE)
+  WHERE id = p_maintenance_id;
+
+  RETURN COALESCE(p_labor_cost, 0) + parts_total;
+END;
+$function$;
+
+-- Edit a completed job in one transaction: the details, the labor and,
+-- when p_parts is not null, the consumed parts. Returns the new total cost.
+CREATE OR REPLACE FUNCTION public.edit_completed_maintenance(
+  p_maintenance_id uuid,
+  p_description text,
+  p_maintenance_type text,
+  p_scheduled_date date,
+  p_labor_hours numeric,
+  p_labor_cost numeric,
+  p_parts jsonb
+)
+ RETURNS numeric
+ LANGUAGE plpgsql
+ SECURITY DEFINER
+ SET search_path = public
+AS $function$
+DECLARE
+  maintenance RECORD;
+  total_cost NUMERIC;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT * INTO maintenance
+  FROM public.asset_maintenance
+  WHERE id = p_maintenance_id AND company_id = public.current_user_company_id()
+  FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Maintenance not found';
+  END IF;
+
+  -- Same rule as the update policy
+  IF maintenance.performed_by IS DISTINCT FROM auth.uid()
+     AND COALESCE(public.current_user_role(), 'user') NOT IN ('admin', 'manager') THEN
+    RAISE EXCEPTION 'Permission denied';
+  END IF;
+
+  IF maintenance.status <> 'concluída' THEN
+    RAISE EXCEPTION 'Maintenance not completed';
+  END IF;
+
+  UPDATE public.asset_maintenance
+  SET description = p_description,
+      maintenance_type = p_maintenance_type,
+      scheduled_date = p_scheduled_date,
+      labor_hours = COALESCE(p_labor_hours, 0)
+  WHERE id = p_maintenance_id;
+
+  IF p_parts IS NOT NULL THEN
+    total_cost := public.complete_maintenance(p_maintenance_id, p_labor_cost, p_parts);
+  ELSE
+    SELECT COALESCE(p_labor_cost, 0) + COALESCE(SUM(quantity_used * cost_per_unit), 0) INTO total_cost
+    FROM public.maintenance_parts
+    WHERE maintenance_id = p_maintenance_id;
+
+    UPDATE public.asset_maintenance
+    SET labor_cost = COALESCE(p_labor_cost, 0),
+        cost = total_cost
+    WHERE id = p_maintenance_id;
+  END IF;
+
+  RETURN total_cost;
+END;
+$function$;
@@ -0,0 +1,327 @@
+-- Exchange rates belong to a company: each one keeps its own quotes and only
+-- its admins and managers maintain them. The rates entered so far were
+-- shared by everyone, so every company gets a copy of them.
+ALTER TABLE public.exchange_rates ADD COLUMN company_id UUID REFERENCES public.companies(id) ON DELETE CASCADE;
+ALTER TABLE public.exchange_rates DROP CONSTRAINT exchange_rates_currency_base_currency_rate_date_key;
+
+UPDATE public.exchange_rates
+SET company_id = (SELECT c.id FROM public.companies c ORDER BY c.created_at LIMIT 1);
+
+INSERT INTO public.exchange_rates
+SELECT (jsonb_populate_record(er, jsonb_build_object('id', gen_random_uuid(), 'company_id', co.id))).*
+FROM public.exchange_rates er
+CROSS JOIN public.companies co
+WHERE co.id <> er.company_id;
+
+ALTER TABLE public.exchange_rates
+  ALTER COLUMN company_id SET NOT NULL,
+  ALTER COLUMN company_id SET DEFAULT public.current_user_company_id();
+ALTER TABLE public.exchange_rates
+  ADD CONSTRAINT exchange_rates_company_currency_date_key UNIQUE (company_id, currency, base_currency, rate_date);
+
+DROP INDEX public.idx_exchange_rates_lookup;
+CREATE INDEX idx_exchange_rates_lookup ON public.exchange_rates(company_id, currency, base_currency, rate_date DESC);
+
+DROP POLICY IF EXISTS "Authenticated users can view exchange rates" ON public.exchange_rates;
+DROP POLICY IF EXISTS "Admins and managers can manage exchange rates" ON public.exchange_rates;
+
+CREATE POLICY "Users can view exchange rates from their company"
+ON public.exchange_rates
+FOR SELECT
+USING (company_id = public.current_user_company_id());
+
+CREATE POLICY "Admins and managers can manage exchange rates"
+ON public.exchange_rates
+FOR ALL
+USING (public.current_user_role() IN ('admin', 'manager') AND company_id = public.current_user_company_id())
+WITH CHECK (public.current_user_role() IN ('admin', 'manager') AND company_id = public.current_user_company_id());
+
+-- The rate now depends on whose quotes are read. Not SECURITY DEFINER: a
+-- direct call only sees the caller's company through the policies, while the
+-- ledger functions that use it run as the owner and pass their company.
+DROP FUNCTION public.get_exchange_rate(text, text, date);
+
+CREATE OR REPLACE FUNCTION public.get_exchange_rate(p_company_id uuid, p_currency text, p_base_currency text, p_date date)
+ RETURNS numeric
+ LANGUAGE plpgsql
+ STABLE
+ SET search_path = public
+AS $function$
+DECLARE
+  direct RECORD;
+  inverse RECORD;
+BEGIN
+  IF p_currency = p_base_currency THEN
+    RETURN 1;
+  END IF;
+
+  SELECT rate, rate_date INTO direct
+  FROM public.exchange_rates
+  WHERE company_id = p_company_id
+    AND currency = p_currency AND base_currency = p_base_currency AND rate_date <= p_date
+  ORDER BY rate_date DESC
+  LIMIT 1;
+
+  SELECT rate, rate_date INTO inverse
+  FROM public.exchange_rates
+  WHERE company_id = p_company_id
+    AND currency = p_base_currency AND base_currency = p_currency AND rate_date <= p_date
+  ORDER BY rate_date DESC
+  LIMIT 1;
+
+  IF inverse.rate_date IS NOT NULL AND (direct.rate_date IS NULL OR inverse.rate_date > direct.rate_date) THEN
+    RETURN 1 / inverse.rate;
+  END IF;
+
+  RETURN direct.rate;
+END;
+$function$;
+
+CREATE OR REPLACE FUNCTION public.convert_to_base_currency(p_amount numeric, p_currency text, p_date date)
+ RETURNS numeric
+ LANGUAGE sql
+ STABLE
+ SECURITY DEFINER
+ SET search_path = public
+AS $function$
+  SELECT round(p_amount * public.get_exchange_rate(public.current_user_company_id(), p_currency, public.get_base_currency(), p_date), 2);
+$function$;
+
+-- Period closing converts with the rates of the company closing the period
+CREATE OR REPLACE FUNCTION public.close_depreciation_period(p_period date)
+ RETURNS integer
+ LANGUAGE plpgsql
+ SECURITY DEFINER
+ SET search_path = public
+AS $function$
+DECLARE
+  period_start DATE := date_trunc('month', p_period)::date;
+  last_closed DATE;
+  ledger_currency TEXT := public.get_base_currency();
+  active_company UUID := public.current_user_company_id();
+  asset RECORD;
+  previous RECORD;
+  rate RECORD;
+  historical_rate NUMERIC;
+  opening NUMERIC;
+  book_value NUMERIC;
+  value_before_events NUMERIC;
+  charge NUMERIC;
+  fiscal_accumulated NUMERIC;
+  entry_count INTEGER := 0;
+  total NUMERIC := 0;
+  fiscal_total NUMERIC := 0;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.profiles WHERE user_id = auth.uid() AND role IN ('admin', 'manager')
+  ) THEN
+    RAISE EXCEPTION 'Only administrators and managers can close periods';
+  END IF;
+
+  IF active_company IS NULL THEN
+    RAISE EXCEPTION 'No active company';
+  END IF;
+
+  IF period_start > date_trunc('month', CURRENT_DATE)::date THEN
+    RAISE EXCEPTION 'Cannot close a future period';
+  END IF;
+
+  LOCK TABLE public.depreciation_periods IN EXCLUSIVE MODE;
+
+  SELECT max(period) INTO last_closed FROM public.depreciation_periods WHERE company_id = active_company;
+  IF last_closed IS NOT NULL AND period_start <= last_closed THEN
+    RAISE EXCEPTION 'Period already closed';
+  END IF;
+  IF last_closed IS NOT NULL AND period_start <> (last_closed + interval '1 month')::date THEN
+    RAISE EXCEPTION 'Periods must be closed in order';
+  END IF;
+
+  INSERT INTO public.depreciation_periods (period, company_id, closed_by, base_currency)
+  VALUES (period_start, active_company, auth.uid(), ledger_currency);
+
+  FOR asset IN
+    SELECT a.*, COALESCE(a.depreciation_method, c.depreciation_method, 'straight_line') AS method
+    FROM public.assets a
+    LEFT JOIN public.categories c ON c.id = a.category_id
+    WHERE a.company_id = active_company
+      AND a.deleted_at IS NULL
+      AND a.purchase_date < (period_start + interval '1 month')::date
+      AND NOT EXISTS (
+        SELECT 1 FROM public.asset_disposal d
+        WHERE d.asset_id = a.id AND d.disposal_date < period_start
+      )
+  LOOP
+    historical_rate := public.get_exchange_rate(active_company, asset.currency, ledger_currency, asset.purchase_date);
+    IF historical_rate IS NULL THEN
+      RAISE EXCEPTION 'Missing exchange rate for % on %', asset.currency, asset.purchase_date;
+    END IF;
+
+    SELECT accumulated_depreciation, closing_value, fiscal_accumulated_depreciation INTO previous
+    FROM public.asset_depreciation_entries
+    WHERE asset_id = asset.id
+    ORDER BY period DESC
+    LIMIT 1;
+
+    SELECT * INTO rate FROM public.get_asset_fiscal_rate(asset.id);
+
+    -- An asset entering the ledger late catches up its past depreciation in this period
+    opening := COALESCE(previous.closing_value, asset.purchase_value);
+    book_value := public.asset_book_value_through_period(asset.id, period_start);
+    value_before_events := public.asset_book_value_through_period(asset.id, period_start, period_start);
+    charge := opening - value_before_events;
+    fiscal_accumulated := public.fiscal_depreciation_through_period(
+      asset.purchase_value, rate.annual_rate, asset.purchase_date, period_start
+    );
+
+    INSERT INTO public.asset_depreciation_entries (
+      asset_id, company_id, period, method, opening_value, charge, valuation_adjustment, accumulated_depreciation, closing_value,
+      fiscal_rate, fiscal_charge, fiscal_accumulated_depreciation, currency, exchange_rate
+    )
+    VALUES (
+      asset.id,
+      active_company,
+      period_start,
+      asset.method,
+      opening,
+      charge,
+      book_value - value_before_events,
+      COALESCE(previous.accumulated_depreciation, 0) + charge,
+      book_value,
+      rate.annual_rate,
+      fiscal_accumulated - COALESCE(previous.fiscal_accumulated_depreciation, 0),
+      fiscal_accumulated,
+      asset.currency,
+      historical_rate
+    );
+
+    entry_count := entry_count + 1;
+    total := total + round(charge * historical_rate, 2);
+    fiscal_total := fiscal_total + round((fiscal_accumulated - COALESCE(previous.fiscal_accumulated_depreciation, 0)) * historical_rate, 2);
+  END LOOP;
+
+  UPDATE public.depreciation_periods
+  SET asset_count = entry_count, total_charge = total, total_fiscal_charge = fiscal_total
+  WHERE company_id = active_company AND period = period_start;
+
+  RETURN entry_count;
+END;
+$function$;
+
+-- Parts are priced with the rates of the company that did the job
+CREATE OR REPLACE FUNCTION public.complete_maintenance(p_maintenance_id uuid, p_labor_cost numeric, p_parts jsonb)
+ RETURNS numeric
+ LANGUAGE plpgsql
+ SECURITY DEFINER
+ SET search_path = public
+AS $function$
+DECLARE
+  maintenance RECORD;
+  item RECORD;
+  part RECORD;
+  part_rate NUMERIC;
+  job_unit_cost NUMERIC;
+  requested_quantity INTEGER;
+  quantity_change INTEGER;
+  new_quantity INTEGER;
+  parts_total NUMERIC;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT company_id, currency, COALESCE(completed_date, CURRENT_DATE) AS completed_on INTO maintenance
+  FROM public.asset_maintenance
+  WHERE id = p_maintenance_id AND company_id = public.current_user_company_id()
+  FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Maintenance not found';
+  END IF;
+
+  FOR item IN
+    WITH requested AS (
+      SELECT (value->>'part_id')::uuid AS part_id, SUM((value->>'quantity')::integer) AS quantity
+      FROM jsonb_array_elements(COALESCE(p_parts, '[]'::jsonb))
+      GROUP BY 1
+    ),
+    consumed AS (
+      SELECT part_id, SUM(quantity_used) AS quantity
+      FROM public.maintenance_parts
+      WHERE maintenance_id = p_maintenance_id
+      GROUP BY part_id
+    )
+    SELECT COALESCE(r.part_id, c.part_id) AS part_id,
+           r.part_id IS NOT NULL AS is_requested,
+           r.quantity AS requested,
+           COALESCE(c.quantity, 0) AS consumed
+    FROM requested r
+    FULL JOIN consumed c ON c.part_id = r.part_id
+  LOOP
+    IF item.is_requested AND (item.requested IS NULL OR item.requested <= 0) THEN
+      RAISE EXCEPTION 'Invalid quantity for part %', item.part_id;
+    END IF;
+
+    requested_quantity := COALESCE(item.requested, 0);
+    CONTINUE WHEN requested_quantity = item.consumed;
+    quantity_change := requested_quantity - item.consumed;
+
+    SELECT id, part_number, unit_cost, currency INTO part
+    FROM public.spare_parts
+    WHERE id = item.part_id
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Spare part % not found', item.part_id;
+    END IF;
+
+    UPDATE public.spare_parts
+    SET stock_quantity = stock_quantity - quantity_change
+    WHERE id = item.part_id
+    RETURNING stock_quantity INTO new_quantity;
+
+    IF new_quantity < 0 THEN
+      RAISE EXCEPTION 'Insufficient stock for part %', part.part_number;
+    END IF;
+
+    INSERT INTO public.spare_part_movements (part_id, quantity_change, resulting_quantity, reason, created_by, maintenance_id)
+    VALUES (
+      item.part_id,
+      -quantity_change,
+      new_quantity,
+      CASE WHEN quantity_change > 0 THEN 'Consumo em manutenção' ELSE 'Estorno de consumo em manutenção' END,
+      auth.uid(),
+      p_maintenance_id
+    );
+
+    DELETE FROM public.maintenance_parts
+    WHERE maintenance_id = p_maintenance_id AND part_id = item.part_id;
+
+    IF requested_quantity > 0 THEN
+      part_rate := public.get_exchange_rate(maintenance.company_id, part.currency, maintenance.currency, maintenance.completed_on);
+      IF part_rate IS NULL THEN
+        RAISE EXCEPTION 'Missing exchange rate for % on %', part.currency, maintenance.completed_on;
+      END IF;
+      job_unit_cost := round(part.unit_cost * part_rate, 2);
+
+      INSERT INTO public.maintenance_parts (maintenance_id, part_id, quantity_used, cost_per_unit)
+      VALUES (p_maintenance_id, item.part_id, requested_quantity, job_unit_cost);
+    END IF;
+  END LOOP;
+
+  SELECT COALESCE(SUM(quantity_used * cost_per_unit), 0) INTO parts_total
+  FROM public.maintenance_parts
+  WHERE maintenance_id = p_maintenance_id;
+
+  UPDATE public.asset_maintenance
+  SET labor_cost = COALESCE(p_labor_cost, 0),
+      cost = COALESCE(p_labor_cost, 0) + parts_total,
+      status = 'concluída',
+      completed_date = COALESCE(completed_date, CURRENT_DATE)
+  WHERE id = p_maintenance_id;
+
+  RETURN COALESCE(p_labor_cost, 0) + parts_total;
+END;
+$function$;
@@ -0,0 +1,85 @@
+-- Reconciliation amounts are in each asset's currency. The rows carry the
+-- currency and the rate to the base currency at the purchase date (the one
+-- stored in the ledger once the month is closed), so totals can be converted.
+DROP FUNCTION public.get_depreciation_reconciliation(date);
+
+CREATE OR REPLACE FUNCTION public.get_depreciation_reconciliation(p_period date)
+ RETURNS TABLE (
+   asset_id uuid,
+   code text,
+   name text,
+   category_name text,
+   ncm text,
+   work_shifts smallint,
+   fiscal_rate numeric,
+   fiscal_rate_source text,
+   purchase_value numeric,
+   accounting_charge numeric,
+   fiscal_charge numeric,
+   accounting_accumulated numeric,
+   fiscal_accumulated numeric,
+   difference numeric,
+   is_closed boolean,
+   currency text,
+   exchange_rate numeric
+ )
+ LANGUAGE plpgsql
+ STABLE
+ SECURITY DEFINER
+ SET search_path = public
+AS $function$
+DECLARE
+  period_start DATE := date_trunc('month', p_period)::date;
+  previous_period DATE := (date_trunc('month', p_period) - interval '1 month')::date;
+  ledger_currency TEXT := public.get_base_currency();
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.depreciation_periods p
+    WHERE p.company_id = public.current_user_company_id() AND p.period = period_start
+  ) THEN
+    RETURN QUERY
+    SELECT a.id, a.code, a.name, c.name, a.ncm, a.work_shifts, e.fiscal_rate, r.source, a.purchase_value,
+      e.charge, e.fiscal_charge, e.accumulated_depreciation, e.fiscal_accumulated_depreciation,
+      e.fiscal_accumulated_depreciation - e.accumulated_depreciation, true, e.currency, e.exchange_rate
+    FROM public.asset_depreciation_entries e
+    JOIN public.assets a ON a.id = e.asset_id
+    LEFT JOIN public.categories c ON c.id = a.category_id
+    CROSS JOIN LATERAL public.get_asset_fiscal_rate(a.id) r
+    WHERE e.company_id = public.current_user_company_id() AND e.period = period_start
+    ORDER BY a.code;
+    RETURN;
+  END IF;
+
+  RETURN QUERY
+  SELECT b.id, b.code, b.name, b.category_name, b.ncm, b.work_shifts, b.annual_rate, b.source, b.purchase_value,
+    b.accounting_now - b.accounting_before, b.fiscal_now - b.fiscal_before,
+    b.accounting_now, b.fiscal_now, b.fiscal_now - b.accounting_now, false, b.currency,
+    public.get_exchange_rate(public.current_user_company_id(), b.currency, ledger_currency, b.purchase_date)
+  FROM (
+    SELECT a.id, a.code, a.name, c.name AS category_name, a.ncm, a.work_shifts, r.annual_rate, r.source, a.purchase_value,
+      a.currency, a.purchase_date,
+      public.depreciation_through_period(m.method, a.purchase_value, a.residual_value, a.useful_life_years,
+        a.purchase_date, period_start, a.total_units, a.units_used) AS accounting_now,
+      public.depreciation_through_period(m.method, a.purchase_value, a.residual_value, a.useful_life_years,
+        a.purchase_date, previous_period, a.total_units, a.units_used) AS accounting_before,
+      public.fiscal_depreciation_through_period(a.purchase_value, r.annual_rate, a.purchase_date, period_start) AS fiscal_now,
+      public.fiscal_depreciation_through_period(a.purchase_value, r.annual_rate, a.purchase_date, previous_period) AS fiscal_before
+    FROM public.assets a
+    LEFT JOIN public.categories c ON c.id = a.category_id
+    CROSS JOIN LATERAL (SELECT COALESCE(a.depreciation_method, c.depreciation_method, 'straight_line') AS method) m
+    CROSS JOIN LATERAL public.get_asset_fiscal_rate(a.id) r
+    WHERE a.company_id = public.current_user_company_id()
+      AND a.deleted_at IS NULL
+      AND a.purchase_date < (period_start + interval '1 month')::date
+      AND NOT EXISTS (
+        SELECT 1 FROM public.asset_disposal d
+        WHERE d.asset_id = a.id AND d.disposal_date < period_start
+      )
+  ) b
+  ORDER BY b.code;
+END;
+$function$;
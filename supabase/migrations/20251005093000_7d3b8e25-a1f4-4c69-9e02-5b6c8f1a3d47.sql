@@ -0,0 +1,191 @@
+-- Import batches belong to the company they were loaded into: only its
+-- users see them, and a batch only takes rows while that company is active.
+-- Past batches take the company of their assets, else of whoever loaded them.
+ALTER TABLE public.asset_imports ADD COLUMN company_id UUID REFERENCES public.companies(id) ON DELETE CASCADE;
+
+UPDATE public.asset_imports i
+SET company_id = COALESCE(
+  (SELECT a.company_id FROM public.assets a WHERE a.import_id = i.id LIMIT 1),
+  (SELECT p.company_id FROM public.profiles p WHERE p.user_id = i.created_by),
+  (SELECT c.id FROM public.companies c ORDER BY c.created_at LIMIT 1)
+);
+
+ALTER TABLE public.asset_imports
+  ALTER COLUMN company_id SET NOT NULL;
+
+CREATE INDEX idx_asset_imports_company_id ON public.asset_imports(company_id);
+
+DROP POLICY IF EXISTS "Authenticated users can view asset imports" ON public.asset_imports;
+
+CREATE POLICY "Users can view asset imports from their company"
+ON public.asset_imports
+FOR SELECT
+USING (company_id = public.current_user_company_id());
+
+CREATE OR REPLACE FUNCTION public.start_asset_import(p_file_name text, p_total_rows integer, p_mode text DEFAULT 'create')
+ RETURNS uuid
+ LANGUAGE plpgsql
+ SECURITY DEFINER
+ SET search_path = public
+AS $function$
+DECLARE
+  new_import_id UUID;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF public.current_user_company_id() IS NULL THEN
+    RAISE EXCEPTION 'No active company';
+  END IF;
+
+  INSERT INTO public.asset_imports (file_name, total_rows, mode, company_id, created_by)
+  VALUES (p_file_name, p_total_rows, p_mode, public.current_user_company_id(), auth.uid())
+  RETURNING id INTO new_import_id;
+
+  RETURN new_import_id;
+END;
+$function$;
+
+CREATE OR REPLACE FUNCTION public.import_assets(p_import_id uuid, p_rows jsonb)
+ RETURNS integer
+ LANGUAGE plpgsql
+ SECURITY DEFINER
+ SET search_path = public
+AS $function$
+DECLARE
+  inserted_count INTEGER;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.asset_imports
+    WHERE id = p_import_id AND created_by = auth.uid() AND company_id = public.current_user_company_id()
+  ) THEN
+    RAISE EXCEPTION 'Import not found';
+  END IF;
+
+  PERFORM set_config('app.audit_action', 'imported', true);
+
+  INSERT INTO public.assets (
+    name, code, serial_number, description, category_id, department_id, unit_id,
+    purchase_value, currency, purchase_date, residual_value, useful_life_years,
+    depreciation_method, total_units, units_used, ncm, work_shifts, status,
+    current_location, rfid_id, created_by, import_id
+  )
+  SELECT
+    row_data.name,
+    row_data.code,
+    row_data.serial_number,
+    row_data.description,
+    row_data.category_id,
+    row_data.department_id,
+    row_data.unit_id,
+    row_data.purchase_value,
+    COALESCE(row_data.currency, 'BRL'),
+    row_data.purchase_date,
+    COALESCE(row_data.residual_value, 0),
+    COALESCE(row_data.useful_life_years, 5),
+    row_data.depreciation_method,
+    row_data.total_units,
+    COALESCE(row_data.units_used, 0),
+    row_data.ncm,
+    COALESCE(row_data.work_shifts, 1),
+    COALESCE(row_data.status, 'active'),
+    row_data.current_location,
+    row_data.rfid_id,
+    auth.uid(),
+    p_import_id
+  FROM jsonb_populate_recordset(NULL::public.assets, p_rows) AS row_data;
+
+  GET DIAGNOSTICS inserted_count = ROW_COUNT;
+
+  UPDATE public.asset_imports
+  SET imported_rows = imported_rows + inserted_count
+  WHERE id = p_import_id;
+
+  PERFORM set_config('app.audit_action', '', true);
+
+  RETURN inserted_count;
+END;
+$function$;
+
+CREATE OR REPLACE FUNCTION public.import_asset_updates(p_import_id uuid, p_rows jsonb)
+ RETURNS integer
+ LANGUAGE plpgsql
+ SECURITY DEFINER
+ SET search_path = public
+AS $function$
+DECLARE
+  change JSONB;
+  asset public.assets;
+  target public.assets;
+  updated_count INTEGER := 0;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.asset_imports
+    WHERE id = p_import_id AND created_by = auth.uid() AND mode = 'update'
+      AND company_id = public.current_user_company_id()
+  ) THEN
+    RAISE EXCEPTION 'Import not found';
+  END IF;
+
+  PERFORM set_config('app.audit_action', 'import_updated', true);
+
+  FOR change IN SELECT * FROM jsonb_array_elements(p_rows) LOOP
+    -- Same visibility as the assets policies: the active company
+    SELECT * INTO asset FROM public.assets
+    WHERE id = (change->>'id')::uuid
+      AND company_id = public.current_user_company_id()
+    FOR UPDATE;
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Asset not found';
+    END IF;
+
+    IF asset.status = 'disposed' OR asset.deleted_at IS NOT NULL THEN
+      RAISE EXCEPTION 'Disposed or archived assets cannot be updated by import';
+    END IF;
+
+    target := jsonb_populate_record(asset, change - 'id');
+
+    UPDATE public.assets
+    SET name = target.name,
+        code = target.code,
+        serial_number = target.serial_number,
+        description = target.description,
+        category_id = target.category_id,
+        department_id = target.department_id,
+        unit_id = target.unit_id,
+        purchase_value = target.purchase_value,
+        currency = target.currency,
+        purchase_date = target.purchase_date,
+        residual_value = target.residual_value,
+        useful_life_years = target.useful_life_years,
+        depreciation_method = target.depreciation_method,
+        total_units = target.total_units,
+        units_used = target.units_used,
+        ncm = target.ncm,
+        work_shifts = target.work_shifts,
+        status = target.status,
+        current_location = target.current_location,
+        rfid_id = target.rfid_id
+    WHERE id = asset.id;
+
+    updated_count := updated_count + 1;
+  END LOOP;
+
+  UPDATE public.asset_imports
+  SET imported_rows = imported_rows + updated_count
+  WHERE id = p_import_id;
+
+  PERFORM set_config('app.audit_action', '', true);
+
+  RETURN updated_count;
+END;
+$function$;
@@ -0,0 +1,69 @@
+-- The disposal certificate is listed among the asset's documents in the same
+-- transaction as the disposal, so neither is recorded without the other
+DROP FUNCTION public.dispose_asset(uuid, date, text, text, numeric, text, boolean, text);
+
+CREATE OR REPLACE FUNCTION public.dispose_asset(
+  p_asset_id uuid,
+  p_disposal_date date,
+  p_disposal_method text,
+  p_disposal_reason text,
+  p_sale_value numeric,
+  p_buyer_info text,
+  p_environmental_compliance boolean,
+  p_certificate_url text,
+  p_certificate_name text DEFAULT NULL,
+  p_certificate_size integer DEFAULT NULL,
+  p_certificate_mime_type text DEFAULT NULL
+)
+ RETURNS numeric
+ LANGUAGE plpgsql
+ SECURITY DEFINER
+ SET search_path = public
+AS $function$
+DECLARE
+  asset RECORD;
+  book_value NUMERIC;
+  gain_loss NUMERIC;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT * INTO asset FROM public.assets WHERE id = p_asset_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Asset not found';
+  END IF;
+
+  IF asset.status = 'disposed' THEN
+    RAISE EXCEPTION 'Asset already disposed';
+  END IF;
+
+  IF p_disposal_date < asset.purchase_date THEN
+    RAISE EXCEPTION 'Disposal date before purchase date';
+  END IF;
+
+  book_value := public.calculate_asset_book_value(p_asset_id, p_disposal_date);
+  gain_loss := COALESCE(p_sale_value, 0) - book_value;
+
+  INSERT INTO public.asset_disposal (
+    asset_id, disposal_date, disposal_method, disposal_reason, sale_value, buyer_info,
+    environmental_compliance, certificate_url, book_value, gain_loss, disposed_by
+  )
+  VALUES (
+    p_asset_id, p_disposal_date, p_disposal_method, p_disposal_reason, COALESCE(p_sale_value, 0), p_buyer_info,
+    COALESCE(p_environmental_compliance, false), p_certificate_url, book_value, gain_loss, auth.uid()
+  );
+
+  IF p_certificate_url IS NOT NULL THEN
+    INSERT INTO public.documents (asset_id, name, type, file_url, file_size, mime_type, uploaded_by)
+    VALUES (
+      p_asset_id, COALESCE(p_certificate_name, 'Certificado de baixa'), 'other', p_certificate_url,
+      p_certificate_size, p_certificate_mime_type, auth.uid()
+    );
+  END IF;
+
+  UPDATE public.assets SET status = 'disposed' WHERE id = p_asset_id;
+
+  RETURN gain_loss;
+END;
+$function$;
@@ -0,0 +1,45 @@
+-- A new part and its opening stock movement are created in one transaction,
+-- so a part never exists without the movement that explains its stock
+CREATE OR REPLACE FUNCTION public.create_spare_part(p_part jsonb, p_initial_stock integer)
+ RETURNS uuid
+ LANGUAGE plpgsql
+ SECURITY DEFINER
+ SET search_path = public
+AS $function$
+DECLARE
+  part public.spare_parts;
+  new_part_id UUID;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  -- Same rule as the spare parts policy
+  IF COALESCE(public.current_user_role(), 'user') NOT IN ('admin', 'manager') THEN
+    RAISE EXCEPTION 'Permission denied';
+  END IF;
+
+  IF COALESCE(p_initial_stock, 0) < 0 THEN
+    RAISE EXCEPTION 'Initial stock cannot be negative';
+  END IF;
+
+  part := jsonb_populate_record(NULL::public.spare_parts, p_part);
+
+  INSERT INTO public.spare_parts (
+    name, part_number, description, unit_cost, currency, supplier,
+    min_stock_level, reorder_quantity, company_id
+  )
+  VALUES (
+    part.name, part.part_number, part.description, COALESCE(part.unit_cost, 0), COALESCE(part.currency, 'BRL'),
+    part.supplier, COALESCE(part.min_stock_level, 0), COALESCE(part.reorder_quantity, 0),
+    public.current_user_company_id()
+  )
+  RETURNING id INTO new_part_id;
+
+  IF p_initial_stock > 0 THEN
+    PERFORM public.adjust_spare_part_stock(new_part_id, p_initial_stock, 'Estoque inicial');
+  END IF;
+
+  RETURN new_part_id;
+END;
+$function$;
@@ -0,0 +1,46 @@
+-- A caller without an active membership has no role; NULL NOT IN (...) is
+-- NULL, so the role check has to default to 'user' or it lets them through
+CREATE OR REPLACE FUNCTION public.adjust_spare_part_stock(p_part_id uuid, p_quantity_change integer, p_reason text)
+ RETURNS integer
+ LANGUAGE plpgsql
+ SECURITY DEFINER
+ SET search_path = public
+AS $function$
+DECLARE
+  new_quantity INTEGER;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF COALESCE(public.current_user_role(), 'user') NOT IN ('admin', 'manager') THEN
+    RAISE EXCEPTION 'Permission denied';
+  END IF;
+
+  IF p_quantity_change IS NULL OR p_quantity_change = 0 THEN
+    RAISE EXCEPTION 'Quantity change must be different from zero';
+  END IF;
+
+  IF p_reason IS NULL OR length(trim(p_reason)) = 0 THEN
+    RAISE EXCEPTION 'A reason is required for stock adjustments';
+  END IF;
+
+  -- Row lock prevents concurrent adjustments from reading a stale quantity
+  UPDATE public.spare_parts
+  SET stock_quantity = stock_quantity + p_quantity_change
+  WHERE id = p_part_id
+  RETURNING stock_quantity INTO new_quantity;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Spare part not found';
+  END IF;
+
+  IF new_quantity < 0 THEN
+    RAISE EXCEPTION 'Insufficient stock for this adjustment';
+  END IF;
+
+  INSERT INTO public.spare_part_movements (part_id, quantity_change, resulting_quantity, reason, created_by)
+  VALUES (p_part_id, p_quantity_change, new_quantity, trim(p_reason), auth.uid());
+
+  RETURN new_quantity;
+END;
@@ -0,0 +1,238 @@
+-- Role checks follow the membership of the active company, like the
+-- policies, instead of the role copied on the profile
+
+CREATE OR REPLACE FUNCTION public.close_depreciation_period(p_period date)
+ RETURNS integer
+ LANGUAGE plpgsql
+ SECURITY DEFINER
+ SET search_path = public
+AS $function$
+DECLARE
+  period_start DATE := date_trunc('month', p_period)::date;
+  last_closed DATE;
+  ledger_currency TEXT := public.get_base_currency();
+  active_company UUID := public.current_user_company_id();
+  asset RECORD;
+  previous RECORD;
+  rate RECORD;
+  historical_rate NUMERIC;
+  opening NUMERIC;
+  book_value NUMERIC;
+  value_before_events NUMERIC;
+  charge NUMERIC;
+  fiscal_accumulated NUMERIC;
+  entry_count INTEGER := 0;
+  total NUMERIC := 0;
+  fiscal_total NUMERIC := 0;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF COALESCE(public.current_user_role(), 'user') NOT IN ('admin', 'manager') THEN
+    RAISE EXCEPTION 'Only administrators and managers can close periods';
+  END IF;
+
+  IF active_company IS NULL THEN
+    RAISE EXCEPTION 'No active company';
+  END IF;
+
+  IF period_start > date_trunc('month', CURRENT_DATE)::date THEN
+    RAISE EXCEPTION 'Cannot close a future period';
+  END IF;
+
+  LOCK TABLE public.depreciation_periods IN EXCLUSIVE MODE;
+
+  SELECT max(period) INTO last_closed FROM public.depreciation_periods WHERE company_id = active_company;
+  IF last_closed IS NOT NULL AND period_start <= last_closed THEN
+    RAISE EXCEPTION 'Period already closed';
+  END IF;
+  IF last_closed IS NOT NULL AND period_start <> (last_closed + interval '1 month')::date THEN
+    RAISE EXCEPTION 'Periods must be closed in order';
+  END IF;
+
+  INSERT INTO public.depreciation_periods (period, company_id, closed_by, base_currency)
+  VALUES (period_start, active_company, auth.uid(), ledger_currency);
+
+  FOR asset IN
+    SELECT a.*, COALESCE(a.depreciation_method, c.depreciation_method, 'straight_line') AS method
+    FROM public.assets a
+    LEFT JOIN public.categories c ON c.id = a.category_id
+    WHERE a.company_id = active_company
+      AND a.deleted_at IS NULL
+      AND a.purchase_date < (period_start + interval '1 month')::date
+      AND NOT EXISTS (
+        SELECT 1 FROM public.asset_disposal d
+        WHERE d.asset_id = a.id AND d.disposal_date < period_start
+      )
+  LOOP
+    historical_rate := public.get_exchange_rate(active_company, asset.currency, ledger_currency, asset.purchase_date);
+    IF historical_rate IS NULL THEN
+      RAISE EXCEPTION 'Missing exchange rate for % on %', asset.currency, asset.purchase_date;
+    END IF;
+
+    SELECT accumulated_depreciation, closing_value, fiscal_accumulated_depreciation INTO previous
+    FROM public.asset_depreciation_entries
+    WHERE asset_id = asset.id
+    ORDER BY period DESC
+    LIMIT 1;
+
+    SELECT * INTO rate FROM public.get_asset_fiscal_rate(asset.id);
+
+    -- An asset entering the ledger late catches up its past depreciation in this period
+    opening := COALESCE(previous.closing_value, asset.purchase_value);
+    book_value := public.asset_book_value_through_period(asset.id, period_start);
+    value_before_events := public.asset_book_value_through_period(asset.id, period_start, period_start);
+    charge := opening - value_before_events;
+    fiscal_accumulated := public.fiscal_depreciation_through_period(
+      asset.purchase_value, rate.annual_rate, asset.purchase_date, period_start
+    );
+
+    INSERT INTO public.asset_depreciation_entries (
+      asset_id, company_id, period, method, opening_value, charge, valuation_adjustment, accumulated_depreciation, closing_value,
+      fiscal_rate, fiscal_charge, fiscal_accumulated_depreciation, currency, exchange_rate
+    )
+    VALUES (
+      asset.id,
+      active_company,
+      period_start,
+      asset.method,
+      opening,
+      charge,
+      book_value - value_before_events,
+      COALESCE(previous.accumulated_depreciation, 0) + charge,
+      book_value,
+      rate.annual_rate,
+      fiscal_accumulated - COALESCE(previous.fiscal_accumulated_depreciation, 0),
+      fiscal_accumulated,
+      asset.currency,
+      historical_rate
+    );
+
+    entry_count := entry_count + 1;
+    total := total + round(charge * historical_rate, 2);
+    fiscal_total := fiscal_total + round((fiscal_accumulated - COALESCE(previous.fiscal_accumulated_depreciation, 0)) * historical_rate, 2);
+  END LOOP;
+
+  UPDATE public.depreciation_periods
+  SET asset_count = entry_count, total_charge = total, total_fiscal_charge = fiscal_total
+  WHERE company_id = active_company AND period = period_start;
+
+  RETURN entry_count;
+END;
+$function$;
+
+CREATE OR REPLACE FUNCTION public.reopen_depreciation_period(p_period date)
+ RETURNS void
+ LANGUAGE plpgsql
+ SECURITY DEFINER
+ SET search_path = public
+AS $function$
+DECLARE
+  period_start DATE := date_trunc('month', p_period)::date;
+  active_company UUID := public.current_user_company_id();
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF COALESCE(public.current_user_role(), 'user') <> 'admin' THEN
+    RAISE EXCEPTION 'Only administrators can reopen periods';
+  END IF;
+
+  LOCK TABLE public.depreciation_periods IN EXCLUSIVE MODE;
+
+  IF period_start IS DISTINCT FROM (
+    SELECT max(period) FROM public.depreciation_periods WHERE company_id = active_company
+  ) THEN
+    RAISE EXCEPTION 'Only the latest closed period can be reopened';
+  END IF;
+
+  -- Entries go with the period through the foreign key
+  DELETE FROM public.depreciation_periods WHERE company_id = active_company AND period = period_start;
+END;
+$function$;
+
+CREATE OR REPLACE FUNCTION public.record_valuation_event(
+  p_asset_id uuid,
+  p_event_type text,
+  p_event_date date,
+  p_new_book_value numeric,
+  p_remaining_useful_life_years integer,
+  p_justification text,
+  p_document_id uuid DEFAULT NULL
+)
+ RETURNS uuid
+ LANGUAGE plpgsql
+ SECURITY DEFINER
+ SET search_path = public
+AS $function$
+DECLARE
+  asset RECORD;
+  previous_value NUMERIC;
+  event_id UUID;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF COALESCE(public.current_user_role(), 'user') NOT IN ('admin', 'manager') THEN
+    RAISE EXCEPTION 'Only administrators and managers can record valuation events';
+  END IF;
+
+  SELECT * INTO asset FROM public.assets
+  WHERE id = p_asset_id AND company_id = public.current_user_company_id()
+  FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Asset not found';
+  END IF;
+
+  IF asset.status = 'disposed' OR asset.deleted_at IS NOT NULL THEN
+    RAISE EXCEPTION 'Asset is not in service';
+  END IF;
+
+  IF p_event_type NOT IN ('revaluation', 'impairment') THEN
+    RAISE EXCEPTION 'Invalid event type';
+  END IF;
+
+  IF p_justification IS NULL OR length(trim(p_justification)) = 0 THEN
+    RAISE EXCEPTION 'A justification is required';
+  END IF;
+
+  IF p_event_date < asset.purchase_date OR p_event_date > CURRENT_DATE THEN
+    RAISE EXCEPTION 'Event date out of range';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.asset_valuation_events
+    WHERE asset_id = p_asset_id AND event_date >= p_event_date
+  ) THEN
+    RAISE EXCEPTION 'Event date must be after the latest event';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.depreciation_periods
+    WHERE company_id = asset.company_id AND period >= date_trunc('month', p_event_date)::date
+  ) THEN
+    RAISE EXCEPTION 'Event date falls in a closed period';
+  END IF;
+
+  previous_value := round(public.calculate_asset_book_value(p_asset_id, p_event_date), 2);
+
+  IF p_event_type = 'impairment' AND p_new_book_value >= previous_value THEN
+    RAISE EXCEPTION 'Impairment must reduce the carrying amount';
+  END IF;
+
+  INSERT INTO public.asset_valuation_events (
+    asset_id, event_type, event_date, previous_book_value, new_book_value,
+    remaining_useful_life_years, units_used_at_event, justification, document_id, created_by
+  )
+  VALUES (
+    p_asset_id, p_event_type, p_event_date, previous_value, p_new_book_value,
+    p_remaining_useful_life_years, asset.units_used, trim(p_justification), p_document_id, auth.uid()
+  )
+  RETURNING id INTO event_id;
+
+  RETURN event_id;
+END;
+$function$;
@@ -0,0 +1,117 @@
+-- The valuation helpers are SECURITY DEFINER, so they only answer for assets
+-- of the caller's active company. Service role calls, which have no
+-- signed-in user, keep reading any asset.
+
+CREATE OR REPLACE FUNCTION public.calculate_asset_depreciation(p_asset_id uuid, p_as_of date DEFAULT CURRENT_DATE)
+ RETURNS numeric
+ LANGUAGE sql
+ STABLE
+ SECURITY DEFINER
+ SET search_path = public
+AS $function$
+  SELECT public.depreciation_amount(
+    COALESCE(a.depreciation_method, c.depreciation_method),
+    a.purchase_value,
+    a.residual_value,
+    a.useful_life_years,
+    a.purchase_date,
+    p_as_of,
+    a.total_units,
+    a.units_used
+  )
+  FROM public.assets a
+  LEFT JOIN public.categories c ON c.id = a.category_id
+  WHERE a.id = p_asset_id
+    AND (auth.uid() IS NULL OR a.company_id = public.current_user_company_id());
+$function$;
+
+CREATE OR REPLACE FUNCTION public.calculate_asset_book_value(p_asset_id uuid, p_as_of date DEFAULT CURRENT_DATE)
+ RETURNS numeric
+ LANGUAGE plpgsql
+ STABLE
+ SECURITY DEFINER
+ SET search_path = public
+AS $function$
+DECLARE
+  asset RECORD;
+  valuation RECORD;
+BEGIN
+  SELECT a.*, COALESCE(a.depreciation_method, c.depreciation_method, 'straight_line') AS method INTO asset
+  FROM public.assets a
+  LEFT JOIN public.categories c ON c.id = a.category_id
+  WHERE a.id = p_asset_id
+    AND (auth.uid() IS NULL OR a.company_id = public.current_user_company_id());
+
+  IF NOT FOUND THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT * INTO valuation
+  FROM public.asset_valuation_events
+  WHERE asset_id = p_asset_id AND event_date <= p_as_of
+  ORDER BY event_date DESC
+  LIMIT 1;
+
+  IF NOT FOUND THEN
+    RETURN asset.purchase_value - public.depreciation_amount(
+      asset.method, asset.purchase_value, asset.residual_value, asset.useful_life_years,
+      asset.purchase_date, p_as_of, asset.total_units, asset.units_used
+    );
+  END IF;
+
+  RETURN valuation.new_book_value - public.depreciation_for_years(
+    asset.method, valuation.new_book_value, asset.residual_value, valuation.remaining_useful_life_years,
+    (p_as_of - valuation.event_date) / 365.25,
+    asset.total_units - valuation.units_used_at_event, asset.units_used - valuation.units_used_at_event
+  );
+END;
+$function$;
+
+CREATE OR REPLACE FUNCTION public.asset_book_value_through_period(
+  p_asset_id uuid,
+  p_period date,
+  p_events_before date DEFAULT NULL
+)
+ RETURNS numeric
+ LANGUAGE plpgsql
+ STABLE
+ SECURITY DEFINER
+ SET search_path = public
+AS $function$
+DECLARE
+  asset RECORD;
+  valuation RECORD;
+BEGIN
+  SELECT a.*, COALESCE(a.depreciation_method, c.depreciation_method, 'straight_line') AS method INTO asset
+  FROM public.assets a
+  LEFT JOIN public.categories c ON c.id = a.category_id
+  WHERE a.id = p_asset_id
+    AND (auth.uid() IS NULL OR a.company_id = public.current_user_company_id());
+
+  IF NOT FOUND THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT * INTO valuation
+  FROM public.asset_valuation_events
+  WHERE asset_id = p_asset_id
+    AND event_date < (date_trunc('month', p_period) + interval '1 month')::date
+    AND (p_events_before IS NULL OR event_date < p_events_before)
+  ORDER BY event_date DESC
+  LIMIT 1;
+
+  IF NOT FOUND THEN
+    RETURN asset.purchase_value - public.depreciation_through_period(
+      asset.method, asset.purchase_value, asset.residual_value, asset.useful_life_years,
+      asset.purchase_date, p_period, asset.total_units, asset.units_used
+    );
+  END IF;
+
+  RETURN valuation.new_book_value - round(public.depreciation_for_years(
+    asset.method, valuation.new_book_value, asset.residual_value, valuation.remaining_useful_life_years,
+    GREATEST(0, (extract(year FROM p_period) - extract(year FROM valuation.event_date)) * 12
+      + extract(month FROM p_period) - extract(month FROM valuation.event_date)) / 12.0,
+    asset.total_units - valuation.units_used_at_event, asset.units_used - valuation.units_used_at_event
+  ), 2);
+END;
+$function$;
@@ -0,0 +1,52 @@
+-- Accounts that already belong to another company can be invited too; they
+-- keep their name unless they typed a new one on the accept page
+CREATE OR REPLACE FUNCTION public.accept_invitation(p_full_name text)
+ RETURNS uuid
+ LANGUAGE plpgsql
+ SECURITY DEFINER
+ SET search_path = public
+AS $function$
+DECLARE
+  invitation public.user_invitations;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT * INTO invitation FROM public.user_invitations
+  WHERE user_id = auth.uid() AND accepted_at IS NULL AND revoked_at IS NULL
+  ORDER BY created_at DESC
+  LIMIT 1
+  FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Invitation not found';
+  END IF;
+
+  PERFORM set_config('app.invitation_accept', 'on', true);
+
+  -- The sign-in may already have created an empty profile
+  INSERT INTO public.profiles (user_id, full_name, company_id, role, department_id, unit_id)
+  VALUES (
+    auth.uid(),
+    COALESCE(NULLIF(trim(p_full_name), ''), invitation.full_name),
+    invitation.company_id,
+    invitation.role,
+    invitation.department_id,
+    invitation.unit_id
+  )
+  ON CONFLICT (user_id) DO UPDATE
+  SET full_name = COALESCE(EXCLUDED.full_name, profiles.full_name),
+      company_id = EXCLUDED.company_id,
+      role = EXCLUDED.role,
+      department_id = EXCLUDED.department_id,
+      unit_id = EXCLUDED.unit_id;
+
+  PERFORM set_config('app.invitation_accept', '', true);
+
+  UPDATE public.user_invitations
+  SET accepted_at = now()
+  WHERE id = invitation.id;
+
+  RETURN invitation.company_id;
+END;
+$function$;
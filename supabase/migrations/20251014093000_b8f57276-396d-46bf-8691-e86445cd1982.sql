@@ -0,0 +1,45 @@
+-- Maintenance and documents of archived assets are left out like the assets
+-- themselves, so a result never opens an asset the list hides
+CREATE OR REPLACE FUNCTION public.global_search(p_query text, p_limit integer DEFAULT 8)
+ RETURNS TABLE(result_type text, record_id uuid, asset_id uuid, title text, subtitle text, rank real)
+ LANGUAGE plpgsql
+ STABLE
+ SET search_path = public
+AS $function$
+DECLARE
+  search_query tsquery := public.prefix_tsquery(p_query);
+BEGIN
+  IF search_query IS NULL OR numnode(search_query) = 0 THEN
+    RETURN;
+  END IF;
+
+  RETURN QUERY
+  (
+    SELECT 'asset'::text, a.id, a.id, a.name, a.code, ts_rank(a.search_vector, search_query)
+    FROM public.assets a
+    WHERE a.search_vector @@ search_query AND a.deleted_at IS NULL
+    ORDER BY 6 DESC
+    LIMIT p_limit
+  )
+  UNION ALL
+  (
+    SELECT 'maintenance'::text, m.id, m.asset_id, m.description, a.code || ' - ' || a.name,
+      ts_rank(m.search_vector, search_query)
+    FROM public.asset_maintenance m
+    JOIN public.assets a ON a.id = m.asset_id
+    WHERE m.search_vector @@ search_query AND a.deleted_at IS NULL
+    ORDER BY 6 DESC
+    LIMIT p_limit
+  )
+  UNION ALL
+  (
+    SELECT 'document'::text, d.id, d.asset_id, d.name, a.code || ' - ' || a.name,
+      ts_rank(d.search_vector, search_query)
+    FROM public.documents d
+    JOIN public.assets a ON a.id = d.asset_id
+    WHERE d.search_vector @@ search_query AND a.deleted_at IS NULL
+    ORDER BY 6 DESC
+    LIMIT p_limit
+  );
+END;
+$function$;
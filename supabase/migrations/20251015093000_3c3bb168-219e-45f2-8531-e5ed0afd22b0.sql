@@ -0,0 +1,11 @@
+-- Invitations now also go to accounts that already exist. Only an account the
+-- invitation itself created may be removed when it is revoked, and only its
+-- invitee still has to choose a password on the accept page.
+ALTER TABLE public.user_invitations ADD COLUMN created_account BOOLEAN NOT NULL DEFAULT false;
+
+-- Until now an invited account that never signed in could only come from the invitation
+UPDATE public.user_invitations i
+SET created_account = true
+FROM auth.users u
+WHERE u.id = i.user_id
+  AND u.last_sign_in_at IS NULL;
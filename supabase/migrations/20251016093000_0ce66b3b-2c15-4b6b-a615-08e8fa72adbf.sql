@@ -0,0 +1,72 @@
+-- Declining balance switches to straight-line once that charges more, so the
+-- residual value is reached at the end of the useful life. Mirrors src/lib/depreciation.ts.
+CREATE OR REPLACE FUNCTION public.depreciation_for_years(
+  p_method text,
+  p_purchase_value numeric,
+  p_residual_value numeric,
+  p_useful_life_years integer,
+  p_years numeric,
+  p_total_units numeric DEFAULT NULL,
+  p_units_used numeric DEFAULT 0
+)
+ RETURNS numeric
+ LANGUAGE plpgsql
+ IMMUTABLE
+ SET search_path = public
+AS $function$
+DECLARE
+  residual NUMERIC := COALESCE(p_residual_value, 0);
+  depreciable NUMERIC := GREATEST(0, p_purchase_value - residual);
+  years NUMERIC := GREATEST(0, p_years);
+  rate NUMERIC;
+  digits NUMERIC;
+  full_years INTEGER;
+  fraction NUMERIC;
+  depreciation NUMERIC;
+  book_value NUMERIC;
+BEGIN
+  IF depreciable = 0 OR COALESCE(p_useful_life_years, 0) = 0 THEN
+    RETURN 0;
+  END IF;
+
+  CASE COALESCE(p_method, 'straight_line')
+    WHEN 'declining_balance' THEN
+      -- Double-declining balance, switching to straight-line over the remaining life
+      -- once that charges more; the year in progress takes its share of that year's charge
+      rate := LEAST(2.0 / p_useful_life_years, 1);
+      full_years := LEAST(floor(years)::integer, p_useful_life_years);
+      book_value := p_purchase_value;
+      FOR life_year IN 0 .. full_years - 1 LOOP
+        book_value := book_value - LEAST(
+          GREATEST(book_value * rate, (book_value - residual) / (p_useful_life_years - life_year)),
+          book_value - residual
+        );
+      END LOOP;
+      IF full_years < p_useful_life_years THEN
+        book_value := book_value - (years - full_years) * LEAST(
+          GREATEST(book_value * rate, (book_value - residual) / (p_useful_life_years - full_years)),
+          book_value - residual
+        );
+      END IF;
+      depreciation := p_purchase_value - book_value;
+    WHEN 'sum_of_years_digits' THEN
+      digits := p_useful_life_years * (p_useful_life_years + 1) / 2.0;
+      full_years := LEAST(floor(years)::integer, p_useful_life_years);
+      fraction := CASE WHEN years >= p_useful_life_years THEN 0 ELSE years - full_years END;
+      depreciation := depreciable * (full_years * p_useful_life_years - full_years * (full_years - 1) / 2.0
+        + fraction * (p_useful_life_years - full_years)) / digits;
+    WHEN 'units_of_production' THEN
+      -- The units stored on the asset count for every date; there is no history of readings.
+      -- Without an expected total of units there is nothing to spread, fall back to straight-line
+      IF COALESCE(p_total_units, 0) > 0 THEN
+        depreciation := depreciable * LEAST(COALESCE(p_units_used, 0) / p_total_units, 1);
+      ELSE
+        depreciation := depreciable * LEAST(years, p_useful_life_years) / p_useful_life_years;
+      END IF;
+    ELSE
+      depreciation := depreciable * LEAST(years, p_useful_life_years) / p_useful_life_years;
+  END CASE;
+
+  RETURN LEAST(GREATEST(0, depreciation), depreciable);
+END;
+$function$;